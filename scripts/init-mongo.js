@@ -49,8 +49,23 @@ db.createCollection('access_counter', {
   validator: {
     $jsonSchema: {
       bsonType: 'object',
-      required: ['count', 'lastUpdated'],
+      required: ['key', 'namespace', 'shard', 'count', 'lastUpdated'],
       properties: {
+        key: {
+          bsonType: 'string',
+          pattern: '^[a-z0-9][a-z0-9._-]{0,63}$',
+          description: 'Chave única do contador'
+        },
+        namespace: {
+          bsonType: 'string',
+          pattern: '^[a-z0-9][a-z0-9._-]{0,63}$',
+          description: 'Namespace do contador'
+        },
+        shard: {
+          bsonType: ['int', 'long', 'double'],
+          minimum: 0,
+          description: 'Índice do shard (0 = shard principal com os metadados)'
+        },
         count: {
           bsonType: 'number',
           minimum: 0,
@@ -72,14 +87,20 @@ db.users.createIndex({ email: 1 }, { unique: true });
 // Índice para busca por data de criação
 db.users.createIndex({ createdAt: -1 });
 
+// Índices dos contadores: chave/shard únicos e listagem por namespace
+db.access_counter.createIndex({ key: 1, shard: 1 }, { unique: true });
+db.access_counter.createIndex({ namespace: 1, key: 1 });
+
 // Índice para última atualização do contador
 db.access_counter.createIndex({ lastUpdated: -1 });
 
-// Insere contador inicial se não existir
+// Insere contador padrão se não existir
 db.access_counter.updateOne(
-  {},
+  { key: 'default', shard: 0 },
   {
     $setOnInsert: {
+      namespace: 'default',
+      shards: 1,
       count: 0,
       lastUpdated: new Date(),
       createdAt: new Date()
@@ -7,7 +7,11 @@ import swaggerUi from 'swagger-ui-express';
 // Importações internas
 import { config, validateEnvironment } from './config/environment';
 import { database } from './config/database';
+import { runMigrations } from './config/migrations';
 import { setupRoutes } from './routes';
+import { startBackgroundJobs, stopBackgroundJobs } from './jobs';
+import { AccessCounterBuffer, RealtimeService } from './services';
+import { WebSocketGateway } from './realtime';
 import {
   corsConfig,
   helmetConfig,
@@ -51,16 +55,19 @@ export class App {
       // 2. Conectar ao banco
       await this.connectDatabase();
 
-      // 3. Configurar middlewares
+      // 3. Executar migrações de dados
+      await runMigrations();
+
+      // 4. Configurar middlewares
       this.setupMiddlewares();
 
-      // 4. Configurar rotas
+      // 5. Configurar rotas
       this.setupRoutes();
 
-      // 5. Configurar documentação
+      // 6. Configurar documentação
       this.setupDocumentation();
 
-      // 6. Configurar tratamento de erros
+      // 7. Configurar tratamento de erros
       this.setupErrorHandling();
 
       this.isInitialized = true;
@@ -90,6 +97,12 @@ export class App {
             health: `http://localhost:${config.node.port}/health`,
           },
         });
+
+        // Jobs em segundo plano só rodam com o servidor HTTP ativo
+        startBackgroundJobs();
+        AccessCounterBuffer.start();
+        RealtimeService.start();
+
         resolve();
       });
 
@@ -98,6 +111,9 @@ export class App {
         reject(error);
       });
 
+      // Atualizações em tempo real via WebSocket compartilham o servidor HTTP
+      WebSocketGateway.attach(server);
+
       // Graceful shutdown
       this.setupGracefulShutdown(server);
     });
@@ -138,8 +154,12 @@ export class App {
     // Rate limiting global
     this.app.use(rateLimitConfig);
 
-    // Compressão de resposta
-    this.app.use(compression());
+    // Compressão de resposta (inclui as exportações em NDJSON, fora da lista padrão)
+    this.app.use(compression({
+      filter: (req, res) =>
+        String(res.getHeader('Content-Type') ?? '').startsWith('application/x-ndjson') ||
+        compression.filter(req, res),
+    }));
 
     // Parsing de JSON
     this.app.use(express.json({ 
@@ -211,11 +231,37 @@ export class App {
             name: 'Users',
             description: 'Gerenciamento de usuários',
           },
+          {
+            name: 'Auth',
+            description: 'Autenticação e sessões',
+          },
+          {
+            name: 'Alerts',
+            description: 'Regras de alerta e webhooks',
+          },
+          {
+            name: 'API Keys',
+            description: 'API keys de acesso aos contadores',
+          },
           {
             name: 'Health',
             description: 'Health checks e monitoramento',
           },
         ],
+        components: {
+          securitySchemes: {
+            bearerAuth: {
+              type: 'http',
+              scheme: 'bearer',
+              bearerFormat: 'JWT',
+            },
+            apiKeyAuth: {
+              type: 'apiKey',
+              in: 'header',
+              name: 'X-API-Key',
+            },
+          },
+        },
       },
       apis: [
       process.env.NODE_ENV === 'production'
@@ -268,12 +314,26 @@ export class App {
     const shutdown = async (signal: string) => {
       Logger.info(`📴 Recebido sinal ${signal}, iniciando graceful shutdown`);
 
-      // Para de aceitar novas conexões
-      server.close(() => {
-        Logger.info('🔐 Servidor HTTP fechado');
+      // Para de aceitar novas conexões; conclui quando as requisições em andamento terminarem
+      const serverClosed = new Promise<void>(resolve => {
+        server.close(() => {
+          Logger.info('🔐 Servidor HTTP fechado');
+          resolve();
+        });
       });
 
       try {
+        // Fecha as conexões SSE/WebSocket, que mantêm o servidor HTTP aberto
+        await RealtimeService.stop();
+        await WebSocketGateway.close();
+        await serverClosed;
+
+        // Para os jobs em segundo plano, aguardando a execução em andamento
+        await stopBackgroundJobs();
+
+        // Grava os incrementos pendentes do buffer antes de desconectar
+        await AccessCounterBuffer.stop();
+
         // Desconecta do banco
         await database.disconnect();
         Logger.info('✅ Graceful shutdown concluído');
@@ -0,0 +1,125 @@
+import { BotCategory } from '../types';
+
+/**
+ * Regra de identificação de bots pelo User-Agent
+ */
+export interface BotRule {
+  name: string;
+  category: BotCategory;
+  pattern: RegExp;
+}
+
+/**
+ * Lista de regras de User-Agent de bots, mantida no repositório
+ * A ordem importa: a primeira regra que casar define o nome e a categoria.
+ * Ao incluir uma regra, prefira padrões específicos e adicione-os antes da
+ * regra genérica do fim da lista
+ */
+export const BOT_RULES: BotRule[] = [
+  // Scanners de vulnerabilidades (bloqueados pelo validateUserAgent)
+  { name: 'sqlmap', category: BotCategory.SCANNER, pattern: /sqlmap/i },
+  { name: 'Nikto', category: BotCategory.SCANNER, pattern: /nikto/i },
+  { name: 'Nessus', category: BotCategory.SCANNER, pattern: /nessus/i },
+  { name: 'masscan', category: BotCategory.SCANNER, pattern: /masscan/i },
+  { name: 'Nmap', category: BotCategory.SCANNER, pattern: /nmap/i },
+  { name: 'ZGrab', category: BotCategory.SCANNER, pattern: /zgrab/i },
+  { name: 'Nuclei', category: BotCategory.SCANNER, pattern: /nuclei/i },
+  { name: 'WPScan', category: BotCategory.SCANNER, pattern: /wpscan/i },
+  { name: 'Acunetix', category: BotCategory.SCANNER, pattern: /acunetix/i },
+  { name: 'Netsparker', category: BotCategory.SCANNER, pattern: /netsparker/i },
+  { name: 'OpenVAS', category: BotCategory.SCANNER, pattern: /openvas/i },
+  { name: 'DirBuster', category: BotCategory.SCANNER, pattern: /dirbuster|gobuster/i },
+
+  // Pré-visualização de links em redes sociais e mensageiros
+  { name: 'Facebook', category: BotCategory.PREVIEW, pattern: /facebookexternalhit|facebookcatalog|facebot/i },
+  { name: 'Twitterbot', category: BotCategory.PREVIEW, pattern: /twitterbot/i },
+  { name: 'LinkedInBot', category: BotCategory.PREVIEW, pattern: /linkedinbot/i },
+  { name: 'Slackbot', category: BotCategory.PREVIEW, pattern: /slackbot|slack-imgproxy/i },
+  { name: 'Discordbot', category: BotCategory.PREVIEW, pattern: /discordbot/i },
+  { name: 'TelegramBot', category: BotCategory.PREVIEW, pattern: /telegrambot/i },
+  { name: 'WhatsApp', category: BotCategory.PREVIEW, pattern: /whatsapp/i },
+  { name: 'Pinterestbot', category: BotCategory.PREVIEW, pattern: /pinterestbot/i },
+  { name: 'redditbot', category: BotCategory.PREVIEW, pattern: /redditbot/i },
+  { name: 'Embedly', category: BotCategory.PREVIEW, pattern: /embedly/i },
+  { name: 'SkypeUriPreview', category: BotCategory.PREVIEW, pattern: /skypeuripreview/i },
+
+  // Monitores de disponibilidade e health checks
+  { name: 'UptimeRobot', category: BotCategory.MONITOR, pattern: /uptimerobot/i },
+  { name: 'Pingdom', category: BotCategory.MONITOR, pattern: /pingdom/i },
+  { name: 'StatusCake', category: BotCategory.MONITOR, pattern: /statuscake/i },
+  { name: 'Site24x7', category: BotCategory.MONITOR, pattern: /site24x7/i },
+  { name: 'Better Stack', category: BotCategory.MONITOR, pattern: /betteruptime|betterstack/i },
+  { name: 'Datadog Synthetics', category: BotCategory.MONITOR, pattern: /datadog/i },
+  { name: 'New Relic', category: BotCategory.MONITOR, pattern: /newrelicpinger|newrelic/i },
+  { name: 'Checkly', category: BotCategory.MONITOR, pattern: /checkly/i },
+  { name: 'Uptime Kuma', category: BotCategory.MONITOR, pattern: /uptime-kuma/i },
+  { name: 'GTmetrix', category: BotCategory.MONITOR, pattern: /gtmetrix/i },
+  { name: 'Zabbix', category: BotCategory.MONITOR, pattern: /zabbix/i },
+  { name: 'Nagios', category: BotCategory.MONITOR, pattern: /nagios|check_http/i },
+  { name: 'Prometheus', category: BotCategory.MONITOR, pattern: /blackbox-exporter|prometheus/i },
+  { name: 'ELB Health Checker', category: BotCategory.MONITOR, pattern: /elb-healthchecker/i },
+  { name: 'Google Health Check', category: BotCategory.MONITOR, pattern: /googlehc/i },
+  { name: 'kube-probe', category: BotCategory.MONITOR, pattern: /kube-probe/i },
+
+  // Navegadores automatizados
+  { name: 'HeadlessChrome', category: BotCategory.HEADLESS, pattern: /headlesschrome/i },
+  { name: 'Lighthouse', category: BotCategory.HEADLESS, pattern: /lighthouse/i },
+  { name: 'PhantomJS', category: BotCategory.HEADLESS, pattern: /phantomjs/i },
+  { name: 'Puppeteer', category: BotCategory.HEADLESS, pattern: /puppeteer/i },
+  { name: 'Playwright', category: BotCategory.HEADLESS, pattern: /playwright/i },
+  { name: 'Selenium', category: BotCategory.HEADLESS, pattern: /selenium|webdriver/i },
+  { name: 'Cypress', category: BotCategory.HEADLESS, pattern: /cypress/i },
+
+  // Mecanismos de busca e crawlers de IA
+  { name: 'Googlebot', category: BotCategory.CRAWLER, pattern: /googlebot|google-inspectiontool|adsbot-google|mediapartners-google|apis-google|feedfetcher-google|storebot-google/i },
+  { name: 'Bingbot', category: BotCategory.CRAWLER, pattern: /bingbot|bingpreview|msnbot|adidxbot/i },
+  { name: 'Yahoo Slurp', category: BotCategory.CRAWLER, pattern: /slurp/i },
+  { name: 'DuckDuckBot', category: BotCategory.CRAWLER, pattern: /duckduckbot|duckassistbot/i },
+  { name: 'Baiduspider', category: BotCategory.CRAWLER, pattern: /baiduspider/i },
+  { name: 'YandexBot', category: BotCategory.CRAWLER, pattern: /yandex(bot|images|metrika|mobilebot)/i },
+  { name: 'Applebot', category: BotCategory.CRAWLER, pattern: /applebot/i },
+  { name: 'Sogou', category: BotCategory.CRAWLER, pattern: /sogou/i },
+  { name: 'SeznamBot', category: BotCategory.CRAWLER, pattern: /seznambot/i },
+  { name: 'PetalBot', category: BotCategory.CRAWLER, pattern: /petalbot/i },
+  { name: 'AhrefsBot', category: BotCategory.CRAWLER, pattern: /ahrefs/i },
+  { name: 'SemrushBot', category: BotCategory.CRAWLER, pattern: /semrush/i },
+  { name: 'MJ12bot', category: BotCategory.CRAWLER, pattern: /mj12bot/i },
+  { name: 'DotBot', category: BotCategory.CRAWLER, pattern: /dotbot/i },
+  { name: 'BLEXBot', category: BotCategory.CRAWLER, pattern: /blexbot/i },
+  { name: 'DataForSeoBot', category: BotCategory.CRAWLER, pattern: /dataforseobot/i },
+  { name: 'Bytespider', category: BotCategory.CRAWLER, pattern: /bytespider/i },
+  { name: 'GPTBot', category: BotCategory.CRAWLER, pattern: /gptbot|chatgpt-user|oai-searchbot/i },
+  { name: 'ClaudeBot', category: BotCategory.CRAWLER, pattern: /claudebot|claude-web|anthropic-ai/i },
+  { name: 'PerplexityBot', category: BotCategory.CRAWLER, pattern: /perplexitybot/i },
+  { name: 'CCBot', category: BotCategory.CRAWLER, pattern: /ccbot/i },
+  { name: 'Amazonbot', category: BotCategory.CRAWLER, pattern: /amazonbot/i },
+  { name: 'Internet Archive', category: BotCategory.CRAWLER, pattern: /ia_archiver|archive\.org_bot/i },
+
+  // Clientes HTTP e ferramentas de linha de comando
+  { name: 'curl', category: BotCategory.TOOL, pattern: /^curl\//i },
+  { name: 'Wget', category: BotCategory.TOOL, pattern: /wget/i },
+  { name: 'HTTPie', category: BotCategory.TOOL, pattern: /httpie/i },
+  { name: 'Postman', category: BotCategory.TOOL, pattern: /postmanruntime/i },
+  { name: 'Insomnia', category: BotCategory.TOOL, pattern: /insomnia/i },
+  { name: 'Python', category: BotCategory.TOOL, pattern: /python-requests|python-urllib|python-httpx|aiohttp|scrapy/i },
+  { name: 'Go', category: BotCategory.TOOL, pattern: /go-http-client/i },
+  { name: 'Java', category: BotCategory.TOOL, pattern: /^java\/|apache-httpclient|okhttp/i },
+  { name: 'Node.js', category: BotCategory.TOOL, pattern: /^axios\/|node-fetch|undici|^got\b|node-superagent/i },
+  { name: 'Ruby', category: BotCategory.TOOL, pattern: /^ruby|faraday/i },
+  { name: 'PHP', category: BotCategory.TOOL, pattern: /guzzlehttp|^php/i },
+  { name: 'libwww-perl', category: BotCategory.TOOL, pattern: /libwww-perl/i },
+
+  // Regra genérica: qualquer User-Agent que se declare bot/crawler/spider
+  { name: 'Generic bot', category: BotCategory.CRAWLER, pattern: /bot\b|crawler|crawling|spider|scraper/i },
+];
+
+/**
+ * Retorna a primeira regra que casar com o User-Agent informado
+ */
+export const matchBotRule = (userAgent: string | undefined): BotRule | undefined => {
+  if (!userAgent) {
+    return undefined;
+  }
+
+  return BOT_RULES.find((rule) => rule.pattern.test(userAgent));
+};
@@ -97,16 +97,8 @@ export class DatabaseConnection {
       console.log('🔄 MongoDB reconectado');
     });
 
-    // Graceful shutdown
-    process.on('SIGINT', async () => {
-      await this.disconnect();
-      process.exit(0);
-    });
-
-    process.on('SIGTERM', async () => {
-      await this.disconnect();
-      process.exit(0);
-    });
+    // O encerramento (SIGINT/SIGTERM) é tratado em App.setupGracefulShutdown,
+    // que grava o buffer de incrementos antes de desconectar
   }
 }
 
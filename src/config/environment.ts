@@ -1,8 +1,23 @@
 import dotenv from 'dotenv';
+import { AnomalySeverity, BotPolicy, CounterVisibility, UserRole } from '../types';
 
 // Carrega variáveis de ambiente
 dotenv.config();
 
+/**
+ * Estratégias de identificação de visitantes para contagem de únicos
+ */
+export type VisitorFingerprintStrategy = 'ip' | 'ip_ua' | 'cookie' | 'visitor_id';
+
+const VISITOR_FINGERPRINT_STRATEGIES: VisitorFingerprintStrategy[] = ['ip', 'ip_ua', 'cookie', 'visitor_id'];
+
+/**
+ * Transportes de e-mail: console e file para desenvolvimento, smtp em produção
+ */
+export type MailTransportType = 'console' | 'file' | 'smtp';
+
+const MAIL_TRANSPORTS: MailTransportType[] = ['console', 'file', 'smtp'];
+
 /**
  * Validação e tipagem das variáveis de ambiente
  * Garante que todas as configurações necessárias estejam presentes
@@ -17,6 +32,8 @@ interface EnvironmentConfig {
   };
   jwt: {
     secret: string;
+    accessTokenTtlSeconds: number;
+    refreshTokenTtlDays: number;
   };
   bcrypt: {
     rounds: number;
@@ -25,6 +42,126 @@ interface EnvironmentConfig {
     windowMs: number;
     maxRequests: number;
   };
+  idempotency: {
+    ttlHours: number;
+  };
+  alerts: {
+    evaluationIntervalSeconds: number;
+    deliveryIntervalSeconds: number;
+    webhookTimeoutMs: number;
+    webhookMaxAttempts: number;
+    webhookRetryBaseMs: number;
+    deliveryRetentionDays: number;
+  };
+  counterShards: {
+    defaultShards: number;
+    maxShards: number;
+    cacheTtlMs: number;
+  };
+  counterBuffer: {
+    enabled: boolean;
+    flushIntervalMs: number;
+    maxPending: number;
+  };
+  counterResets: {
+    intervalSeconds: number;
+  };
+  eventSourcing: {
+    checkpointIntervalSeconds: number;
+    settleMs: number;
+  };
+  realtime: {
+    coalesceMs: number;
+    heartbeatIntervalMs: number;
+    maxConnections: number;
+    maxKeysPerConnection: number;
+    subscribeTimeoutMs: number;
+    changeStreams: boolean;
+  };
+  visitors: {
+    fingerprint: VisitorFingerprintStrategy;
+    cookieName: string;
+  };
+  bots: {
+    defaultPolicy: BotPolicy;
+    heuristicsEnabled: boolean;
+    maxRequestsPerMinute: number;
+  };
+  embed: {
+    rateLimitWindowMs: number;
+    rateLimitMaxRequests: number;
+  };
+  history: {
+    minuteRetentionHours: number;
+    hourRetentionDays: number;
+    dayRetentionDays: number;
+    retentionIntervalMinutes: number;
+  };
+  breakdown: {
+    enabled: boolean;
+    maxValuesPerBucket: number;
+    maxValueLength: number;
+  };
+  exports: {
+    maxSyncBuckets: number;
+    jobIntervalSeconds: number;
+    retentionHours: number;
+  };
+  anomalies: {
+    jobIntervalSeconds: number;
+    threshold: number;
+    minCount: number;
+    baselineDays: number;
+    sourceRetentionHours: number;
+    maxSourcesPerMinute: number;
+    autoQuarantine: boolean;
+    quarantineSeverity: AnomalySeverity;
+  };
+  counterAccess: {
+    defaultVisibility: CounterVisibility;
+    maxAllowedOrigins: number;
+    apiKeysPerUser: number;
+  };
+  mail: {
+    transport: MailTransportType;
+    from: string;
+    fileDir: string;
+    smtp: {
+      host: string;
+      port: number;
+      secure: boolean;
+      user: string;
+      password: string;
+    };
+  };
+  passwordReset: {
+    tokenTtlMinutes: number;
+    url: string;
+  };
+  emailVerification: {
+    tokenTtlHours: number;
+    resendIntervalSeconds: number;
+    url: string;
+  };
+  userDeletion: {
+    graceDays: number;
+    purgeIntervalMinutes: number;
+  };
+  loginProtection: {
+    maxAccountFailures: number;
+    maxIpFailures: number;
+    failureWindowMinutes: number;
+    lockoutMinutes: number;
+    delayBaseMs: number;
+    delayMaxMs: number;
+  };
+  twoFactor: {
+    issuer: string;
+    requiredRoles: UserRole[];
+    encryptionKey: string;
+    challengeTtlSeconds: number;
+    recoveryCodeCount: number;
+  };
 }
 
 /**
@@ -47,6 +184,67 @@ function parseNumber(value: string | undefined, defaultValue: number): number {
   return isNaN(parsed) ? defaultValue : parsed;
 }
 
+/**
+ * Converte uma variável de ambiente para número decimal com valor padrão
+ */
+function parseDecimal(value: string | undefined, defaultValue: number): number {
+  if (!value) return defaultValue;
+  const parsed = parseFloat(value);
+  return isNaN(parsed) ? defaultValue : parsed;
+}
+
+/**
+ * Lê a estratégia de fingerprint de visitantes com fallback para ip_ua
+ */
+function parseVisitorFingerprint(value: string | undefined): VisitorFingerprintStrategy {
+  const strategy = (value || '').toLowerCase() as VisitorFingerprintStrategy;
+  return VISITOR_FINGERPRINT_STRATEGIES.includes(strategy) ? strategy : 'ip_ua';
+}
+
+/**
+ * Converte a política padrão de bots, usando "separate" para valores desconhecidos
+ */
+function parseBotPolicy(value: string | undefined): BotPolicy {
+  const policy = (value || '').toLowerCase() as BotPolicy;
+  return Object.values(BotPolicy).includes(policy) ? policy : BotPolicy.SEPARATE;
+}
+
+/**
+ * Converte a severidade mínima da quarentena automática, usando "high" para valores desconhecidos
+ */
+function parseAnomalySeverity(value: string | undefined): AnomalySeverity {
+  const severity = (value || '').toLowerCase() as AnomalySeverity;
+  return Object.values(AnomalySeverity).includes(severity) ? severity : AnomalySeverity.HIGH;
+}
+
+/**
+ * Converte a visibilidade padrão dos contadores, usando "public" para valores desconhecidos
+ */
+function parseCounterVisibility(value: string | undefined): CounterVisibility {
+  const visibility = (value || '').toLowerCase() as CounterVisibility;
+  return Object.values(CounterVisibility).includes(visibility) ? visibility : CounterVisibility.PUBLIC;
+}
+
+/**
+ * Lê o transporte de e-mail com fallback para console
+ */
+function parseMailTransport(value: string | undefined): MailTransportType {
+  const transport = (value || '').toLowerCase() as MailTransportType;
+  return MAIL_TRANSPORTS.includes(transport) ? transport : 'console';
+}
+
+/**
+ * Lê uma lista de papéis separados por vírgula, ignorando valores desconhecidos
+ */
+function parseRoleList(value: string | undefined): UserRole[] {
+  const roles = Object.values(UserRole) as string[];
+
+  return (value || '')
+    .split(',')
+    .map(role => role.trim().toLowerCase())
+    .filter((role): role is UserRole => roles.includes(role));
+}
+
 /**
  * Configuração centralizada da aplicação
  */
@@ -60,6 +258,8 @@ export const config: EnvironmentConfig = {
   },
   jwt: {
     secret: requireEnvVar('JWT_SECRET'),
+    accessTokenTtlSeconds: parseNumber(process.env.JWT_ACCESS_TOKEN_TTL_SECONDS, 900), // 15 minutos
+    refreshTokenTtlDays: parseNumber(process.env.JWT_REFRESH_TOKEN_TTL_DAYS, 7),
   },
   bcrypt: {
     rounds: parseNumber(process.env.BCRYPT_ROUNDS, 10),
@@ -68,6 +268,167 @@ export const config: EnvironmentConfig = {
     windowMs: parseNumber(process.env.RATE_LIMIT_WINDOW_MS, 900000), // 15 minutos
     maxRequests: parseNumber(process.env.RATE_LIMIT_MAX_REQUESTS, 100),
   },
+  idempotency: {
+    // Tempo durante o qual uma Idempotency-Key é lembrada e sua resposta reenviada
+    ttlHours: parseNumber(process.env.IDEMPOTENCY_TTL_HOURS, 24),
+  },
+  alerts: {
+    evaluationIntervalSeconds: parseNumber(process.env.ALERT_EVALUATION_INTERVAL_SECONDS, 60),
+    deliveryIntervalSeconds: parseNumber(process.env.ALERT_DELIVERY_INTERVAL_SECONDS, 10),
+    webhookTimeoutMs: parseNumber(process.env.ALERT_WEBHOOK_TIMEOUT_MS, 5000),
+    // Tentativas com backoff exponencial: base, 2x base, 4x base...
+    webhookMaxAttempts: parseNumber(process.env.ALERT_WEBHOOK_MAX_ATTEMPTS, 6),
+    webhookRetryBaseMs: parseNumber(process.env.ALERT_WEBHOOK_RETRY_BASE_MS, 30000),
+    deliveryRetentionDays: parseNumber(process.env.ALERT_DELIVERY_RETENTION_DAYS, 30),
+  },
+  counterShards: {
+    // Número de documentos (shards) por contador, aplicado na criação
+    defaultShards: parseNumber(process.env.COUNTER_DEFAULT_SHARDS, 1),
+    maxShards: parseNumber(process.env.COUNTER_MAX_SHARDS, 64),
+    // Tempo que cada instância mantém em cache o número de shards de um contador
+    cacheTtlMs: parseNumber(process.env.COUNTER_SHARD_CACHE_TTL_MS, 30000),
+  },
+  counterBuffer: {
+    // Modo write-behind: incrementos agregados em memória e gravados em lote
+    enabled: process.env.COUNTER_BUFFER_ENABLED === 'true',
+    flushIntervalMs: parseNumber(process.env.COUNTER_BUFFER_FLUSH_INTERVAL_MS, 1000),
+    maxPending: parseNumber(process.env.COUNTER_BUFFER_MAX_PENDING, 1000),
+  },
+  counterResets: {
+    // Intervalo do job de resets agendados (0 desabilita)
+    intervalSeconds: parseNumber(process.env.SCHEDULED_RESET_INTERVAL_SECONDS, 60),
+  },
+  eventSourcing: {
+    // Intervalo do job de checkpoints dos contadores event-sourced (0 desabilita)
+    checkpointIntervalSeconds: parseNumber(process.env.COUNTER_CHECKPOINT_INTERVAL_SECONDS, 300),
+    // Operações mais recentes que esta janela ainda podem estar sendo gravadas
+    // e ficam fora dos checkpoints
+    settleMs: parseNumber(process.env.COUNTER_EVENT_SETTLE_MS, 5000),
+  },
+  realtime: {
+    // Janela de agregação: cada contador gera no máximo uma mensagem por janela
+    coalesceMs: parseNumber(process.env.REALTIME_COALESCE_MS, 250),
+    heartbeatIntervalMs: parseNumber(process.env.REALTIME_HEARTBEAT_INTERVAL_MS, 15000),
+    maxConnections: parseNumber(process.env.REALTIME_MAX_CONNECTIONS, 1000),
+    maxKeysPerConnection: parseNumber(process.env.REALTIME_MAX_KEYS_PER_CONNECTION, 50),
+    // Conexões WebSocket sem nenhuma assinatura após este prazo são encerradas
+    subscribeTimeoutMs: parseNumber(process.env.REALTIME_SUBSCRIBE_TIMEOUT_MS, 30000),
+    // Fan-out entre instâncias via change streams (requer replica set)
+    changeStreams: process.env.REALTIME_CHANGE_STREAMS === 'true',
+  },
+  visitors: {
+    fingerprint: parseVisitorFingerprint(process.env.VISITOR_FINGERPRINT),
+    cookieName: process.env.VISITOR_COOKIE_NAME || 'visitor_id',
+  },
+  bots: {
+    // Política dos contadores sem configuração própria (ignore | separate | count)
+    defaultPolicy: parseBotPolicy(process.env.BOT_DEFAULT_POLICY),
+    // Heurísticas além das regras de User-Agent (opt-in): headers ausentes e cadência de requisições
+    heuristicsEnabled: process.env.BOT_HEURISTICS_ENABLED === 'true',
+    maxRequestsPerMinute: parseNumber(process.env.BOT_MAX_REQUESTS_PER_MINUTE, 120),
+  },
+  embed: {
+    // Limite do pixel e do badge por IP e contador, independente do rate limit global
+    rateLimitWindowMs: parseNumber(process.env.EMBED_RATE_LIMIT_WINDOW_MS, 60000),
+    rateLimitMaxRequests: parseNumber(process.env.EMBED_RATE_LIMIT_MAX_REQUESTS, 30),
+  },
+  history: {
+    // Buckets mais antigos que a retenção são consolidados na granularidade superior (0 = sem limite)
+    minuteRetentionHours: parseNumber(process.env.HISTORY_MINUTE_RETENTION_HOURS, 48),
+    hourRetentionDays: parseNumber(process.env.HISTORY_HOUR_RETENTION_DAYS, 90),
+    dayRetentionDays: parseNumber(process.env.HISTORY_DAY_RETENTION_DAYS, 730),
+    retentionIntervalMinutes: parseNumber(process.env.HISTORY_RETENTION_INTERVAL_MINUTES, 60),
+  },
+  breakdown: {
+    enabled: process.env.BREAKDOWN_ENABLED !== 'false',
+    // Limite de valores distintos por dimensão e bucket; o excedente é somado em "other"
+    maxValuesPerBucket: parseNumber(process.env.BREAKDOWN_MAX_VALUES_PER_BUCKET, 100),
+    maxValueLength: parseNumber(process.env.BREAKDOWN_MAX_VALUE_LENGTH, 200),
+  },
+  exports: {
+    // Intervalos com mais buckets que o limite devem usar a exportação em segundo plano
+    maxSyncBuckets: parseNumber(process.env.EXPORT_MAX_SYNC_BUCKETS, 50000),
+    // Intervalo do job de exportações (0 desabilita)
+    jobIntervalSeconds: parseNumber(process.env.EXPORT_JOB_INTERVAL_SECONDS, 10),
+    // Tempo em que o arquivo gerado fica disponível para download
+    retentionHours: parseNumber(process.env.EXPORT_RETENTION_HOURS, 24),
+  },
+  anomalies: {
+    // Intervalo do job de detecção (0 desabilita)
+    jobIntervalSeconds: parseNumber(process.env.ANOMALY_JOB_INTERVAL_SECONDS, 60),
+    // Score robusto (desvios em relação à mediana) a partir do qual a janela é anômala
+    threshold: parseDecimal(process.env.ANOMALY_THRESHOLD, 3.5),
+    // Janelas com menos acessos nunca são consideradas anômalas
+    minCount: parseNumber(process.env.ANOMALY_MIN_COUNT, 30),
+    // Dias anteriores comparados no mesmo horário (sazonalidade diária)
+    baselineDays: parseNumber(process.env.ANOMALY_BASELINE_DAYS, 7),
+    // IPs e User-Agents por minuto são removidos automaticamente após a retenção
+    sourceRetentionHours: parseNumber(process.env.ANOMALY_SOURCE_RETENTION_HOURS, 48),
+    maxSourcesPerMinute: parseNumber(process.env.ANOMALY_MAX_SOURCES_PER_MINUTE, 50),
+    // Desconta do total o excedente das anomalias a partir da severidade mínima
+    autoQuarantine: process.env.ANOMALY_AUTO_QUARANTINE === 'true',
+    quarantineSeverity: parseAnomalySeverity(process.env.ANOMALY_QUARANTINE_MIN_SEVERITY),
+  },
+  counterAccess: {
+    // Visibilidade dos contadores que não definiram a própria
+    defaultVisibility: parseCounterVisibility(process.env.COUNTER_DEFAULT_VISIBILITY),
+    maxAllowedOrigins: parseNumber(process.env.COUNTER_MAX_ALLOWED_ORIGINS, 20),
+    // API keys ativas por usuário
+    apiKeysPerUser: parseNumber(process.env.API_KEYS_PER_USER, 20),
+  },
+  mail: {
+    transport: parseMailTransport(process.env.MAIL_TRANSPORT),
+    from: process.env.MAIL_FROM || 'Anota AI <no-reply@anotaai.com>',
+    // Diretório dos arquivos .eml gerados pelo transporte file
+    fileDir: process.env.MAIL_FILE_DIR || 'tmp/mail',
+    smtp: {
+      host: process.env.SMTP_HOST || 'localhost',
+      port: parseNumber(process.env.SMTP_PORT, 587),
+      // true para TLS direto (porta 465); com false o STARTTLS é usado quando disponível
+      secure: process.env.SMTP_SECURE === 'true',
+      user: process.env.SMTP_USER || '',
+      password: process.env.SMTP_PASSWORD || '',
+    },
+  },
+  passwordReset: {
+    tokenTtlMinutes: parseNumber(process.env.PASSWORD_RESET_TOKEN_TTL_MINUTES, 60),
+    // Página do frontend que recebe o token (?token=) e envia a nova senha
+    url: process.env.PASSWORD_RESET_URL || 'http://localhost:3000/reset-password',
+  },
+  emailVerification: {
+    tokenTtlHours: parseNumber(process.env.EMAIL_VERIFICATION_TOKEN_TTL_HOURS, 24),
+    // Intervalo mínimo entre reenvios do email de verificação
+    resendIntervalSeconds: parseNumber(process.env.EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS, 60),
+    // Página do frontend que recebe o token (?token=) e confirma o email
+    url: process.env.EMAIL_VERIFICATION_URL || 'http://localhost:3000/verify-email',
+  },
+  userDeletion: {
+    // Usuários removidos podem ser restaurados durante o prazo; depois são excluídos definitivamente
+    graceDays: parseNumber(process.env.USER_DELETION_GRACE_DAYS, 30),
+    // Intervalo do job de exclusão definitiva (0 desabilita)
+    purgeIntervalMinutes: parseNumber(process.env.USER_PURGE_INTERVAL_MINUTES, 60),
+  },
+  loginProtection: {
+    // Falhas dentro da janela que bloqueiam a conta (email) ou o IP temporariamente (0 desabilita)
+    maxAccountFailures: parseNumber(process.env.LOGIN_MAX_ACCOUNT_FAILURES, 5),
+    maxIpFailures: parseNumber(process.env.LOGIN_MAX_IP_FAILURES, 20),
+    failureWindowMinutes: parseNumber(process.env.LOGIN_FAILURE_WINDOW_MINUTES, 15),
+    lockoutMinutes: parseNumber(process.env.LOGIN_LOCKOUT_MINUTES, 15),
+    // Intervalo mínimo após cada falha da conta, dobrado a cada falha até o máximo
+    delayBaseMs: parseNumber(process.env.LOGIN_DELAY_BASE_MS, 250),
+    delayMaxMs: parseNumber(process.env.LOGIN_DELAY_MAX_MS, 4000),
+  },
+  twoFactor: {
+    // Nome exibido no aplicativo autenticador
+    issuer: process.env.TWO_FACTOR_ISSUER || 'Anota AI',
+    // Papéis que só acessam a API com 2FA ativo (ex.: admin,operator)
+    requiredRoles: parseRoleList(process.env.TWO_FACTOR_REQUIRED_ROLES),
+    // Chave de cifragem dos segredos TOTP no banco (padrão: JWT_SECRET)
+    encryptionKey: process.env.TWO_FACTOR_ENCRYPTION_KEY || requireEnvVar('JWT_SECRET'),
+    // Validade do desafio emitido no primeiro passo do login
+    challengeTtlSeconds: parseNumber(process.env.TWO_FACTOR_CHALLENGE_TTL_SECONDS, 300),
+    recoveryCodeCount: parseNumber(process.env.TWO_FACTOR_RECOVERY_CODES, 10),
+  },
 };
 
 /**
@@ -0,0 +1,16 @@
+import { AccessCounterService } from '../services';
+import { Logger } from '../utils';
+
+/**
+ * Migrações de dados executadas na inicialização da aplicação
+ * Cada migração deve ser idempotente, pois roda a cada boot
+ */
+export const runMigrations = async (): Promise<void> => {
+  Logger.info('🔄 Executando migrações de dados');
+
+  // Contador singleton legado -> contador "default"
+  await AccessCounterService.migrateLegacyCounter();
+
+  // Contadores de documento único -> layout com shards
+  await AccessCounterService.migrateShardLayout();
+};
@@ -0,0 +1,63 @@
+import { UserRole } from '../types';
+
+/**
+ * Matriz de permissões da aplicação
+ * Define quais papéis podem executar cada operação protegida.
+ * Operações "Any" se referem a registros de outros usuários; o próprio
+ * usuário sempre pode ler e atualizar seu registro (ver authorizeSelfOr)
+ */
+export type PermissionName =
+  | 'listUsers'
+  | 'readAnyUser'
+  | 'updateAnyUser'
+  | 'deleteAnyUser'
+  | 'restoreUsers'
+  | 'manageLockouts'
+  | 'searchUsers'
+  | 'userStatistics'
+  | 'manageRoles'
+  | 'resetCounter'
+  | 'adjustCounter'
+  | 'manageCounters'
+  | 'viewCounterEvents'
+  | 'readAnyExport'
+  | 'viewAnomalies'
+  | 'manageAnomalies'
+  | 'manageApiKeys'
+  | 'viewAlerts'
+  | 'manageAlerts';
+
+export const PERMISSIONS: Record<PermissionName, UserRole[]> = {
+  // Usuários
+  listUsers: [UserRole.ADMIN, UserRole.OPERATOR],
+  readAnyUser: [UserRole.ADMIN, UserRole.OPERATOR],
+  updateAnyUser: [UserRole.ADMIN],
+  deleteAnyUser: [UserRole.ADMIN],
+  restoreUsers: [UserRole.ADMIN],
+  manageLockouts: [UserRole.ADMIN],
+  searchUsers: [UserRole.ADMIN, UserRole.OPERATOR],
+  userStatistics: [UserRole.ADMIN, UserRole.OPERATOR],
+  manageRoles: [UserRole.ADMIN],
+
+  // Contador de acessos
+  resetCounter: [UserRole.ADMIN],
+  adjustCounter: [UserRole.ADMIN],
+  manageCounters: [UserRole.ADMIN],
+  viewCounterEvents: [UserRole.ADMIN, UserRole.OPERATOR],
+  readAnyExport: [UserRole.ADMIN],
+  viewAnomalies: [UserRole.ADMIN, UserRole.OPERATOR],
+  manageAnomalies: [UserRole.ADMIN],
+
+  // API keys (as próprias são sempre gerenciadas pelo dono)
+  manageApiKeys: [UserRole.ADMIN],
+
+  // Alertas
+  viewAlerts: [UserRole.ADMIN, UserRole.OPERATOR],
+  manageAlerts: [UserRole.ADMIN],
+};
+
+/**
+ * Verifica se um papel possui determinada permissão
+ */
+export const hasPermission = (role: UserRole, permission: PermissionName): boolean =>
+  PERMISSIONS[permission].includes(role);
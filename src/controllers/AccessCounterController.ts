@@ -1,25 +1,174 @@
-import { Request, Response } from 'express';
-import { AccessCounterService } from '../services';
-import { ApiResponseUtil, Logger } from '../utils';
-import { asyncHandler } from '../middleware';
+import { NextFunction, Request, Response } from 'express';
+import { pipeline } from 'stream/promises';
+import {
+  AccessAnomalyService,
+  AccessBreakdownService,
+  AccessCounterService,
+  AccessExportService,
+  AccessTrendService,
+  AccessHistoryService,
+  BotDetectionService,
+  CounterAccessService,
+  CounterResetService,
+  RealtimeService,
+} from '../services';
+import {
+  ApiResponseUtil,
+  Logger,
+  BADGE_COLORS,
+  EXPORT_FORMATS,
+  TRANSPARENT_GIF,
+  contentDisposition,
+  exportFileName,
+  extractAccessDimensions,
+  formatBadgeCount,
+  generateSecureToken,
+  readCookie,
+  renderBadge,
+  resolveAccessOrigin,
+  resolveBadgeColor,
+  resolveSiteOrigin,
+  resolveVisitorFingerprint,
+} from '../utils';
+import { config, isProduction } from '../config/environment';
+import {
+  AccessExportFormat,
+  AnomalySeverity,
+  AnomalyStatus,
+  BadgeNumberFormat,
+  BreakdownDimension,
+  CounterScope,
+  HistoryGranularity,
+  HttpStatus,
+  ICounterPrincipal,
+  TrendComparison,
+  TrendForecastMethod,
+  TrendPeriod,
+  UserRole,
+} from '../types';
+import { AppError, asyncHandler } from '../middleware';
+import { DEFAULT_COUNTER_KEY } from '../models';
+import { hasPermission } from '../config/permissions';
+import { SseSubscriber, parseSubscriptionKeys } from '../realtime';
 
 /**
- * Controller para gerenciamento do contador de acessos
- * Responsável por processar requisições HTTP e chamar services apropriados
+ * Controller para gerenciamento dos contadores de acessos
+ * Responsável por processar requisições HTTP e chamar services apropriados.
+ * As rotas sem :key operam sobre o contador padrão. O acesso a cada contador
+ * é conferido aqui (counter:read, counter:increment, counter:admin), a partir
+ * do usuário ou da API key anexados por authenticateOptional
  */
 export class AccessCounterController {
+  /**
+   * Quem faz a requisição: anônimo, usuário (JWT) ou API key
+   */
+  private static principalOf(req: Request): ICounterPrincipal {
+    return { user: req.user ?? null, apiKey: req.apiKey ?? null };
+  }
+
+  /**
+   * Garante a permissão da requisição no contador; incrementos também
+   * conferem a origem do site (Origin ou Referer)
+   */
+  private static async assertCounterAccess(req: Request, key: string, scope: CounterScope): Promise<void> {
+    await CounterAccessService.assertAccess(
+      key,
+      AccessCounterController.principalOf(req),
+      scope,
+      resolveSiteOrigin(req)
+    );
+  }
+
+  /**
+   * Middleware que exige a permissão no contador da rota (:key ou o padrão)
+   * Usuários autenticados via JWT com um dos papéis informados passam
+   * direto, mantendo as permissões globais (ex.: administradores)
+   */
+  public static authorizeCounter(scope: CounterScope, ...roles: UserRole[]) {
+    return asyncHandler(
+      async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+        if (req.user && !req.apiKey && roles.includes(req.user.role)) {
+          next();
+          return;
+        }
+
+        await AccessCounterController.assertCounterAccess(req, req.params.key ?? DEFAULT_COUNTER_KEY, scope);
+        next();
+      }
+    );
+  }
+
+  /**
+   * Resolve o fingerprint do visitante da requisição
+   * Na estratégia por cookie, emite um identificador para novos visitantes
+   */
+  private static resolveVisitor(req: Request, res: Response): string {
+    const { fingerprint, cookieName } = config.visitors;
+
+    if (fingerprint === 'cookie' && !readCookie(req, cookieName)) {
+      const visitorId = generateSecureToken(16);
+
+      res.cookie(cookieName, visitorId, {
+        httpOnly: true,
+        sameSite: 'lax',
+        secure: isProduction(),
+        maxAge: 365 * 24 * 60 * 60 * 1000, // 1 ano
+      });
+
+      return `cookie:${visitorId}`;
+    }
+
+    return resolveVisitorFingerprint(req);
+  }
+
+  /**
+   * Registra um acesso vindo do pixel ou do badge, com filtragem de bots
+   * Exige counter:increment e uma origem permitida (Referer das imagens embutidas)
+   */
+  private static async recordEmbedAccess(req: Request, res: Response, key: string) {
+    await AccessCounterController.assertCounterAccess(req, key, CounterScope.INCREMENT);
+
+    const namespace = req.query.namespace as string | undefined;
+    const visitor = AccessCounterController.resolveVisitor(req, res);
+    const dimensions = extractAccessDimensions(req);
+    const bot = BotDetectionService.classify(req);
+    const origin = resolveAccessOrigin(req);
+
+    return await AccessCounterService.incrementAccess(key, namespace, visitor, dimensions, bot, origin);
+  }
+
+  /**
+   * Headers das imagens embutidas: sem cache e carregáveis de outras origens
+   */
+  private static setEmbedHeaders(res: Response): void {
+    res.set({
+      'Cache-Control': 'no-cache, no-store, must-revalidate, max-age=0',
+      Pragma: 'no-cache',
+      Expires: '0',
+      'Cross-Origin-Resource-Policy': 'cross-origin',
+    });
+  }
+
   /**
    * Incrementa o contador de acessos
-   * Rota: POST /api/access/increment
+   * Rotas: POST /api/access/increment, POST /api/access/:key/increment
    */
   public static incrementAccess = asyncHandler(
     async (req: Request, res: Response): Promise<void> => {
+      const key = req.params.key ?? DEFAULT_COUNTER_KEY;
+      const namespace = (req.body?.namespace ?? req.query.namespace) as string | undefined;
+
       Logger.info('Requisição para incrementar acesso', {
+        key,
         ip: req.ip,
         userAgent: req.get('User-Agent'),
       });
 
-      const result = await AccessCounterService.incrementAccess();
+      const visitor = AccessCounterController.resolveVisitor(req, res);
+      const dimensions = extractAccessDimensions(req);
+      const bot = BotDetectionService.classify(req);
+      const origin = resolveAccessOrigin(req);
+      const result = await AccessCounterService.incrementAccess(key, namespace, visitor, dimensions, bot, origin);
 
       ApiResponseUtil.success(
         res,
@@ -30,14 +179,86 @@ export class AccessCounterController {
   );
 
   /**
-   * Obtém o contador atual de acessos
-   * Rota: GET /api/access/count
+   * Incrementa o contador e retorna um GIF transparente de 1x1
+   * Para sites estáticos e e-mails sem JavaScript. Acessos recusados também
+   * recebem a imagem, mas não são contados e ficam registrados em log
+   * Rota: GET /api/access/:key/pixel.gif
+   */
+  public static trackPixel = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { key } = req.params;
+
+      try {
+        await AccessCounterController.recordEmbedAccess(req, res, key);
+      } catch (error) {
+        // Recusas de acesso (credenciais, permissão ou origem) ainda retornam o GIF;
+        // as demais falhas seguem para o tratamento de erros
+        if (!(error instanceof AppError) || ![401, 403].includes(error.statusCode)) {
+          throw error;
+        }
+
+        Logger.warn('Acesso do pixel recusado', {
+          key,
+          reason: error.message,
+          ip: req.ip,
+          referer: req.get('Referer'),
+        });
+      }
+
+      AccessCounterController.setEmbedHeaders(res);
+      res.status(200).type('image/gif').send(TRANSPARENT_GIF);
+    }
+  );
+
+  /**
+   * Renderiza um badge SVG com o total do contador
+   * Por padrão também conta o acesso; increment=false apenas exibe o total
+   * Rota: GET /api/access/:key/badge.svg
+   */
+  public static renderBadge = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { key } = req.params;
+      const label = (req.query.label as string | undefined) ?? 'acessos';
+      const color = resolveBadgeColor((req.query.color as string | undefined) ?? '') ?? BADGE_COLORS.blue;
+      const labelColor = resolveBadgeColor((req.query.labelColor as string | undefined) ?? '') ?? BADGE_COLORS.grey;
+      const format = (req.query.format as BadgeNumberFormat | undefined) ?? BadgeNumberFormat.COMPACT;
+
+      const displayOnly = req.query.increment === 'false';
+
+      if (displayOnly) {
+        await AccessCounterController.assertCounterAccess(req, key, CounterScope.READ);
+      }
+
+      const counter = displayOnly
+        ? await AccessCounterService.getCurrentCount(key)
+        : await AccessCounterController.recordEmbedAccess(req, res, key);
+
+      const svg = renderBadge({
+        label,
+        message: formatBadgeCount(counter.count, format),
+        color,
+        labelColor,
+      });
+
+      AccessCounterController.setEmbedHeaders(res);
+      res.status(200).type('image/svg+xml; charset=utf-8').send(svg);
+    }
+  );
+
+  /**
+   * Obtém o contador atual de acessos, ou o valor em um instante passado (?at=)
+   * Rotas: GET /api/access/count, GET /api/access/:key/count
    */
   public static getCurrentCount = asyncHandler(
     async (req: Request, res: Response): Promise<void> => {
-      Logger.debug('Requisição para obter contador atual');
+      const key = req.params.key ?? DEFAULT_COUNTER_KEY;
+      const at = req.query.at ? new Date(req.query.at as string) : undefined;
+
+      Logger.debug('Requisição para obter contador atual', { key, at });
 
-      const result = await AccessCounterService.getCurrentCount();
+      const result = at
+        ? await AccessCounterService.getCountAt(key, at)
+        : await AccessCounterService.getCurrentCount(key);
 
       ApiResponseUtil.success(
         res,
@@ -49,13 +270,15 @@ export class AccessCounterController {
 
   /**
    * Obtém estatísticas detalhadas do contador
-   * Rota: GET /api/access/statistics
+   * Rotas: GET /api/access/statistics, GET /api/access/:key/statistics
    */
   public static getStatistics = asyncHandler(
     async (req: Request, res: Response): Promise<void> => {
-      Logger.debug('Requisição para obter estatísticas do contador');
+      const key = req.params.key ?? DEFAULT_COUNTER_KEY;
 
-      const result = await AccessCounterService.getStatistics();
+      Logger.debug('Requisição para obter estatísticas do contador', { key });
+
+      const result = await AccessCounterService.getStatistics(key);
 
       ApiResponseUtil.success(
         res,
@@ -66,23 +289,23 @@ export class AccessCounterController {
   );
 
   /**
-   * Reseta o contador (apenas para desenvolvimento/manutenção)
-   * Rota: POST /api/access/reset
+   * Reseta o contador (apenas administradores)
+   * Rotas: POST /api/access/reset, POST /api/access/:key/reset
    */
   public static resetCounter = asyncHandler(
     async (req: Request, res: Response): Promise<void> => {
-      // Em produção, esta rota deveria ter autenticação de admin
-      if (process.env.NODE_ENV === 'production') {
-        ApiResponseUtil.forbidden(res, 'Operação não permitida em produção');
-        return;
-      }
+      const key = req.params.key ?? DEFAULT_COUNTER_KEY;
+      const reason = req.body?.reason as string | undefined;
 
       Logger.warn('Requisição para resetar contador', {
+        key,
         ip: req.ip,
         userAgent: req.get('User-Agent'),
+        actorId: req.user?.id,
+        reason,
       });
 
-      const result = await AccessCounterService.resetCounter();
+      const result = await AccessCounterService.resetCounter(key, { actor: req.user, reason });
 
       ApiResponseUtil.success(
         res,
@@ -92,6 +315,452 @@ export class AccessCounterController {
     }
   );
 
+  /**
+   * Ajusta manualmente o total de um contador (delta, value ou by)
+   * Rota: POST /api/access/:key/adjust
+   */
+  public static adjustCounter = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { key } = req.params;
+      const { delta, value, by, reason } = req.body;
+
+      Logger.warn('Requisição para ajustar contador', {
+        key,
+        delta,
+        value,
+        by,
+        reason,
+        ip: req.ip,
+        actorId: req.user?.id,
+      });
+
+      const result = await AccessCounterService.adjustCounter(key, { delta, value, by }, { actor: req.user, reason });
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Contador ajustado com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Obtém a série histórica de acessos, preenchida com zeros
+   * Rotas: GET /api/access/history, GET /api/access/:key/history
+   */
+  public static getHistory = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const key = req.params.key ?? DEFAULT_COUNTER_KEY;
+      const granularity = (req.query.granularity as HistoryGranularity) || HistoryGranularity.HOUR;
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+      Logger.debug('Requisição para obter histórico de acessos', { key, granularity, from, to });
+
+      const result = await AccessHistoryService.getHistory(key, granularity, from, to);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Histórico obtido com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Obtém os valores mais frequentes de uma dimensão do tráfego
+   * Rotas: GET /api/access/breakdown, GET /api/access/:key/breakdown
+   */
+  public static getBreakdown = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const key = req.params.key ?? DEFAULT_COUNTER_KEY;
+      const dimension = req.query.dimension as BreakdownDimension;
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      Logger.debug('Requisição para obter segmentação de acessos', { key, dimension, from, to, limit });
+
+      const result = await AccessBreakdownService.getBreakdown(key, dimension, from, to, limit);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Segmentação obtida com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Compara períodos e projeta o período em andamento
+   * Rotas: GET /api/access/trends, GET /api/access/:key/trends
+   */
+  public static getTrends = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const key = req.params.key ?? DEFAULT_COUNTER_KEY;
+      const options = {
+        period: req.query.period as TrendPeriod | undefined,
+        compare: req.query.compare as TrendComparison | undefined,
+        forecast: req.query.forecast as TrendForecastMethod | undefined,
+        periods: req.query.periods ? parseInt(req.query.periods as string) : undefined,
+        window: req.query.window ? parseInt(req.query.window as string) : undefined,
+      };
+
+      Logger.debug('Requisição para obter tendências de acessos', { key, ...options });
+
+      const result = await AccessTrendService.getTrends(key, options);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Tendências obtidas com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Exporta os dados de acesso (buckets e dimensões) em CSV, NDJSON ou JSON
+   * O arquivo é transmitido enquanto é lido do banco; a compressão gzip é
+   * aplicada pelo middleware compression() conforme o Accept-Encoding
+   * Rotas: GET /api/access/export, GET /api/access/:key/export
+   */
+  public static exportAccess = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const key = req.params.key ?? DEFAULT_COUNTER_KEY;
+      const granularity = req.query.granularity as HistoryGranularity | undefined;
+      const format = req.query.format as AccessExportFormat | undefined;
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+      const query = AccessExportService.prepareDirect(key, granularity, format, from, to);
+
+      Logger.info('Requisição para exportar acessos', { ...query, ip: req.ip });
+
+      res.status(200).set({
+        'Content-Type': EXPORT_FORMATS[query.format].contentType,
+        'Content-Disposition': contentDisposition(exportFileName(query)),
+        'Cache-Control': 'no-store',
+      });
+
+      try {
+        await pipeline(AccessExportService.stream(query), res);
+      } catch (error) {
+        // A resposta já começou a ser enviada: apenas registra (ex.: cliente desconectou)
+        Logger.warn('Exportação de acessos interrompida', { key, error });
+      }
+    }
+  );
+
+  /**
+   * Agenda uma exportação em segundo plano para intervalos grandes
+   * Rota: POST /api/access/exports
+   */
+  public static requestExport = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { key, granularity, format } = req.body;
+      const from = new Date(req.body.from);
+      const to = req.body.to ? new Date(req.body.to) : undefined;
+
+      const query = AccessExportService.prepare(key ?? DEFAULT_COUNTER_KEY, granularity, format, from, to);
+      await AccessCounterController.assertCounterAccess(req, query.key, CounterScope.READ);
+
+      const result = await AccessExportService.requestExport(query, req.user!);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Exportação agendada com sucesso',
+        HttpStatus.ACCEPTED
+      );
+    }
+  );
+
+  /**
+   * Obtém o estado de uma exportação em segundo plano
+   * Rota: GET /api/access/exports/:id
+   */
+  public static getExport = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const result = await AccessExportService.getExport(req.params.id, req.user!);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Exportação obtida com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Baixa o arquivo de uma exportação concluída
+   * Rota: GET /api/access/exports/:id/download
+   */
+  public static downloadExport = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { fileName, contentType, stream } = await AccessExportService.openDownload(req.params.id, req.user!);
+
+      res.status(200).set({
+        'Content-Type': contentType,
+        'Content-Disposition': contentDisposition(fileName),
+        'Cache-Control': 'private, no-store',
+      });
+
+      try {
+        await pipeline(stream, res);
+      } catch (error) {
+        Logger.warn('Download de exportação interrompido', { id: req.params.id, error });
+      }
+    }
+  );
+
+  /**
+   * Abre um stream SSE com as atualizações dos contadores assinados
+   * Rota: GET /api/access/stream?keys=home,about
+   */
+  public static streamUpdates = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const keys = parseSubscriptionKeys(req.query.keys) ?? [DEFAULT_COUNTER_KEY];
+
+      for (const key of keys) {
+        await AccessCounterController.assertCounterAccess(req, key, CounterScope.READ);
+      }
+
+      if (!RealtimeService.hasCapacity()) {
+        throw new AppError('Limite de conexões em tempo real atingido', 503);
+      }
+
+      Logger.debug('Abrindo stream de atualizações', { keys, ip: req.ip });
+
+      const subscriber = new SseSubscriber(res);
+      RealtimeService.subscribe(subscriber, keys);
+      req.on('close', () => RealtimeService.remove(subscriber));
+
+      subscriber.open();
+
+      // Valor atual de cada contador; os headers já foram enviados, então falhas só são registradas
+      try {
+        for (const update of await RealtimeService.snapshot(keys)) {
+          subscriber.send(update);
+        }
+      } catch (error) {
+        Logger.error('Erro ao enviar valores iniciais do stream', error);
+      }
+    }
+  );
+
+  /**
+   * Lista contadores com paginação, opcionalmente filtrando por namespace
+   * Contadores privados só aparecem para quem pode lê-los
+   * Rota: GET /api/access
+   */
+  public static listCounters = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const namespace = req.query.namespace as string | undefined;
+
+      Logger.debug('Requisição para listar contadores', { namespace, page, limit });
+
+      const access = CounterAccessService.readableFilter(AccessCounterController.principalOf(req));
+      const result = await AccessCounterService.listCounters(namespace, page, limit, access);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Contadores listados com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Lista snapshots dos períodos encerrados por resets agendados
+   * Sem key, apenas para quem lê todos os contadores (administradores e operadores)
+   * Rota: GET /api/access/snapshots
+   */
+  public static listSnapshots = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const key = req.query.key as string | undefined;
+      const from = req.query.from ? new Date(req.query.from as string) : undefined;
+      const to = req.query.to ? new Date(req.query.to as string) : undefined;
+
+      if (key) {
+        await AccessCounterController.assertCounterAccess(req, key, CounterScope.READ);
+      } else if (CounterAccessService.readableFilter(AccessCounterController.principalOf(req))) {
+        // Sem key a listagem abrange todos os contadores, inclusive os privados
+        throw new AppError('Informe o contador (key) para listar snapshots', 400);
+      }
+
+      Logger.debug('Requisição para listar snapshots de contadores', { key, from, to, page, limit });
+
+      const result = await CounterResetService.listSnapshots({ key, from, to }, page, limit);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Snapshots listados com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Lista as anomalias de tráfego detectadas
+   * Rota: GET /api/access/anomalies
+   */
+  public static listAnomalies = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const filters = {
+        key: req.query.key as string | undefined,
+        granularity: req.query.granularity as HistoryGranularity | undefined,
+        severity: req.query.severity as AnomalySeverity | undefined,
+        status: req.query.status as AnomalyStatus | undefined,
+        from: req.query.from ? new Date(req.query.from as string) : undefined,
+        to: req.query.to ? new Date(req.query.to as string) : undefined,
+      };
+
+      Logger.debug('Requisição para listar anomalias de tráfego', { ...filters, page, limit });
+
+      const result = await AccessAnomalyService.listAnomalies(filters, page, limit);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Anomalias listadas com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Põe em quarentena os acessos excedentes de uma anomalia
+   * Rota: POST /api/access/anomalies/:id/quarantine
+   */
+  public static quarantineAnomaly = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { id } = req.params;
+
+      Logger.warn('Requisição para pôr anomalia em quarentena', { id, actorId: req.user?.id });
+
+      const anomaly = await AccessAnomalyService.quarantine(id, req.user);
+
+      ApiResponseUtil.success(
+        res,
+        anomaly,
+        'Anomalia posta em quarentena com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Libera a quarentena de uma anomalia
+   * Rota: POST /api/access/anomalies/:id/release
+   */
+  public static releaseAnomaly = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { id } = req.params;
+
+      Logger.info('Requisição para liberar quarentena de anomalia', { id, actorId: req.user?.id });
+
+      const anomaly = await AccessAnomalyService.release(id, req.user);
+
+      ApiResponseUtil.success(
+        res,
+        anomaly,
+        'Quarentena da anomalia liberada com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Lista a trilha de auditoria (resets manuais e agendados) de um contador
+   * Rota: GET /api/access/:key/events
+   */
+  public static listEvents = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { key } = req.params;
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      Logger.debug('Requisição para listar eventos do contador', { key, page, limit });
+
+      const result = await CounterResetService.listEvents(key, page, limit);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Eventos do contador listados com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Atualiza configurações de um contador (número de shards, política de bots,
+   * reset agendado, modo event-sourced, dono, visibilidade e origens permitidas)
+   * Apenas quem tem a permissão manageCounters (via JWT) pode trocar o dono
+   * Rota: PATCH /api/access/:key/settings
+   */
+  public static updateSettings = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { key } = req.params;
+      const { shards, botPolicy, resetSchedule, eventSourced, owner, visibility, allowedOrigins } = req.body;
+
+      Logger.info('Requisição para atualizar configurações do contador', {
+        key,
+        shards,
+        botPolicy,
+        resetSchedule,
+        eventSourced,
+        owner,
+        visibility,
+        allowedOrigins,
+        actorId: req.user?.id,
+        apiKeyId: req.apiKey?.id,
+      });
+
+      if (owner !== undefined && (!req.user || req.apiKey || !hasPermission(req.user.role, 'manageCounters'))) {
+        throw new AppError('Apenas administradores podem alterar o dono do contador', 403);
+      }
+
+      const result = await AccessCounterService.updateSettings(key, {
+        shards,
+        botPolicy,
+        resetSchedule,
+        eventSourced,
+        owner,
+        visibility,
+        allowedOrigins,
+      });
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Configurações do contador atualizadas com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Reconstrói a projeção de um contador event-sourced a partir do log
+   * Rota: POST /api/access/:key/rebuild
+   */
+  public static rebuildCounter = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { key } = req.params;
+
+      Logger.warn('Requisição para reconstruir contador', { key, actorId: req.user?.id });
+
+      const result = await AccessCounterService.rebuildCounter(key, { actor: req.user });
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Contador reconstruído com sucesso'
+      );
+    }
+  );
+
   /**
    * Verifica integridade do contador
    * Rota: GET /api/access/health
@@ -0,0 +1,137 @@
+import { Request, Response } from 'express';
+import { AlertService } from '../services';
+import { ApiResponseUtil, Logger } from '../utils';
+import { IAlertRuleInput } from '../types';
+import { asyncHandler } from '../middleware';
+
+/**
+ * Controller para regras de alerta dos contadores
+ * Responsável por processar requisições HTTP e chamar services apropriados
+ */
+export class AlertController {
+  /**
+   * Cria uma regra de alerta
+   * Rota: POST /api/alerts
+   */
+  public static createRule = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const input: IAlertRuleInput = req.body;
+
+      Logger.info('Requisição para criar regra de alerta', {
+        counterKey: input.counterKey,
+        type: input.condition?.type,
+        actorId: req.user!.id,
+      });
+
+      const result = await AlertService.createRule(input, req.user!.id);
+
+      ApiResponseUtil.created(
+        res,
+        result,
+        'Regra de alerta criada com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Lista regras de alerta com paginação
+   * Rota: GET /api/alerts
+   */
+  public static listRules = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const counterKey = req.query.counterKey as string | undefined;
+
+      Logger.debug('Requisição para listar regras de alerta', { counterKey, page, limit });
+
+      const result = await AlertService.listRules(counterKey, page, limit);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Regras de alerta listadas com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Obtém uma regra de alerta
+   * Rota: GET /api/alerts/:id
+   */
+  public static getRule = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const result = await AlertService.getRule(req.params.id);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Regra de alerta obtida com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Atualiza uma regra de alerta
+   * Rota: PATCH /api/alerts/:id
+   */
+  public static updateRule = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { id } = req.params;
+      const input: IAlertRuleInput = req.body;
+
+      Logger.info('Requisição para atualizar regra de alerta', {
+        ruleId: id,
+        fields: Object.keys(input),
+        actorId: req.user!.id,
+      });
+
+      const result = await AlertService.updateRule(id, input);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Regra de alerta atualizada com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Remove uma regra de alerta
+   * Rota: DELETE /api/alerts/:id
+   */
+  public static deleteRule = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { id } = req.params;
+
+      Logger.info('Requisição para remover regra de alerta', { ruleId: id, actorId: req.user!.id });
+
+      await AlertService.deleteRule(id);
+
+      ApiResponseUtil.success(
+        res,
+        null,
+        'Regra de alerta removida com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Lista o histórico de entregas de webhooks de uma regra
+   * Rota: GET /api/alerts/:id/deliveries
+   */
+  public static listDeliveries = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+
+      const result = await AlertService.listDeliveries(req.params.id, page, limit);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Entregas listadas com sucesso'
+      );
+    }
+  );
+}
@@ -0,0 +1,78 @@
+import { Request, Response } from 'express';
+import { ApiKeyService } from '../services';
+import { ApiResponseUtil, Logger } from '../utils';
+import { IApiKeyInput } from '../types';
+import { asyncHandler } from '../middleware';
+
+/**
+ * Controller para API keys de acesso aos contadores
+ * Responsável por processar requisições HTTP e chamar services apropriados
+ */
+export class ApiKeyController {
+  /**
+   * Cria uma API key para o usuário autenticado
+   * Rota: POST /api/api-keys
+   */
+  public static createKey = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const input: IApiKeyInput = req.body;
+
+      Logger.info('Requisição para criar API key', {
+        name: input.name,
+        scopes: input.scopes,
+        counters: input.counters,
+        actorId: req.user!.id,
+      });
+
+      const result = await ApiKeyService.createKey(input, req.user!);
+
+      ApiResponseUtil.created(
+        res,
+        result,
+        'API key criada com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Lista as API keys do usuário autenticado (ou de outro usuário, para administradores)
+   * Rota: GET /api/api-keys
+   */
+  public static listKeys = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const page = parseInt(req.query.page as string) || 1;
+      const limit = parseInt(req.query.limit as string) || 10;
+      const owner = req.query.owner as string | undefined;
+
+      Logger.debug('Requisição para listar API keys', { owner, page, limit, actorId: req.user!.id });
+
+      const result = await ApiKeyService.listKeys(req.user!, owner, page, limit);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'API keys listadas com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Revoga uma API key
+   * Rota: DELETE /api/api-keys/:id
+   */
+  public static revokeKey = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { id } = req.params;
+
+      Logger.info('Requisição para revogar API key', { apiKeyId: id, actorId: req.user!.id });
+
+      const result = await ApiKeyService.revokeKey(id, req.user!);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'API key revogada com sucesso'
+      );
+    }
+  );
+}
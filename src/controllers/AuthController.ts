@@ -0,0 +1,197 @@
+import { Request, Response } from 'express';
+import { AuthService, EmailVerificationService, PasswordService, UserService } from '../services';
+import { ApiResponseUtil, Logger } from '../utils';
+import { asyncHandler } from '../middleware';
+
+/**
+ * Controller para autenticação
+ * Responsável por login, renovação e encerramento de sessões, redefinição de senha e verificação de email
+ */
+export class AuthController {
+  /**
+   * Autentica usuário com email e senha
+   * Rota: POST /api/auth/login
+   */
+  public static login = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { email, password } = req.body;
+
+      Logger.info('Requisição de login', { email, ip: req.ip });
+
+      const result = await AuthService.login(email, password, {
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'twoFactorRequired' in result ? 'Informe o código de verificação' : 'Login realizado com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Conclui o login de usuários com 2FA usando o código do autenticador
+   * Rota: POST /api/auth/2fa
+   */
+  public static completeTwoFactorLogin = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { challengeToken, code } = req.body;
+
+      Logger.info('Requisição de segundo fator do login', { ip: req.ip });
+
+      const result = await AuthService.completeTwoFactorLogin(challengeToken, code, {
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Login realizado com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Renova o access token usando um refresh token
+   * Rota: POST /api/auth/refresh
+   */
+  public static refresh = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { refreshToken } = req.body;
+
+      Logger.debug('Requisição de renovação de token', { ip: req.ip });
+
+      const result = await AuthService.refresh(refreshToken, {
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Tokens renovados com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Encerra a sessão revogando o refresh token
+   * Rota: POST /api/auth/logout
+   */
+  public static logout = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { refreshToken } = req.body;
+
+      Logger.debug('Requisição de logout', { ip: req.ip });
+
+      await AuthService.logout(refreshToken);
+
+      ApiResponseUtil.success(
+        res,
+        undefined,
+        'Logout realizado com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Solicita a redefinição de senha (envia o link por e-mail)
+   * A resposta é a mesma para emails cadastrados ou não
+   * Rota: POST /api/auth/forgot-password
+   */
+  public static forgotPassword = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { email } = req.body;
+
+      Logger.info('Requisição de redefinição de senha', { email, ip: req.ip });
+
+      await PasswordService.requestReset(email, {
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      ApiResponseUtil.success(
+        res,
+        undefined,
+        'Se o email estiver cadastrado, você receberá as instruções para redefinir a senha'
+      );
+    }
+  );
+
+  /**
+   * Redefine a senha com o token recebido por e-mail
+   * Rota: POST /api/auth/reset-password
+   */
+  public static resetPassword = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { token, password } = req.body;
+
+      Logger.debug('Requisição para redefinir senha', { ip: req.ip });
+
+      await PasswordService.resetPassword(token, password);
+
+      ApiResponseUtil.success(
+        res,
+        undefined,
+        'Senha redefinida com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Confirma o email com o token recebido por e-mail
+   * Rota: POST /api/auth/verify-email
+   */
+  public static verifyEmail = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { token } = req.body;
+
+      Logger.debug('Requisição para verificar email', { ip: req.ip });
+
+      await EmailVerificationService.verifyEmail(token);
+
+      ApiResponseUtil.success(
+        res,
+        undefined,
+        'Email verificado com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Reenvia o email de verificação do usuário autenticado
+   * Rota: POST /api/auth/resend-verification
+   */
+  public static resendVerification = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      Logger.info('Requisição de reenvio de verificação de email', { userId: req.user!.id, ip: req.ip });
+
+      await EmailVerificationService.resendVerification(req.user!.id);
+
+      ApiResponseUtil.success(
+        res,
+        undefined,
+        'Email de verificação reenviado'
+      );
+    }
+  );
+
+  /**
+   * Obtém dados do usuário autenticado
+   * Rota: GET /api/auth/me
+   */
+  public static me = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const result = await UserService.getUserById(req.user!.id);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Usuário autenticado obtido com sucesso'
+      );
+    }
+  );
+}
@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import { ApiResponseUtil, Logger } from '../utils';
 import { asyncHandler } from '../middleware';
 import { database } from '../config/database';
+import { AccessCounterService, RealtimeService } from '../services';
 
 /**
  * Controller para health checks e monitoramento
@@ -120,6 +121,10 @@ export class HealthController {
             increment: 'POST /api/access/increment',
             count: 'GET /api/access/count',
             statistics: 'GET /api/access/statistics',
+            history: 'GET /api/access/history?from=&to=&granularity=',
+            list: 'GET /api/access?namespace=',
+            keyedIncrement: 'POST /api/access/:key/increment',
+            keyedCount: 'GET /api/access/:key/count',
           },
           users: {
             create: 'POST /api/users',
@@ -127,8 +132,15 @@ export class HealthController {
             list: 'GET /api/users',
             update: 'PUT /api/users/:id',
             delete: 'DELETE /api/users/:id',
+            updateRole: 'PATCH /api/users/:id/role',
             statistics: 'GET /api/users/statistics',
           },
+          auth: {
+            login: 'POST /api/auth/login',
+            refresh: 'POST /api/auth/refresh',
+            logout: 'POST /api/auth/logout',
+            me: 'GET /api/auth/me',
+          },
           health: {
             basic: 'GET /health',
             detailed: 'GET /health/detailed',
@@ -171,6 +183,8 @@ export class HealthController {
           arch: process.arch,
           nodeVersion: process.version,
         },
+        counterBuffer: AccessCounterService.getBufferMetrics(),
+        realtime: RealtimeService.getMetrics(),
       };
 
       ApiResponseUtil.success(
@@ -1,8 +1,9 @@
 import { Request, Response } from 'express';
-import { UserService } from '../services';
+import { PasswordService, TwoFactorService, UserService } from '../services';
 import { ApiResponseUtil, Logger } from '../utils';
-import { IUserCreateRequest } from '../types';
+import { IUserCreateRequest, UserRole } from '../types';
 import { asyncHandler } from '../middleware';
+import { hasPermission } from '../config/permissions';
 
 /**
  * Controller para gerenciamento de usuários
@@ -42,7 +43,10 @@ export class UserController {
 
       Logger.debug('Requisição para obter usuário por ID', { userId: id });
 
-      const result = await UserService.getUserById(id);
+      // Administradores também veem o estado de bloqueio de login
+      const result = await UserService.getUserById(id, {
+        includeLockout: hasPermission(req.user!.role, 'manageLockouts'),
+      });
 
       ApiResponseUtil.success(
         res,
@@ -98,16 +102,127 @@ export class UserController {
   );
 
   /**
-   * Remove um usuário
+   * Troca a senha do usuário autenticado
+   * As demais sessões são encerradas; a resposta traz novos tokens para a sessão atual
+   * Rota: POST /api/users/me/password
+   */
+  public static changePassword = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { currentPassword, newPassword } = req.body;
+
+      Logger.info('Requisição para alterar senha', { userId: req.user!.id, ip: req.ip });
+
+      const result = await PasswordService.changePassword(req.user!.id, currentPassword, newPassword, {
+        ip: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Senha alterada com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Inicia a ativação do 2FA do usuário autenticado
+   * Rota: POST /api/users/me/2fa/setup
+   */
+  public static setupTwoFactor = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      Logger.info('Requisição para configurar 2FA', { userId: req.user!.id, ip: req.ip });
+
+      const result = await TwoFactorService.setup(req.user!.id);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Adicione o segredo ao aplicativo autenticador e confirme com um código'
+      );
+    }
+  );
+
+  /**
+   * Confirma a ativação do 2FA e retorna os códigos de recuperação
+   * Rota: POST /api/users/me/2fa/verify
+   */
+  public static verifyTwoFactor = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      Logger.info('Requisição para confirmar 2FA', { userId: req.user!.id, ip: req.ip });
+
+      const recoveryCodes = await TwoFactorService.verify(req.user!.id, req.body.code);
+
+      ApiResponseUtil.success(
+        res,
+        { recoveryCodes },
+        'Autenticação em dois fatores ativada com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Desativa o 2FA do usuário autenticado
+   * Rota: POST /api/users/me/2fa/disable
+   */
+  public static disableTwoFactor = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { password, code } = req.body;
+
+      Logger.info('Requisição para desativar 2FA', { userId: req.user!.id, ip: req.ip });
+
+      await TwoFactorService.disable(req.user!.id, password, code);
+
+      ApiResponseUtil.success(
+        res,
+        undefined,
+        'Autenticação em dois fatores desativada com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Altera o papel de um usuário (apenas administradores)
+   * Rota: PATCH /api/users/:id/role
+   */
+  public static updateUserRole = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { id } = req.params;
+      const { role } = req.body as { role: UserRole };
+
+      // Impede que o administrador remova o próprio acesso
+      if (id === req.user!.id) {
+        ApiResponseUtil.badRequest(res, 'Não é possível alterar o próprio papel');
+        return;
+      }
+
+      Logger.info('Requisição para alterar papel do usuário', {
+        userId: id,
+        role,
+        actorId: req.user!.id,
+      });
+
+      const result = await UserService.updateUserRole(id, role);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Papel do usuário atualizado com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Remove um usuário (soft delete)
    * Rota: DELETE /api/users/:id
    */
   public static deleteUser = asyncHandler(
     async (req: Request, res: Response): Promise<void> => {
       const { id } = req.params;
 
-      Logger.info('Requisição para remover usuário', { userId: id });
+      Logger.info('Requisição para remover usuário', { userId: id, actorId: req.user!.id });
 
-      await UserService.deleteUser(id);
+      await UserService.deleteUser(id, req.user!.id);
 
       ApiResponseUtil.success(
         res,
@@ -117,6 +232,46 @@ export class UserController {
     }
   );
 
+  /**
+   * Desbloqueia o login de um usuário (apenas administradores)
+   * Rota: POST /api/users/:id/unlock
+   */
+  public static unlockUser = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { id } = req.params;
+
+      Logger.info('Requisição para desbloquear usuário', { userId: id, actorId: req.user!.id });
+
+      const result = await UserService.unlockUser(id, req.user!.id);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Usuário desbloqueado com sucesso'
+      );
+    }
+  );
+
+  /**
+   * Restaura um usuário removido (apenas administradores)
+   * Rota: POST /api/users/:id/restore
+   */
+  public static restoreUser = asyncHandler(
+    async (req: Request, res: Response): Promise<void> => {
+      const { id } = req.params;
+
+      Logger.info('Requisição para restaurar usuário', { userId: id, actorId: req.user!.id });
+
+      const result = await UserService.restoreUser(id, req.user!.id);
+
+      ApiResponseUtil.success(
+        res,
+        result,
+        'Usuário restaurado com sucesso'
+      );
+    }
+  );
+
   /**
    * Obtém estatísticas dos usuários
    * Rota: GET /api/users/statistics
@@ -5,3 +5,6 @@
 export { AccessCounterController } from './AccessCounterController';
 export { UserController } from './UserController';
 export { HealthController } from './HealthController';
+export { AuthController } from './AuthController';
+export { AlertController } from './AlertController';
+export { ApiKeyController } from './ApiKeyController';
@@ -0,0 +1,17 @@
+import { AccessExportService } from '../services';
+import { config } from '../config/environment';
+import { PeriodicJob } from './PeriodicJob';
+
+/**
+ * Job periódico que gera as exportações de acessos em segundo plano e remove
+ * os arquivos expirados
+ */
+export const AccessExportJob = new PeriodicJob({
+  name: 'exportações de acessos',
+  intervalMs: config.exports.jobIntervalSeconds * 1000,
+  details: { intervalSeconds: config.exports.jobIntervalSeconds },
+  task: async () => {
+    await AccessExportService.processPending();
+    await AccessExportService.purgeExpired();
+  },
+});
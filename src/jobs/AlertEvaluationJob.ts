@@ -0,0 +1,20 @@
+import { AlertService } from '../services';
+import { Logger } from '../utils';
+import { config } from '../config/environment';
+import { PeriodicJob } from './PeriodicJob';
+
+/**
+ * Job periódico que avalia as regras de alerta dos contadores
+ */
+export const AlertEvaluationJob = new PeriodicJob({
+  name: 'avaliação de alertas',
+  intervalMs: config.alerts.evaluationIntervalSeconds * 1000,
+  details: { intervalSeconds: config.alerts.evaluationIntervalSeconds },
+  task: async () => {
+    const result = await AlertService.evaluateAll();
+
+    if (result.triggered > 0 || result.resolved > 0) {
+      Logger.info('Regras de alerta avaliadas', result);
+    }
+  },
+});
@@ -0,0 +1,21 @@
+import { AccessAnomalyService } from '../services';
+import { Logger } from '../utils';
+import { config } from '../config/environment';
+import { PeriodicJob } from './PeriodicJob';
+
+/**
+ * Job periódico que procura anomalias nos buckets por minuto e por hora
+ * recém-encerrados
+ */
+export const AnomalyDetectionJob = new PeriodicJob({
+  name: 'detecção de anomalias',
+  intervalMs: config.anomalies.jobIntervalSeconds * 1000,
+  details: { intervalSeconds: config.anomalies.jobIntervalSeconds },
+  task: async () => {
+    const detected = await AccessAnomalyService.detect();
+
+    if (detected > 0) {
+      Logger.warn('Anomalias de tráfego detectadas', { detected });
+    }
+  },
+});
@@ -0,0 +1,13 @@
+import { CounterLogService } from '../services';
+import { config } from '../config/environment';
+import { PeriodicJob } from './PeriodicJob';
+
+/**
+ * Job periódico que consolida o log dos contadores event-sourced em checkpoints
+ */
+export const CounterCheckpointJob = new PeriodicJob({
+  name: 'checkpoints de contadores',
+  intervalMs: config.eventSourcing.checkpointIntervalSeconds * 1000,
+  details: { intervalSeconds: config.eventSourcing.checkpointIntervalSeconds },
+  task: () => CounterLogService.checkpointAll(),
+});
@@ -0,0 +1,17 @@
+import { AccessBreakdownService, AccessHistoryService } from '../services';
+import { config } from '../config/environment';
+import { PeriodicJob } from './PeriodicJob';
+
+/**
+ * Job periódico que aplica a política de retenção do histórico de acessos
+ * e das tabelas de segmentação do tráfego
+ */
+export const HistoryRetentionJob = new PeriodicJob({
+  name: 'retenção do histórico',
+  intervalMs: config.history.retentionIntervalMinutes * 60 * 1000,
+  details: { intervalMinutes: config.history.retentionIntervalMinutes },
+  task: async () => {
+    await AccessHistoryService.applyRetention();
+    await AccessBreakdownService.applyRetention();
+  },
+});
@@ -0,0 +1,90 @@
+import { Logger } from '../utils';
+
+/**
+ * Configuração de um job periódico
+ */
+export interface IPeriodicJobOptions {
+  /** Descrição usada nos logs, ex.: "retenção do histórico" */
+  name: string;
+  /** Intervalo entre execuções; zero ou negativo desabilita o job */
+  intervalMs: number;
+  /** Dados extras registrados no log de agendamento */
+  details?: Record<string, unknown>;
+  task: () => Promise<unknown>;
+}
+
+/**
+ * Agendador compartilhado pelos jobs em segundo plano
+ * Cada job define apenas a sua tarefa; o agendamento, o cancelamento e a
+ * proteção contra execuções sobrepostas ficam aqui
+ */
+export class PeriodicJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+
+  constructor(private readonly options: IPeriodicJobOptions) {}
+
+  /**
+   * Agenda a execução periódica do job
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    const { name, intervalMs, details } = this.options;
+
+    if (intervalMs <= 0) {
+      Logger.info(`Job de ${name} desabilitado`);
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      void this.run();
+    }, intervalMs);
+
+    // Não impede o encerramento do processo
+    this.timer.unref();
+
+    Logger.info(`⏱️ Job de ${name} agendado`, details);
+  }
+
+  /**
+   * Cancela o agendamento do job e aguarda a execução em andamento
+   */
+  public async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    if (this.running) {
+      await this.running;
+    }
+  }
+
+  /**
+   * Executa o job uma vez, evitando execuções sobrepostas
+   */
+  public async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    this.running = this.execute();
+
+    try {
+      await this.running;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  private async execute(): Promise<void> {
+    try {
+      await this.options.task();
+    } catch (error) {
+      Logger.error(`Erro na execução do job de ${this.options.name}`, error);
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { CounterResetService } from '../services';
+import { config } from '../config/environment';
+import { PeriodicJob } from './PeriodicJob';
+
+/**
+ * Job periódico que executa os resets agendados dos contadores
+ */
+export const ScheduledResetJob = new PeriodicJob({
+  name: 'resets agendados',
+  intervalMs: config.counterResets.intervalSeconds * 1000,
+  details: { intervalSeconds: config.counterResets.intervalSeconds },
+  task: () => CounterResetService.runDueResets(),
+});
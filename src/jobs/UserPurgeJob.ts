@@ -0,0 +1,17 @@
+import { UserService } from '../services';
+import { config } from '../config/environment';
+import { PeriodicJob } from './PeriodicJob';
+
+/**
+ * Job periódico que exclui definitivamente os usuários removidos
+ * há mais de USER_DELETION_GRACE_DAYS
+ */
+export const UserPurgeJob = new PeriodicJob({
+  name: 'exclusão definitiva de usuários',
+  intervalMs: config.userDeletion.purgeIntervalMinutes * 60 * 1000,
+  details: {
+    intervalMinutes: config.userDeletion.purgeIntervalMinutes,
+    graceDays: config.userDeletion.graceDays,
+  },
+  task: () => UserService.purgeDeletedUsers(),
+});
@@ -0,0 +1,13 @@
+import { WebhookService } from '../services';
+import { config } from '../config/environment';
+import { PeriodicJob } from './PeriodicJob';
+
+/**
+ * Job periódico que reenvia webhooks de alertas com falha
+ */
+export const WebhookDeliveryJob = new PeriodicJob({
+  name: 'reenvio de webhooks',
+  intervalMs: config.alerts.deliveryIntervalSeconds * 1000,
+  details: { intervalSeconds: config.alerts.deliveryIntervalSeconds },
+  task: () => WebhookService.processDue(),
+});
@@ -0,0 +1,55 @@
+import { PeriodicJob } from './PeriodicJob';
+import { HistoryRetentionJob } from './HistoryRetentionJob';
+import { AlertEvaluationJob } from './AlertEvaluationJob';
+import { WebhookDeliveryJob } from './WebhookDeliveryJob';
+import { ScheduledResetJob } from './ScheduledResetJob';
+import { CounterCheckpointJob } from './CounterCheckpointJob';
+import { AccessExportJob } from './AccessExportJob';
+import { AnomalyDetectionJob } from './AnomalyDetectionJob';
+import { UserPurgeJob } from './UserPurgeJob';
+
+/**
+ * Arquivo de exportação centralizada dos jobs em segundo plano
+ */
+
+export {
+  PeriodicJob,
+  HistoryRetentionJob,
+  AlertEvaluationJob,
+  WebhookDeliveryJob,
+  ScheduledResetJob,
+  CounterCheckpointJob,
+  AccessExportJob,
+  AnomalyDetectionJob,
+  UserPurgeJob,
+};
+
+/**
+ * Inicia todos os jobs em segundo plano
+ */
+export const startBackgroundJobs = (): void => {
+  HistoryRetentionJob.start();
+  AlertEvaluationJob.start();
+  WebhookDeliveryJob.start();
+  ScheduledResetJob.start();
+  CounterCheckpointJob.start();
+  AccessExportJob.start();
+  AnomalyDetectionJob.start();
+  UserPurgeJob.start();
+};
+
+/**
+ * Para todos os jobs em segundo plano, aguardando as execuções em andamento
+ */
+export const stopBackgroundJobs = async (): Promise<void> => {
+  await Promise.all([
+    HistoryRetentionJob.stop(),
+    AlertEvaluationJob.stop(),
+    WebhookDeliveryJob.stop(),
+    ScheduledResetJob.stop(),
+    CounterCheckpointJob.stop(),
+    AccessExportJob.stop(),
+    AnomalyDetectionJob.stop(),
+    UserPurgeJob.stop(),
+  ]);
+};
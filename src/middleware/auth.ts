@@ -0,0 +1,174 @@
+import { Request, Response, NextFunction } from 'express';
+import { AuthService } from '../services/AuthService';
+import { UserService } from '../services/UserService';
+import { CounterAccessService } from '../services/CounterAccessService';
+import { TwoFactorService } from '../services/TwoFactorService';
+import { ApiResponseUtil, Logger } from '../utils';
+import { UserRole } from '../types';
+import { asyncHandler } from './errorHandler';
+
+/**
+ * Header com a API key de acesso aos contadores
+ */
+export const API_KEY_HEADER = 'X-API-Key';
+
+/**
+ * Extrai o token do header Authorization no formato Bearer
+ */
+const extractBearerToken = (req: Request): string | null => {
+  const header = req.get('Authorization');
+
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+
+  const token = header.slice('Bearer '.length).trim();
+  return token || null;
+};
+
+/**
+ * Cria o middleware de autenticação via JWT
+ * Com enforceTwoFactor, usuários cujo papel exige 2FA recebem 403 até ativá-lo
+ */
+const createAuthenticate = (enforceTwoFactor: boolean) => asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const token = extractBearerToken(req);
+
+    if (!token) {
+      ApiResponseUtil.unauthorized(res, 'Token de acesso não fornecido');
+      return;
+    }
+
+    // Lança AppError 401 se o token for inválido ou expirado
+    const payload = AuthService.verifyAccessToken(token);
+
+    // Garante que o usuário ainda existe
+    const user = await UserService.getUserDocumentById(payload.sub);
+
+    if (!user) {
+      Logger.warn('Token válido para usuário inexistente', { userId: payload.sub, ip: req.ip });
+      ApiResponseUtil.unauthorized(res, 'Token de acesso inválido');
+      return;
+    }
+
+    // Tokens emitidos antes da troca de senha foram revogados com as sessões
+    if (user.changedPasswordAfter(payload.iat)) {
+      ApiResponseUtil.unauthorized(res, 'Token de acesso revogado');
+      return;
+    }
+
+    if (enforceTwoFactor) {
+      TwoFactorService.assertPolicy(user);
+    }
+
+    req.user = {
+      id: (user._id as any).toString(),
+      email: user.email,
+      role: user.role,
+      emailVerified: user.emailVerified,
+    };
+
+    next();
+  }
+);
+
+/**
+ * Middleware de autenticação via JWT
+ * Valida o access token e anexa o usuário autenticado em req.user
+ */
+export const authenticate = createAuthenticate(true);
+
+/**
+ * Autenticação que dispensa a política de 2FA obrigatório
+ * Usada apenas nas rotas que o usuário precisa para ativar o 2FA
+ */
+export const authenticateForEnrollment = createAuthenticate(false);
+
+/**
+ * Middleware de autenticação opcional via JWT ou API key (header X-API-Key)
+ * Sem credenciais a requisição segue anônima; credenciais inválidas geram 401.
+ * Com API key, req.user é o dono da chave e req.apiKey limita seus scopes
+ */
+export const authenticateOptional = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const principal = await CounterAccessService.resolvePrincipal({
+      token: extractBearerToken(req),
+      apiKey: req.get(API_KEY_HEADER),
+    });
+
+    req.user = principal.user ?? undefined;
+    req.apiKey = principal.apiKey ?? undefined;
+
+    next();
+  }
+);
+
+/**
+ * Middleware de autorização por papel
+ * Deve ser usado após authenticate
+ */
+export const authorize = (...roles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      ApiResponseUtil.unauthorized(res, 'Autenticação necessária');
+      return;
+    }
+
+    if (!roles.includes(req.user.role)) {
+      Logger.warn('Acesso negado por papel insuficiente', {
+        userId: req.user.id,
+        role: req.user.role,
+        required: roles,
+        method: req.method,
+        url: req.originalUrl,
+      });
+      ApiResponseUtil.forbidden(res, 'Permissão insuficiente para esta operação');
+      return;
+    }
+
+    next();
+  };
+};
+
+/**
+ * Middleware que exige email verificado
+ * Deve ser usado após authenticate (ou authenticateOptional, quando a rota exige usuário)
+ */
+export const requireVerifiedEmail = (req: Request, res: Response, next: NextFunction): void => {
+  if (!req.user) {
+    ApiResponseUtil.unauthorized(res, 'Autenticação necessária');
+    return;
+  }
+
+  if (!req.user.emailVerified) {
+    Logger.warn('Acesso negado por email não verificado', {
+      userId: req.user.id,
+      method: req.method,
+      url: req.originalUrl,
+    });
+    ApiResponseUtil.forbidden(res, 'Verifique seu email para acessar este recurso');
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Middleware de autorização que permite o acesso ao próprio registro
+ * ou a usuários com um dos papéis informados
+ */
+export const authorizeSelfOr = (...roles: UserRole[]) => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      ApiResponseUtil.unauthorized(res, 'Autenticação necessária');
+      return;
+    }
+
+    if (req.params.id === req.user.id) {
+      next();
+      return;
+    }
+
+    authorize(...roles)(req, res, next);
+  };
+};
@@ -76,6 +76,10 @@ export const globalErrorHandler = (
     return;
   }
 
+  if (error.retryAfterSeconds) {
+    res.set('Retry-After', String(error.retryAfterSeconds));
+  }
+
   // Resposta padrão para outros erros
   ApiResponseUtil.error(res, message, statusCode, errorDetail);
 };
@@ -125,6 +129,18 @@ export class AppError extends Error implements CustomError {
   }
 }
 
+/**
+ * Erro 429 com o tempo de espera enviado no header Retry-After
+ */
+export class TooManyRequestsError extends AppError {
+  public retryAfterSeconds: number;
+
+  constructor(message: string, retryAfterSeconds: number) {
+    super(message, 429);
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
 /**
  * Middleware para timeout de requisições
  */
@@ -0,0 +1,135 @@
+import { Request, Response, NextFunction } from 'express';
+import { IdempotencyRecord } from '../models/IdempotencyRecord';
+import { ApiResponseUtil, Logger, signPayload } from '../utils';
+import { HttpStatus, IdempotencyStatus } from '../types';
+import { config } from '../config/environment';
+import { asyncHandler } from './errorHandler';
+
+/**
+ * Header com a chave de idempotência enviada pelo cliente
+ */
+export const IDEMPOTENCY_HEADER = 'Idempotency-Key';
+
+/**
+ * Chaves aceitas: de 1 a 255 caracteres ASCII visíveis (ex.: UUID)
+ */
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * Serializa um valor com as chaves dos objetos ordenadas,
+ * para que o mesmo corpo gere sempre o mesmo fingerprint
+ */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+};
+
+/**
+ * Fingerprint da requisição: método, URL (com query) e corpo
+ * HMAC com o segredo do servidor: o corpo pode conter senhas, e um hash simples
+ * armazenado em idempotency_keys permitiria testá-las offline
+ */
+const fingerprintRequest = (req: Request): string =>
+  signPayload(
+    config.jwt.secret,
+    stableStringify({ method: req.method, url: req.originalUrl, body: req.body ?? null })
+  );
+
+/**
+ * Middleware de idempotência para rotas que alteram dados
+ * Com o header Idempotency-Key, a primeira requisição é processada normalmente e
+ * sua resposta é armazenada; repetições com a mesma chave recebem a resposta
+ * original (header Idempotent-Replayed) sem executar a operação de novo.
+ * Chaves são isoladas por usuário autenticado e rota; usar após authenticate
+ * quando a rota for autenticada
+ */
+export const idempotent = asyncHandler(
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.get(IDEMPOTENCY_HEADER);
+
+    if (key === undefined) {
+      next();
+      return;
+    }
+
+    if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+      ApiResponseUtil.badRequest(
+        res,
+        'Idempotency-Key inválida',
+        'Use de 1 a 255 caracteres ASCII visíveis'
+      );
+      return;
+    }
+
+    const scope = `${req.user?.id ?? 'anonymous'}:${req.method} ${req.baseUrl}${req.path}`;
+    const fingerprint = fingerprintRequest(req);
+    const expiresAt = new Date(Date.now() + config.idempotency.ttlHours * 60 * 60 * 1000);
+
+    const { record, created } = await IdempotencyRecord.acquire(scope, key, fingerprint, expiresAt);
+
+    if (!created) {
+      if (record.fingerprint !== fingerprint) {
+        Logger.warn('Idempotency-Key reutilizada com outra requisição', { key, scope, ip: req.ip });
+        ApiResponseUtil.error(
+          res,
+          'Idempotency-Key já utilizada com outra requisição',
+          HttpStatus.UNPROCESSABLE_ENTITY
+        );
+        return;
+      }
+
+      if (record.status === IdempotencyStatus.PROCESSING) {
+        res.set('Retry-After', '1');
+        ApiResponseUtil.conflict(res, 'Requisição com esta Idempotency-Key ainda em processamento');
+        return;
+      }
+
+      Logger.info('Resposta idempotente reenviada', { key, scope });
+
+      res.set('Idempotent-Replayed', 'true');
+      res.status(record.statusCode ?? HttpStatus.OK).json(record.responseBody);
+      return;
+    }
+
+    let settled = false;
+    const originalJson = res.json.bind(res);
+
+    // A resposta só é enviada depois de armazenada, para que uma repetição
+    // imediata já encontre o registro concluído. Erros 5xx liberam a chave
+    res.json = ((body: unknown) => {
+      settled = true;
+      res.json = originalJson;
+
+      const persist = res.statusCode >= HttpStatus.INTERNAL_SERVER_ERROR
+        ? IdempotencyRecord.release(record._id)
+        : IdempotencyRecord.complete(record._id, res.statusCode, body);
+
+      persist
+        .catch(error => Logger.error('Erro ao armazenar resposta idempotente', { key, error }))
+        .finally(() => originalJson(body));
+
+      return res;
+    }) as Response['json'];
+
+    // Conexão encerrada sem resposta: libera a chave para nova tentativa
+    res.on('close', () => {
+      if (!settled) {
+        IdempotencyRecord.release(record._id).catch(error =>
+          Logger.error('Erro ao liberar Idempotency-Key', { key, error })
+        );
+      }
+    });
+
+    next();
+  }
+);
@@ -9,11 +9,42 @@ export {
   sanitizeInput,
   validateQueryParams,
   validateRouteParams,
+  validateLogin,
+  validateRefreshToken,
+  validatePasswordChange,
+  validateForgotPassword,
+  validatePasswordReset,
+  validateEmailVerification,
+  validateTwoFactorCode,
+  validateTwoFactorDisable,
+  validateTwoFactorLogin,
+  validateRoleUpdate,
+  validateCounterKey,
+  validateHistoryQuery,
+  validateBreakdownQuery,
+  validateTrendQuery,
+  validateBadgeQuery,
+  validateCounterSettings,
+  validateCounterReset,
+  validateCounterAdjustment,
+  validateSnapshotQuery,
+  validateAnomalyQuery,
+  validateExportQuery,
+  validateExportRequest,
+  validateCountQuery,
+  validateStreamQuery,
+  validateAlertRule,
+  validateAlertRuleUpdate,
+  validateApiKey,
+  validateApiKeyQuery,
 } from './validation';
 
 export {
   rateLimitConfig,
   userCreationRateLimit,
+  passwordResetRateLimit,
+  emailVerificationRateLimit,
+  embedRateLimit,
   corsConfig,
   helmetConfig,
   securityLogger,
@@ -26,5 +57,18 @@ export {
   notFoundHandler,
   asyncHandler,
   AppError,
+  TooManyRequestsError,
   timeoutHandler,
 } from './errorHandler';
+
+export {
+  authenticate,
+  authenticateForEnrollment,
+  authenticateOptional,
+  authorize,
+  authorizeSelfOr,
+  requireVerifiedEmail,
+  API_KEY_HEADER,
+} from './auth';
+
+export { idempotent, IDEMPOTENCY_HEADER } from './idempotency';
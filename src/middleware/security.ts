@@ -1,10 +1,17 @@
-import rateLimit from 'express-rate-limit';
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit';
 import helmet from 'helmet';
 import cors from 'cors';
 import { Request, Response, NextFunction } from 'express';
 import { config } from '../config/environment';
+import { matchBotRule } from '../config/botRules';
+import { BotCategory } from '../types';
 import { ApiResponseUtil, Logger } from '../utils';
 
+/**
+ * Rotas do pixel de rastreamento e do badge SVG (rate limit próprio)
+ */
+const EMBED_PATH_PATTERN = /^\/api\/access\/[^/]+\/(pixel\.gif|badge\.svg)$/;
+
 /**
  * Configuração do Rate Limiting
  * Previne ataques de força bruta e spam
@@ -33,8 +40,34 @@ export const rateLimitConfig = rateLimit({
     );
   },
   skip: (req: Request) => {
-    // Pula rate limiting para health checks
-    return req.path === '/health' || req.path === '/';
+    // Pula rate limiting para health checks e para o pixel/badge, que têm limite próprio
+    return req.path === '/health' || req.path === '/' || EMBED_PATH_PATTERN.test(req.path);
+  },
+});
+
+/**
+ * Rate limiting do pixel de rastreamento e do badge SVG
+ * Aplicado por IP e contador: uma página com vários contadores não esgota o
+ * limite de um único visitante e o tráfego embutido não consome o limite global
+ */
+export const embedRateLimit = rateLimit({
+  windowMs: config.embed.rateLimitWindowMs,
+  max: config.embed.rateLimitMaxRequests,
+  standardHeaders: true,
+  legacyHeaders: false,
+  keyGenerator: (req: Request) => `${ipKeyGenerator(req.ip ?? '')}|${req.params.key}`,
+  handler: (req: Request, res: Response) => {
+    Logger.warn(`Embed rate limit exceeded for IP: ${req.ip}`, {
+      ip: req.ip,
+      key: req.params.key,
+      path: req.path,
+    });
+
+    ApiResponseUtil.error(
+      res,
+      'Muitas requisições para este contador, tente novamente em alguns minutos',
+      429
+    );
   },
 });
 
@@ -63,6 +96,52 @@ export const userCreationRateLimit = rateLimit({
   },
 });
 
+/**
+ * Rate limiting para solicitação e redefinição de senha
+ * Limita o disparo de e-mails e as tentativas de adivinhar tokens
+ */
+export const passwordResetRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutos
+  max: 5, // Máximo 5 tentativas por IP por 15 minutos
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req: Request, res: Response) => {
+    Logger.warn(`Password reset rate limit exceeded for IP: ${req.ip}`, {
+      ip: req.ip,
+      path: req.path,
+    });
+
+    ApiResponseUtil.error(
+      res,
+      'Muitas tentativas de redefinição de senha, tente novamente em 15 minutos',
+      429
+    );
+  },
+});
+
+/**
+ * Rate limiting para confirmação de email
+ * Limita as tentativas de adivinhar tokens de verificação
+ */
+export const emailVerificationRateLimit = rateLimit({
+  windowMs: 15 * 60 * 1000, // 15 minutos
+  max: 10, // Máximo 10 tentativas por IP por 15 minutos
+  standardHeaders: true,
+  legacyHeaders: false,
+  handler: (req: Request, res: Response) => {
+    Logger.warn(`Email verification rate limit exceeded for IP: ${req.ip}`, {
+      ip: req.ip,
+      path: req.path,
+    });
+
+    ApiResponseUtil.error(
+      res,
+      'Muitas tentativas de verificação de email, tente novamente em 15 minutos',
+      429
+    );
+  },
+});
+
 /**
  * Configuração do CORS
  * Define origens permitidas e headers aceitos
@@ -90,7 +169,7 @@ export const corsConfig = cors({
     }
   },
   credentials: true, // Permite cookies
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
   allowedHeaders: [
     'Origin',
     'X-Requested-With',
@@ -99,8 +178,10 @@ export const corsConfig = cors({
     'Authorization',
     'Cache-Control',
     'Pragma',
+    'Idempotency-Key',
+    'X-API-Key',
   ],
-  exposedHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining'],
+  exposedHeaders: ['X-RateLimit-Limit', 'X-RateLimit-Remaining', 'Idempotent-Replayed'],
   maxAge: 86400, // Cache do preflight por 24h
 });
 
@@ -184,16 +265,11 @@ export const validateUserAgent = (
     return;
   }
   
-  // Bloqueia bots maliciosos conhecidos
-  const maliciousBots = [
-    /sqlmap/i,
-    /nikto/i,
-    /nessus/i,
-    /masscan/i,
-    /nmap/i,
-  ];
+  // Bloqueia scanners de vulnerabilidades conhecidos; os demais bots
+  // seguem e são tratados pela política de bots de cada contador
+  const rule = matchBotRule(userAgent);
   
-  if (maliciousBots.some(bot => bot.test(userAgent))) {
+  if (rule?.category === BotCategory.SCANNER) {
     Logger.warn('Bot malicioso detectado', { ip: req.ip, userAgent });
     ApiResponseUtil.forbidden(res, 'Acesso negado');
     return;
@@ -1,6 +1,27 @@
 import { Request, Response, NextFunction } from 'express';
-import { body, validationResult, ValidationChain } from 'express-validator';
-import { ApiResponseUtil } from '../utils';
+import { body, query, validationResult, ValidationChain } from 'express-validator';
+import { ApiResponseUtil, BADGE_COLORS, isValidTimeZone, normalizeOrigin, resolveBadgeColor } from '../utils';
+import {
+  UserRole,
+  HistoryGranularity,
+  AlertConditionType,
+  AlertOperator,
+  BreakdownDimension,
+  BotPolicy,
+  BadgeNumberFormat,
+  ResetPeriod,
+  AccessExportFormat,
+  TrendPeriod,
+  TrendComparison,
+  TrendForecastMethod,
+  AnomalySeverity,
+  AnomalyStatus,
+  CounterScope,
+  CounterVisibility,
+} from '../types';
+import { COUNTER_KEY_PATTERN } from '../models/AccessCounter';
+import { parseSubscriptionKeys } from '../realtime/subscriptionKeys';
+import { config } from '../config/environment';
 
 /**
  * Middleware para processar resultados de validação
@@ -22,6 +43,16 @@ export const handleValidationErrors = (
   next();
 };
 
+/**
+ * Regras de senha forte, as mesmas do model User
+ */
+const strongPassword = (field: string): ValidationChain =>
+  body(field)
+    .isLength({ min: 8, max: 128 })
+    .withMessage('Senha deve ter entre 8 e 128 caracteres')
+    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d).+$/)
+    .withMessage('Senha deve conter pelo menos uma letra maiúscula, uma minúscula e um número');
+
 /**
  * Validações para criação de usuário
  */
@@ -45,11 +76,7 @@ export const validateUserCreation: ValidationChain[] = [
     .isLength({ max: 255 })
     .withMessage('Email não pode exceder 255 caracteres'),
 
-  body('password')
-    .isLength({ min: 8, max: 128 })
-    .withMessage('Senha deve ter entre 8 e 128 caracteres')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d).+$/)
-    .withMessage('Senha deve conter pelo menos uma letra maiúscula, uma minúscula e um número'),
+  strongPassword('password'),
 ];
 
 /**
@@ -139,3 +166,625 @@ export const validateRouteParams = (paramName: string) => {
     next();
   };
 };
+
+/**
+ * Validações para login
+ */
+export const validateLogin: ValidationChain[] = [
+  body('email')
+    .trim()
+    .notEmpty()
+    .withMessage('Email é obrigatório')
+    .isEmail()
+    .withMessage('Email deve ter um formato válido')
+    .normalizeEmail(),
+
+  body('password')
+    .isString()
+    .withMessage('Senha deve ser um texto')
+    .notEmpty()
+    .withMessage('Senha é obrigatória'),
+];
+
+/**
+ * Validações para operações com refresh token
+ */
+export const validateRefreshToken: ValidationChain[] = [
+  body('refreshToken')
+    .isString()
+    .withMessage('Refresh token deve ser um texto')
+    .notEmpty()
+    .withMessage('Refresh token é obrigatório'),
+];
+
+/**
+ * Validações para troca de senha pelo próprio usuário
+ */
+export const validatePasswordChange: ValidationChain[] = [
+  body('currentPassword')
+    .isString()
+    .withMessage('Senha atual deve ser um texto')
+    .notEmpty()
+    .withMessage('Senha atual é obrigatória'),
+
+  strongPassword('newPassword'),
+];
+
+/**
+ * Validações para solicitação de redefinição de senha
+ */
+export const validateForgotPassword: ValidationChain[] = [
+  body('email')
+    .trim()
+    .notEmpty()
+    .withMessage('Email é obrigatório')
+    .isEmail()
+    .withMessage('Email deve ter um formato válido')
+    .normalizeEmail(),
+];
+
+/**
+ * Validações para redefinição de senha com token
+ */
+export const validatePasswordReset: ValidationChain[] = [
+  body('token')
+    .isString()
+    .withMessage('Token deve ser um texto')
+    .notEmpty()
+    .withMessage('Token é obrigatório'),
+
+  strongPassword('password'),
+];
+
+/**
+ * Validações para confirmação de email com token
+ */
+export const validateEmailVerification: ValidationChain[] = [
+  body('token')
+    .isString()
+    .withMessage('Token deve ser um texto')
+    .notEmpty()
+    .withMessage('Token é obrigatório'),
+];
+
+/**
+ * Validação do código do autenticador (ou de recuperação) no 2FA
+ */
+const twoFactorCode = () =>
+  body('code')
+    .isString()
+    .withMessage('Código deve ser um texto')
+    .trim()
+    .notEmpty()
+    .withMessage('Código é obrigatório')
+    .isLength({ max: 32 })
+    .withMessage('Código inválido');
+
+/**
+ * Validações para confirmação da ativação do 2FA
+ */
+export const validateTwoFactorCode: ValidationChain[] = [twoFactorCode()];
+
+/**
+ * Validações para desativação do 2FA
+ */
+export const validateTwoFactorDisable: ValidationChain[] = [
+  body('password')
+    .isString()
+    .withMessage('Senha deve ser um texto')
+    .notEmpty()
+    .withMessage('Senha é obrigatória'),
+
+  twoFactorCode(),
+];
+
+/**
+ * Validações para o segundo passo do login com 2FA
+ */
+export const validateTwoFactorLogin: ValidationChain[] = [
+  body('challengeToken')
+    .isString()
+    .withMessage('Desafio deve ser um texto')
+    .notEmpty()
+    .withMessage('Desafio é obrigatório'),
+
+  twoFactorCode(),
+];
+
+/**
+ * Validações para alteração de papel do usuário
+ */
+export const validateRoleUpdate: ValidationChain[] = [
+  body('role')
+    .isIn(Object.values(UserRole))
+    .withMessage(`Papel deve ser um dos valores: ${Object.values(UserRole).join(', ')}`),
+];
+
+/**
+ * Middleware de validação da chave do contador (parâmetro :key)
+ * e do namespace opcional (query ou body)
+ */
+export const validateCounterKey = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const { key } = req.params;
+
+  if (key !== undefined && !COUNTER_KEY_PATTERN.test(key)) {
+    ApiResponseUtil.badRequest(
+      res,
+      'Chave do contador inválida',
+      'Use de 1 a 64 caracteres minúsculos: letras, números, ".", "_" ou "-"'
+    );
+    return;
+  }
+
+  const namespace = req.query.namespace ?? req.body?.namespace;
+
+  if (namespace !== undefined && (typeof namespace !== 'string' || !COUNTER_KEY_PATTERN.test(namespace))) {
+    ApiResponseUtil.badRequest(
+      res,
+      'Namespace do contador inválido',
+      'Use de 1 a 64 caracteres minúsculos: letras, números, ".", "_" ou "-"'
+    );
+    return;
+  }
+
+  next();
+};
+
+/**
+ * Validações para consulta do histórico de acessos
+ */
+export const validateHistoryQuery: ValidationChain[] = [
+  query('granularity')
+    .optional()
+    .isIn(Object.values(HistoryGranularity))
+    .withMessage(`Granularidade deve ser um dos valores: ${Object.values(HistoryGranularity).join(', ')}`),
+
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('Parâmetro from deve ser uma data ISO 8601'),
+
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('Parâmetro to deve ser uma data ISO 8601'),
+];
+
+/**
+ * Validações para consulta da segmentação do tráfego
+ */
+export const validateBreakdownQuery: ValidationChain[] = [
+  query('dimension')
+    .exists()
+    .withMessage('Parâmetro dimension é obrigatório')
+    .bail()
+    .isIn(Object.values(BreakdownDimension))
+    .withMessage(`Dimensão deve ser um dos valores: ${Object.values(BreakdownDimension).join(', ')}`),
+
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('Parâmetro from deve ser uma data ISO 8601'),
+
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('Parâmetro to deve ser uma data ISO 8601'),
+
+  query('limit')
+    .optional()
+    .isInt({ min: 1, max: 100 })
+    .withMessage('Limite deve ser um número entre 1 e 100'),
+];
+
+/**
+ * Validações para a análise de tendências
+ */
+export const validateTrendQuery: ValidationChain[] = [
+  query('period')
+    .optional()
+    .isIn(Object.values(TrendPeriod))
+    .withMessage(`Período deve ser um dos valores: ${Object.values(TrendPeriod).join(', ')}`),
+
+  query('compare')
+    .optional()
+    .isIn(Object.values(TrendComparison))
+    .withMessage(`Comparação deve ser um dos valores: ${Object.values(TrendComparison).join(', ')}`),
+
+  query('forecast')
+    .optional()
+    .isIn(Object.values(TrendForecastMethod))
+    .withMessage(`Previsão deve ser um dos valores: ${Object.values(TrendForecastMethod).join(', ')}`),
+
+  query('periods')
+    .optional()
+    .isInt({ min: 2, max: 366 })
+    .withMessage('Número de períodos deve estar entre 2 e 366'),
+
+  query('window')
+    .optional()
+    .isInt({ min: 1, max: 366 })
+    .withMessage('Janela da média móvel deve estar entre 1 e 366'),
+];
+
+/**
+ * Validações para o badge SVG de um contador
+ */
+export const validateBadgeQuery: ValidationChain[] = [
+  query('label')
+    .optional()
+    .isString()
+    .isLength({ max: 50 })
+    .withMessage('Rótulo deve ter no máximo 50 caracteres'),
+
+  query(['color', 'labelColor'])
+    .optional()
+    .isString()
+    .custom(value => resolveBadgeColor(value) !== undefined)
+    .withMessage(`Cor deve ser hexadecimal ou uma de: ${Object.keys(BADGE_COLORS).join(', ')}`),
+
+  query('format')
+    .optional()
+    .isIn(Object.values(BadgeNumberFormat))
+    .withMessage(`Formato deve ser um dos valores: ${Object.values(BadgeNumberFormat).join(', ')}`),
+
+  query('increment')
+    .optional()
+    .isIn(['true', 'false'])
+    .withMessage('Parâmetro increment deve ser true ou false'),
+];
+
+/**
+ * Validações para assinatura de atualizações em tempo real (SSE)
+ */
+export const validateStreamQuery: ValidationChain[] = [
+  query('keys')
+    .optional()
+    .custom(value => parseSubscriptionKeys(value) !== null)
+    .withMessage(
+      `Informe de 1 a ${config.realtime.maxKeysPerConnection} chaves de contador válidas separadas por vírgula`
+    ),
+];
+
+/**
+ * Campos aceitos nas configurações de um contador
+ */
+const COUNTER_SETTINGS_FIELDS = [
+  'shards',
+  'botPolicy',
+  'resetSchedule',
+  'eventSourced',
+  'owner',
+  'visibility',
+  'allowedOrigins',
+];
+
+/**
+ * Validações para configurações de um contador
+ */
+export const validateCounterSettings: ValidationChain[] = [
+  body()
+    .custom(value => COUNTER_SETTINGS_FIELDS.some(field => value?.[field] !== undefined))
+    .withMessage(`Informe ao menos uma configuração (${COUNTER_SETTINGS_FIELDS.join(', ')})`),
+
+  body('shards')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Número de shards deve ser um inteiro positivo')
+    .toInt(),
+
+  body('botPolicy')
+    .optional()
+    .isIn(Object.values(BotPolicy))
+    .withMessage(`Política de bots deve ser uma de: ${Object.values(BotPolicy).join(', ')}`),
+
+  // null remove o reset agendado
+  body('resetSchedule')
+    .optional({ values: 'null' })
+    .isObject()
+    .withMessage('Reset agendado deve ser um objeto ou null'),
+
+  body('resetSchedule.period')
+    .if(body('resetSchedule').isObject())
+    .isIn(Object.values(ResetPeriod))
+    .withMessage(`Período do reset deve ser um de: ${Object.values(ResetPeriod).join(', ')}`),
+
+  body('resetSchedule.timezone')
+    .if(body('resetSchedule').isObject())
+    .optional()
+    .isString()
+    .custom(value => isValidTimeZone(value))
+    .withMessage('Fuso horário do reset inválido'),
+
+  body('eventSourced')
+    .optional()
+    .isBoolean({ strict: true })
+    .withMessage('eventSourced deve ser um booleano'),
+
+  // null remove o dono
+  body('owner')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Dono deve ser o ID de um usuário ou null'),
+
+  body('visibility')
+    .optional()
+    .isIn(Object.values(CounterVisibility))
+    .withMessage(`Visibilidade deve ser uma de: ${Object.values(CounterVisibility).join(', ')}`),
+
+  body('allowedOrigins')
+    .optional()
+    .isArray({ max: config.counterAccess.maxAllowedOrigins })
+    .withMessage(`Informe no máximo ${config.counterAccess.maxAllowedOrigins} origens permitidas`),
+
+  body('allowedOrigins.*')
+    .isString()
+    .custom(value => normalizeOrigin(value) !== null)
+    .withMessage('Origens permitidas devem ter o formato https://dominio[:porta] ou https://*.dominio'),
+];
+
+/**
+ * Validações para consulta do valor de um contador
+ */
+export const validateCountQuery: ValidationChain[] = [
+  query('at')
+    .optional()
+    .isISO8601()
+    .withMessage('Parâmetro at deve ser uma data ISO 8601'),
+];
+
+/**
+ * Validações para o reset de um contador
+ */
+export const validateCounterReset: ValidationChain[] = [
+  body('reason')
+    .optional()
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Motivo deve ter no máximo 500 caracteres'),
+];
+
+/**
+ * Validações para o ajuste manual de um contador
+ * Exatamente um entre delta, value e by; o motivo é obrigatório
+ */
+export const validateCounterAdjustment: ValidationChain[] = [
+  body()
+    .custom(value => ['delta', 'value', 'by'].filter(field => value?.[field] !== undefined).length === 1)
+    .withMessage('Informe exatamente um entre delta, value e by'),
+
+  body('delta')
+    .optional()
+    .isInt()
+    .custom(value => value !== 0)
+    .withMessage('delta deve ser um inteiro diferente de zero')
+    .toInt(),
+
+  body('value')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('value deve ser um inteiro não negativo')
+    .toInt(),
+
+  body('by')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('by deve ser um inteiro positivo')
+    .toInt(),
+
+  body('reason')
+    .exists()
+    .withMessage('Motivo do ajuste é obrigatório')
+    .bail()
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 500 })
+    .withMessage('Motivo deve ter entre 1 e 500 caracteres'),
+];
+
+/**
+ * Validações para a listagem de snapshots de períodos
+ */
+export const validateSnapshotQuery: ValidationChain[] = [
+  query('key')
+    .optional()
+    .matches(COUNTER_KEY_PATTERN)
+    .withMessage('Chave do contador inválida'),
+
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('Parâmetro from deve ser uma data ISO 8601'),
+
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('Parâmetro to deve ser uma data ISO 8601'),
+];
+
+/**
+ * Validações para a listagem de anomalias de tráfego
+ */
+export const validateAnomalyQuery: ValidationChain[] = [
+  ...validateSnapshotQuery,
+
+  query('granularity')
+    .optional()
+    .isIn([HistoryGranularity.MINUTE, HistoryGranularity.HOUR])
+    .withMessage('Granularidade deve ser minute ou hour'),
+
+  query('severity')
+    .optional()
+    .isIn(Object.values(AnomalySeverity))
+    .withMessage(`Severidade deve ser um dos valores: ${Object.values(AnomalySeverity).join(', ')}`),
+
+  query('status')
+    .optional()
+    .isIn(Object.values(AnomalyStatus))
+    .withMessage(`Estado deve ser um dos valores: ${Object.values(AnomalyStatus).join(', ')}`),
+];
+
+/**
+ * Validações para a exportação direta dos dados de acesso
+ */
+export const validateExportQuery: ValidationChain[] = [
+  ...validateHistoryQuery,
+
+  query('format')
+    .optional()
+    .isIn(Object.values(AccessExportFormat))
+    .withMessage(`Formato deve ser um dos valores: ${Object.values(AccessExportFormat).join(', ')}`),
+];
+
+/**
+ * Validações para a exportação em segundo plano
+ * O início do intervalo é obrigatório
+ */
+export const validateExportRequest: ValidationChain[] = [
+  body('key')
+    .optional()
+    .matches(COUNTER_KEY_PATTERN)
+    .withMessage('Chave do contador inválida'),
+
+  body('granularity')
+    .optional()
+    .isIn(Object.values(HistoryGranularity))
+    .withMessage(`Granularidade deve ser um dos valores: ${Object.values(HistoryGranularity).join(', ')}`),
+
+  body('from')
+    .exists()
+    .withMessage('Parâmetro from é obrigatório')
+    .bail()
+    .isISO8601()
+    .withMessage('Parâmetro from deve ser uma data ISO 8601'),
+
+  body('to')
+    .optional()
+    .isISO8601()
+    .withMessage('Parâmetro to deve ser uma data ISO 8601'),
+
+  body('format')
+    .optional()
+    .isIn(Object.values(AccessExportFormat))
+    .withMessage(`Formato deve ser um dos valores: ${Object.values(AccessExportFormat).join(', ')}`),
+];
+
+/**
+ * Validações de uma regra de alerta
+ * Na atualização todos os campos são opcionais; a combinação de campos
+ * da condição é validada pelo AlertService
+ */
+const alertRuleChains = (optional: boolean): ValidationChain[] => {
+  const field = (chain: ValidationChain) => (optional ? chain.optional() : chain);
+
+  return [
+    field(body('name'))
+      .isString()
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Nome deve ter entre 1 e 100 caracteres'),
+
+    field(body('counterKey'))
+      .matches(COUNTER_KEY_PATTERN)
+      .withMessage('Chave do contador inválida'),
+
+    field(body('condition'))
+      .isObject()
+      .withMessage('Condição é obrigatória'),
+
+    body('condition.type')
+      .if(body('condition').exists())
+      .isIn(Object.values(AlertConditionType))
+      .withMessage(`Tipo de condição deve ser um dos valores: ${Object.values(AlertConditionType).join(', ')}`),
+
+    body('condition.operator')
+      .optional()
+      .isIn(Object.values(AlertOperator))
+      .withMessage(`Operador deve ser um dos valores: ${Object.values(AlertOperator).join(', ')}`),
+
+    body('condition.value')
+      .optional()
+      .isFloat()
+      .withMessage('Valor da condição deve ser numérico')
+      .toFloat(),
+
+    body('condition.windowMinutes')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('windowMinutes deve ser um inteiro positivo')
+      .toInt(),
+
+    field(body('webhooks'))
+      .isArray({ min: 1, max: 10 })
+      .withMessage('Informe de 1 a 10 URLs de webhook'),
+
+    body('webhooks.*')
+      .isURL({ protocols: ['http', 'https'], require_protocol: true, require_tld: false })
+      .withMessage('URL de webhook inválida'),
+
+    body('enabled')
+      .optional()
+      .isBoolean()
+      .withMessage('enabled deve ser booleano')
+      .toBoolean(),
+
+    body('rotateSecret')
+      .optional()
+      .isBoolean()
+      .withMessage('rotateSecret deve ser booleano')
+      .toBoolean(),
+  ];
+};
+
+export const validateAlertRule: ValidationChain[] = alertRuleChains(false);
+
+export const validateAlertRuleUpdate: ValidationChain[] = alertRuleChains(true);
+
+/**
+ * Validações para criação de uma API key
+ */
+export const validateApiKey: ValidationChain[] = [
+  body('name')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Nome deve ter entre 1 e 100 caracteres'),
+
+  body('scopes')
+    .isArray({ min: 1 })
+    .withMessage('Informe ao menos um scope'),
+
+  body('scopes.*')
+    .isIn(Object.values(CounterScope))
+    .withMessage(`Scope deve ser um dos valores: ${Object.values(CounterScope).join(', ')}`),
+
+  body('counters')
+    .optional()
+    .isArray({ max: 100 })
+    .withMessage('Informe no máximo 100 contadores'),
+
+  body('counters.*')
+    .matches(COUNTER_KEY_PATTERN)
+    .withMessage('Chave do contador inválida'),
+
+  body('expiresAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Expiração deve ser uma data ISO 8601')
+    .toDate(),
+];
+
+/**
+ * Validações para listagem de API keys
+ */
+export const validateApiKeyQuery: ValidationChain[] = [
+  query('owner')
+    .optional()
+    .isMongoId()
+    .withMessage('Dono deve ser o ID de um usuário'),
+];
@@ -0,0 +1,196 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { AnomalySeverity, AnomalyStatus, HistoryGranularity, IAccessAnomaly } from '../types';
+
+/**
+ * Granularidades analisadas pelo detector de anomalias
+ */
+export const ANOMALY_GRANULARITIES = [HistoryGranularity.MINUTE, HistoryGranularity.HOUR];
+
+/**
+ * Interface que extende Document do Mongoose para a anomalia
+ */
+export interface IAccessAnomalyDocument extends IAccessAnomaly, Document {}
+
+/**
+ * Interface para métodos estáticos do modelo
+ */
+interface IAccessAnomalyModel extends mongoose.Model<IAccessAnomalyDocument> {
+  recordDetection(
+    anomaly: Omit<IAccessAnomaly, 'status' | 'quarantined' | 'quarantinedAt' | 'releasedAt'>
+  ): Promise<IAccessAnomalyDocument | null>;
+  transition(
+    id: string,
+    from: AnomalyStatus[],
+    update: Partial<IAccessAnomaly>
+  ): Promise<IAccessAnomalyDocument | null>;
+  quarantinedBetween(key: string, from: Date, to: Date, excludeId: string): Promise<number>;
+}
+
+/**
+ * Schema do MongoDB para as anomalias detectadas no tráfego
+ * Uma anomalia por contador, granularidade e janela (minuto ou hora),
+ * com o baseline usado na detecção e as origens mais frequentes da janela
+ */
+const AccessAnomalySchema = new Schema<IAccessAnomalyDocument, IAccessAnomalyModel>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    granularity: {
+      type: String,
+      enum: ANOMALY_GRANULARITIES,
+      required: true,
+    },
+    windowStart: {
+      type: Date,
+      required: true,
+    },
+    windowEnd: {
+      type: Date,
+      required: true,
+    },
+    count: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    expected: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    score: {
+      type: Number,
+      required: true,
+    },
+    severity: {
+      type: String,
+      enum: Object.values(AnomalySeverity),
+      required: true,
+    },
+    baseline: {
+      type: new Schema(
+        {
+          median: { type: Number, required: true },
+          mad: { type: Number, required: true },
+          points: { type: Number, required: true },
+        },
+        { _id: false }
+      ),
+      required: true,
+    },
+    sources: {
+      type: [
+        new Schema(
+          {
+            ip: { type: String, required: true },
+            userAgent: { type: String, default: '' },
+            count: { type: Number, required: true },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    sourcesTotal: {
+      // Acessos da janela com origem registrada
+      type: Number,
+      default: 0,
+    },
+    status: {
+      type: String,
+      enum: Object.values(AnomalyStatus),
+      default: AnomalyStatus.OPEN,
+    },
+    quarantined: {
+      // Acessos descontados do total enquanto a anomalia está em quarentena
+      type: Number,
+      default: 0,
+    },
+    quarantinedAt: {
+      type: Date,
+      default: null,
+    },
+    releasedAt: {
+      type: Date,
+      default: null,
+    },
+    detectedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    collection: 'anomalies',
+  }
+);
+
+/**
+ * Índices: uma anomalia por janela e listagem da mais recente à mais antiga
+ */
+AccessAnomalySchema.index({ key: 1, granularity: 1, windowStart: 1 }, { unique: true });
+AccessAnomalySchema.index({ windowStart: -1 });
+AccessAnomalySchema.index({ key: 1, status: 1, windowStart: 1 });
+
+/**
+ * Método estático para registrar uma detecção
+ * Retorna null quando a janela já foi registrada (ex.: por outra instância)
+ */
+AccessAnomalySchema.statics.recordDetection = async function (anomaly: IAccessAnomaly) {
+  try {
+    return await this.create(anomaly);
+  } catch (error: any) {
+    if (error?.code === 11000) {
+      return null;
+    }
+
+    throw error;
+  }
+};
+
+/**
+ * Método estático para mudar o estado de uma anomalia de forma atômica
+ * Retorna null se a anomalia não estiver em um dos estados de origem
+ */
+AccessAnomalySchema.statics.transition = async function (
+  id: string,
+  from: AnomalyStatus[],
+  update: Partial<IAccessAnomaly>
+) {
+  return await this.findOneAndUpdate({ _id: id, status: { $in: from } }, { $set: update }, { new: true });
+};
+
+/**
+ * Método estático para somar os acessos em quarentena de outras anomalias
+ * que se sobrepõem à janela (ex.: minutos dentro de uma hora anômala)
+ */
+AccessAnomalySchema.statics.quarantinedBetween = async function (
+  key: string,
+  from: Date,
+  to: Date,
+  excludeId: string
+) {
+  const [result] = await this.aggregate([
+    {
+      $match: {
+        key,
+        status: AnomalyStatus.QUARANTINED,
+        windowStart: { $lt: to },
+        windowEnd: { $gt: from },
+        _id: { $ne: new mongoose.Types.ObjectId(excludeId) },
+      },
+    },
+    { $group: { _id: null, quarantined: { $sum: '$quarantined' } } },
+  ]);
+
+  return result?.quarantined ?? 0;
+};
+
+/**
+ * Model da anomalia de tráfego
+ */
+export const AccessAnomaly = mongoose.model<IAccessAnomalyDocument, IAccessAnomalyModel>(
+  'AccessAnomaly',
+  AccessAnomalySchema
+);
@@ -0,0 +1,261 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { BreakdownDimension, HistoryGranularity, IAccessBreakdown, IBreakdownIncrement } from '../types';
+
+/**
+ * Granularidades em que as dimensões são agregadas
+ * Intervalos curtos usam os buckets por hora; os demais, os buckets diários
+ */
+export const BREAKDOWN_GRANULARITIES = [HistoryGranularity.HOUR, HistoryGranularity.DAY];
+
+/**
+ * Interface que extende Document do Mongoose para o AccessBreakdown
+ */
+export interface IAccessBreakdownDocument extends IAccessBreakdown, Document {}
+
+/**
+ * Interface para métodos estáticos do modelo
+ */
+interface IAccessBreakdownModel extends mongoose.Model<IAccessBreakdownDocument> {
+  applyIncrements(increments: IBreakdownIncrement[], maxValues: number): Promise<void>;
+  summarize(
+    key: string,
+    dimension: BreakdownDimension,
+    granularity: HistoryGranularity,
+    from: Date,
+    to: Date,
+    limit: number
+  ): Promise<{ total: number; overflow: number; items: Array<{ value: string; count: number }> }>;
+  pruneBefore(granularity: HistoryGranularity, cutoff: Date): Promise<number>;
+}
+
+/**
+ * Schema do MongoDB para a segmentação do tráfego por dimensão
+ * Um documento por contador, dimensão e bucket de tempo, com a tabela
+ * dos valores mais frequentes limitada a BREAKDOWN_MAX_VALUES_PER_BUCKET entradas
+ */
+const AccessBreakdownSchema = new Schema<IAccessBreakdownDocument, IAccessBreakdownModel>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    granularity: {
+      type: String,
+      enum: BREAKDOWN_GRANULARITIES,
+      required: true,
+    },
+    bucketStart: {
+      type: Date,
+      required: true,
+    },
+    dimension: {
+      type: String,
+      enum: Object.values(BreakdownDimension),
+      required: true,
+    },
+    total: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    other: {
+      // Acessos cujos valores não couberam na tabela (limite de cardinalidade)
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    entries: {
+      type: [
+        new Schema(
+          {
+            value: { type: String, required: true },
+            count: { type: Number, required: true, min: 0 },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+  },
+  {
+    collection: 'access_breakdowns',
+  }
+);
+
+/**
+ * Índices para consultas por intervalo, para a exportação (todas as
+ * dimensões em ordem cronológica) e para a retenção
+ */
+AccessBreakdownSchema.index({ key: 1, dimension: 1, granularity: 1, bucketStart: 1 }, { unique: true });
+AccessBreakdownSchema.index({ key: 1, granularity: 1, bucketStart: 1 });
+AccessBreakdownSchema.index({ granularity: 1, bucketStart: 1 });
+
+/**
+ * Pipeline de atualização que soma um valor na tabela do bucket
+ * Valores já presentes são incrementados; novos valores entram apenas se a
+ * tabela ainda não atingiu o limite, caso contrário vão para "other".
+ * A decisão acontece no servidor, de forma atômica por documento
+ */
+const buildIncrementPipeline = (value: string | null, count: number, maxValues: number) => {
+  if (value === null) {
+    return [
+      {
+        $set: {
+          total: { $add: [{ $ifNull: ['$total', 0] }, count] },
+          other: { $add: [{ $ifNull: ['$other', 0] }, count] },
+          entries: { $ifNull: ['$entries', []] },
+        },
+      },
+    ];
+  }
+
+  const literal = { $literal: value };
+
+  return [
+    {
+      $set: {
+        total: { $add: [{ $ifNull: ['$total', 0] }, count] },
+        other: { $ifNull: ['$other', 0] },
+        entries: { $ifNull: ['$entries', []] },
+      },
+    },
+    {
+      $set: {
+        _position: { $indexOfArray: ['$entries.value', literal] },
+      },
+    },
+    {
+      $set: {
+        entries: {
+          $switch: {
+            branches: [
+              {
+                case: { $gte: ['$_position', 0] },
+                then: {
+                  $map: {
+                    input: '$entries',
+                    as: 'entry',
+                    in: {
+                      $cond: [
+                        { $eq: ['$$entry.value', literal] },
+                        { value: '$$entry.value', count: { $add: ['$$entry.count', count] } },
+                        '$$entry',
+                      ],
+                    },
+                  },
+                },
+              },
+              {
+                case: { $lt: [{ $size: '$entries' }, maxValues] },
+                then: { $concatArrays: ['$entries', [{ value: literal, count }]] },
+              },
+            ],
+            default: '$entries',
+          },
+        },
+        other: {
+          $cond: [
+            { $and: [{ $lt: ['$_position', 0] }, { $gte: [{ $size: '$entries' }, maxValues] }] },
+            { $add: ['$other', count] },
+            '$other',
+          ],
+        },
+      },
+    },
+    { $unset: '_position' },
+  ];
+};
+
+/**
+ * Método estático para aplicar incrementos de dimensões em lote
+ */
+AccessBreakdownSchema.statics.applyIncrements = async function (
+  increments: IBreakdownIncrement[],
+  maxValues: number
+) {
+  if (increments.length === 0) {
+    return;
+  }
+
+  await this.bulkWrite(
+    increments.map(({ key, granularity, bucketStart, dimension, value, count }) => ({
+      updateOne: {
+        filter: { key, dimension, granularity, bucketStart },
+        update: buildIncrementPipeline(value, count, maxValues),
+        upsert: true,
+        // Os valores iniciais são definidos pelo próprio pipeline
+        setDefaultsOnInsert: false,
+      },
+    })),
+    { ordered: false }
+  );
+};
+
+/**
+ * Método estático para somar as tabelas de um intervalo
+ * Retorna o total, o volume acumulado em "other" e os valores mais frequentes
+ */
+AccessBreakdownSchema.statics.summarize = async function (
+  key: string,
+  dimension: BreakdownDimension,
+  granularity: HistoryGranularity,
+  from: Date,
+  to: Date,
+  limit: number
+) {
+  const [result] = await this.aggregate([
+    { $match: { key, dimension, granularity, bucketStart: { $gte: from, $lte: to } } },
+    {
+      $facet: {
+        totals: [{ $group: { _id: null, total: { $sum: '$total' }, overflow: { $sum: '$other' } } }],
+        items: [
+          { $unwind: '$entries' },
+          { $group: { _id: '$entries.value', count: { $sum: '$entries.count' } } },
+          { $sort: { count: -1, _id: 1 } },
+          { $limit: limit },
+        ],
+      },
+    },
+  ]);
+
+  const totals = result?.totals[0];
+
+  return {
+    total: totals?.total ?? 0,
+    overflow: totals?.overflow ?? 0,
+    items: (result?.items ?? []).map((item: { _id: string; count: number }) => ({
+      value: item._id,
+      count: item.count,
+    })),
+  };
+};
+
+/**
+ * Método estático para remover buckets anteriores ao cutoff
+ */
+AccessBreakdownSchema.statics.pruneBefore = async function (
+  granularity: HistoryGranularity,
+  cutoff: Date
+) {
+  const result = await this.deleteMany({ granularity, bucketStart: { $lt: cutoff } });
+  return result.deletedCount;
+};
+
+/**
+ * Configuração do toJSON para remover campos desnecessários
+ */
+AccessBreakdownSchema.set('toJSON', {
+  transform: function (doc: any, ret: any) {
+    delete ret.__v;
+    delete ret._id;
+    return ret;
+  },
+});
+
+/**
+ * Model do AccessBreakdown
+ */
+export const AccessBreakdown = mongoose.model<IAccessBreakdownDocument, IAccessBreakdownModel>(
+  'AccessBreakdown',
+  AccessBreakdownSchema
+);
@@ -0,0 +1,252 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IAccessBucket, IBucketIncrement, HistoryGranularity } from '../types';
+import { HllRegister, PARENT_GRANULARITY, truncateToBucket } from '../utils';
+
+/**
+ * Interface que extende Document do Mongoose para o AccessBucket
+ */
+export interface IAccessBucketDocument extends IAccessBucket, Document {}
+
+/**
+ * Interface para métodos estáticos do modelo
+ */
+interface IAccessBucketModel extends mongoose.Model<IAccessBucketDocument> {
+  recordIncrement(key: string, at?: Date, amount?: number, visitor?: HllRegister): Promise<void>;
+  applyIncrements(increments: IBucketIncrement[]): Promise<void>;
+  findRange(
+    key: string,
+    granularity: HistoryGranularity,
+    from: Date,
+    to: Date
+  ): Promise<IAccessBucket[]>;
+  rollUp(granularity: HistoryGranularity, cutoff: Date): Promise<{ rolledUp: number; removed: number }>;
+  pruneBefore(granularity: HistoryGranularity, cutoff: Date): Promise<number>;
+}
+
+/**
+ * Schema do MongoDB para o histórico de acessos em buckets de tempo
+ * Cada incremento é registrado em um bucket por granularidade
+ * (minuto, hora, dia e mês), sempre alinhado em UTC
+ */
+const AccessBucketSchema = new Schema<IAccessBucketDocument, IAccessBucketModel>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    granularity: {
+      type: String,
+      enum: Object.values(HistoryGranularity),
+      required: true,
+    },
+    bucketStart: {
+      type: Date,
+      required: true,
+    },
+    count: {
+      type: Number,
+      required: true,
+      default: 0,
+      min: 0,
+    },
+    hll: {
+      // Registradores HyperLogLog de visitantes únicos do bucket
+      type: Schema.Types.Mixed,
+      select: false,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'access_buckets',
+  }
+);
+
+/**
+ * Índices para consultas por intervalo e para a política de retenção
+ */
+AccessBucketSchema.index({ key: 1, granularity: 1, bucketStart: 1 }, { unique: true });
+AccessBucketSchema.index({ granularity: 1, bucketStart: 1 });
+
+/**
+ * Método estático para registrar um incremento em todas as granularidades
+ * Usa um único bulkWrite com upserts atômicos
+ */
+AccessBucketSchema.statics.recordIncrement = async function (
+  key: string,
+  at: Date = new Date(),
+  amount: number = 1,
+  visitor?: HllRegister
+) {
+  await this.applyIncrements(
+    Object.values(HistoryGranularity).map(granularity => ({
+      key,
+      granularity,
+      bucketStart: truncateToBucket(at, granularity),
+      count: amount,
+      hll: visitor ? { [visitor.index]: visitor.rank } : {},
+    }))
+  );
+};
+
+/**
+ * Método estático para aplicar incrementos agregados em lote
+ * Cada bucket recebe um $inc e os registradores HyperLogLog via $max
+ */
+AccessBucketSchema.statics.applyIncrements = async function (increments: IBucketIncrement[]) {
+  if (increments.length === 0) {
+    return;
+  }
+
+  const operations = increments.map(({ key, granularity, bucketStart, count, hll }) => {
+    const registers = Object.entries(hll);
+
+    return {
+      updateOne: {
+        filter: { key, granularity, bucketStart },
+        update: {
+          $inc: { count },
+          ...(registers.length > 0 && {
+            $max: Object.fromEntries(registers.map(([index, rank]) => [`hll.${index}`, rank])),
+          }),
+        },
+        upsert: true,
+      },
+    };
+  });
+
+  await this.bulkWrite(operations, { ordered: false });
+};
+
+/**
+ * Método estático para buscar os buckets de um intervalo
+ */
+AccessBucketSchema.statics.findRange = async function (
+  key: string,
+  granularity: HistoryGranularity,
+  from: Date,
+  to: Date
+) {
+  return await this.find({
+    key,
+    granularity,
+    bucketStart: { $gte: from, $lte: to },
+  })
+    .sort({ bucketStart: 1 })
+    .select('key granularity bucketStart count +hll')
+    .lean();
+};
+
+/**
+ * Método estático para consolidar buckets anteriores ao cutoff na
+ * granularidade superior e removê-los em seguida.
+ * O bucket pai recebe o maior valor entre o existente e a soma dos filhos
+ * ($max), o que torna a operação idempotente. Os registradores HyperLogLog
+ * são mesclados da mesma forma, índice a índice
+ */
+AccessBucketSchema.statics.rollUp = async function (
+  granularity: HistoryGranularity,
+  cutoff: Date
+) {
+  const parent = PARENT_GRANULARITY[granularity];
+
+  if (!parent) {
+    return { rolledUp: 0, removed: 0 };
+  }
+
+  const groups: Array<{ _id: { key: string; bucketStart: Date }; count: number }> =
+    await this.aggregate([
+      { $match: { granularity, bucketStart: { $lt: cutoff } } },
+      {
+        $group: {
+          _id: {
+            key: '$key',
+            bucketStart: { $dateTrunc: { date: '$bucketStart', unit: parent, timezone: 'UTC' } },
+          },
+          count: { $sum: '$count' },
+        },
+      },
+    ]);
+
+  const sketches: Array<{ _id: { key: string; bucketStart: Date }; registers: Array<{ k: string; v: number }> }> =
+    await this.aggregate([
+      { $match: { granularity, bucketStart: { $lt: cutoff }, hll: { $type: 'object' } } },
+      {
+        $project: {
+          key: 1,
+          bucketStart: { $dateTrunc: { date: '$bucketStart', unit: parent, timezone: 'UTC' } },
+          registers: { $objectToArray: '$hll' },
+        },
+      },
+      { $unwind: '$registers' },
+      {
+        $group: {
+          _id: { key: '$key', bucketStart: '$bucketStart', index: '$registers.k' },
+          rank: { $max: '$registers.v' },
+        },
+      },
+      {
+        $group: {
+          _id: { key: '$_id.key', bucketStart: '$_id.bucketStart' },
+          registers: { $push: { k: '$_id.index', v: '$rank' } },
+        },
+      },
+    ]);
+
+  const registersByParent = new Map(
+    sketches.map(sketch => [`${sketch._id.key}|${sketch._id.bucketStart.getTime()}`, sketch.registers])
+  );
+
+  if (groups.length > 0) {
+    await this.bulkWrite(
+      groups.map(group => {
+        const registers = registersByParent.get(`${group._id.key}|${group._id.bucketStart.getTime()}`) ?? [];
+        const max: Record<string, number> = { count: group.count };
+
+        for (const { k, v } of registers) {
+          max[`hll.${k}`] = v;
+        }
+
+        return {
+          updateOne: {
+            filter: { key: group._id.key, granularity: parent, bucketStart: group._id.bucketStart },
+            update: { $max: max },
+            upsert: true,
+          },
+        };
+      }),
+      { ordered: false }
+    );
+  }
+
+  const result = await this.deleteMany({ granularity, bucketStart: { $lt: cutoff } });
+
+  return { rolledUp: groups.length, removed: result.deletedCount };
+};
+
+/**
+ * Método estático para remover buckets anteriores ao cutoff
+ */
+AccessBucketSchema.statics.pruneBefore = async function (
+  granularity: HistoryGranularity,
+  cutoff: Date
+) {
+  const result = await this.deleteMany({ granularity, bucketStart: { $lt: cutoff } });
+  return result.deletedCount;
+};
+
+/**
+ * Configuração do toJSON para remover campos desnecessários
+ */
+AccessBucketSchema.set('toJSON', {
+  transform: function (doc: any, ret: any) {
+    delete ret.__v;
+    delete ret._id;
+    delete ret.hll;
+    return ret;
+  },
+});
+
+/**
+ * Model do AccessBucket
+ */
+export const AccessBucket = mongoose.model<IAccessBucketDocument, IAccessBucketModel>('AccessBucket', AccessBucketSchema);
@@ -1,5 +1,33 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { IAccessCounter } from '../types';
+import {
+  BotPolicy,
+  CounterVisibility,
+  IAccessCounter,
+  IAccessCounterSummary,
+  ICounterAccessPolicy,
+  ICounterEventSourcing,
+  ICounterIncrement,
+  ICounterResetSchedule,
+  ResetPeriod,
+} from '../types';
+import { HllRegister, mergeHllRegisters } from '../utils';
+import { config } from '../config/environment';
+
+/**
+ * Chave e namespace do contador padrão (compatível com as rotas originais)
+ */
+export const DEFAULT_COUNTER_KEY = 'default';
+export const DEFAULT_COUNTER_NAMESPACE = 'default';
+
+/**
+ * Formato aceito para chaves e namespaces de contadores
+ */
+export const COUNTER_KEY_PATTERN = /^[a-z0-9][a-z0-9._-]{0,63}$/;
+
+/**
+ * Shard principal: guarda os metadados do contador (namespace, número de shards)
+ */
+export const PRIMARY_SHARD = 0;
 
 /**
  * Interface que extende Document do Mongoose para o AccessCounter
@@ -10,28 +38,211 @@ export interface IAccessCounterDocument extends IAccessCounter, Document {}
  * Interface para métodos estáticos do modelo
  */
 interface IAccessCounterModel extends mongoose.Model<IAccessCounterDocument> {
-  incrementCounter(): Promise<IAccessCounterDocument>;
-  getCurrentCount(): Promise<IAccessCounterDocument | null>;
-  resetCounter(): Promise<IAccessCounterDocument>;
+  incrementCounter(key?: string, namespace?: string, visitor?: HllRegister): Promise<IAccessCounterSummary>;
+  incrementBotCounter(key?: string, namespace?: string): Promise<IAccessCounterSummary>;
+  getCurrentCount(key?: string): Promise<IAccessCounterSummary | null>;
+  getSummary(key?: string): Promise<IAccessCounterSummary | null>;
+  listSummaries(
+    namespace: string | undefined,
+    skip: number,
+    limit: number,
+    access?: Record<string, unknown> | null
+  ): Promise<{ counters: IAccessCounterSummary[]; total: number }>;
+  resetCounter(key?: string): Promise<{ counter: IAccessCounterSummary; previous: IAccessCounterSummary | null }>;
+  setShardCount(key: string, shards: number): Promise<IAccessCounterSummary>;
+  getShardCount(key: string): Promise<number | null>;
+  setBotPolicy(key: string, botPolicy: BotPolicy): Promise<IAccessCounterSummary>;
+  getBotPolicy(key: string): Promise<BotPolicy | undefined>;
+  getAccessPolicy(key: string): Promise<ICounterAccessPolicy>;
+  setAccessPolicy(key: string, policy: Partial<Omit<ICounterAccessPolicy, 'key'>>): Promise<IAccessCounterSummary>;
+  setResetSchedule(key: string, schedule: ICounterResetSchedule | null): Promise<IAccessCounterSummary>;
+  findDueResets(now: Date, limit: number): Promise<Array<{ key: string; resetSchedule: ICounterResetSchedule }>>;
+  claimScheduledReset(key: string, due: Date, next: Date): Promise<boolean>;
+  getEventSourcing(key: string): Promise<ICounterEventSourcing | undefined>;
+  setEventSourcing(key: string, enabled: boolean): Promise<IAccessCounterSummary>;
+  findEventSourced(): Promise<Array<{ key: string; eventSourcing: ICounterEventSourcing }>>;
+  claimEventSourcingBaseline(key: string, enabledAt: Date, baselineAt: Date): Promise<boolean>;
+  overwriteCount(key: string, count: number): Promise<IAccessCounterSummary>;
+  adjustCounter(key: string, delta: number): Promise<IAccessCounterSummary | null>;
+  migrateLegacyCounter(): Promise<boolean>;
+  migrateShardLayout(): Promise<number>;
+  applyIncrements(increments: ICounterIncrement[]): Promise<void>;
+}
+
+/**
+ * Campos usados para consolidar os shards de um contador
+ */
+const SUMMARY_FIELDS =
+  'shard shards namespace count botCount botPolicy resetSchedule eventSourcing owner visibility allowedOrigins ' +
+  'lastUpdated createdAt';
+
+/**
+ * Configurações de um contador lidas do shard principal
+ */
+interface CounterSettings {
+  shards: number;
+  botPolicy?: BotPolicy;
+  eventSourcing?: ICounterEventSourcing;
+  owner: string | null;
+  visibility?: CounterVisibility;
+  allowedOrigins: string[];
 }
 
 /**
- * Schema do MongoDB para contador de acessos
- * Implementa um padrão singleton para garantir apenas um contador
+ * Cache em memória das configurações (número de shards, política de bots,
+ * modo event-sourced, política de acesso) por contador.
+ * Alterações feitas em outra instância são percebidas após o TTL
+ */
+const settingsCache = new Map<string, CounterSettings & { expiresAt: number }>();
+
+const cacheSettings = (key: string, settings: CounterSettings): void => {
+  settingsCache.set(key, { ...settings, expiresAt: Date.now() + config.counterShards.cacheTtlMs });
+};
+
+/**
+ * Lê as configurações do contador, usando o cache quando válido
+ * Retorna null se o contador ainda não existir
+ */
+const loadSettings = async (
+  model: mongoose.Model<IAccessCounterDocument>,
+  key: string
+): Promise<CounterSettings | null> => {
+  const cached = settingsCache.get(key);
+
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached;
+  }
+
+  const primary = await model
+    .findOne({ key, shard: PRIMARY_SHARD })
+    .select('shards botPolicy eventSourcing owner visibility allowedOrigins')
+    .lean();
+
+  if (!primary) {
+    return null;
+  }
+
+  const settings = {
+    shards: primary.shards ?? 1,
+    botPolicy: primary.botPolicy,
+    eventSourcing: primary.eventSourcing ?? undefined,
+    owner: primary.owner ? primary.owner.toString() : null,
+    visibility: primary.visibility,
+    allowedOrigins: primary.allowedOrigins ?? [],
+  };
+  cacheSettings(key, settings);
+  return settings;
+};
+
+/**
+ * Sorteia o shard que recebe um incremento
  */
-const AccessCounterSchema = new Schema<IAccessCounterDocument>(
+const pickShard = (shards: number): number =>
+  shards > 1 ? Math.floor(Math.random() * shards) : PRIMARY_SHARD;
+
+/**
+ * Schema do MongoDB para contadores de acessos
+ * Cada contador é identificado por uma chave única e pode ser agrupado
+ * em um namespace (ex.: páginas, produtos, clientes).
+ * Um contador é formado por N documentos (shards) com a mesma chave:
+ * incrementos vão para um shard aleatório e leituras somam todos eles,
+ * eliminando a contenção de escrita em um único documento
+ */
+const AccessCounterSchema = new Schema<IAccessCounterDocument, IAccessCounterModel>(
   {
+    key: {
+      type: String,
+      required: [true, 'Chave do contador é obrigatória'],
+      default: DEFAULT_COUNTER_KEY,
+      trim: true,
+      lowercase: true,
+      match: [COUNTER_KEY_PATTERN, 'Chave do contador inválida'],
+    },
+    namespace: {
+      type: String,
+      required: true,
+      default: DEFAULT_COUNTER_NAMESPACE,
+      trim: true,
+      lowercase: true,
+      match: [COUNTER_KEY_PATTERN, 'Namespace do contador inválido'],
+    },
+    shard: {
+      type: Number,
+      required: true,
+      default: PRIMARY_SHARD,
+      min: 0,
+    },
+    shards: {
+      // Número de shards do contador (apenas no shard principal)
+      type: Number,
+      min: 1,
+    },
     count: {
       type: Number,
       required: true,
       default: 0,
       min: [0, 'O contador não pode ser negativo'],
     },
+    botCount: {
+      // Acessos de bots contados à parte (política "separate")
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    botPolicy: {
+      // Política de bots do contador (apenas no shard principal)
+      type: String,
+      enum: Object.values(BotPolicy),
+    },
+    resetSchedule: {
+      // Reset periódico do contador (apenas no shard principal)
+      type: new Schema(
+        {
+          period: { type: String, enum: Object.values(ResetPeriod), required: true },
+          timezone: { type: String, required: true },
+          nextResetAt: { type: Date, required: true },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+    eventSourcing: {
+      // Modo event-sourced: operações registradas em counter_log (apenas no shard principal)
+      type: new Schema(
+        {
+          enabledAt: { type: Date, required: true },
+          baselineAt: { type: Date, default: null },
+        },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+    owner: {
+      // Usuário dono do contador (apenas no shard principal)
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: undefined,
+    },
+    visibility: {
+      // Visibilidade do contador (apenas no shard principal)
+      type: String,
+      enum: Object.values(CounterVisibility),
+    },
+    allowedOrigins: {
+      // Origens que podem incrementar o contador; vazio permite qualquer origem (apenas no shard principal)
+      type: [String],
+      default: undefined,
+    },
     lastUpdated: {
       type: Date,
       required: true,
       default: Date.now,
     },
+    hll: {
+      // Registradores HyperLogLog de visitantes únicos ({ "<índice>": rank })
+      type: Schema.Types.Mixed,
+      select: false,
+    },
   },
   {
     timestamps: true, // Adiciona createdAt e updatedAt automaticamente
@@ -40,9 +251,13 @@ const AccessCounterSchema = new Schema<IAccessCounterDocument>(
 );
 
 /**
- * Índices para performance
+ * Índices para performance e unicidade das chaves
  */
+AccessCounterSchema.index({ key: 1, shard: 1 }, { unique: true });
+AccessCounterSchema.index({ namespace: 1, key: 1 });
 AccessCounterSchema.index({ lastUpdated: -1 });
+AccessCounterSchema.index({ 'resetSchedule.nextResetAt': 1 }, { sparse: true });
+AccessCounterSchema.index({ owner: 1 }, { sparse: true });
 
 /**
  * Middleware para atualizar lastUpdated antes de salvar
@@ -54,58 +269,691 @@ AccessCounterSchema.pre('save', function (next) {
   next();
 });
 
+/**
+ * Consolida os documentos (shards) de um contador em uma única visão
+ */
+const summarize = (
+  key: string,
+  shards: Array<
+    Pick<
+      IAccessCounter,
+      | 'shard'
+      | 'shards'
+      | 'namespace'
+      | 'count'
+      | 'botCount'
+      | 'botPolicy'
+      | 'resetSchedule'
+      | 'eventSourcing'
+      | 'owner'
+      | 'visibility'
+      | 'allowedOrigins'
+      | 'lastUpdated'
+      | 'createdAt'
+      | 'hll'
+    >
+  >
+): IAccessCounterSummary | null => {
+  if (shards.length === 0) {
+    return null;
+  }
+
+  const primary = shards.find(doc => doc.shard === PRIMARY_SHARD) ?? shards[0];
+
+  return {
+    key,
+    namespace: primary.namespace,
+    count: shards.reduce((sum, doc) => sum + doc.count, 0),
+    botCount: shards.reduce((sum, doc) => sum + (doc.botCount ?? 0), 0),
+    shards: primary.shards ?? 1,
+    ...(primary.botPolicy && { botPolicy: primary.botPolicy }),
+    ...(primary.resetSchedule && { resetSchedule: primary.resetSchedule }),
+    ...(primary.eventSourcing && { eventSourcing: primary.eventSourcing }),
+    ...(primary.owner && { owner: primary.owner.toString() }),
+    ...(primary.visibility && { visibility: primary.visibility }),
+    ...(primary.allowedOrigins?.length && { allowedOrigins: primary.allowedOrigins }),
+    lastUpdated: shards.reduce(
+      (latest, doc) => (doc.lastUpdated > latest ? doc.lastUpdated : latest),
+      primary.lastUpdated
+    ),
+    createdAt: primary.createdAt,
+    hll: mergeHllRegisters(...shards.map(doc => doc.hll)),
+  };
+};
+
+/**
+ * Método estático para obter o número de shards de um contador
+ * Retorna null se o contador ainda não existir
+ */
+AccessCounterSchema.statics.getShardCount = async function (key: string) {
+  const settings = await loadSettings(this, key);
+  return settings ? settings.shards : null;
+};
+
+/**
+ * Método estático para obter a política de bots de um contador
+ * Retorna undefined se o contador não existir ou usar a política padrão
+ */
+AccessCounterSchema.statics.getBotPolicy = async function (key: string) {
+  const settings = await loadSettings(this, key);
+  return settings?.botPolicy;
+};
+
+/**
+ * Método estático para obter a política de acesso de um contador
+ * Contadores inexistentes ou sem visibilidade própria usam COUNTER_DEFAULT_VISIBILITY
+ */
+AccessCounterSchema.statics.getAccessPolicy = async function (key: string) {
+  const settings = await loadSettings(this, key);
+
+  return {
+    key,
+    owner: settings?.owner ?? null,
+    visibility: settings?.visibility ?? config.counterAccess.defaultVisibility,
+    allowedOrigins: settings?.allowedOrigins ?? [],
+  };
+};
+
 /**
  * Método estático para incrementar o contador de forma atômica
- * Garante thread-safety e consistência dos dados
+ * Cria o contador na primeira chamada; o namespace e o número de shards
+ * só são aplicados na criação. O incremento vai para um shard aleatório e o
+ * registrador do visitante, quando informado, é mesclado ao sketch com $max
  */
-AccessCounterSchema.statics.incrementCounter = async function () {
+AccessCounterSchema.statics.incrementCounter = async function (
+  key: string = DEFAULT_COUNTER_KEY,
+  namespace: string = DEFAULT_COUNTER_NAMESPACE,
+  visitor?: HllRegister
+) {
+  const settings = await loadSettings(this, key);
+  const shards = settings?.shards ?? 1;
+  const shard = pickShard(shards);
+
   // Usa findOneAndUpdate com upsert para garantir atomicidade
-  const counter = await this.findOneAndUpdate(
-    {}, // Busca qualquer documento (deve haver apenas um)
+  const updated = await this.findOneAndUpdate(
+    { key, shard },
     {
       $inc: { count: 1 }, // Incrementa o contador
       $set: { lastUpdated: new Date() }, // Atualiza timestamp
+      $setOnInsert: {
+        namespace,
+        ...(shard === PRIMARY_SHARD && { shards: config.counterShards.defaultShards }),
+      },
+      ...(visitor && { $max: { [`hll.${visitor.index}`]: visitor.rank } }),
     },
     {
       new: true, // Retorna o documento atualizado
       upsert: true, // Cria se não existir
       runValidators: true, // Executa validações do schema
     }
-  );
+  ).lean();
 
-  return counter;
+  if (!updated) {
+    throw new Error('Falha ao incrementar contador');
+  }
+
+  // Contador de shard único: o documento já contém o total
+  if (shards === 1 && (updated.shards ?? 1) === 1) {
+    cacheSettings(key, {
+      shards: 1,
+      botPolicy: updated.botPolicy ?? settings?.botPolicy,
+      eventSourcing: updated.eventSourcing ?? settings?.eventSourcing,
+      owner: updated.owner ? updated.owner.toString() : null,
+      visibility: updated.visibility,
+      allowedOrigins: updated.allowedOrigins ?? [],
+    });
+    return summarize(key, [updated]) as IAccessCounterSummary;
+  }
+
+  return (await this.getCurrentCount(key)) as IAccessCounterSummary;
 };
 
 /**
- * Método estático para obter o contador atual
+ * Método estático para contar um acesso de bot à parte (política "separate")
+ * Incrementa apenas botCount, sem alterar o total de acessos humanos
  */
-AccessCounterSchema.statics.getCurrentCount = async function () {
-  return await this.findOne({}).lean(); // lean() para melhor performance
+AccessCounterSchema.statics.incrementBotCounter = async function (
+  key: string = DEFAULT_COUNTER_KEY,
+  namespace: string = DEFAULT_COUNTER_NAMESPACE
+) {
+  const shards = (await this.getShardCount(key)) ?? 1;
+  const shard = pickShard(shards);
+
+  await this.updateOne(
+    { key, shard },
+    {
+      $inc: { botCount: 1 },
+      $set: { lastUpdated: new Date() },
+      $setOnInsert: {
+        namespace,
+        count: 0,
+        ...(shard === PRIMARY_SHARD && { shards: config.counterShards.defaultShards }),
+      },
+    },
+    { upsert: true, runValidators: true }
+  );
+
+  return (await this.getCurrentCount(key)) as IAccessCounterSummary;
 };
 
 /**
- * Método estático para resetar o contador (útil para testes)
+ * Método estático para aplicar incrementos agregados em lote (modo buffer)
+ * Um único $inc por contador no shard principal, pois o lote já elimina a
+ * contenção; registradores HyperLogLog mesclados com $max
  */
-AccessCounterSchema.statics.resetCounter = async function () {
-  return await this.findOneAndUpdate(
-    {},
-    {
-      count: 0,
-      lastUpdated: new Date(),
+AccessCounterSchema.statics.applyIncrements = async function (increments: ICounterIncrement[]) {
+  if (increments.length === 0) {
+    return;
+  }
+
+  const operations = increments.map(({ key, namespace, count, botCount, lastUpdated, hll }) => ({
+    updateOne: {
+      filter: { key, shard: PRIMARY_SHARD },
+      update: {
+        $inc: { count, botCount },
+        $max: {
+          lastUpdated,
+          ...Object.fromEntries(Object.entries(hll).map(([index, rank]) => [`hll.${index}`, rank])),
+        },
+        $setOnInsert: { namespace, shards: config.counterShards.defaultShards },
+      },
+      upsert: true,
     },
+  }));
+
+  await this.bulkWrite(operations, { ordered: false });
+};
+
+/**
+ * Método estático para obter o contador atual (soma dos shards)
+ */
+AccessCounterSchema.statics.getCurrentCount = async function (key: string = DEFAULT_COUNTER_KEY) {
+  const shards = await this.find({ key })
+    .select(SUMMARY_FIELDS)
+    .lean(); // lean() para melhor performance
+
+  return summarize(key, shards);
+};
+
+/**
+ * Método estático para obter o contador consolidado incluindo o sketch
+ * de visitantes únicos mesclado de todos os shards
+ */
+AccessCounterSchema.statics.getSummary = async function (key: string = DEFAULT_COUNTER_KEY) {
+  const shards = await this.find({ key })
+    .select(`${SUMMARY_FIELDS} +hll`)
+    .lean();
+
+  return summarize(key, shards);
+};
+
+/**
+ * Método estático para listar contadores consolidados com paginação
+ * A paginação é feita sobre os shards principais e os totais somam todos os shards.
+ * access restringe a listagem aos contadores visíveis para quem consulta
+ */
+AccessCounterSchema.statics.listSummaries = async function (
+  namespace: string | undefined,
+  skip: number,
+  limit: number,
+  access: Record<string, unknown> | null = null
+) {
+  const filter = { shard: PRIMARY_SHARD, ...(namespace && { namespace }), ...access };
+
+  const [counters, total] = await Promise.all([
+    this.aggregate<IAccessCounterSummary>([
+      { $match: filter },
+      { $sort: { namespace: 1, key: 1 } },
+      { $skip: skip },
+      { $limit: limit },
+      {
+        $lookup: {
+          from: this.collection.collectionName,
+          let: { counterKey: '$key' },
+          pipeline: [
+            { $match: { $expr: { $eq: ['$key', '$$counterKey'] } } },
+            {
+              $group: {
+                _id: null,
+                count: { $sum: '$count' },
+                botCount: { $sum: { $ifNull: ['$botCount', 0] } },
+                lastUpdated: { $max: '$lastUpdated' },
+              },
+            },
+          ],
+          as: 'totals',
+        },
+      },
+      { $unwind: '$totals' },
+      {
+        $project: {
+          _id: 0,
+          key: 1,
+          namespace: 1,
+          shards: { $ifNull: ['$shards', 1] },
+          count: '$totals.count',
+          botCount: '$totals.botCount',
+          botPolicy: 1,
+          owner: { $toString: '$owner' },
+          visibility: 1,
+          lastUpdated: '$totals.lastUpdated',
+          createdAt: 1,
+        },
+      },
+    ]),
+    this.countDocuments(filter),
+  ]);
+
+  return { counters, total };
+};
+
+/**
+ * Método estático para resetar o contador
+ * Zera todos os shards e garante a existência do shard principal. Cada shard
+ * é zerado com findOneAndUpdate, que devolve de forma atômica o valor anterior,
+ * consolidado em previous (null se o contador não existia)
+ */
+AccessCounterSchema.statics.resetCounter = async function (key: string = DEFAULT_COUNTER_KEY) {
+  const now = new Date();
+  const reset = {
+    $set: { count: 0, botCount: 0, lastUpdated: now },
+    $unset: { hll: 1 }, // Visitantes únicos também são zerados
+  };
+
+  const others = await this.find({ key, shard: { $ne: PRIMARY_SHARD } }).select('shard').lean();
+  const previous = [];
+
+  for (const { shard } of others) {
+    const before = await this.findOneAndUpdate({ key, shard }, reset, { new: false })
+      .select(`${SUMMARY_FIELDS} +hll`)
+      .lean();
+
+    if (before) {
+      previous.push(before);
+    }
+  }
+
+  const primaryBefore = await this.findOneAndUpdate(
+    { key, shard: PRIMARY_SHARD },
+    { ...reset, $setOnInsert: { shards: config.counterShards.defaultShards } },
     {
-      new: true,
+      new: false,
       upsert: true,
       runValidators: true,
     }
+  )
+    .select(`${SUMMARY_FIELDS} +hll`)
+    .lean();
+
+  if (primaryBefore) {
+    previous.push(primaryBefore);
+  }
+
+  const primary = await this.findOne({ key, shard: PRIMARY_SHARD }).select(SUMMARY_FIELDS).lean();
+
+  return {
+    counter: summarize(key, [primary!]) as IAccessCounterSummary,
+    previous: summarize(key, previous),
+  };
+};
+
+/**
+ * Método estático para alterar o número de shards de um contador online
+ * Ao reduzir, os shards excedentes são incorporados ao shard principal.
+ * Como as leituras somam todos os documentos da chave, incrementos
+ * concorrentes em shards antigos nunca são perdidos
+ */
+AccessCounterSchema.statics.setShardCount = async function (key: string, shards: number) {
+  await this.updateOne(
+    { key, shard: PRIMARY_SHARD },
+    {
+      $set: { shards },
+      $setOnInsert: { count: 0, lastUpdated: new Date(), namespace: DEFAULT_COUNTER_NAMESPACE },
+    },
+    { upsert: true, runValidators: true }
+  );
+
+  settingsCache.delete(key);
+
+  // Incorpora shards fora do novo intervalo ao shard principal
+  const extraShards = await this.find({ key, shard: { $gte: shards } }).select('shard').lean();
+
+  for (const { shard } of extraShards) {
+    const removed = await this.findOneAndDelete({ key, shard }).select('+hll').lean();
+
+    if (!removed) {
+      continue;
+    }
+
+    const registers = Object.entries(removed.hll ?? {});
+
+    await this.updateOne(
+      { key, shard: PRIMARY_SHARD },
+      {
+        $inc: { count: removed.count, botCount: removed.botCount ?? 0 },
+        $max: {
+          lastUpdated: removed.lastUpdated,
+          ...Object.fromEntries(registers.map(([index, rank]) => [`hll.${index}`, rank])),
+        },
+      }
+    );
+  }
+
+  return (await this.getCurrentCount(key)) as IAccessCounterSummary;
+};
+
+/**
+ * Método estático para definir a política de bots de um contador
+ * Cria o contador caso ainda não exista
+ */
+AccessCounterSchema.statics.setBotPolicy = async function (key: string, botPolicy: BotPolicy) {
+  await this.updateOne(
+    { key, shard: PRIMARY_SHARD },
+    {
+      $set: { botPolicy },
+      $setOnInsert: {
+        count: 0,
+        lastUpdated: new Date(),
+        namespace: DEFAULT_COUNTER_NAMESPACE,
+        shards: config.counterShards.defaultShards,
+      },
+    },
+    { upsert: true, runValidators: true }
   );
+
+  settingsCache.delete(key);
+
+  return (await this.getCurrentCount(key)) as IAccessCounterSummary;
+};
+
+/**
+ * Método estático para alterar a política de acesso (dono, visibilidade e origens
+ * permitidas) de um contador. Apenas os campos informados são alterados; owner
+ * null remove o dono. Cria o contador caso ainda não exista
+ */
+AccessCounterSchema.statics.setAccessPolicy = async function (
+  key: string,
+  policy: Partial<Omit<ICounterAccessPolicy, 'key'>>
+) {
+  const { owner, visibility, allowedOrigins } = policy;
+  const set = {
+    ...(owner && { owner: new mongoose.Types.ObjectId(owner) }),
+    ...(visibility !== undefined && { visibility }),
+    ...(allowedOrigins !== undefined && { allowedOrigins }),
+  };
+
+  await this.updateOne(
+    { key, shard: PRIMARY_SHARD },
+    {
+      ...(Object.keys(set).length > 0 && { $set: set }),
+      ...(owner === null && { $unset: { owner: 1 } }),
+      $setOnInsert: {
+        count: 0,
+        lastUpdated: new Date(),
+        namespace: DEFAULT_COUNTER_NAMESPACE,
+        shards: config.counterShards.defaultShards,
+      },
+    },
+    { upsert: true, runValidators: true }
+  );
+
+  settingsCache.delete(key);
+
+  return (await this.getCurrentCount(key)) as IAccessCounterSummary;
+};
+
+/**
+ * Método estático para definir (ou remover, com null) o reset agendado de um contador
+ * Cria o contador caso ainda não exista
+ */
+AccessCounterSchema.statics.setResetSchedule = async function (
+  key: string,
+  schedule: ICounterResetSchedule | null
+) {
+  await this.updateOne(
+    { key, shard: PRIMARY_SHARD },
+    {
+      ...(schedule ? { $set: { resetSchedule: schedule } } : { $unset: { resetSchedule: 1 } }),
+      $setOnInsert: {
+        count: 0,
+        lastUpdated: new Date(),
+        namespace: DEFAULT_COUNTER_NAMESPACE,
+        shards: config.counterShards.defaultShards,
+      },
+    },
+    { upsert: true, runValidators: true }
+  );
+
+  return (await this.getCurrentCount(key)) as IAccessCounterSummary;
+};
+
+/**
+ * Método estático para listar contadores cujo reset agendado venceu
+ */
+AccessCounterSchema.statics.findDueResets = async function (now: Date, limit: number) {
+  const counters = await this.find({ shard: PRIMARY_SHARD, 'resetSchedule.nextResetAt': { $lte: now } })
+    .sort({ 'resetSchedule.nextResetAt': 1 })
+    .limit(limit)
+    .select('key resetSchedule')
+    .lean();
+
+  return counters.map(counter => ({ key: counter.key, resetSchedule: counter.resetSchedule! }));
+};
+
+/**
+ * Método estático para reservar a execução de um reset agendado
+ * Avança nextResetAt apenas se ainda for o vencimento lido, de modo que
+ * somente uma instância execute cada reset
+ */
+AccessCounterSchema.statics.claimScheduledReset = async function (key: string, due: Date, next: Date) {
+  const result = await this.updateOne(
+    { key, shard: PRIMARY_SHARD, 'resetSchedule.nextResetAt': due },
+    { $set: { 'resetSchedule.nextResetAt': next } }
+  );
+
+  return result.modifiedCount === 1;
+};
+
+/**
+ * Método estático para obter o estado do modo event-sourced de um contador
+ * Retorna undefined se o contador não existir ou não estiver no modo event-sourced
+ */
+AccessCounterSchema.statics.getEventSourcing = async function (key: string) {
+  const settings = await loadSettings(this, key);
+  return settings?.eventSourcing;
+};
+
+/**
+ * Método estático para habilitar ou desabilitar o modo event-sourced
+ * Habilitar um contador que já está no modo event-sourced não altera o estado;
+ * cria o contador caso ainda não exista
+ */
+AccessCounterSchema.statics.setEventSourcing = async function (key: string, enabled: boolean) {
+  await this.updateOne(
+    { key, shard: PRIMARY_SHARD },
+    {
+      $setOnInsert: {
+        count: 0,
+        lastUpdated: new Date(),
+        namespace: DEFAULT_COUNTER_NAMESPACE,
+        shards: config.counterShards.defaultShards,
+      },
+    },
+    { upsert: true, runValidators: true }
+  );
+
+  if (enabled) {
+    await this.updateOne(
+      { key, shard: PRIMARY_SHARD, eventSourcing: null },
+      { $set: { eventSourcing: { enabledAt: new Date(), baselineAt: null } } }
+    );
+  } else {
+    await this.updateOne({ key, shard: PRIMARY_SHARD }, { $unset: { eventSourcing: 1 } });
+  }
+
+  settingsCache.delete(key);
+
+  return (await this.getCurrentCount(key)) as IAccessCounterSummary;
+};
+
+/**
+ * Método estático para listar os contadores no modo event-sourced
+ */
+AccessCounterSchema.statics.findEventSourced = async function () {
+  const counters = await this.find({ shard: PRIMARY_SHARD, eventSourcing: { $ne: null } })
+    .select('key eventSourcing')
+    .lean();
+
+  return counters.map(counter => ({ key: counter.key, eventSourcing: counter.eventSourcing! }));
+};
+
+/**
+ * Método estático para registrar o checkpoint inicial do modo event-sourced
+ * Só tem efeito se o modo não foi reabilitado e o checkpoint inicial ainda
+ * não foi registrado, de modo que somente uma instância o registre
+ */
+AccessCounterSchema.statics.claimEventSourcingBaseline = async function (
+  key: string,
+  enabledAt: Date,
+  baselineAt: Date
+) {
+  const result = await this.updateOne(
+    { key, shard: PRIMARY_SHARD, 'eventSourcing.enabledAt': enabledAt, 'eventSourcing.baselineAt': null },
+    { $set: { 'eventSourcing.baselineAt': baselineAt } }
+  );
+
+  settingsCache.delete(key);
+
+  return result.modifiedCount === 1;
+};
+
+/**
+ * Método estático para sobrescrever o total de um contador
+ * O valor é gravado no shard principal e os demais shards são zerados;
+ * cria o contador caso ainda não exista
+ */
+AccessCounterSchema.statics.overwriteCount = async function (key: string, count: number) {
+  const now = new Date();
+
+  await this.updateMany({ key, shard: { $ne: PRIMARY_SHARD } }, { $set: { count: 0, lastUpdated: now } });
+  await this.updateOne(
+    { key, shard: PRIMARY_SHARD },
+    {
+      $set: { count, lastUpdated: now },
+      $setOnInsert: { namespace: DEFAULT_COUNTER_NAMESPACE, shards: config.counterShards.defaultShards },
+    },
+    { upsert: true, runValidators: true }
+  );
+
+  return (await this.getCurrentCount(key)) as IAccessCounterSummary;
+};
+
+/**
+ * Método estático para somar (ou subtrair) um valor ao total de um contador
+ * Valores positivos vão para o shard principal, criando o contador se preciso.
+ * Valores negativos são subtraídos shard a shard com updates condicionais,
+ * de modo que nenhum shard fique negativo; se o total não for suficiente,
+ * nada é alterado e retorna null
+ */
+AccessCounterSchema.statics.adjustCounter = async function (key: string, delta: number) {
+  const now = new Date();
+
+  if (delta >= 0) {
+    await this.updateOne(
+      { key, shard: PRIMARY_SHARD },
+      {
+        $inc: { count: delta },
+        $set: { lastUpdated: now },
+        $setOnInsert: { namespace: DEFAULT_COUNTER_NAMESPACE, shards: config.counterShards.defaultShards },
+      },
+      { upsert: true, runValidators: true }
+    );
+
+    return (await this.getCurrentCount(key)) as IAccessCounterSummary;
+  }
+
+  const taken: Array<{ shard: number; amount: number }> = [];
+  let remaining = -delta;
+
+  // Algumas passadas absorvem alterações concorrentes entre a leitura e o update
+  for (let attempt = 0; attempt < 3 && remaining > 0; attempt++) {
+    const shards = await this.find({ key, count: { $gt: 0 } }).select('shard count').sort({ shard: 1 }).lean();
+
+    for (const { shard, count } of shards) {
+      const amount = Math.min(remaining, count);
+      const result = await this.updateOne(
+        { key, shard, count: { $gte: amount } },
+        { $inc: { count: -amount }, $set: { lastUpdated: now } }
+      );
+
+      if (result.modifiedCount === 1) {
+        taken.push({ shard, amount });
+        remaining -= amount;
+      }
+
+      if (remaining === 0) {
+        break;
+      }
+    }
+  }
+
+  if (remaining > 0) {
+    // Devolve o que já foi subtraído
+    for (const { shard, amount } of taken) {
+      await this.updateOne({ key, shard }, { $inc: { count: amount } });
+    }
+
+    return null;
+  }
+
+  return (await this.getCurrentCount(key)) as IAccessCounterSummary;
+};
+
+/**
+ * Método estático para migrar o contador singleton legado (sem chave)
+ * para o contador padrão. Retorna true se algum documento foi migrado
+ */
+AccessCounterSchema.statics.migrateLegacyCounter = async function () {
+  const result = await this.collection.updateOne(
+    { key: { $exists: false } },
+    {
+      $set: {
+        key: DEFAULT_COUNTER_KEY,
+        namespace: DEFAULT_COUNTER_NAMESPACE,
+        shard: PRIMARY_SHARD,
+        shards: 1,
+      },
+    }
+  );
+  return result.modifiedCount > 0;
+};
+
+/**
+ * Método estático para migrar contadores anteriores ao layout com shards
+ * Remove o índice único antigo por chave e marca os documentos como shard principal
+ */
+AccessCounterSchema.statics.migrateShardLayout = async function () {
+  const indexes = await this.collection.indexes().catch(() => []);
+
+  if (indexes.some(index => index.name === 'key_1')) {
+    await this.collection.dropIndex('key_1');
+  }
+
+  const result = await this.collection.updateMany(
+    { shard: { $exists: false } },
+    { $set: { shard: PRIMARY_SHARD, shards: 1 } }
+  );
+
+  return result.modifiedCount;
 };
 
 /**
  * Método para converter para objeto de resposta
  */
-AccessCounterSchema.methods.toResponseObject = function (): { count: number; lastUpdated: Date } {
+AccessCounterSchema.methods.toResponseObject = function (): { key: string; namespace: string; count: number; lastUpdated: Date } {
   return {
+    key: this.key,
+    namespace: this.namespace,
     count: this.count,
     lastUpdated: this.lastUpdated,
   };
@@ -118,6 +966,7 @@ AccessCounterSchema.set('toJSON', {
   transform: function (doc: any, ret: any) {
     delete ret.__v;
     delete ret._id;
+    delete ret.hll;
     return ret;
   },
 });
@@ -0,0 +1,133 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { AccessExportFormat, AccessExportStatus, HistoryGranularity, IAccessExport } from '../types';
+
+/**
+ * Interface que extende Document do Mongoose para a exportação
+ */
+export interface IAccessExportDocument extends IAccessExport, Document {}
+
+/**
+ * Interface para métodos estáticos do modelo
+ */
+interface IAccessExportModel extends mongoose.Model<IAccessExportDocument> {
+  claimNext(lockMs: number): Promise<IAccessExportDocument | null>;
+}
+
+/**
+ * Schema do MongoDB para exportações de dados de acesso em segundo plano
+ * Usadas para intervalos grandes demais para a exportação direta; o arquivo
+ * gerado é gravado no GridFS (bucket "exports") e removido ao expirar
+ */
+const AccessExportSchema = new Schema<IAccessExportDocument, IAccessExportModel>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    granularity: {
+      type: String,
+      enum: Object.values(HistoryGranularity),
+      required: true,
+    },
+    from: {
+      type: Date,
+      required: true,
+    },
+    to: {
+      type: Date,
+      required: true,
+    },
+    format: {
+      type: String,
+      enum: Object.values(AccessExportFormat),
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(AccessExportStatus),
+      default: AccessExportStatus.PENDING,
+    },
+    requestedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    rows: {
+      type: Number,
+      default: 0,
+    },
+    bytes: {
+      type: Number,
+      default: 0,
+    },
+    file: {
+      // Arquivo no GridFS
+      type: Schema.Types.ObjectId,
+      default: null,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+    error: {
+      type: String,
+      default: null,
+    },
+    startedAt: {
+      type: Date,
+      default: null,
+    },
+    completedAt: {
+      type: Date,
+      default: null,
+    },
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'access_exports',
+  }
+);
+
+/**
+ * Índices para a fila de processamento, listagem por usuário e expiração
+ */
+AccessExportSchema.index({ status: 1, createdAt: 1 });
+AccessExportSchema.index({ requestedBy: 1, createdAt: -1 });
+AccessExportSchema.index({ expiresAt: 1 });
+
+/**
+ * Método estático para reservar a próxima exportação da fila
+ * Exportações cujo lock expirou (instância interrompida) são retomadas do início
+ */
+AccessExportSchema.statics.claimNext = async function (lockMs: number) {
+  const now = new Date();
+
+  return await this.findOneAndUpdate(
+    {
+      $or: [
+        { status: AccessExportStatus.PENDING },
+        { status: AccessExportStatus.RUNNING, lockedUntil: { $lte: now } },
+      ],
+    },
+    {
+      $set: {
+        status: AccessExportStatus.RUNNING,
+        lockedUntil: new Date(now.getTime() + lockMs),
+        startedAt: now,
+      },
+    },
+    { new: true, sort: { createdAt: 1 } }
+  );
+};
+
+/**
+ * Model da exportação de dados de acesso
+ */
+export const AccessExport = mongoose.model<IAccessExportDocument, IAccessExportModel>(
+  'AccessExport',
+  AccessExportSchema
+);
@@ -0,0 +1,221 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IAccessSource, IAccessSourceEntry, IAccessSourceIncrement } from '../types';
+
+/**
+ * Interface que extende Document do Mongoose para o AccessSource
+ */
+export interface IAccessSourceDocument extends IAccessSource, Document {}
+
+/**
+ * Interface para métodos estáticos do modelo
+ */
+interface IAccessSourceModel extends mongoose.Model<IAccessSourceDocument> {
+  applyIncrements(increments: IAccessSourceIncrement[], maxEntries: number, retentionMs: number): Promise<void>;
+  summarize(
+    key: string,
+    from: Date,
+    to: Date,
+    limit: number
+  ): Promise<{ total: number; entries: IAccessSourceEntry[] }>;
+}
+
+/**
+ * Schema do MongoDB para as origens dos acessos (IP e User-Agent)
+ * Um documento por contador e minuto, com as origens mais frequentes limitadas
+ * a ANOMALY_MAX_SOURCES_PER_MINUTE entradas. Os documentos expiram (TTL) após
+ * ANOMALY_SOURCE_RETENTION_HOURS e servem apenas à investigação de anomalias
+ */
+const AccessSourceSchema = new Schema<IAccessSourceDocument, IAccessSourceModel>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    bucketStart: {
+      type: Date,
+      required: true,
+    },
+    total: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    other: {
+      // Acessos de origens que não couberam na tabela
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    entries: {
+      type: [
+        new Schema(
+          {
+            ip: { type: String, required: true },
+            userAgent: { type: String, default: '' },
+            count: { type: Number, required: true, min: 0 },
+          },
+          { _id: false }
+        ),
+      ],
+      default: [],
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    collection: 'access_sources',
+  }
+);
+
+/**
+ * Índices: um documento por contador e minuto e expiração automática
+ */
+AccessSourceSchema.index({ key: 1, bucketStart: 1 }, { unique: true });
+AccessSourceSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL: MongoDB remove origens expiradas
+
+/**
+ * Pipeline de atualização que soma uma origem na tabela do minuto
+ * Mesma regra das tabelas de dimensões: origens já presentes são incrementadas,
+ * novas entram enquanto houver espaço e o excedente vai para "other"
+ */
+const buildIncrementPipeline = (increment: IAccessSourceIncrement, maxEntries: number, expiresAt: Date) => {
+  const { origin, count } = increment;
+  const base = {
+    $set: {
+      total: { $add: [{ $ifNull: ['$total', 0] }, count] },
+      other: { $ifNull: ['$other', 0] },
+      entries: { $ifNull: ['$entries', []] },
+      expiresAt: { $ifNull: ['$expiresAt', expiresAt] },
+    },
+  };
+
+  if (origin === null) {
+    return [base, { $set: { other: { $add: ['$other', count] } } }];
+  }
+
+  const ip = { $literal: origin.ip };
+  const userAgent = { $literal: origin.userAgent };
+  const matches = (entry: string) => ({
+    $and: [{ $eq: [`${entry}.ip`, ip] }, { $eq: [`${entry}.userAgent`, userAgent] }],
+  });
+
+  return [
+    base,
+    {
+      $set: {
+        _found: { $anyElementTrue: [{ $map: { input: '$entries', as: 'entry', in: matches('$$entry') } }] },
+      },
+    },
+    {
+      $set: {
+        entries: {
+          $switch: {
+            branches: [
+              {
+                case: '$_found',
+                then: {
+                  $map: {
+                    input: '$entries',
+                    as: 'entry',
+                    in: {
+                      $cond: [
+                        matches('$$entry'),
+                        { ip: '$$entry.ip', userAgent: '$$entry.userAgent', count: { $add: ['$$entry.count', count] } },
+                        '$$entry',
+                      ],
+                    },
+                  },
+                },
+              },
+              {
+                case: { $lt: [{ $size: '$entries' }, maxEntries] },
+                then: { $concatArrays: ['$entries', [{ ip, userAgent, count }]] },
+              },
+            ],
+            default: '$entries',
+          },
+        },
+        other: {
+          $cond: [
+            { $and: [{ $not: ['$_found'] }, { $gte: [{ $size: '$entries' }, maxEntries] }] },
+            { $add: ['$other', count] },
+            '$other',
+          ],
+        },
+      },
+    },
+    { $unset: '_found' },
+  ];
+};
+
+/**
+ * Método estático para aplicar incrementos de origens em lote
+ */
+AccessSourceSchema.statics.applyIncrements = async function (
+  increments: IAccessSourceIncrement[],
+  maxEntries: number,
+  retentionMs: number
+) {
+  if (increments.length === 0) {
+    return;
+  }
+
+  await this.bulkWrite(
+    increments.map(increment => ({
+      updateOne: {
+        filter: { key: increment.key, bucketStart: increment.bucketStart },
+        update: buildIncrementPipeline(
+          increment,
+          maxEntries,
+          new Date(increment.bucketStart.getTime() + retentionMs)
+        ),
+        upsert: true,
+        // Os valores iniciais são definidos pelo próprio pipeline
+        setDefaultsOnInsert: false,
+      },
+    })),
+    { ordered: false }
+  );
+};
+
+/**
+ * Método estático para somar as origens de um intervalo
+ * Retorna o total de acessos com origem registrada e as origens mais frequentes
+ */
+AccessSourceSchema.statics.summarize = async function (key: string, from: Date, to: Date, limit: number) {
+  const [result] = await this.aggregate([
+    { $match: { key, bucketStart: { $gte: from, $lt: to } } },
+    {
+      $facet: {
+        totals: [{ $group: { _id: null, total: { $sum: '$total' } } }],
+        entries: [
+          { $unwind: '$entries' },
+          {
+            $group: {
+              _id: { ip: '$entries.ip', userAgent: '$entries.userAgent' },
+              count: { $sum: '$entries.count' },
+            },
+          },
+          { $sort: { count: -1, '_id.ip': 1 } },
+          { $limit: limit },
+          { $project: { _id: 0, ip: '$_id.ip', userAgent: '$_id.userAgent', count: 1 } },
+        ],
+      },
+    },
+  ]);
+
+  return {
+    total: result?.totals[0]?.total ?? 0,
+    entries: result?.entries ?? [],
+  };
+};
+
+/**
+ * Model do AccessSource
+ */
+export const AccessSource = mongoose.model<IAccessSourceDocument, IAccessSourceModel>(
+  'AccessSource',
+  AccessSourceSchema
+);
@@ -0,0 +1,177 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import {
+  AlertConditionType,
+  AlertOperator,
+  AlertState,
+  IAlertRule,
+  IAlertRuleResponse,
+} from '../types';
+import { COUNTER_KEY_PATTERN } from './AccessCounter';
+
+/**
+ * Interface que extende Document do Mongoose para a regra de alerta
+ */
+export interface IAlertRuleDocument extends IAlertRule, Document {
+  toResponseObject(includeSecret?: boolean): IAlertRuleResponse;
+}
+
+/**
+ * Interface para métodos estáticos do modelo
+ */
+interface IAlertRuleModel extends mongoose.Model<IAlertRuleDocument> {
+  transitionState(
+    id: unknown,
+    from: AlertState,
+    to: AlertState,
+    value: number | null,
+    at: Date
+  ): Promise<IAlertRuleDocument | null>;
+}
+
+/**
+ * Subdocumento com a condição avaliada pela regra
+ */
+const AlertConditionSchema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: Object.values(AlertConditionType),
+      required: true,
+    },
+    operator: {
+      type: String,
+      enum: Object.values(AlertOperator),
+    },
+    value: {
+      type: Number,
+    },
+    windowMinutes: {
+      type: Number,
+      min: 1,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * Schema do MongoDB para regras de alerta dos contadores
+ * O estado (ok/triggered) permite disparar apenas na transição,
+ * sem repetir o alerta a cada avaliação
+ */
+const AlertRuleSchema = new Schema<IAlertRuleDocument, IAlertRuleModel>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    counterKey: {
+      type: String,
+      required: true,
+      match: [COUNTER_KEY_PATTERN, 'Chave do contador inválida'],
+    },
+    condition: {
+      type: AlertConditionSchema,
+      required: true,
+    },
+    webhooks: {
+      type: [String],
+      validate: {
+        validator: (urls: string[]) => urls.length > 0 && urls.length <= 10,
+        message: 'Informe de 1 a 10 webhooks',
+      },
+    },
+    secret: {
+      type: String,
+      required: true,
+      select: false, // Nunca retornado em consultas por padrão
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    state: {
+      type: String,
+      enum: Object.values(AlertState),
+      default: AlertState.OK,
+    },
+    lastValue: {
+      type: Number,
+      default: null,
+    },
+    lastEvaluatedAt: {
+      type: Date,
+      default: null,
+    },
+    lastTriggeredAt: {
+      type: Date,
+      default: null,
+    },
+    createdBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'alert_rules',
+  }
+);
+
+/**
+ * Índices para avaliação periódica e listagem por contador
+ */
+AlertRuleSchema.index({ enabled: 1 });
+AlertRuleSchema.index({ counterKey: 1, createdAt: -1 });
+
+/**
+ * Método de instância para converter em objeto de resposta
+ */
+AlertRuleSchema.methods.toResponseObject = function (includeSecret: boolean = false): IAlertRuleResponse {
+  return {
+    _id: this._id.toString(),
+    name: this.name,
+    counterKey: this.counterKey,
+    condition: this.condition,
+    webhooks: this.webhooks,
+    enabled: this.enabled,
+    state: this.state,
+    lastValue: this.lastValue,
+    lastEvaluatedAt: this.lastEvaluatedAt,
+    lastTriggeredAt: this.lastTriggeredAt,
+    createdBy: this.createdBy,
+    createdAt: this.createdAt,
+    updatedAt: this.updatedAt,
+    ...(includeSecret ? { secret: this.secret } : {}),
+  };
+};
+
+/**
+ * Método estático para mudar o estado da regra de forma atômica
+ * Apenas uma instância vence a transição, evitando alertas duplicados
+ */
+AlertRuleSchema.statics.transitionState = async function (
+  id: unknown,
+  from: AlertState,
+  to: AlertState,
+  value: number | null,
+  at: Date
+) {
+  return await this.findOneAndUpdate(
+    { _id: id, state: from },
+    {
+      $set: {
+        state: to,
+        lastValue: value,
+        lastEvaluatedAt: at,
+        ...(to === AlertState.TRIGGERED ? { lastTriggeredAt: at } : {}),
+      },
+    },
+    { new: true }
+  ).select('+secret');
+};
+
+/**
+ * Model da regra de alerta
+ */
+export const AlertRule = mongoose.model<IAlertRuleDocument, IAlertRuleModel>('AlertRule', AlertRuleSchema);
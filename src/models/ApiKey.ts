@@ -0,0 +1,144 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { CounterScope, IApiKey, IApiKeyResponse } from '../types';
+import { COUNTER_KEY_PATTERN } from './AccessCounter';
+
+/**
+ * Interface que extende Document do Mongoose para a API key
+ */
+export interface IApiKeyDocument extends IApiKey, Document {
+  toResponseObject(key?: string): IApiKeyResponse;
+}
+
+/**
+ * Interface para métodos estáticos do modelo
+ */
+interface IApiKeyModel extends mongoose.Model<IApiKeyDocument> {
+  findActiveByHash(keyHash: string, now: Date): Promise<IApiKeyDocument | null>;
+  countActiveForOwner(owner: string, now: Date): Promise<number>;
+  touch(id: unknown, now: Date, minIntervalMs: number): Promise<void>;
+}
+
+/**
+ * Schema do MongoDB para API keys de acesso aos contadores
+ * A chave é exibida apenas na criação; apenas o hash SHA-256 é persistido,
+ * junto com um prefixo para que o dono reconheça a chave
+ */
+const ApiKeySchema = new Schema<IApiKeyDocument, IApiKeyModel>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Nome da API key é obrigatório'],
+      trim: true,
+      maxlength: [100, 'Nome deve ter no máximo 100 caracteres'],
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    keyHash: {
+      type: String,
+      required: true,
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    scopes: {
+      type: [{ type: String, enum: Object.values(CounterScope) }],
+      validate: {
+        validator: (scopes: string[]) => scopes.length > 0,
+        message: 'Informe ao menos um scope',
+      },
+    },
+    counters: {
+      // Contadores liberados para a chave; vazio libera todos os do dono
+      type: [{ type: String, match: [COUNTER_KEY_PATTERN, 'Chave do contador inválida'] }],
+      default: [],
+    },
+    expiresAt: {
+      type: Date,
+      default: null,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'api_keys',
+  }
+);
+
+/**
+ * Índices: busca pelo hash e listagem das chaves de um usuário
+ */
+ApiKeySchema.index({ keyHash: 1 }, { unique: true });
+ApiKeySchema.index({ owner: 1, createdAt: -1 });
+
+/**
+ * Filtro das chaves que não foram revogadas nem expiraram
+ */
+const activeFilter = (now: Date) => ({
+  revokedAt: null,
+  $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }],
+});
+
+/**
+ * Método de instância para resposta (sem o hash)
+ * A chave em texto puro só é incluída quando informada (na criação)
+ */
+ApiKeySchema.methods.toResponseObject = function (key?: string): IApiKeyResponse {
+  return {
+    _id: this._id.toString(),
+    name: this.name,
+    owner: this.owner.toString(),
+    prefix: this.prefix,
+    scopes: this.scopes,
+    counters: this.counters,
+    expiresAt: this.expiresAt ?? null,
+    revokedAt: this.revokedAt ?? null,
+    lastUsedAt: this.lastUsedAt ?? null,
+    createdAt: this.createdAt,
+    updatedAt: this.updatedAt,
+    ...(key && { key }),
+  };
+};
+
+/**
+ * Método estático para buscar uma chave ativa pelo hash
+ */
+ApiKeySchema.statics.findActiveByHash = async function (keyHash: string, now: Date) {
+  return await this.findOne({ keyHash, ...activeFilter(now) });
+};
+
+/**
+ * Método estático para contar as chaves ativas de um usuário
+ */
+ApiKeySchema.statics.countActiveForOwner = async function (owner: string, now: Date) {
+  return await this.countDocuments({ owner, ...activeFilter(now) });
+};
+
+/**
+ * Método estático para registrar o uso de uma chave
+ * Grava no máximo uma vez por minInterval para não gerar uma escrita por requisição
+ */
+ApiKeySchema.statics.touch = async function (id: unknown, now: Date, minIntervalMs: number) {
+  await this.updateOne(
+    {
+      _id: id,
+      $or: [{ lastUsedAt: null }, { lastUsedAt: { $lt: new Date(now.getTime() - minIntervalMs) } }],
+    },
+    { $set: { lastUsedAt: now } }
+  );
+};
+
+/**
+ * Model da API key
+ */
+export const ApiKey = mongoose.model<IApiKeyDocument, IApiKeyModel>('ApiKey', ApiKeySchema);
@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ICounterCheckpoint } from '../types';
+
+/**
+ * Interface que extende Document do Mongoose para o checkpoint de contador
+ */
+export interface ICounterCheckpointDocument extends ICounterCheckpoint, Document {}
+
+/**
+ * Schema do MongoDB para os checkpoints dos contadores event-sourced
+ * Cada checkpoint consolida o log até um instante, limitando a quantidade
+ * de operações lidas em consultas históricas e reconstruções
+ */
+const CounterCheckpointSchema = new Schema<ICounterCheckpointDocument>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    at: {
+      type: Date,
+      required: true,
+    },
+    count: {
+      type: Number,
+      required: true,
+      min: [0, 'Contador não pode ser negativo'],
+    },
+    // Checkpoint inicial: início do histórico disponível
+    baseline: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'counter_checkpoints',
+  }
+);
+
+/**
+ * Índice para buscar o checkpoint mais recente antes de um instante
+ */
+CounterCheckpointSchema.index({ key: 1, at: -1 });
+
+/**
+ * Model do checkpoint de contador
+ */
+export const CounterCheckpoint = mongoose.model<ICounterCheckpointDocument>(
+  'CounterCheckpoint',
+  CounterCheckpointSchema
+);
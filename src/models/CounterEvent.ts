@@ -0,0 +1,89 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { CounterEventType, ICounterEvent } from '../types';
+import { preventMutations } from './immutable';
+
+/**
+ * Interface que extende Document do Mongoose para o evento de contador
+ */
+export interface ICounterEventDocument extends ICounterEvent, Document {}
+
+/**
+ * Schema do MongoDB para a trilha de auditoria dos contadores
+ * Os eventos são imutáveis: o model só permite inserções, e alterações
+ * ou remoções pelo Mongoose resultam em erro
+ */
+const CounterEventSchema = new Schema<ICounterEventDocument>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      enum: Object.values(CounterEventType),
+      required: true,
+    },
+    previousCount: {
+      type: Number,
+      required: true,
+    },
+    previousBotCount: {
+      type: Number,
+      default: 0,
+    },
+    delta: {
+      // Variação aplicada por ajustes manuais
+      type: Number,
+      default: null,
+    },
+    actorId: {
+      type: String,
+      default: null,
+    },
+    actorEmail: {
+      type: String,
+      default: null,
+    },
+    reason: {
+      type: String,
+      default: null,
+      maxlength: 500,
+    },
+    snapshot: {
+      type: Schema.Types.ObjectId,
+      ref: 'CounterSnapshot',
+      default: null,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'counter_events',
+  }
+);
+
+/**
+ * Índice para a trilha de um contador em ordem cronológica reversa
+ */
+CounterEventSchema.index({ key: 1, createdAt: -1 });
+
+/**
+ * Bloqueia alterações e remoções de eventos existentes
+ */
+preventMutations(CounterEventSchema, 'Eventos de contador são imutáveis');
+
+/**
+ * Configuração do toJSON para remover campos desnecessários
+ */
+CounterEventSchema.set('toJSON', {
+  transform: function (doc: any, ret: any) {
+    ret.id = ret._id;
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+/**
+ * Model do evento de contador
+ */
+export const CounterEvent = mongoose.model<ICounterEventDocument>('CounterEvent', CounterEventSchema);
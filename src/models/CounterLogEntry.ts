@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { CounterLogOperation, ICounterLogEntry } from '../types';
+import { preventMutations } from './immutable';
+
+/**
+ * Interface que extende Document do Mongoose para a entrada do log de contador
+ */
+export interface ICounterLogEntryDocument extends ICounterLogEntry, Document {}
+
+/**
+ * Schema do MongoDB para o log de operações dos contadores event-sourced
+ * O valor do contador em qualquer instante é obtido a partir de um checkpoint
+ * somando as operações posteriores; as entradas são imutáveis
+ */
+const CounterLogEntrySchema = new Schema<ICounterLogEntryDocument>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    operation: {
+      type: String,
+      enum: Object.values(CounterLogOperation),
+      required: true,
+    },
+    delta: {
+      type: Number,
+      default: 0,
+    },
+    value: {
+      type: Number,
+      default: null,
+      min: [0, 'Contador não pode ser negativo'],
+    },
+    at: {
+      type: Date,
+      required: true,
+      default: Date.now,
+    },
+  },
+  {
+    collection: 'counter_log',
+  }
+);
+
+/**
+ * Índice para a reprodução das operações de um contador em ordem cronológica
+ */
+CounterLogEntrySchema.index({ key: 1, at: 1, _id: 1 });
+
+preventMutations(CounterLogEntrySchema, 'Entradas do log de contador são imutáveis');
+
+/**
+ * Model da entrada do log de contador
+ */
+export const CounterLogEntry = mongoose.model<ICounterLogEntryDocument>('CounterLogEntry', CounterLogEntrySchema);
@@ -0,0 +1,80 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ICounterSnapshot, ResetPeriod } from '../types';
+
+/**
+ * Interface que extende Document do Mongoose para o snapshot de contador
+ */
+export interface ICounterSnapshotDocument extends ICounterSnapshot, Document {}
+
+/**
+ * Schema do MongoDB para snapshots de períodos encerrados
+ * Cada reset agendado arquiva o valor de fechamento do período
+ */
+const CounterSnapshotSchema = new Schema<ICounterSnapshotDocument>(
+  {
+    key: {
+      type: String,
+      required: true,
+    },
+    namespace: {
+      type: String,
+      required: true,
+    },
+    period: {
+      type: String,
+      enum: Object.values(ResetPeriod),
+      required: true,
+    },
+    timezone: {
+      type: String,
+      required: true,
+    },
+    periodStart: {
+      type: Date,
+      required: true,
+    },
+    periodEnd: {
+      type: Date,
+      required: true,
+    },
+    count: {
+      type: Number,
+      required: true,
+    },
+    botCount: {
+      type: Number,
+      default: 0,
+    },
+    uniqueVisitors: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'counter_snapshots',
+  }
+);
+
+/**
+ * Índices: um snapshot por período e listagem por data
+ */
+CounterSnapshotSchema.index({ key: 1, periodEnd: 1 }, { unique: true });
+CounterSnapshotSchema.index({ periodEnd: -1 });
+
+/**
+ * Configuração do toJSON para remover campos desnecessários
+ */
+CounterSnapshotSchema.set('toJSON', {
+  transform: function (doc: any, ret: any) {
+    ret.id = ret._id;
+    delete ret._id;
+    delete ret.__v;
+    return ret;
+  },
+});
+
+/**
+ * Model do snapshot de contador
+ */
+export const CounterSnapshot = mongoose.model<ICounterSnapshotDocument>('CounterSnapshot', CounterSnapshotSchema);
@@ -0,0 +1,97 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IEmailVerificationToken } from '../types';
+
+/**
+ * Interface que extende Document do Mongoose para o EmailVerificationToken
+ */
+export interface IEmailVerificationTokenDocument extends IEmailVerificationToken, Document {}
+
+/**
+ * Interface para métodos estáticos do modelo
+ */
+interface IEmailVerificationTokenModel extends mongoose.Model<IEmailVerificationTokenDocument> {
+  consume(tokenHash: string, now: Date): Promise<IEmailVerificationTokenDocument | null>;
+  invalidateForUser(userId: unknown): Promise<number>;
+  findLatestForUser(userId: unknown): Promise<IEmailVerificationTokenDocument | null>;
+}
+
+/**
+ * Schema do MongoDB para tokens de verificação de email
+ * Apenas o hash do token é persistido; o token em texto puro vai só no email
+ */
+const EmailVerificationTokenSchema = new Schema<IEmailVerificationTokenDocument>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    email: {
+      type: String,
+      required: true,
+      lowercase: true,
+      trim: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'email_verification_tokens',
+  }
+);
+
+/**
+ * Índices para busca pelo hash, controle de reenvio e expiração automática
+ */
+EmailVerificationTokenSchema.index({ tokenHash: 1 }, { unique: true });
+EmailVerificationTokenSchema.index({ user: 1, createdAt: -1 });
+EmailVerificationTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL: MongoDB remove tokens expirados
+
+/**
+ * Método estático para consumir um token válido
+ * A marcação condicional garante o uso único mesmo com requisições concorrentes
+ */
+EmailVerificationTokenSchema.statics.consume = async function (tokenHash: string, now: Date) {
+  return await this.findOneAndUpdate(
+    { tokenHash, usedAt: null, expiresAt: { $gt: now } },
+    { $set: { usedAt: now } },
+    { new: true }
+  );
+};
+
+/**
+ * Método estático para invalidar os tokens pendentes de um usuário
+ */
+EmailVerificationTokenSchema.statics.invalidateForUser = async function (userId: unknown) {
+  const result = await this.updateMany(
+    { user: userId, usedAt: null },
+    { $set: { usedAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
+
+/**
+ * Método estático para buscar o token mais recente de um usuário (controle de reenvio)
+ */
+EmailVerificationTokenSchema.statics.findLatestForUser = async function (userId: unknown) {
+  return await this.findOne({ user: userId }).sort({ createdAt: -1 });
+};
+
+/**
+ * Model do EmailVerificationToken
+ */
+export const EmailVerificationToken = mongoose.model<IEmailVerificationTokenDocument, IEmailVerificationTokenModel>(
+  'EmailVerificationToken',
+  EmailVerificationTokenSchema
+);
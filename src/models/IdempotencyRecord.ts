@@ -0,0 +1,129 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IIdempotencyRecord, IdempotencyStatus } from '../types';
+
+/**
+ * Interface que extende Document do Mongoose para o registro de idempotência
+ */
+export interface IIdempotencyRecordDocument extends IIdempotencyRecord, Document {}
+
+/**
+ * Interface para métodos estáticos do modelo
+ */
+interface IIdempotencyRecordModel extends mongoose.Model<IIdempotencyRecordDocument> {
+  acquire(
+    scope: string,
+    key: string,
+    fingerprint: string,
+    expiresAt: Date
+  ): Promise<{ record: IIdempotencyRecordDocument; created: boolean }>;
+  complete(id: unknown, statusCode: number, responseBody: unknown): Promise<void>;
+  release(id: unknown): Promise<void>;
+}
+
+/**
+ * Schema do MongoDB para Idempotency-Keys
+ * Guarda o fingerprint da requisição original e sua resposta para reenvio
+ * em tentativas repetidas. Registros expiram automaticamente (TTL)
+ */
+const IdempotencyRecordSchema = new Schema<IIdempotencyRecordDocument, IIdempotencyRecordModel>(
+  {
+    key: {
+      type: String,
+      required: true,
+      maxlength: 255,
+    },
+    scope: {
+      type: String,
+      required: true,
+    },
+    fingerprint: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(IdempotencyStatus),
+      default: IdempotencyStatus.PROCESSING,
+    },
+    statusCode: {
+      type: Number,
+    },
+    responseBody: {
+      type: Schema.Types.Mixed,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'idempotency_keys',
+  }
+);
+
+/**
+ * Índices: uma chave por escopo e expiração automática
+ */
+IdempotencyRecordSchema.index({ scope: 1, key: 1 }, { unique: true });
+IdempotencyRecordSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL: MongoDB remove chaves expiradas
+
+/**
+ * Método estático para reservar uma chave
+ * Cria o registro em processamento ou retorna o existente (created = false).
+ * O índice único garante que apenas uma requisição concorrente vença
+ */
+IdempotencyRecordSchema.statics.acquire = async function (
+  scope: string,
+  key: string,
+  fingerprint: string,
+  expiresAt: Date
+) {
+  try {
+    const record = await this.create({ scope, key, fingerprint, expiresAt });
+    return { record, created: true };
+  } catch (error: any) {
+    if (error?.code !== 11000) {
+      throw error;
+    }
+
+    const record = await this.findOne({ scope, key });
+
+    // Registro expirou entre a inserção e a leitura: tenta novamente
+    if (!record) {
+      return this.acquire(scope, key, fingerprint, expiresAt);
+    }
+
+    return { record, created: false };
+  }
+};
+
+/**
+ * Método estático para gravar a resposta da requisição original
+ */
+IdempotencyRecordSchema.statics.complete = async function (
+  id: unknown,
+  statusCode: number,
+  responseBody: unknown
+) {
+  await this.updateOne(
+    { _id: id },
+    { $set: { status: IdempotencyStatus.COMPLETED, statusCode, responseBody } }
+  );
+};
+
+/**
+ * Método estático para liberar uma chave cuja requisição falhou,
+ * permitindo que o cliente tente novamente
+ */
+IdempotencyRecordSchema.statics.release = async function (id: unknown) {
+  await this.deleteOne({ _id: id, status: IdempotencyStatus.PROCESSING });
+};
+
+/**
+ * Model do registro de idempotência
+ */
+export const IdempotencyRecord = mongoose.model<IIdempotencyRecordDocument, IIdempotencyRecordModel>(
+  'IdempotencyRecord',
+  IdempotencyRecordSchema
+);
@@ -0,0 +1,138 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ILoginThrottle, LoginThrottleScope } from '../types';
+
+/**
+ * Interface que extende Document do Mongoose para o LoginThrottle
+ */
+export interface ILoginThrottleDocument extends ILoginThrottle, Document {}
+
+/**
+ * Limites aplicados ao registrar uma falha
+ */
+export interface LoginFailurePolicy {
+  windowMs: number;
+  maxFailures: number;
+  lockoutMs: number;
+}
+
+/**
+ * Interface para métodos estáticos do modelo
+ */
+interface ILoginThrottleModel extends mongoose.Model<ILoginThrottleDocument> {
+  recordFailure(
+    scope: LoginThrottleScope,
+    key: string,
+    now: Date,
+    policy: LoginFailurePolicy
+  ): Promise<ILoginThrottleDocument>;
+}
+
+/**
+ * Schema do MongoDB para falhas de login por conta (email) ou IP
+ * Os contadores ficam no banco para valerem em todas as instâncias da API
+ */
+const LoginThrottleSchema = new Schema<ILoginThrottleDocument>(
+  {
+    scope: {
+      type: String,
+      enum: Object.values(LoginThrottleScope),
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+    },
+    failures: {
+      type: Number,
+      default: 0,
+    },
+    windowExpiresAt: {
+      // Fim da janela de contagem iniciada na primeira falha
+      type: Date,
+      required: true,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+    lastFailureAt: {
+      type: Date,
+      required: true,
+    },
+    expiresAt: {
+      // Maior entre o fim da janela e o fim do bloqueio
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    collection: 'login_throttles',
+  }
+);
+
+/**
+ * Índices para busca por escopo/chave e expiração automática
+ */
+LoginThrottleSchema.index({ scope: 1, key: 1 }, { unique: true });
+LoginThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL: MongoDB remove contadores expirados
+
+/**
+ * Método estático para registrar uma falha de login
+ * Uma única atualização (pipeline) reinicia a janela expirada, incrementa a
+ * contagem e bloqueia ao atingir o limite, sem corrida entre instâncias
+ */
+LoginThrottleSchema.statics.recordFailure = async function (
+  scope: LoginThrottleScope,
+  key: string,
+  now: Date,
+  policy: LoginFailurePolicy
+) {
+  const windowOpen = { $gt: ['$windowExpiresAt', now] };
+  const lockActive = { $gt: ['$lockedUntil', now] };
+
+  const pipeline = [
+    {
+      $set: {
+        failures: { $cond: [windowOpen, { $add: ['$failures', 1] }, 1] },
+        windowExpiresAt: { $cond: [windowOpen, '$windowExpiresAt', new Date(now.getTime() + policy.windowMs)] },
+        lastFailureAt: now,
+      },
+    },
+    {
+      $set: {
+        lockedUntil: {
+          $cond: [
+            { $and: [policy.maxFailures > 0, { $gte: ['$failures', policy.maxFailures] }, { $not: [lockActive] }] },
+            new Date(now.getTime() + policy.lockoutMs),
+            { $ifNull: ['$lockedUntil', null] },
+          ],
+        },
+      },
+    },
+    { $set: { expiresAt: { $max: ['$windowExpiresAt', '$lockedUntil'] } } },
+  ];
+
+  try {
+    // Defaults do schema não se aplicam a pipelines; o pipeline já define todos os campos
+    return await this.findOneAndUpdate(
+      { scope, key },
+      pipeline,
+      { upsert: true, new: true, setDefaultsOnInsert: false }
+    );
+  } catch (error) {
+    // Duas instâncias criando o mesmo contador: a segunda tentativa atualiza o existente
+    if ((error as any).code === 11000) {
+      return await this.findOneAndUpdate({ scope, key }, pipeline, { new: true });
+    }
+
+    throw error;
+  }
+};
+
+/**
+ * Model do LoginThrottle
+ */
+export const LoginThrottle = mongoose.model<ILoginThrottleDocument, ILoginThrottleModel>(
+  'LoginThrottle',
+  LoginThrottleSchema
+);
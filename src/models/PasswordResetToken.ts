@@ -0,0 +1,103 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IPasswordResetToken } from '../types';
+
+/**
+ * Interface que extende Document do Mongoose para o PasswordResetToken
+ */
+export interface IPasswordResetTokenDocument extends IPasswordResetToken, Document {}
+
+/**
+ * Interface para métodos estáticos do modelo
+ */
+interface IPasswordResetTokenModel extends mongoose.Model<IPasswordResetTokenDocument> {
+  findActive(tokenHash: string, now: Date): Promise<IPasswordResetTokenDocument | null>;
+  consume(tokenHash: string, now: Date): Promise<IPasswordResetTokenDocument | null>;
+  release(id: unknown, usedAt: Date): Promise<void>;
+  invalidateForUser(userId: unknown): Promise<number>;
+}
+
+/**
+ * Schema do MongoDB para tokens de redefinição de senha
+ * Apenas o hash do token é persistido; o token em texto puro vai só no e-mail
+ */
+const PasswordResetTokenSchema = new Schema<IPasswordResetTokenDocument>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    usedAt: {
+      type: Date,
+      default: null,
+    },
+    requestedByIp: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'password_reset_tokens',
+  }
+);
+
+/**
+ * Índices para busca pelo hash e expiração automática
+ */
+PasswordResetTokenSchema.index({ tokenHash: 1 }, { unique: true });
+PasswordResetTokenSchema.index({ user: 1, usedAt: 1 });
+PasswordResetTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL: MongoDB remove tokens expirados
+
+/**
+ * Método estático para buscar um token válido sem consumi-lo
+ */
+PasswordResetTokenSchema.statics.findActive = async function (tokenHash: string, now: Date) {
+  return await this.findOne({ tokenHash, usedAt: null, expiresAt: { $gt: now } });
+};
+
+/**
+ * Método estático para consumir um token válido
+ * A marcação condicional garante o uso único mesmo com requisições concorrentes
+ */
+PasswordResetTokenSchema.statics.consume = async function (tokenHash: string, now: Date) {
+  return await this.findOneAndUpdate(
+    { tokenHash, usedAt: null, expiresAt: { $gt: now } },
+    { $set: { usedAt: now } },
+    { new: true }
+  );
+};
+
+/**
+ * Método estático para desfazer o consumo de um token (a gravação que o usava falhou)
+ * Só libera o token se ele ainda estiver marcado pelo mesmo consumo
+ */
+PasswordResetTokenSchema.statics.release = async function (id: unknown, usedAt: Date) {
+  await this.updateOne({ _id: id, usedAt }, { $set: { usedAt: null } });
+};
+
+/**
+ * Método estático para invalidar os tokens pendentes de um usuário
+ */
+PasswordResetTokenSchema.statics.invalidateForUser = async function (userId: unknown) {
+  const result = await this.updateMany(
+    { user: userId, usedAt: null },
+    { $set: { usedAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
+
+/**
+ * Model do PasswordResetToken
+ */
+export const PasswordResetToken = mongoose.model<IPasswordResetTokenDocument, IPasswordResetTokenModel>(
+  'PasswordResetToken',
+  PasswordResetTokenSchema
+);
@@ -0,0 +1,104 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { IRefreshToken } from '../types';
+
+/**
+ * Interface que extende Document do Mongoose para o RefreshToken
+ */
+export interface IRefreshTokenDocument extends IRefreshToken, Document {}
+
+/**
+ * Interface para métodos estáticos do modelo
+ */
+interface IRefreshTokenModel extends mongoose.Model<IRefreshTokenDocument> {
+  findByHash(tokenHash: string): Promise<IRefreshTokenDocument | null>;
+  revokeFamily(family: string): Promise<number>;
+  revokeAllForUser(userId: string): Promise<number>;
+}
+
+/**
+ * Schema do MongoDB para refresh tokens
+ * Cada token pertence a uma "família" que é rotacionada a cada refresh,
+ * permitindo detectar reutilização e revogar a sessão inteira
+ */
+const RefreshTokenSchema = new Schema<IRefreshTokenDocument>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    tokenHash: {
+      type: String,
+      required: true,
+    },
+    family: {
+      type: String,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    replacedByHash: {
+      type: String,
+      default: null,
+    },
+    createdByIp: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+      maxlength: 512,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'refresh_tokens',
+  }
+);
+
+/**
+ * Índices para performance e expiração automática
+ */
+RefreshTokenSchema.index({ tokenHash: 1 }, { unique: true });
+RefreshTokenSchema.index({ user: 1, revokedAt: 1 });
+RefreshTokenSchema.index({ family: 1 });
+RefreshTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 }); // TTL: MongoDB remove tokens expirados
+
+/**
+ * Método estático para buscar token pelo hash
+ */
+RefreshTokenSchema.statics.findByHash = async function (tokenHash: string) {
+  return await this.findOne({ tokenHash });
+};
+
+/**
+ * Método estático para revogar todos os tokens de uma família
+ */
+RefreshTokenSchema.statics.revokeFamily = async function (family: string) {
+  const result = await this.updateMany(
+    { family, revokedAt: null },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
+
+/**
+ * Método estático para revogar todas as sessões de um usuário
+ */
+RefreshTokenSchema.statics.revokeAllForUser = async function (userId: string) {
+  const result = await this.updateMany(
+    { user: userId, revokedAt: null },
+    { $set: { revokedAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
+
+/**
+ * Model do RefreshToken
+ */
+export const RefreshToken = mongoose.model<IRefreshTokenDocument, IRefreshTokenModel>('RefreshToken', RefreshTokenSchema);
@@ -1,6 +1,6 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import bcrypt from 'bcryptjs';
-import { IUser, IUserResponse } from '../types';
+import { IUser, IUserResponse, UserRole } from '../types';
 import { config } from '../config/environment';
 
 /**
@@ -8,6 +8,7 @@ import { config } from '../config/environment';
  */
 export interface IUserDocument extends IUser, Document {
   comparePassword(candidatePassword: string): Promise<boolean>;
+  changedPasswordAfter(issuedAt?: number): boolean;
   toResponseObject(): IUserResponse;
 }
 
@@ -58,6 +59,73 @@ const UserSchema = new Schema<IUserDocument>(
         message: 'Senha deve conter pelo menos uma letra maiúscula, uma minúscula e um número',
       },
     },
+    role: {
+      type: String,
+      enum: {
+        values: Object.values(UserRole),
+        message: 'Papel de usuário inválido',
+      },
+      default: UserRole.USER,
+      required: true,
+    },
+    emailVerified: {
+      type: Boolean,
+      default: false,
+    },
+    emailVerifiedAt: {
+      type: Date,
+      default: null,
+    },
+    passwordChangedAt: {
+      type: Date,
+      default: null,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorEnabledAt: {
+      type: Date,
+      default: null,
+    },
+    twoFactorSecret: {
+      // Segredo TOTP cifrado (AES-256-GCM); nunca retornado nas consultas padrão
+      type: String,
+      default: null,
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      // Segredo gerado no setup, aguardando confirmação com um código válido
+      type: String,
+      default: null,
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      // Hashes dos códigos de recuperação ainda não usados
+      type: [String],
+      default: [],
+      select: false,
+    },
+    twoFactorLastUsedStep: {
+      // Último passo TOTP aceito, impede reutilizar o mesmo código
+      type: Number,
+      default: null,
+    },
+    deletedAt: {
+      // Remoção lógica; o usuário é excluído definitivamente após USER_DELETION_GRACE_DAYS
+      type: Date,
+      default: null,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    deletedEmail: {
+      // Email original, liberado para novos cadastros enquanto o usuário está removido
+      type: String,
+      default: null,
+    },
   },
   {
     timestamps: true, // Adiciona createdAt e updatedAt automaticamente
@@ -70,6 +138,20 @@ const UserSchema = new Schema<IUserDocument>(
  */
 UserSchema.index({ email: 1 }, { unique: true });
 UserSchema.index({ createdAt: -1 });
+UserSchema.index({ deletedAt: 1 }, { partialFilterExpression: { deletedAt: { $type: 'date' } } });
+
+/**
+ * Filtro padrão: as consultas ignoram usuários removidos (soft delete)
+ * Para alcançá-los, a consulta deve filtrar deletedAt explicitamente
+ */
+UserSchema.pre(
+  ['find', 'findOne', 'findOneAndUpdate', 'countDocuments', 'updateOne', 'updateMany'],
+  function () {
+    if (!Object.prototype.hasOwnProperty.call(this.getFilter(), 'deletedAt')) {
+      this.where({ deletedAt: null });
+    }
+  }
+);
 
 /**
  * Middleware para hash da senha antes de salvar
@@ -85,6 +167,13 @@ UserSchema.pre('save', async function (next) {
     // Gera o hash da senha usando bcrypt
     const salt = await bcrypt.genSalt(config.bcrypt.rounds);
     this.password = await bcrypt.hash(this.password, salt);
+
+    // Recua 1s porque o iat do JWT tem precisão de segundos: os tokens
+    // emitidos logo após a troca continuam válidos
+    if (!this.isNew) {
+      this.passwordChangedAt = new Date(Date.now() - 1000);
+    }
+
     next();
   } catch (error) {
     next(error as Error);
@@ -102,6 +191,18 @@ UserSchema.methods.comparePassword = async function (candidatePassword: string):
   }
 };
 
+/**
+ * Verifica se a senha foi trocada depois da emissão de um access token
+ * (iat em segundos); tokens anteriores à troca deixam de ser aceitos
+ */
+UserSchema.methods.changedPasswordAfter = function (issuedAt?: number): boolean {
+  if (!this.passwordChangedAt || issuedAt === undefined) {
+    return false;
+  }
+
+  return issuedAt * 1000 < this.passwordChangedAt.getTime();
+};
+
 /**
  * Método para converter para objeto de resposta (sem senha)
  */
@@ -110,6 +211,9 @@ UserSchema.methods.toResponseObject = function (): IUserResponse {
     _id: this._id.toString(),
     name: this.name,
     email: this.email,
+    role: this.role,
+    emailVerified: this.emailVerified,
+    twoFactorEnabled: this.twoFactorEnabled ?? false,
     createdAt: this.createdAt,
     updatedAt: this.updatedAt,
   };
@@ -136,6 +240,9 @@ UserSchema.statics.emailExists = async function (email: string) {
 UserSchema.set('toJSON', {
   transform: function (doc: any, ret: any) {
     delete ret.password;
+    delete ret.twoFactorSecret;
+    delete ret.twoFactorPendingSecret;
+    delete ret.twoFactorRecoveryCodes;
     delete ret.__v;
     return ret;
   },
@@ -147,6 +254,9 @@ UserSchema.set('toJSON', {
 UserSchema.set('toObject', {
   transform: function (doc: any, ret: any) {
     delete ret.password;
+    delete ret.twoFactorSecret;
+    delete ret.twoFactorPendingSecret;
+    delete ret.twoFactorRecoveryCodes;
     delete ret.__v;
     return ret;
   },
@@ -0,0 +1,130 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { AlertEvent, IWebhookDelivery, WebhookDeliveryStatus } from '../types';
+import { config } from '../config/environment';
+
+/**
+ * Interface que extende Document do Mongoose para a entrega de webhook
+ */
+export interface IWebhookDeliveryDocument extends IWebhookDelivery, Document {}
+
+/**
+ * Interface para métodos estáticos do modelo
+ */
+interface IWebhookDeliveryModel extends mongoose.Model<IWebhookDeliveryDocument> {
+  claim(id: unknown, lockMs: number): Promise<IWebhookDeliveryDocument | null>;
+  findDueIds(now: Date, limit: number): Promise<unknown[]>;
+}
+
+/**
+ * Schema do MongoDB para entregas de webhooks de alertas
+ * Cada evento gera uma entrega por URL; tentativas com falha são
+ * reagendadas com backoff até o limite configurado
+ */
+const WebhookDeliverySchema = new Schema<IWebhookDeliveryDocument, IWebhookDeliveryModel>(
+  {
+    rule: {
+      type: Schema.Types.ObjectId,
+      ref: 'AlertRule',
+      required: true,
+    },
+    event: {
+      type: String,
+      enum: Object.values(AlertEvent),
+      required: true,
+    },
+    url: {
+      type: String,
+      required: true,
+    },
+    payload: {
+      type: Schema.Types.Mixed,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(WebhookDeliveryStatus),
+      default: WebhookDeliveryStatus.PENDING,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    nextAttemptAt: {
+      type: Date,
+      default: null,
+    },
+    lockedUntil: {
+      type: Date,
+      default: null,
+    },
+    lastStatusCode: {
+      type: Number,
+      default: null,
+    },
+    lastError: {
+      type: String,
+      default: null,
+    },
+    deliveredAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'webhook_deliveries',
+  }
+);
+
+/**
+ * Índices para a fila de reenvio, histórico por regra e expiração automática
+ */
+WebhookDeliverySchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookDeliverySchema.index({ rule: 1, createdAt: -1 });
+WebhookDeliverySchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: config.alerts.deliveryRetentionDays * 24 * 60 * 60 } // TTL do histórico
+);
+
+/**
+ * Método estático para reservar uma entrega pendente
+ * O lock impede que duas instâncias enviem a mesma entrega ao mesmo tempo
+ */
+WebhookDeliverySchema.statics.claim = async function (id: unknown, lockMs: number) {
+  const now = new Date();
+
+  return await this.findOneAndUpdate(
+    {
+      _id: id,
+      status: WebhookDeliveryStatus.PENDING,
+      $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+    },
+    { $set: { lockedUntil: new Date(now.getTime() + lockMs) } },
+    { new: true }
+  );
+};
+
+/**
+ * Método estático para listar entregas pendentes cujo horário de envio chegou
+ */
+WebhookDeliverySchema.statics.findDueIds = async function (now: Date, limit: number) {
+  const deliveries = await this.find({
+    status: WebhookDeliveryStatus.PENDING,
+    nextAttemptAt: { $lte: now },
+    $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+  })
+    .sort({ nextAttemptAt: 1 })
+    .limit(limit)
+    .select('_id')
+    .lean();
+
+  return deliveries.map(delivery => delivery._id);
+};
+
+/**
+ * Model da entrega de webhook
+ */
+export const WebhookDelivery = mongoose.model<IWebhookDeliveryDocument, IWebhookDeliveryModel>(
+  'WebhookDelivery',
+  WebhookDeliverySchema
+);
@@ -0,0 +1,35 @@
+import { Schema } from 'mongoose';
+
+/**
+ * Operações que alterariam documentos já gravados
+ */
+const MUTATING_OPERATIONS = [
+  'updateOne',
+  'updateMany',
+  'replaceOne',
+  'findOneAndUpdate',
+  'findOneAndReplace',
+  'findOneAndDelete',
+  'deleteOne',
+  'deleteMany',
+] as const;
+
+/**
+ * Torna os documentos do schema imutáveis: o model só permite inserções,
+ * e alterações ou remoções pelo Mongoose resultam em erro
+ */
+export const preventMutations = (schema: Schema<any>, message: string): void => {
+  schema.pre('save', function (next) {
+    if (!this.isNew) {
+      next(new Error(message));
+      return;
+    }
+    next();
+  });
+
+  for (const operation of MUTATING_OPERATIONS) {
+    schema.pre(operation, function (next) {
+      next(new Error(message));
+    });
+  }
+};
@@ -3,5 +3,29 @@
  * Facilita importação e organização
  */
 
-export { AccessCounter, IAccessCounterDocument } from './AccessCounter';
+export {
+  AccessCounter,
+  IAccessCounterDocument,
+  DEFAULT_COUNTER_KEY,
+  DEFAULT_COUNTER_NAMESPACE,
+  COUNTER_KEY_PATTERN,
+  PRIMARY_SHARD,
+} from './AccessCounter';
 export { User, IUserDocument } from './User';
+export { RefreshToken, IRefreshTokenDocument } from './RefreshToken';
+export { PasswordResetToken, IPasswordResetTokenDocument } from './PasswordResetToken';
+export { EmailVerificationToken, IEmailVerificationTokenDocument } from './EmailVerificationToken';
+export { LoginThrottle, ILoginThrottleDocument, LoginFailurePolicy } from './LoginThrottle';
+export { AccessBucket, IAccessBucketDocument } from './AccessBucket';
+export { AccessBreakdown, IAccessBreakdownDocument, BREAKDOWN_GRANULARITIES } from './AccessBreakdown';
+export { IdempotencyRecord, IIdempotencyRecordDocument } from './IdempotencyRecord';
+export { AlertRule, IAlertRuleDocument } from './AlertRule';
+export { WebhookDelivery, IWebhookDeliveryDocument } from './WebhookDelivery';
+export { CounterEvent, ICounterEventDocument } from './CounterEvent';
+export { CounterSnapshot, ICounterSnapshotDocument } from './CounterSnapshot';
+export { CounterLogEntry, ICounterLogEntryDocument } from './CounterLogEntry';
+export { CounterCheckpoint, ICounterCheckpointDocument } from './CounterCheckpoint';
+export { AccessExport, IAccessExportDocument } from './AccessExport';
+export { AccessSource, IAccessSourceDocument } from './AccessSource';
+export { AccessAnomaly, IAccessAnomalyDocument, ANOMALY_GRANULARITIES } from './AccessAnomaly';
+export { ApiKey, IApiKeyDocument } from './ApiKey';
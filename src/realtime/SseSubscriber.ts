@@ -0,0 +1,58 @@
+import { Response } from 'express';
+import { ICounterUpdate } from '../types';
+import type { RealtimeSubscriber } from '../services';
+
+/**
+ * Intervalo sugerido ao navegador para reconectar após uma queda
+ */
+const SSE_RETRY_MS = 3000;
+
+/**
+ * Cliente em tempo real conectado via Server-Sent Events
+ * Eventos: "counter" (atualização de contador) e "heartbeat"
+ */
+export class SseSubscriber implements RealtimeSubscriber {
+  private eventId = 0;
+
+  constructor(private readonly res: Response) {}
+
+  /**
+   * Envia os cabeçalhos do stream
+   * "no-transform" impede que o middleware de compressão retenha os eventos
+   */
+  public open(): void {
+    this.res.status(200).set({
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    });
+    this.res.flushHeaders();
+    this.res.write(`retry: ${SSE_RETRY_MS}\n\n`);
+  }
+
+  public isWritable(): boolean {
+    return !this.res.writableEnded && !this.res.writableNeedDrain;
+  }
+
+  public send(update: ICounterUpdate): void {
+    this.write('counter', update, ++this.eventId);
+  }
+
+  public heartbeat(): void {
+    this.write('heartbeat', { timestamp: new Date() });
+  }
+
+  public close(): void {
+    this.res.end();
+  }
+
+  private write(event: string, data: unknown, id?: number): void {
+    if (this.res.writableEnded) {
+      return;
+    }
+
+    const idLine = id !== undefined ? `id: ${id}\n` : '';
+    this.res.write(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  }
+}
@@ -0,0 +1,266 @@
+import { IncomingMessage, Server } from 'http';
+import { Duplex } from 'stream';
+import { WebSocket, WebSocketServer, RawData } from 'ws';
+import { CounterScope, ICounterPrincipal, ICounterUpdate } from '../types';
+import { CounterAccessService, RealtimeService, RealtimeSubscriber } from '../services';
+import { Logger } from '../utils';
+import { API_KEY_HEADER, AppError } from '../middleware';
+import { config } from '../config/environment';
+import { parseSubscriptionKeys } from './subscriptionKeys';
+
+/**
+ * Caminho do endpoint WebSocket
+ */
+export const WEBSOCKET_PATH = '/api/access/ws';
+
+/**
+ * Bytes pendentes no socket a partir dos quais o cliente é considerado congestionado
+ */
+const MAX_BUFFERED_BYTES = 64 * 1024;
+
+/**
+ * Tamanho máximo das mensagens recebidas dos clientes
+ */
+const MAX_PAYLOAD_BYTES = 4 * 1024;
+
+/**
+ * Cliente em tempo real conectado via WebSocket
+ * Mensagens enviadas: counter, heartbeat, subscribed, unsubscribed e error
+ */
+class WebSocketSubscriber implements RealtimeSubscriber {
+  private alive = true;
+
+  constructor(
+    private readonly socket: WebSocket,
+    public readonly principal: ICounterPrincipal
+  ) {
+    socket.on('pong', () => {
+      this.alive = true;
+    });
+  }
+
+  public isWritable(): boolean {
+    return this.socket.readyState === WebSocket.OPEN && this.socket.bufferedAmount < MAX_BUFFERED_BYTES;
+  }
+
+  public send(update: ICounterUpdate): void {
+    this.write({ type: 'counter', data: update });
+  }
+
+  /**
+   * Envia o heartbeat e encerra conexões que não responderam ao ping anterior
+   */
+  public heartbeat(): void {
+    if (!this.alive) {
+      this.socket.terminate();
+      return;
+    }
+
+    this.alive = false;
+    this.socket.ping();
+    this.write({ type: 'heartbeat', timestamp: new Date() });
+  }
+
+  public close(): void {
+    this.socket.close(1001, 'Servidor encerrando');
+  }
+
+  public write(message: Record<string, unknown>): void {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
+
+/**
+ * Endpoint WebSocket para atualizações dos contadores em tempo real
+ * O cliente assina contadores pela query (?keys=home,about) ou por mensagens
+ * {"action": "subscribe" | "unsubscribe", "keys": ["home"]}
+ * Credenciais (Authorization Bearer ou X-API-Key) são lidas no upgrade e
+ * apenas contadores com permissão de leitura podem ser assinados
+ */
+export class WebSocketGateway {
+  private static server: WebSocketServer | null = null;
+
+  /**
+   * Registra o tratamento de upgrade no servidor HTTP
+   */
+  public static attach(httpServer: Server): void {
+    if (this.server) {
+      return;
+    }
+
+    const server = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES });
+    this.server = server;
+
+    httpServer.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+
+      if (pathname !== WEBSOCKET_PATH) {
+        socket.destroy();
+        return;
+      }
+
+      if (!RealtimeService.hasCapacity()) {
+        socket.end('HTTP/1.1 503 Service Unavailable\r\nConnection: close\r\n\r\n');
+        return;
+      }
+
+      void this.resolvePrincipal(req).then(principal => {
+        if (!principal) {
+          socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+          return;
+        }
+
+        server.handleUpgrade(req, socket, head, ws => this.handleConnection(ws, req, principal));
+      });
+    });
+
+    Logger.info(`🔌 WebSocket disponível em ${WEBSOCKET_PATH}`);
+  }
+
+  /**
+   * Encerra o servidor WebSocket
+   */
+  public static async close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Identifica quem abre a conexão; retorna null se as credenciais forem inválidas
+   */
+  private static async resolvePrincipal(req: IncomingMessage): Promise<ICounterPrincipal | null> {
+    const authorization = req.headers.authorization;
+    const apiKey = req.headers[API_KEY_HEADER.toLowerCase()];
+
+    try {
+      return await CounterAccessService.resolvePrincipal({
+        token: authorization?.startsWith('Bearer ') ? authorization.slice('Bearer '.length).trim() : null,
+        apiKey: typeof apiKey === 'string' ? apiKey : null,
+      });
+    } catch (error) {
+      Logger.warn('Conexão WebSocket recusada', {
+        error: error instanceof Error ? error.message : error,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Registra a conexão no RealtimeService (limite de conexões e heartbeat)
+   * e a encerra se nenhum contador for assinado em REALTIME_SUBSCRIBE_TIMEOUT_MS
+   */
+  private static handleConnection(socket: WebSocket, req: IncomingMessage, principal: ICounterPrincipal): void {
+    // A capacidade pode ter sido ocupada enquanto as credenciais eram verificadas
+    if (!RealtimeService.hasCapacity()) {
+      socket.close(1013, 'Limite de conexões atingido');
+      return;
+    }
+
+    const subscriber = new WebSocketSubscriber(socket, principal);
+    RealtimeService.register(subscriber);
+
+    const subscribeTimer = setTimeout(() => {
+      if (!RealtimeService.isSubscribed(subscriber)) {
+        socket.close(1008, 'Nenhum contador assinado');
+      }
+    }, config.realtime.subscribeTimeoutMs);
+    subscribeTimer.unref();
+
+    socket.on('close', () => {
+      clearTimeout(subscribeTimer);
+      RealtimeService.remove(subscriber);
+    });
+    socket.on('error', error => Logger.warn('Erro em conexão WebSocket', { error: error.message }));
+    socket.on('message', data => {
+      void this.handleMessage(subscriber, data);
+    });
+
+    const keys = new URL(req.url ?? '/', 'http://localhost').searchParams.get('keys');
+
+    if (keys !== null) {
+      void this.subscribe(subscriber, keys);
+    }
+  }
+
+  private static async handleMessage(subscriber: WebSocketSubscriber, data: RawData): Promise<void> {
+    let message: { action?: unknown; keys?: unknown };
+
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      subscriber.write({ type: 'error', message: 'Mensagem inválida: JSON esperado' });
+      return;
+    }
+
+    if (message?.action === 'subscribe') {
+      await this.subscribe(subscriber, message.keys);
+      return;
+    }
+
+    if (message?.action === 'unsubscribe') {
+      const keys = parseSubscriptionKeys(message.keys);
+
+      if (!keys) {
+        subscriber.write({ type: 'error', message: 'Chaves de contador inválidas' });
+        return;
+      }
+
+      RealtimeService.unsubscribe(subscriber, keys);
+      subscriber.write({ type: 'unsubscribed', keys });
+      return;
+    }
+
+    subscriber.write({ type: 'error', message: 'Ação inválida: use subscribe ou unsubscribe' });
+  }
+
+  /**
+   * Assina os contadores e envia o valor atual de cada um
+   * Contadores sem permissão de leitura são recusados com uma mensagem de erro
+   */
+  private static async subscribe(subscriber: WebSocketSubscriber, value: unknown): Promise<void> {
+    const keys = parseSubscriptionKeys(value);
+
+    if (!keys) {
+      subscriber.write({ type: 'error', message: 'Chaves de contador inválidas' });
+      return;
+    }
+
+    try {
+      const denied: string[] = [];
+
+      for (const key of keys) {
+        if (!(await CounterAccessService.getScopes(key, subscriber.principal)).includes(CounterScope.READ)) {
+          denied.push(key);
+        }
+      }
+
+      if (denied.length > 0) {
+        subscriber.write({ type: 'error', message: 'Permissão insuficiente para os contadores', keys: denied });
+      }
+
+      const allowed = keys.filter(key => !denied.includes(key));
+
+      if (allowed.length === 0) {
+        return;
+      }
+
+      const added = RealtimeService.subscribe(subscriber, allowed);
+      subscriber.write({ type: 'subscribed', keys: allowed });
+
+      for (const update of await RealtimeService.snapshot(added)) {
+        subscriber.send(update);
+      }
+    } catch (error) {
+      subscriber.write({
+        type: 'error',
+        message: error instanceof AppError ? error.message : 'Erro ao assinar contadores',
+      });
+    }
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Arquivo de exportação centralizada dos transportes em tempo real
+ */
+
+export { SseSubscriber } from './SseSubscriber';
+export { WebSocketGateway, WEBSOCKET_PATH } from './WebSocketGateway';
+export { parseSubscriptionKeys } from './subscriptionKeys';
@@ -0,0 +1,32 @@
+import { COUNTER_KEY_PATTERN, DEFAULT_COUNTER_KEY } from '../models/AccessCounter';
+import { config } from '../config/environment';
+
+/**
+ * Interpreta a lista de contadores de uma assinatura em tempo real
+ * Aceita "home,about" (query string) ou ["home", "about"] (mensagem WebSocket).
+ * Sem chaves informadas, assina o contador padrão. Retorna null se alguma chave
+ * for inválida ou se o limite por conexão for excedido
+ */
+export const parseSubscriptionKeys = (value: unknown): string[] | null => {
+  if (value === undefined || value === '') {
+    return [DEFAULT_COUNTER_KEY];
+  }
+
+  const raw = typeof value === 'string' ? value.split(',') : value;
+
+  if (!Array.isArray(raw)) {
+    return null;
+  }
+
+  const keys = Array.from(new Set(raw.map(key => (typeof key === 'string' ? key.trim() : ''))));
+
+  if (
+    keys.length === 0 ||
+    keys.length > config.realtime.maxKeysPerConnection ||
+    keys.some(key => !COUNTER_KEY_PATTERN.test(key))
+  ) {
+    return null;
+  }
+
+  return keys;
+};
@@ -1,10 +1,38 @@
 import { Router } from 'express';
 import { AccessCounterController } from '../controllers';
-import { rateLimitConfig } from '../middleware';
+import {
+  rateLimitConfig,
+  embedRateLimit,
+  authenticate,
+  authenticateOptional,
+  authorize,
+  validateCounterKey,
+  validateQueryParams,
+  validateRouteParams,
+  validateHistoryQuery,
+  validateBreakdownQuery,
+  validateBadgeQuery,
+  validateCounterSettings,
+  validateCounterReset,
+  validateCounterAdjustment,
+  validateSnapshotQuery,
+  validateAnomalyQuery,
+  validateExportQuery,
+  validateExportRequest,
+  validateTrendQuery,
+  validateCountQuery,
+  validateStreamQuery,
+  handleValidationErrors,
+  idempotent,
+  requireVerifiedEmail,
+} from '../middleware';
+import { PERMISSIONS } from '../config/permissions';
+import { CounterScope } from '../types';
 
 /**
- * Rotas para gerenciamento do contador de acessos
- * Implementa as funcionalidades de incremento e consulta de acessos
+ * Rotas para gerenciamento dos contadores de acessos
+ * Implementa as funcionalidades de incremento e consulta de acessos.
+ * As rotas sem :key continuam operando sobre o contador "default"
  */
 const router = Router();
 
@@ -12,16 +40,691 @@ const router = Router();
  * @swagger
  * tags:
  *   name: Access Counter
- *   description: Gerenciamento do contador de acessos ao site
+ *   description: Gerenciamento dos contadores de acessos
  */
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AccessCounter:
+ *       type: object
+ *       properties:
+ *         key:
+ *           type: string
+ *           example: "home-page"
+ *         namespace:
+ *           type: string
+ *           example: "pages"
+ *         count:
+ *           type: number
+ *           example: 1542
+ *         lastUpdated:
+ *           type: string
+ *           format: date-time
+ *           example: "2023-10-02T14:30:00.000Z"
+ *         buffered:
+ *           type: boolean
+ *           description: Presente quando o incremento foi aceito pelo buffer write-behind (count estimado)
+ *         bot:
+ *           type: boolean
+ *           description: Presente quando o acesso foi classificado como bot (count segue a política do contador)
+ *         owner:
+ *           type: string
+ *           nullable: true
+ *           description: Usuário dono do contador (listagens)
+ *         visibility:
+ *           type: string
+ *           enum: [public, private]
+ *           description: Visibilidade do contador (listagens)
+ *         allowedOrigins:
+ *           type: array
+ *           items:
+ *             type: string
+ *           description: Origens permitidas para incrementos (listagens, quando definidas)
+ *     IncrementDimensions:
+ *       type: object
+ *       description: Dimensões opcionais do acesso, usadas na segmentação do tráfego
+ *       properties:
+ *         referrer:
+ *           type: string
+ *           description: Referrer da página (document.referrer); padrão header Referer. Apenas o host é registrado
+ *           example: "https://www.google.com/search?q=anota"
+ *         path:
+ *           type: string
+ *           description: Caminho da página; parâmetros utm_* da query string também são lidos
+ *           example: "/cardapio?utm_source=newsletter"
+ *         source:
+ *           type: string
+ *           example: "app"
+ *         utm_source:
+ *           type: string
+ *         utm_medium:
+ *           type: string
+ *         utm_campaign:
+ *           type: string
+ *     CounterResetRequest:
+ *       type: object
+ *       properties:
+ *         reason:
+ *           type: string
+ *           maxLength: 500
+ *           description: Motivo do reset, registrado na trilha de auditoria
+ *           example: "Contagem inflada por teste de carga"
+ *     CounterAdjustment:
+ *       type: object
+ *       required: [reason]
+ *       properties:
+ *         delta:
+ *           type: integer
+ *           example: -120
+ *         value:
+ *           type: integer
+ *           minimum: 0
+ *           example: 250000
+ *         by:
+ *           type: integer
+ *           minimum: 1
+ *           example: 250
+ *         reason:
+ *           type: string
+ *           maxLength: 500
+ *           example: "Tráfego contado em dobro durante a migração"
+ *     AccessExport:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         key:
+ *           type: string
+ *         granularity:
+ *           type: string
+ *           enum: [minute, hour, day, month]
+ *         from:
+ *           type: string
+ *           format: date-time
+ *         to:
+ *           type: string
+ *           format: date-time
+ *         format:
+ *           type: string
+ *           enum: [csv, ndjson, json]
+ *         status:
+ *           type: string
+ *           enum: [pending, running, completed, failed]
+ *         rows:
+ *           type: number
+ *         bytes:
+ *           type: number
+ *         error:
+ *           type: string
+ *           nullable: true
+ *         requestedBy:
+ *           type: string
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         completedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *           description: Após esta data o arquivo é removido
+ *         downloadUrl:
+ *           type: string
+ *           nullable: true
+ *           example: "/api/access/exports/64b7f0c2a1b2c3d4e5f60718/download"
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     CounterSnapshot:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         key:
+ *           type: string
+ *           example: "home-page"
+ *         namespace:
+ *           type: string
+ *         period:
+ *           type: string
+ *           enum: [daily, weekly, monthly]
+ *         timezone:
+ *           type: string
+ *           example: "America/Sao_Paulo"
+ *         periodStart:
+ *           type: string
+ *           format: date-time
+ *         periodEnd:
+ *           type: string
+ *           format: date-time
+ *         count:
+ *           type: number
+ *           example: 1542
+ *         botCount:
+ *           type: number
+ *         uniqueVisitors:
+ *           type: number
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     CounterEvent:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         key:
+ *           type: string
+ *         type:
+ *           type: string
+ *           enum: [reset, scheduled_reset, rebuild, adjustment, bulk_increment]
+ *         previousCount:
+ *           type: number
+ *           example: 1542
+ *         previousBotCount:
+ *           type: number
+ *         delta:
+ *           type: number
+ *           nullable: true
+ *           description: Variação aplicada pelo ajuste
+ *         actorId:
+ *           type: string
+ *           description: Usuário responsável (ausente em resets agendados)
+ *         actorEmail:
+ *           type: string
+ *         reason:
+ *           type: string
+ *         snapshotId:
+ *           type: string
+ *           nullable: true
+ *           description: Snapshot arquivado pelo reset agendado
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     TrendPeriodCount:
+ *       type: object
+ *       properties:
+ *         start:
+ *           type: string
+ *           format: date-time
+ *         end:
+ *           type: string
+ *           format: date-time
+ *         count:
+ *           type: number
+ *           example: 1250
+ *     AccessAnomaly:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         key:
+ *           type: string
+ *           example: "home"
+ *         granularity:
+ *           type: string
+ *           enum: [minute, hour]
+ *         windowStart:
+ *           type: string
+ *           format: date-time
+ *         windowEnd:
+ *           type: string
+ *           format: date-time
+ *         count:
+ *           type: number
+ *           example: 940
+ *         expected:
+ *           type: number
+ *           description: Mediana do baseline
+ *           example: 42
+ *         score:
+ *           type: number
+ *           description: Desvios robustos (MAD) acima da mediana
+ *           example: 35.7
+ *         severity:
+ *           type: string
+ *           enum: [low, medium, high]
+ *         baseline:
+ *           type: object
+ *           properties:
+ *             median:
+ *               type: number
+ *             mad:
+ *               type: number
+ *             points:
+ *               type: number
+ *         sources:
+ *           type: array
+ *           description: Origens mais frequentes da janela
+ *           items:
+ *             type: object
+ *             properties:
+ *               ip:
+ *                 type: string
+ *                 example: "203.0.113.7"
+ *               userAgent:
+ *                 type: string
+ *                 example: "python-requests/2.31"
+ *               count:
+ *                 type: number
+ *         sourcesTotal:
+ *           type: number
+ *           description: Acessos da janela com origem registrada
+ *         status:
+ *           type: string
+ *           enum: [open, quarantined, released]
+ *         quarantined:
+ *           type: number
+ *           description: Acessos descontados do total enquanto em quarentena
+ *         quarantinedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         releasedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         detectedAt:
+ *           type: string
+ *           format: date-time
+ *         historyUrl:
+ *           type: string
+ *           description: Histórico do contador em torno da janela
+ *           example: "/api/access/home/history?granularity=minute&from=2026-10-19T11%3A00%3A00.000Z"
+ *   parameters:
+ *     CountAt:
+ *       in: query
+ *       name: at
+ *       required: false
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *       description: Instante da consulta histórica (apenas contadores no modo event-sourced)
+ *     CounterKey:
+ *       in: path
+ *       name: key
+ *       required: true
+ *       schema:
+ *         type: string
+ *         pattern: '^[a-z0-9][a-z0-9._-]{0,63}$'
+ *       description: Chave do contador
+ *     IdempotencyKey:
+ *       in: header
+ *       name: Idempotency-Key
+ *       required: false
+ *       schema:
+ *         type: string
+ *         maxLength: 255
+ *         example: 6f1c2a9e-3b7d-4c1e-9a51-2d8f0b7e4c13
+ *       description: |
+ *         Chave única gerada pelo cliente. Repetições com a mesma chave recebem a resposta
+ *         original (header `Idempotent-Replayed: true`) sem repetir a operação
+ *     HistoryGranularity:
+ *       in: query
+ *       name: granularity
+ *       schema:
+ *         type: string
+ *         enum: [minute, hour, day, month]
+ *         default: hour
+ *       description: Tamanho de cada bucket da série (UTC)
+ *     HistoryFrom:
+ *       in: query
+ *       name: from
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *       description: Início do intervalo (padrão depende da granularidade)
+ *     HistoryTo:
+ *       in: query
+ *       name: to
+ *       schema:
+ *         type: string
+ *         format: date-time
+ *       description: Fim do intervalo (padrão agora)
+ *     BreakdownDimension:
+ *       in: query
+ *       name: dimension
+ *       required: true
+ *       schema:
+ *         type: string
+ *         enum: [referrer, path, source, browser, os, device, utm_source, utm_medium, utm_campaign]
+ *       description: Dimensão segmentada
+ *     BreakdownLimit:
+ *       in: query
+ *       name: limit
+ *       schema:
+ *         type: integer
+ *         minimum: 1
+ *         maximum: 100
+ *         default: 10
+ *       description: Número de valores retornados (os mais frequentes)
+ *     ExportFormat:
+ *       in: query
+ *       name: format
+ *       schema:
+ *         type: string
+ *         enum: [csv, ndjson, json]
+ *         default: csv
+ *       description: Formato do arquivo exportado
+ *     TrendPeriod:
+ *       in: query
+ *       name: period
+ *       schema:
+ *         type: string
+ *         enum: [day, week, month]
+ *         default: day
+ *       description: Período comparado (UTC; semanas começam na segunda-feira)
+ *     TrendCompare:
+ *       in: query
+ *       name: compare
+ *       schema:
+ *         type: string
+ *         enum: [previous, yoy]
+ *         default: previous
+ *       description: Compara com o período anterior ou com o mesmo período do ano anterior
+ *     TrendForecast:
+ *       in: query
+ *       name: forecast
+ *       schema:
+ *         type: string
+ *         enum: [linear, ewma]
+ *         default: linear
+ *       description: Método da previsão do período em andamento
+ *     TrendPeriods:
+ *       in: query
+ *       name: periods
+ *       schema:
+ *         type: integer
+ *         minimum: 2
+ *         maximum: 366
+ *       description: Períodos encerrados analisados (padrão 30 dias, 12 semanas ou 12 meses)
+ *     TrendWindow:
+ *       in: query
+ *       name: window
+ *       schema:
+ *         type: integer
+ *         minimum: 1
+ *       description: Períodos da média móvel (padrão 7 dias, 4 semanas ou 3 meses)
+ *   responses:
+ *     AccessExportFile:
+ *       description: |
+ *         Arquivo transmitido em partes (Content-Disposition: attachment), comprimido com gzip
+ *         quando o cliente envia Accept-Encoding. Colunas: key, granularity, bucketStart,
+ *         dimension, value, count, uniqueVisitors. Linhas com dimension vazio trazem o total do
+ *         bucket; as demais, a contagem de um valor da dimensão ("(other)" para o excedente)
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *             example: |
+ *               key,granularity,bucketStart,dimension,value,count,uniqueVisitors
+ *               home,hour,2026-01-01T10:00:00.000Z,,,42,37
+ *               home,hour,2026-01-01T10:00:00.000Z,referrer,google.com,30,
+ *         application/x-ndjson:
+ *           schema:
+ *             type: string
+ *         application/json:
+ *           schema:
+ *             type: array
+ *             items:
+ *               type: object
+ *     AccessBreakdown:
+ *       description: Segmentação obtida com sucesso
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               success:
+ *                 type: boolean
+ *                 example: true
+ *               data:
+ *                 type: object
+ *                 properties:
+ *                   key:
+ *                     type: string
+ *                     example: "default"
+ *                   dimension:
+ *                     type: string
+ *                     example: "referrer"
+ *                   granularity:
+ *                     type: string
+ *                     description: Buckets consultados (hour para intervalos de até 7 dias, senão day)
+ *                     example: "hour"
+ *                   from:
+ *                     type: string
+ *                     format: date-time
+ *                   to:
+ *                     type: string
+ *                     format: date-time
+ *                   total:
+ *                     type: number
+ *                     example: 420
+ *                   other:
+ *                     type: number
+ *                     description: Acessos fora dos valores listados
+ *                     example: 20
+ *                   capped:
+ *                     type: boolean
+ *                     description: Indica que o limite de valores distintos por bucket foi atingido
+ *                   items:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         value:
+ *                           type: string
+ *                           example: "google.com"
+ *                         count:
+ *                           type: number
+ *                           example: 400
+ *                         share:
+ *                           type: number
+ *                           example: 0.9524
+ *     AccessHistory:
+ *       description: Histórico obtido com sucesso
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               success:
+ *                 type: boolean
+ *                 example: true
+ *               data:
+ *                 type: object
+ *                 properties:
+ *                   key:
+ *                     type: string
+ *                     example: "default"
+ *                   granularity:
+ *                     type: string
+ *                     example: "hour"
+ *                   from:
+ *                     type: string
+ *                     format: date-time
+ *                   to:
+ *                     type: string
+ *                     format: date-time
+ *                   total:
+ *                     type: number
+ *                     example: 42
+ *                   uniqueVisitors:
+ *                     type: number
+ *                     description: Visitantes únicos estimados em todo o intervalo
+ *                     example: 17
+ *                   series:
+ *                     type: array
+ *                     items:
+ *                       type: object
+ *                       properties:
+ *                         bucketStart:
+ *                           type: string
+ *                           format: date-time
+ *                         count:
+ *                           type: number
+ *                         uniqueVisitors:
+ *                           type: number
+ *     AccessTrends:
+ *       description: Tendências obtidas com sucesso
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               success:
+ *                 type: boolean
+ *                 example: true
+ *               data:
+ *                 type: object
+ *                 properties:
+ *                   key:
+ *                     type: string
+ *                     example: "default"
+ *                   period:
+ *                     type: string
+ *                     example: "week"
+ *                   compare:
+ *                     type: string
+ *                     example: "previous"
+ *                   current:
+ *                     $ref: '#/components/schemas/TrendPeriodCount'
+ *                   comparison:
+ *                     $ref: '#/components/schemas/TrendPeriodCount'
+ *                   change:
+ *                     type: object
+ *                     properties:
+ *                       absolute:
+ *                         type: number
+ *                         example: 150
+ *                       percentage:
+ *                         type: number
+ *                         nullable: true
+ *                         description: Variação em %; null quando o período de comparação não teve acessos
+ *                         example: 13.64
+ *                   movingAverageWindow:
+ *                     type: number
+ *                     example: 4
+ *                   series:
+ *                     type: array
+ *                     description: Períodos encerrados, a partir do primeiro com acessos
+ *                     items:
+ *                       allOf:
+ *                         - $ref: '#/components/schemas/TrendPeriodCount'
+ *                         - type: object
+ *                           properties:
+ *                             movingAverage:
+ *                               type: number
+ *                   best:
+ *                     nullable: true
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/TrendPeriodCount'
+ *                   worst:
+ *                     nullable: true
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/TrendPeriodCount'
+ *                   forecast:
+ *                     description: Previsão do período em andamento (count = acessos até agora)
+ *                     allOf:
+ *                       - $ref: '#/components/schemas/TrendPeriodCount'
+ *                       - type: object
+ *                         properties:
+ *                           method:
+ *                             type: string
+ *                             example: "linear"
+ *                           elapsed:
+ *                             type: number
+ *                             description: Fração decorrida do período (0 a 1)
+ *                             example: 0.4286
+ *                           remaining:
+ *                             type: number
+ *                             example: 780
+ *                           projected:
+ *                             type: number
+ *                             example: 1350
+ */
+
+/**
+ * @swagger
+ * /api/access:
+ *   get:
+ *     summary: Lista os contadores de acessos
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: Contadores privados só aparecem para o dono, administradores e operadores
+ *     parameters:
+ *       - in: query
+ *         name: namespace
+ *         schema:
+ *           type: string
+ *         description: Filtra os contadores pelo namespace
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Contadores listados com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     counters:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AccessCounter'
+ *                     pagination:
+ *                       type: object
+ *       400:
+ *         description: Parâmetros inválidos
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.get('/', validateQueryParams, validateCounterKey, authenticateOptional, AccessCounterController.listCounters);
+
 /**
  * @swagger
  * /api/access/increment:
  *   post:
  *     summary: Incrementa o contador de acessos
  *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     description: Incrementa o número total de acessos ao site de forma atômica
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/IncrementDimensions'
  *     responses:
  *       200:
  *         description: Acesso incrementado com sucesso
@@ -49,12 +752,27 @@ const router = Router();
  *                 timestamp:
  *                   type: string
  *                   format: date-time
+ *       409:
+ *         description: Requisição com a mesma Idempotency-Key ainda em processamento
+ *       422:
+ *         description: Idempotency-Key já utilizada com outra requisição
  *       429:
  *         description: Muitas requisições
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de incremento no contador ou origem não permitida
  *       500:
  *         description: Erro interno do servidor
  */
-router.post('/increment', rateLimitConfig, AccessCounterController.incrementAccess);
+router.post(
+  '/increment',
+  rateLimitConfig,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.INCREMENT),
+  idempotent,
+  AccessCounterController.incrementAccess
+);
 
 /**
  * @swagger
@@ -62,7 +780,15 @@ router.post('/increment', rateLimitConfig, AccessCounterController.incrementAcce
  *   get:
  *     summary: Obtém o número atual de acessos
  *     tags: [Access Counter]
- *     description: Retorna o contador atual de acessos ao site
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: |
+ *       Retorna o contador atual de acessos ao site. Em contadores no modo event-sourced,
+ *       `at` retorna o valor em um instante passado, reproduzido a partir do log.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CountAt'
  *     responses:
  *       200:
  *         description: Contador obtido com sucesso
@@ -90,10 +816,23 @@ router.post('/increment', rateLimitConfig, AccessCounterController.incrementAcce
  *                 timestamp:
  *                   type: string
  *                   format: date-time
+ *       400:
+ *         description: Instante inválido, futuro ou anterior ao histórico disponível
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
  *       500:
  *         description: Erro interno do servidor
  */
-router.get('/count', AccessCounterController.getCurrentCount);
+router.get(
+  '/count',
+  validateCountQuery,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.READ),
+  AccessCounterController.getCurrentCount
+);
 
 /**
  * @swagger
@@ -101,7 +840,11 @@ router.get('/count', AccessCounterController.getCurrentCount);
  *   get:
  *     summary: Obtém estatísticas detalhadas do contador
  *     tags: [Access Counter]
- *     description: Retorna estatísticas avançadas incluindo média de acessos
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: Retorna estatísticas avançadas incluindo média de acessos e acessos humanos vs. bots
  *     responses:
  *       200:
  *         description: Estatísticas obtidas com sucesso
@@ -121,11 +864,24 @@ router.get('/count', AccessCounterController.getCurrentCount);
  *                   properties:
  *                     count:
  *                       type: number
+ *                       description: Acessos humanos (e de bots com a política "count")
  *                       example: 1542
+ *                     botCount:
+ *                       type: number
+ *                       description: Acessos de bots contados à parte (política "separate")
+ *                       example: 87
+ *                     botPolicy:
+ *                       type: string
+ *                       enum: [ignore, separate, count]
+ *                       example: separate
  *                     lastUpdated:
  *                       type: string
  *                       format: date-time
  *                       example: "2023-10-02T14:30:00.000Z"
+ *                     uniqueVisitors:
+ *                       type: number
+ *                       description: Estimativa HyperLogLog (erro padrão ~1,6%)
+ *                       example: 312
  *                     averageAccessesPerDay:
  *                       type: number
  *                       example: 25.7
@@ -136,10 +892,373 @@ router.get('/count', AccessCounterController.getCurrentCount);
  *                 timestamp:
  *                   type: string
  *                   format: date-time
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.get(
+  '/statistics',
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.READ),
+  AccessCounterController.getStatistics
+);
+
+/**
+ * @swagger
+ * /api/access/history:
+ *   get:
+ *     summary: Obtém o histórico de acessos do contador padrão
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: Retorna uma série temporal preenchida com zeros para os buckets sem acessos
+ *     parameters:
+ *       - $ref: '#/components/parameters/HistoryGranularity'
+ *       - $ref: '#/components/parameters/HistoryFrom'
+ *       - $ref: '#/components/parameters/HistoryTo'
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/AccessHistory'
+ *       400:
+ *         description: Parâmetros inválidos ou intervalo muito grande
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
  *       500:
  *         description: Erro interno do servidor
  */
-router.get('/statistics', AccessCounterController.getStatistics);
+router.get(
+  '/history',
+  validateHistoryQuery,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.READ),
+  AccessCounterController.getHistory
+);
+
+/**
+ * @swagger
+ * /api/access/breakdown:
+ *   get:
+ *     summary: Segmentação do tráfego do contador padrão por dimensão
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: |
+ *       Retorna os valores mais frequentes de uma dimensão (referrer, caminho, navegador, UTM...)
+ *       no intervalo. O padrão é os últimos 7 dias
+ *     parameters:
+ *       - $ref: '#/components/parameters/BreakdownDimension'
+ *       - $ref: '#/components/parameters/HistoryFrom'
+ *       - $ref: '#/components/parameters/HistoryTo'
+ *       - $ref: '#/components/parameters/BreakdownLimit'
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/AccessBreakdown'
+ *       400:
+ *         description: Parâmetros inválidos
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.get(
+  '/breakdown',
+  validateBreakdownQuery,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.READ),
+  AccessCounterController.getBreakdown
+);
+
+/**
+ * @swagger
+ * /api/access/trends:
+ *   get:
+ *     summary: Tendências do contador padrão
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: |
+ *       Compara o último período encerrado com o anterior (ou com o mesmo período do ano
+ *       anterior) e retorna a série com média móvel, o melhor e o pior período e a previsão
+ *       do período em andamento
+ *     parameters:
+ *       - $ref: '#/components/parameters/TrendPeriod'
+ *       - $ref: '#/components/parameters/TrendCompare'
+ *       - $ref: '#/components/parameters/TrendForecast'
+ *       - $ref: '#/components/parameters/TrendPeriods'
+ *       - $ref: '#/components/parameters/TrendWindow'
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/AccessTrends'
+ *       400:
+ *         description: Parâmetros inválidos
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.get(
+  '/trends',
+  validateTrendQuery,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.READ),
+  AccessCounterController.getTrends
+);
+
+/**
+ * @swagger
+ * /api/access/export:
+ *   get:
+ *     summary: Exporta os dados de acesso do contador padrão
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: |
+ *       Exporta as contagens por bucket e, nas granularidades hour e day, as contagens das
+ *       dimensões (referrer, caminho, navegador, UTM...). Buckets sem acessos não são exportados.
+ *       Intervalos com mais de EXPORT_MAX_SYNC_BUCKETS buckets devem usar POST /api/access/exports
+ *     parameters:
+ *       - $ref: '#/components/parameters/HistoryGranularity'
+ *       - $ref: '#/components/parameters/HistoryFrom'
+ *       - $ref: '#/components/parameters/HistoryTo'
+ *       - $ref: '#/components/parameters/ExportFormat'
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/AccessExportFile'
+ *       400:
+ *         description: Parâmetros inválidos ou intervalo muito grande
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.get(
+  '/export',
+  validateExportQuery,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.READ),
+  AccessCounterController.exportAccess
+);
+
+/**
+ * @swagger
+ * /api/access/exports:
+ *   post:
+ *     summary: Agenda uma exportação em segundo plano
+ *     tags: [Access Counter]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Para intervalos grandes demais para a exportação direta. O arquivo é gerado por um job
+ *       e fica disponível em downloadUrl por EXPORT_RETENTION_HOURS horas. Exige email verificado
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [from]
+ *             properties:
+ *               key:
+ *                 type: string
+ *                 default: default
+ *               granularity:
+ *                 type: string
+ *                 enum: [minute, hour, day, month]
+ *                 default: hour
+ *               from:
+ *                 type: string
+ *                 format: date-time
+ *               to:
+ *                 type: string
+ *                 format: date-time
+ *               format:
+ *                 type: string
+ *                 enum: [csv, ndjson, json]
+ *                 default: csv
+ *     responses:
+ *       202:
+ *         description: Exportação agendada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AccessExport'
+ *       400:
+ *         description: Parâmetros inválidos
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Email não verificado
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.post(
+  '/exports',
+  authenticate,
+  requireVerifiedEmail,
+  validateExportRequest,
+  handleValidationErrors,
+  AccessCounterController.requestExport
+);
+
+/**
+ * @swagger
+ * /api/access/exports/{id}:
+ *   get:
+ *     summary: Estado de uma exportação em segundo plano
+ *     tags: [Access Counter]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Cada usuário vê as próprias exportações; administradores veem todas
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Exportação obtida com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AccessExport'
+ *       400:
+ *         description: ID inválido
+ *       401:
+ *         description: Não autenticado
+ *       404:
+ *         description: Exportação não encontrada
+ */
+router.get(
+  '/exports/:id',
+  validateRouteParams('id'),
+  authenticate,
+  AccessCounterController.getExport
+);
+
+/**
+ * @swagger
+ * /api/access/exports/{id}/download:
+ *   get:
+ *     summary: Baixa o arquivo de uma exportação concluída
+ *     tags: [Access Counter]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/AccessExportFile'
+ *       400:
+ *         description: ID inválido
+ *       401:
+ *         description: Não autenticado
+ *       404:
+ *         description: Exportação não encontrada
+ *       409:
+ *         description: Exportação ainda não concluída ou com falha
+ *       410:
+ *         description: Arquivo expirado
+ */
+router.get(
+  '/exports/:id/download',
+  validateRouteParams('id'),
+  authenticate,
+  AccessCounterController.downloadExport
+);
+
+/**
+ * @swagger
+ * /api/access/stream:
+ *   get:
+ *     summary: Atualizações dos contadores em tempo real (Server-Sent Events)
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: |
+ *       Mantém a conexão aberta e envia o evento `counter` com `{key, namespace, count, lastUpdated}`
+ *       logo após a conexão e sempre que um contador assinado muda. Rajadas de incrementos são
+ *       agregadas em no máximo uma mensagem por contador a cada `REALTIME_COALESCE_MS`.
+ *       O evento `heartbeat` é enviado a cada `REALTIME_HEARTBEAT_INTERVAL_MS`.
+ *
+ *       O mesmo conteúdo está disponível via WebSocket em `/api/access/ws` (`?keys=` ou mensagens
+ *       `{"action": "subscribe" | "unsubscribe", "keys": ["home"]}`). No WebSocket as credenciais
+ *       (Authorization ou X-API-Key) são lidas no upgrade; contadores sem permissão de leitura são recusados.
+ *     parameters:
+ *       - in: query
+ *         name: keys
+ *         schema:
+ *           type: string
+ *           example: home,about
+ *         description: Contadores assinados, separados por vírgula (padrão "default")
+ *     responses:
+ *       200:
+ *         description: Stream de eventos
+ *         content:
+ *           text/event-stream:
+ *             schema:
+ *               type: string
+ *               example: |
+ *                 id: 1
+ *                 event: counter
+ *                 data: {"key":"home","namespace":"default","count":42,"lastUpdated":"2023-10-01T12:00:00.000Z"}
+ *       400:
+ *         description: Chaves de contador inválidas
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
+ *       503:
+ *         description: Limite de conexões em tempo real atingido
+ */
+router.get(
+  '/stream',
+  validateStreamQuery,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.streamUpdates
+);
 
 /**
  * @swagger
@@ -180,9 +1299,21 @@ router.get('/health', AccessCounterController.checkIntegrity);
  * @swagger
  * /api/access/reset:
  *   post:
- *     summary: Reseta o contador para 0 (apenas desenvolvimento)
+ *     summary: Reseta o contador para 0
  *     tags: [Access Counter]
- *     description: Endpoint para resetar contador - disponível apenas em desenvolvimento
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: |
+ *       Endpoint para resetar contador - restrito a administradores.
+ *       Cada reset é registrado na trilha de auditoria do contador (GET /api/access/{key}/events)
+ *       com o valor anterior, o autor e o motivo informado.
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CounterResetRequest'
  *     responses:
  *       200:
  *         description: Contador resetado com sucesso
@@ -203,14 +1334,1023 @@ router.get('/health', AccessCounterController.checkIntegrity);
  *                     count:
  *                       type: number
  *                       example: 0
+ *                     previousCount:
+ *                       type: number
+ *                       example: 1542
  *                     lastUpdated:
  *                       type: string
  *                       format: date-time
+ *       400:
+ *         description: Motivo inválido
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.post(
+  '/reset',
+  validateCounterReset,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.ADMIN, ...PERMISSIONS.resetCounter),
+  AccessCounterController.resetCounter
+);
+
+/**
+ * @swagger
+ * /api/access/snapshots:
+ *   get:
+ *     summary: Lista os snapshots de períodos encerrados
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: |
+ *       Cada reset agendado (diário, semanal ou mensal) arquiva o valor de fechamento
+ *       do período. Os snapshots são ordenados do período mais recente ao mais antigo;
+ *       from e to filtram pelo fim do período.
+ *     parameters:
+ *       - in: query
+ *         name: key
+ *         schema:
+ *           type: string
+ *         description: Filtra os snapshots de um contador (obrigatório, exceto para administradores e operadores)
+ *       - $ref: '#/components/parameters/HistoryFrom'
+ *       - $ref: '#/components/parameters/HistoryTo'
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Snapshots listados com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     snapshots:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/CounterSnapshot'
+ *                     pagination:
+ *                       type: object
+ *       400:
+ *         description: Parâmetros inválidos
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.get(
+  '/snapshots',
+  validateQueryParams,
+  validateSnapshotQuery,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.listSnapshots
+);
+
+/**
+ * @swagger
+ * /api/access/anomalies:
+ *   get:
+ *     summary: Lista as anomalias de tráfego detectadas
+ *     tags: [Access Counter]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Janelas de um minuto ou de uma hora com acessos muito acima do baseline (mediana e MAD
+ *       do nível recente e do mesmo horário nos dias anteriores), da mais recente à mais antiga.
+ *       from e to filtram pelo início da janela
+ *     parameters:
+ *       - in: query
+ *         name: key
+ *         schema:
+ *           type: string
+ *         description: Filtra as anomalias de um contador
+ *       - in: query
+ *         name: granularity
+ *         schema:
+ *           type: string
+ *           enum: [minute, hour]
+ *       - in: query
+ *         name: severity
+ *         schema:
+ *           type: string
+ *           enum: [low, medium, high]
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, quarantined, released]
+ *       - $ref: '#/components/parameters/HistoryFrom'
+ *       - $ref: '#/components/parameters/HistoryTo'
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Anomalias listadas com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     anomalies:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AccessAnomaly'
+ *                     pagination:
+ *                       type: object
+ *       400:
+ *         description: Parâmetros inválidos
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.get(
+  '/anomalies',
+  authenticate,
+  authorize(...PERMISSIONS.viewAnomalies),
+  validateQueryParams,
+  validateAnomalyQuery,
+  handleValidationErrors,
+  AccessCounterController.listAnomalies
+);
+
+/**
+ * @swagger
+ * /api/access/anomalies/{id}/quarantine:
+ *   post:
+ *     summary: Põe em quarentena os acessos excedentes de uma anomalia
+ *     tags: [Access Counter]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Desconta do total do contador os acessos acima do esperado, com um ajuste registrado
+ *       na trilha de auditoria
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Anomalia posta em quarentena
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AccessAnomaly'
+ *       400:
+ *         description: ID inválido ou ajuste deixaria o contador negativo
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
+ *       404:
+ *         description: Anomalia não encontrada
+ *       409:
+ *         description: Anomalia já em quarentena ou excedente já removido por outra anomalia
+ */
+router.post(
+  '/anomalies/:id/quarantine',
+  validateRouteParams('id'),
+  authenticate,
+  authorize(...PERMISSIONS.manageAnomalies),
+  AccessCounterController.quarantineAnomaly
+);
+
+/**
+ * @swagger
+ * /api/access/anomalies/{id}/release:
+ *   post:
+ *     summary: Libera a quarentena de uma anomalia
+ *     tags: [Access Counter]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Devolve ao total do contador os acessos postos em quarentena
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Quarentena liberada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AccessAnomaly'
+ *       400:
+ *         description: ID inválido ou ajuste deixaria o contador negativo
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
+ *       404:
+ *         description: Anomalia não encontrada
+ *       409:
+ *         description: Anomalia não está em quarentena
+ */
+router.post(
+  '/anomalies/:id/release',
+  validateRouteParams('id'),
+  authenticate,
+  authorize(...PERMISSIONS.manageAnomalies),
+  AccessCounterController.releaseAnomaly
+);
+
+/**
+ * @swagger
+ * /api/access/{key}/increment:
+ *   post:
+ *     summary: Incrementa um contador nomeado
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: Incrementa o contador identificado pela chave, criando-o no primeiro acesso
+ *     parameters:
+ *       - $ref: '#/components/parameters/CounterKey'
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/IncrementDimensions'
+ *               - type: object
+ *                 properties:
+ *                   namespace:
+ *                     type: string
+ *                     example: "pages"
+ *                     description: Namespace aplicado apenas na criação do contador
+ *                   visitorId:
+ *                     type: string
+ *                     description: Identificador do visitante (estratégia visitor_id; também aceito no header X-Visitor-Id)
+ *     responses:
+ *       200:
+ *         description: Acesso incrementado com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AccessCounter'
+ *       400:
+ *         description: Chave ou namespace inválido
+ *       409:
+ *         description: Requisição com a mesma Idempotency-Key ainda em processamento
+ *       422:
+ *         description: Idempotency-Key já utilizada com outra requisição
+ *       429:
+ *         description: Muitas requisições
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de incremento no contador ou origem não permitida
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.post(
+  '/:key/increment',
+  rateLimitConfig,
+  validateCounterKey,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.INCREMENT),
+  idempotent,
+  AccessCounterController.incrementAccess
+);
+
+/**
+ * @swagger
+ * /api/access/{key}/count:
+ *   get:
+ *     summary: Obtém o número atual de acessos de um contador nomeado
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/CounterKey'
+ *       - $ref: '#/components/parameters/CountAt'
+ *     responses:
+ *       200:
+ *         description: Contador obtido com sucesso (0 se ainda não existir)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AccessCounter'
+ *       400:
+ *         description: Chave ou instante inválido
+ *       404:
+ *         description: Contador não encontrado (consultas com at)
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.get(
+  '/:key/count',
+  validateCounterKey,
+  validateCountQuery,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.READ),
+  AccessCounterController.getCurrentCount
+);
+
+/**
+ * @swagger
+ * /api/access/{key}/pixel.gif:
+ *   get:
+ *     summary: Pixel de rastreamento de um contador
+ *     tags: [Access Counter]
+ *     description: |
+ *       Incrementa o contador e retorna um GIF transparente de 1x1, sem cache, para
+ *       sites estáticos e e-mails sem JavaScript
+ *       (`<img src="https://api.exemplo.com/api/access/home/pixel.gif" alt="">`).
+ *       Os acessos passam pela filtragem de bots e o rate limit é próprio, por IP e contador.
+ *       Sem permissão de incremento (contador privado ou Referer fora das origens permitidas)
+ *       o GIF é retornado, mas o acesso não é contado.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CounterKey'
+ *       - in: query
+ *         name: namespace
+ *         schema:
+ *           type: string
+ *         description: Namespace aplicado na criação do contador
+ *       - in: query
+ *         name: path
+ *         schema:
+ *           type: string
+ *         description: Caminho da página (segmentação do tráfego)
+ *     responses:
+ *       200:
+ *         description: GIF transparente de 1x1
+ *         content:
+ *           image/gif:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: Chave inválida
+ *       429:
+ *         description: Limite de requisições excedido
+ */
+router.get(
+  '/:key/pixel.gif',
+  embedRateLimit,
+  validateCounterKey,
+  authenticateOptional,
+  AccessCounterController.trackPixel
+);
+
+/**
+ * @swagger
+ * /api/access/{key}/badge.svg:
+ *   get:
+ *     summary: Badge SVG com o total de um contador
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: |
+ *       Renderiza um badge no estilo shields.io com o total de acessos, sem cache.
+ *       Por padrão o carregamento do badge também conta um acesso (com filtragem de bots);
+ *       use `increment=false` para apenas exibir o total. O rate limit é próprio, por IP e contador.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CounterKey'
+ *       - in: query
+ *         name: label
+ *         schema:
+ *           type: string
+ *           maxLength: 50
+ *           default: acessos
+ *         description: Rótulo à esquerda (vazio exibe apenas o total)
+ *       - in: query
+ *         name: color
+ *         schema:
+ *           type: string
+ *           default: blue
+ *         description: Cor do total (nome do shields.io, ex. brightgreen, ou hexadecimal, ex. ff69b4)
+ *       - in: query
+ *         name: labelColor
+ *         schema:
+ *           type: string
+ *           default: grey
+ *         description: Cor do rótulo
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [compact, full, raw]
+ *           default: compact
+ *         description: Formatação do total (1.2k, 1,234 ou 1234)
+ *       - in: query
+ *         name: increment
+ *         schema:
+ *           type: boolean
+ *           default: true
+ *         description: Conta o acesso ao renderizar o badge
+ *     responses:
+ *       200:
+ *         description: Badge SVG
+ *         content:
+ *           image/svg+xml:
+ *             schema:
+ *               type: string
+ *       400:
+ *         description: Parâmetros inválidos
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
+ *       429:
+ *         description: Limite de requisições excedido
+ */
+router.get(
+  '/:key/badge.svg',
+  embedRateLimit,
+  validateCounterKey,
+  validateBadgeQuery,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.renderBadge
+);
+
+/**
+ * @swagger
+ * /api/access/{key}/statistics:
+ *   get:
+ *     summary: Obtém estatísticas de um contador nomeado
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/CounterKey'
+ *     responses:
+ *       200:
+ *         description: Estatísticas obtidas com sucesso
+ *       400:
+ *         description: Chave inválida
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.get(
+  '/:key/statistics',
+  validateCounterKey,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.READ),
+  AccessCounterController.getStatistics
+);
+
+/**
+ * @swagger
+ * /api/access/{key}/history:
+ *   get:
+ *     summary: Obtém o histórico de acessos de um contador nomeado
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/CounterKey'
+ *       - $ref: '#/components/parameters/HistoryGranularity'
+ *       - $ref: '#/components/parameters/HistoryFrom'
+ *       - $ref: '#/components/parameters/HistoryTo'
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/AccessHistory'
+ *       400:
+ *         description: Parâmetros inválidos ou intervalo muito grande
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.get(
+  '/:key/history',
+  validateCounterKey,
+  validateHistoryQuery,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.READ),
+  AccessCounterController.getHistory
+);
+
+/**
+ * @swagger
+ * /api/access/{key}/trends:
+ *   get:
+ *     summary: Tendências de um contador nomeado
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/CounterKey'
+ *       - $ref: '#/components/parameters/TrendPeriod'
+ *       - $ref: '#/components/parameters/TrendCompare'
+ *       - $ref: '#/components/parameters/TrendForecast'
+ *       - $ref: '#/components/parameters/TrendPeriods'
+ *       - $ref: '#/components/parameters/TrendWindow'
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/AccessTrends'
+ *       400:
+ *         description: Parâmetros inválidos
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.get(
+  '/:key/trends',
+  validateCounterKey,
+  validateTrendQuery,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.READ),
+  AccessCounterController.getTrends
+);
+
+/**
+ * @swagger
+ * /api/access/{key}/export:
+ *   get:
+ *     summary: Exporta os dados de acesso de um contador nomeado
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/CounterKey'
+ *       - $ref: '#/components/parameters/HistoryGranularity'
+ *       - $ref: '#/components/parameters/HistoryFrom'
+ *       - $ref: '#/components/parameters/HistoryTo'
+ *       - $ref: '#/components/parameters/ExportFormat'
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/AccessExportFile'
+ *       400:
+ *         description: Parâmetros inválidos ou intervalo muito grande
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.get(
+  '/:key/export',
+  validateCounterKey,
+  validateExportQuery,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.READ),
+  AccessCounterController.exportAccess
+);
+
+/**
+ * @swagger
+ * /api/access/{key}/breakdown:
+ *   get:
+ *     summary: Segmentação do tráfego de um contador nomeado por dimensão
+ *     tags: [Access Counter]
+ *     security:
+ *       - {}
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/CounterKey'
+ *       - $ref: '#/components/parameters/BreakdownDimension'
+ *       - $ref: '#/components/parameters/HistoryFrom'
+ *       - $ref: '#/components/parameters/HistoryTo'
+ *       - $ref: '#/components/parameters/BreakdownLimit'
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/AccessBreakdown'
+ *       400:
+ *         description: Parâmetros inválidos
+ *       401:
+ *         description: Contador privado; autenticação necessária
+ *       403:
+ *         description: Sem permissão de leitura no contador
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.get(
+  '/:key/breakdown',
+  validateCounterKey,
+  validateBreakdownQuery,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.READ),
+  AccessCounterController.getBreakdown
+);
+
+/**
+ * @swagger
+ * /api/access/{key}/reset:
+ *   post:
+ *     summary: Reseta um contador nomeado para 0
+ *     tags: [Access Counter]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: O reset é registrado na trilha de auditoria do contador
+ *     parameters:
+ *       - $ref: '#/components/parameters/CounterKey'
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CounterResetRequest'
+ *     responses:
+ *       200:
+ *         description: Contador resetado com sucesso (data.previousCount traz o valor anterior)
+ *       400:
+ *         description: Chave ou motivo inválido
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.post(
+  '/:key/reset',
+  validateCounterKey,
+  validateCounterReset,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.ADMIN, ...PERMISSIONS.resetCounter),
+  AccessCounterController.resetCounter
+);
+
+/**
+ * @swagger
+ * /api/access/{key}/adjust:
+ *   post:
+ *     summary: Ajusta manualmente o total de um contador (admin)
+ *     tags: [Access Counter]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Informe exatamente um entre:
+ *       - `delta`: soma ou subtrai um valor (ex.: -120 para remover tráfego contado em dobro)
+ *       - `value`: define o total (ex.: importação de totais legados); descarta incrementos pendentes no buffer
+ *       - `by`: incremento em lote de acessos contados externamente (ex.: coletores de borda), registrado também no histórico
+ *
+ *       O total nunca fica negativo. O motivo é obrigatório e todo ajuste é registrado na
+ *       trilha de auditoria (`adjustment` ou `bulk_increment`). Aceita Idempotency-Key para
+ *       que reenvios dos coletores não contem o mesmo lote duas vezes.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CounterKey'
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CounterAdjustment'
+ *     responses:
+ *       200:
+ *         description: Contador ajustado (data.previousCount traz o total anterior)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AccessCounter'
+ *       400:
+ *         description: Ajuste inválido, sem motivo ou que deixaria o contador negativo
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente (apenas administradores)
+ *       409:
+ *         description: Requisição com a mesma Idempotency-Key ainda em processamento
+ *       422:
+ *         description: Idempotency-Key já utilizada com outra requisição
+ *       500:
+ *         description: Erro interno do servidor
+ *       503:
+ *         description: Incrementos pendentes no buffer não puderam ser gravados antes do ajuste
+ */
+router.post(
+  '/:key/adjust',
+  authenticate,
+  authorize(...PERMISSIONS.adjustCounter),
+  validateCounterKey,
+  validateCounterAdjustment,
+  handleValidationErrors,
+  idempotent,
+  AccessCounterController.adjustCounter
+);
+
+/**
+ * @swagger
+ * /api/access/{key}/events:
+ *   get:
+ *     summary: Trilha de auditoria de um contador
+ *     tags: [Access Counter]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: |
+ *       Lista os resets manuais e agendados do contador, do mais recente ao mais antigo.
+ *       Os eventos são imutáveis. Restrito a administradores e operadores.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CounterKey'
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Eventos listados com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     events:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/CounterEvent'
+ *                     pagination:
+ *                       type: object
+ *       400:
+ *         description: Parâmetros inválidos
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.get(
+  '/:key/events',
+  validateCounterKey,
+  validateQueryParams,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.ADMIN, ...PERMISSIONS.viewCounterEvents),
+  AccessCounterController.listEvents
+);
+
+/**
+ * @swagger
+ * /api/access/{key}/settings:
+ *   patch:
+ *     summary: Atualiza configurações de um contador
+ *     tags: [Access Counter]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: |
+ *       Altera o número de shards do contador sem indisponibilidade. Incrementos são
+ *       distribuídos aleatoriamente entre os shards e as leituras somam todos eles.
+ *       Ao reduzir, os shards excedentes são incorporados ao shard principal.
+ *
+ *       A política de bots define o tratamento de acessos classificados como bot:
+ *       `ignore` descarta, `separate` conta à parte (botCount) e `count` conta como humano.
+ *       Sem política definida vale BOT_DEFAULT_POLICY.
+ *
+ *       O reset agendado zera o contador no início de cada período (meia-noite do fuso
+ *       informado; semanas começam na segunda-feira) e arquiva o valor de fechamento em
+ *       GET /api/access/snapshots. `resetSchedule: null` remove o agendamento.
+ *
+ *       `eventSourced: true` registra incrementos e resets no log de operações, habilitando
+ *       consultas históricas (`GET /api/access/{key}/count?at=`) a partir do checkpoint
+ *       inicial. Contadores event-sourced não passam pelo buffer write-behind.
+ *
+ *       `visibility: private` restringe leitura e incremento ao dono, aos administradores
+ *       (operadores apenas leem) e às API keys do dono com o scope correspondente. Sem
+ *       visibilidade definida vale COUNTER_DEFAULT_VISIBILITY. Apenas administradores
+ *       alteram o dono (`owner: null` remove). `allowedOrigins` limita os incrementos às
+ *       origens listadas (header Origin ou, no pixel e no badge, o Referer); `https://*.site.com`
+ *       aceita subdomínios e `[]` remove a restrição.
+ *
+ *       Outras instâncias percebem as alterações em até COUNTER_SHARD_CACHE_TTL_MS.
+ *     parameters:
+ *       - $ref: '#/components/parameters/CounterKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             description: Informe ao menos uma configuração
+ *             properties:
+ *               shards:
+ *                 type: integer
+ *                 minimum: 1
+ *                 example: 8
+ *               botPolicy:
+ *                 type: string
+ *                 enum: [ignore, separate, count]
+ *                 example: separate
+ *               resetSchedule:
+ *                 type: object
+ *                 nullable: true
+ *                 required: [period]
+ *                 properties:
+ *                   period:
+ *                     type: string
+ *                     enum: [daily, weekly, monthly]
+ *                     example: monthly
+ *                   timezone:
+ *                     type: string
+ *                     default: UTC
+ *                     example: America/Sao_Paulo
+ *               eventSourced:
+ *                 type: boolean
+ *                 example: true
+ *               owner:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Id do usuário dono (apenas administradores)
+ *               visibility:
+ *                 type: string
+ *                 enum: [public, private]
+ *                 example: private
+ *               allowedOrigins:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 example: ["https://site.com", "https://*.site.com"]
+ *     responses:
+ *       200:
+ *         description: Configurações atualizadas com sucesso
+ *       400:
+ *         description: Configuração inválida
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.patch(
+  '/:key/settings',
+  validateCounterKey,
+  validateCounterSettings,
+  handleValidationErrors,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.ADMIN, ...PERMISSIONS.manageCounters),
+  AccessCounterController.updateSettings
+);
+
+/**
+ * @swagger
+ * /api/access/{key}/rebuild:
+ *   post:
+ *     summary: Reconstrói um contador event-sourced a partir do log
+ *     tags: [Access Counter]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     description: |
+ *       Recalcula os checkpoints a partir do checkpoint inicial e sobrescreve o total do
+ *       contador com o valor reproduzido do log. Use após falhas de gravação ou correções
+ *       de bugs. A reconstrução é registrada na trilha de auditoria (`rebuild`).
+ *     parameters:
+ *       - $ref: '#/components/parameters/CounterKey'
+ *     responses:
+ *       200:
+ *         description: Contador reconstruído (data.previousCount traz o total anterior)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AccessCounter'
+ *       400:
+ *         description: Contador fora do modo event-sourced
+ *       401:
+ *         description: Não autenticado
  *       403:
- *         description: Operação não permitida em produção
+ *         description: Permissão insuficiente
+ *       409:
+ *         description: Checkpoint inicial ainda não registrado
  *       500:
  *         description: Erro interno do servidor
  */
-router.post('/reset', AccessCounterController.resetCounter);
+router.post(
+  '/:key/rebuild',
+  validateCounterKey,
+  authenticateOptional,
+  AccessCounterController.authorizeCounter(CounterScope.ADMIN, ...PERMISSIONS.manageCounters),
+  AccessCounterController.rebuildCounter
+);
 
 export default router;
@@ -0,0 +1,332 @@
+import { Router } from 'express';
+import { AlertController } from '../controllers';
+import {
+  authenticate,
+  authorize,
+  handleValidationErrors,
+  validateAlertRule,
+  validateAlertRuleUpdate,
+  validateQueryParams,
+  validateRouteParams,
+} from '../middleware';
+import { PERMISSIONS } from '../config/permissions';
+
+/**
+ * Rotas para regras de alerta dos contadores
+ * Leitura para administradores e operadores; alterações apenas para administradores
+ */
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Alerts
+ *   description: Regras de alerta dos contadores e entregas de webhooks
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AlertCondition:
+ *       type: object
+ *       required: [type]
+ *       description: |
+ *         - `threshold`: total do contador (ou acessos nos últimos `windowMinutes`) comparado a `value`
+ *         - `rate_of_change`: variação percentual (%) entre a janela atual e a anterior comparada a `value`
+ *         - `no_traffic`: nenhum acesso nos últimos `windowMinutes`
+ *       properties:
+ *         type:
+ *           type: string
+ *           enum: [threshold, rate_of_change, no_traffic]
+ *         operator:
+ *           type: string
+ *           enum: [above, below]
+ *           description: "above: valor >= value; below: valor < value"
+ *         value:
+ *           type: number
+ *           example: 1000000
+ *         windowMinutes:
+ *           type: integer
+ *           minimum: 1
+ *           example: 60
+ *     AlertRuleInput:
+ *       type: object
+ *       required: [name, counterKey, condition, webhooks]
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "Marco de 1 milhão"
+ *         counterKey:
+ *           type: string
+ *           example: "default"
+ *         condition:
+ *           $ref: '#/components/schemas/AlertCondition'
+ *         webhooks:
+ *           type: array
+ *           minItems: 1
+ *           maxItems: 10
+ *           items:
+ *             type: string
+ *             format: uri
+ *           example: ["https://hooks.example.com/alerts"]
+ *         enabled:
+ *           type: boolean
+ *           default: true
+ *     AlertRule:
+ *       allOf:
+ *         - $ref: '#/components/schemas/AlertRuleInput'
+ *         - type: object
+ *           properties:
+ *             _id:
+ *               type: string
+ *             state:
+ *               type: string
+ *               enum: [ok, triggered]
+ *             lastValue:
+ *               type: number
+ *               nullable: true
+ *             lastEvaluatedAt:
+ *               type: string
+ *               format: date-time
+ *               nullable: true
+ *             lastTriggeredAt:
+ *               type: string
+ *               format: date-time
+ *               nullable: true
+ *             secret:
+ *               type: string
+ *               description: Segredo HMAC dos webhooks (apenas na criação e na rotação)
+ *   parameters:
+ *     AlertRuleId:
+ *       in: path
+ *       name: id
+ *       required: true
+ *       schema:
+ *         type: string
+ *         pattern: '^[0-9a-fA-F]{24}$'
+ *       description: ID da regra de alerta
+ */
+
+/**
+ * @swagger
+ * /api/alerts:
+ *   get:
+ *     summary: Lista regras de alerta
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: counterKey
+ *         schema:
+ *           type: string
+ *         description: Filtra pelas regras de um contador
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Regras listadas com sucesso
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
+ */
+router.get(
+  '/',
+  authenticate,
+  authorize(...PERMISSIONS.viewAlerts),
+  validateQueryParams,
+  AlertController.listRules
+);
+
+/**
+ * @swagger
+ * /api/alerts:
+ *   post:
+ *     summary: Cria uma regra de alerta
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       As regras são avaliadas a cada `ALERT_EVALUATION_INTERVAL_SECONDS`. Na transição para
+ *       `triggered` (e de volta para `ok`) cada webhook recebe um POST com os eventos
+ *       `alert.triggered` / `alert.resolved`, assinado em `X-Webhook-Signature`
+ *       (`sha256=` + HMAC-SHA256 de `<X-Webhook-Timestamp>.<corpo>` com o segredo da regra).
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/AlertRuleInput'
+ *     responses:
+ *       201:
+ *         description: Regra criada; a resposta inclui o segredo de assinatura
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AlertRule'
+ *       400:
+ *         description: Dados inválidos
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
+ */
+router.post(
+  '/',
+  authenticate,
+  authorize(...PERMISSIONS.manageAlerts),
+  validateAlertRule,
+  handleValidationErrors,
+  AlertController.createRule
+);
+
+/**
+ * @swagger
+ * /api/alerts/{id}:
+ *   get:
+ *     summary: Obtém uma regra de alerta
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/AlertRuleId'
+ *     responses:
+ *       200:
+ *         description: Regra obtida com sucesso
+ *       400:
+ *         description: ID inválido
+ *       404:
+ *         description: Regra não encontrada
+ */
+router.get(
+  '/:id',
+  validateRouteParams('id'),
+  authenticate,
+  authorize(...PERMISSIONS.viewAlerts),
+  AlertController.getRule
+);
+
+/**
+ * @swagger
+ * /api/alerts/{id}:
+ *   patch:
+ *     summary: Atualiza uma regra de alerta
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Alterar o contador ou a condição reinicia o estado da regra para `ok`
+ *     parameters:
+ *       - $ref: '#/components/parameters/AlertRuleId'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/AlertRuleInput'
+ *               - type: object
+ *                 properties:
+ *                   rotateSecret:
+ *                     type: boolean
+ *                     description: Gera um novo segredo de assinatura (retornado na resposta)
+ *     responses:
+ *       200:
+ *         description: Regra atualizada com sucesso
+ *       400:
+ *         description: Dados inválidos
+ *       404:
+ *         description: Regra não encontrada
+ */
+router.patch(
+  '/:id',
+  validateRouteParams('id'),
+  authenticate,
+  authorize(...PERMISSIONS.manageAlerts),
+  validateAlertRuleUpdate,
+  handleValidationErrors,
+  AlertController.updateRule
+);
+
+/**
+ * @swagger
+ * /api/alerts/{id}:
+ *   delete:
+ *     summary: Remove uma regra de alerta
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Remove a regra e seu histórico de entregas
+ *     parameters:
+ *       - $ref: '#/components/parameters/AlertRuleId'
+ *     responses:
+ *       200:
+ *         description: Regra removida com sucesso
+ *       404:
+ *         description: Regra não encontrada
+ */
+router.delete(
+  '/:id',
+  validateRouteParams('id'),
+  authenticate,
+  authorize(...PERMISSIONS.manageAlerts),
+  AlertController.deleteRule
+);
+
+/**
+ * @swagger
+ * /api/alerts/{id}/deliveries:
+ *   get:
+ *     summary: Histórico de entregas de webhooks da regra
+ *     tags: [Alerts]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Cada evento gera uma entrega por URL. Falhas são reenviadas com backoff exponencial
+ *       (`ALERT_WEBHOOK_RETRY_BASE_MS` × 2^n) até `ALERT_WEBHOOK_MAX_ATTEMPTS` tentativas.
+ *     parameters:
+ *       - $ref: '#/components/parameters/AlertRuleId'
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: Entregas listadas com sucesso
+ *       404:
+ *         description: Regra não encontrada
+ */
+router.get(
+  '/:id/deliveries',
+  validateRouteParams('id'),
+  authenticate,
+  authorize(...PERMISSIONS.viewAlerts),
+  validateQueryParams,
+  AlertController.listDeliveries
+);
+
+export default router;
@@ -0,0 +1,213 @@
+import { Router } from 'express';
+import { ApiKeyController } from '../controllers';
+import {
+  authenticate,
+  handleValidationErrors,
+  requireVerifiedEmail,
+  validateApiKey,
+  validateApiKeyQuery,
+  validateQueryParams,
+  validateRouteParams,
+} from '../middleware';
+
+/**
+ * Rotas para API keys de acesso aos contadores
+ * Cada usuário gerencia as próprias chaves; administradores também listam
+ * e revogam as de outros usuários (permissão manageApiKeys)
+ */
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: API Keys
+ *   description: API keys de acesso aos contadores
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ApiKeyInput:
+ *       type: object
+ *       required: [name, scopes]
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "Site institucional"
+ *         scopes:
+ *           type: array
+ *           minItems: 1
+ *           items:
+ *             type: string
+ *             enum: ["counter:read", "counter:increment", "counter:admin"]
+ *           example: ["counter:read", "counter:increment"]
+ *         counters:
+ *           type: array
+ *           maxItems: 100
+ *           items:
+ *             type: string
+ *           description: Contadores liberados para a chave; vazio libera todos sobre os quais o dono tem permissão
+ *           example: ["home"]
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *     ApiKey:
+ *       allOf:
+ *         - $ref: '#/components/schemas/ApiKeyInput'
+ *         - type: object
+ *           properties:
+ *             _id:
+ *               type: string
+ *             owner:
+ *               type: string
+ *             prefix:
+ *               type: string
+ *               description: Início da chave, para identificá-la
+ *               example: "ak_3fK9xQ2"
+ *             revokedAt:
+ *               type: string
+ *               format: date-time
+ *               nullable: true
+ *             lastUsedAt:
+ *               type: string
+ *               format: date-time
+ *               nullable: true
+ *             key:
+ *               type: string
+ *               description: Chave em texto puro (apenas na criação)
+ *   parameters:
+ *     ApiKeyId:
+ *       in: path
+ *       name: id
+ *       required: true
+ *       schema:
+ *         type: string
+ *         pattern: '^[0-9a-fA-F]{24}$'
+ *       description: ID da API key
+ */
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   get:
+ *     summary: Lista as API keys do usuário
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: owner
+ *         schema:
+ *           type: string
+ *         description: Lista as chaves de outro usuário (apenas administradores)
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 100
+ *           default: 10
+ *     responses:
+ *       200:
+ *         description: API keys listadas com sucesso (sem a chave em texto puro)
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente para listar as chaves de outro usuário
+ */
+router.get(
+  '/',
+  authenticate,
+  validateQueryParams,
+  validateApiKeyQuery,
+  handleValidationErrors,
+  ApiKeyController.listKeys
+);
+
+/**
+ * @swagger
+ * /api/api-keys:
+ *   post:
+ *     summary: Cria uma API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       A chave age em nome do usuário: concede, nos contadores sobre os quais ele tem permissão,
+ *       apenas os `scopes` informados (opcionalmente restritos a `counters`). Envie-a no header
+ *       `X-API-Key`. A chave é exibida apenas nesta resposta; somente o hash é armazenado.
+ *       Exige email verificado.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApiKeyInput'
+ *     responses:
+ *       201:
+ *         description: API key criada; a resposta inclui a chave em texto puro
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/ApiKey'
+ *       400:
+ *         description: Dados inválidos
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Email não verificado
+ *       409:
+ *         description: Limite de API keys ativas atingido (API_KEYS_PER_USER)
+ */
+router.post(
+  '/',
+  authenticate,
+  requireVerifiedEmail,
+  validateApiKey,
+  handleValidationErrors,
+  ApiKeyController.createKey
+);
+
+/**
+ * @swagger
+ * /api/api-keys/{id}:
+ *   delete:
+ *     summary: Revoga uma API key
+ *     tags: [API Keys]
+ *     security:
+ *       - bearerAuth: []
+ *     description: A revogação vale imediatamente; a chave continua listada com `revokedAt`
+ *     parameters:
+ *       - $ref: '#/components/parameters/ApiKeyId'
+ *     responses:
+ *       200:
+ *         description: API key revogada com sucesso
+ *       400:
+ *         description: ID inválido
+ *       401:
+ *         description: Não autenticado
+ *       404:
+ *         description: API key não encontrada
+ */
+router.delete(
+  '/:id',
+  validateRouteParams('id'),
+  authenticate,
+  ApiKeyController.revokeKey
+);
+
+export default router;
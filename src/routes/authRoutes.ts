@@ -0,0 +1,456 @@
+import { Router } from 'express';
+import { AuthController } from '../controllers';
+import {
+  authenticate,
+  authenticateForEnrollment,
+  emailVerificationRateLimit,
+  handleValidationErrors,
+  passwordResetRateLimit,
+  sanitizeInput,
+  validateEmailVerification,
+  validateForgotPassword,
+  validateLogin,
+  validatePasswordReset,
+  validateRefreshToken,
+  validateTwoFactorLogin,
+} from '../middleware';
+
+/**
+ * Rotas de autenticação
+ * Implementa login, renovação de tokens e logout com JWT, a redefinição de senha e a verificação de email
+ */
+const router = Router();
+
+/**
+ * @swagger
+ * tags:
+ *   name: Auth
+ *   description: Autenticação e gerenciamento de sessões
+ */
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AuthTokens:
+ *       type: object
+ *       properties:
+ *         accessToken:
+ *           type: string
+ *           description: JWT de curta duração para o header Authorization
+ *           example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *         refreshToken:
+ *           type: string
+ *           description: Token opaco rotativo para renovar o access token
+ *           example: "3q2-7wOi1Xy6rP..."
+ *         tokenType:
+ *           type: string
+ *           example: "Bearer"
+ *         expiresIn:
+ *           type: integer
+ *           description: Validade do access token em segundos
+ *           example: 900
+ *     TwoFactorChallenge:
+ *       type: object
+ *       properties:
+ *         twoFactorRequired:
+ *           type: boolean
+ *           example: true
+ *         challengeToken:
+ *           type: string
+ *           description: Desafio de curta duração a ser enviado com o código em /api/auth/2fa
+ *           example: "eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9..."
+ *         expiresIn:
+ *           type: integer
+ *           description: Validade do desafio em segundos
+ *           example: 300
+ */
+
+/**
+ * @swagger
+ * /api/auth/login:
+ *   post:
+ *     summary: Autentica usuário
+ *     tags: [Auth]
+ *     description: |
+ *       Valida email e senha e emite access token e refresh token. Falhas consecutivas atrasam
+ *       as próximas tentativas e, ao atingir LOGIN_MAX_ACCOUNT_FAILURES (por email) ou
+ *       LOGIN_MAX_IP_FAILURES (por IP), bloqueiam o login por LOGIN_LOCKOUT_MINUTES.
+ *       Com autenticação em dois fatores ativa, retorna um desafio (TwoFactorChallenge)
+ *       em vez dos tokens; o login é concluído em /api/auth/2fa
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *               - password
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: "joao.silva@email.com"
+ *               password:
+ *                 type: string
+ *                 example: "MinhaSenh@123"
+ *     responses:
+ *       200:
+ *         description: Login realizado com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Login realizado com sucesso"
+ *                 data:
+ *                   oneOf:
+ *                     - allOf:
+ *                         - $ref: '#/components/schemas/AuthTokens'
+ *                         - type: object
+ *                           properties:
+ *                             user:
+ *                               $ref: '#/components/schemas/UserResponse'
+ *                     - $ref: '#/components/schemas/TwoFactorChallenge'
+ *       400:
+ *         description: Dados inválidos
+ *       401:
+ *         description: Credenciais inválidas
+ *       429:
+ *         description: Conta ou IP temporariamente bloqueados por excesso de falhas
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.post(
+  '/login',
+  sanitizeInput,
+  validateLogin,
+  handleValidationErrors,
+  AuthController.login
+);
+
+/**
+ * @swagger
+ * /api/auth/2fa:
+ *   post:
+ *     summary: Conclui o login com dois fatores
+ *     tags: [Auth]
+ *     description: |
+ *       Segundo passo do login para usuários com 2FA ativo. Aceita o código atual do aplicativo
+ *       autenticador ou um código de recuperação; cada código vale uma única vez. Códigos
+ *       incorretos contam como falhas de login para a conta e o IP
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - challengeToken
+ *               - code
+ *             properties:
+ *               challengeToken:
+ *                 type: string
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Login realizado com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   allOf:
+ *                     - $ref: '#/components/schemas/AuthTokens'
+ *                     - type: object
+ *                       properties:
+ *                         user:
+ *                           $ref: '#/components/schemas/UserResponse'
+ *       400:
+ *         description: Dados inválidos
+ *       401:
+ *         description: Desafio inválido ou expirado, ou código incorreto
+ *       429:
+ *         description: Conta ou IP temporariamente bloqueados por excesso de falhas
+ */
+router.post(
+  '/2fa',
+  sanitizeInput,
+  validateTwoFactorLogin,
+  handleValidationErrors,
+  AuthController.completeTwoFactorLogin
+);
+
+/**
+ * @swagger
+ * /api/auth/refresh:
+ *   post:
+ *     summary: Renova os tokens
+ *     tags: [Auth]
+ *     description: Troca um refresh token válido por um novo par de tokens. O token usado é revogado (rotação) e sua reutilização revoga toda a sessão
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Tokens renovados com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 message:
+ *                   type: string
+ *                   example: "Tokens renovados com sucesso"
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthTokens'
+ *       400:
+ *         description: Dados inválidos
+ *       401:
+ *         description: Refresh token inválido, expirado ou revogado
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.post(
+  '/refresh',
+  sanitizeInput,
+  validateRefreshToken,
+  handleValidationErrors,
+  AuthController.refresh
+);
+
+/**
+ * @swagger
+ * /api/auth/logout:
+ *   post:
+ *     summary: Encerra a sessão
+ *     tags: [Auth]
+ *     description: Revoga o refresh token informado
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - refreshToken
+ *             properties:
+ *               refreshToken:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Logout realizado com sucesso
+ *       400:
+ *         description: Dados inválidos
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.post(
+  '/logout',
+  sanitizeInput,
+  validateRefreshToken,
+  handleValidationErrors,
+  AuthController.logout
+);
+
+/**
+ * @swagger
+ * /api/auth/forgot-password:
+ *   post:
+ *     summary: Solicita a redefinição de senha
+ *     tags: [Auth]
+ *     description: |
+ *       Envia ao email um link de redefinição de uso único, válido por PASSWORD_RESET_TOKEN_TTL_MINUTES.
+ *       Um novo pedido invalida os links anteriores. A resposta é a mesma para emails cadastrados
+ *       ou não, para não revelar quais contas existem.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - email
+ *             properties:
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 example: "joao.silva@email.com"
+ *     responses:
+ *       200:
+ *         description: Pedido registrado
+ *       400:
+ *         description: Dados inválidos
+ *       429:
+ *         description: Muitas tentativas de redefinição
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.post(
+  '/forgot-password',
+  passwordResetRateLimit,
+  sanitizeInput,
+  validateForgotPassword,
+  handleValidationErrors,
+  AuthController.forgotPassword
+);
+
+/**
+ * @swagger
+ * /api/auth/reset-password:
+ *   post:
+ *     summary: Redefine a senha
+ *     tags: [Auth]
+ *     description: Define a nova senha com o token recebido por email. O token é consumido e todas as sessões do usuário são revogadas
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *               - password
+ *             properties:
+ *               token:
+ *                 type: string
+ *               password:
+ *                 type: string
+ *                 minLength: 8
+ *                 maxLength: 128
+ *                 description: Nova senha com pelo menos 1 maiúscula, 1 minúscula e 1 número
+ *                 example: "NovaSenh@456"
+ *     responses:
+ *       200:
+ *         description: Senha redefinida com sucesso
+ *       400:
+ *         description: Dados inválidos ou token inválido, expirado ou já utilizado
+ *       429:
+ *         description: Muitas tentativas de redefinição
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.post(
+  '/reset-password',
+  passwordResetRateLimit,
+  sanitizeInput,
+  validatePasswordReset,
+  handleValidationErrors,
+  AuthController.resetPassword
+);
+
+/**
+ * @swagger
+ * /api/auth/verify-email:
+ *   post:
+ *     summary: Confirma o email
+ *     tags: [Auth]
+ *     description: |
+ *       Confirma o endereço com o token enviado no cadastro, na troca de email ou no reenvio.
+ *       O token vale por EMAIL_VERIFICATION_TOKEN_TTL_HOURS, é de uso único e deixa de valer
+ *       se o email do usuário mudar antes da confirmação.
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - token
+ *             properties:
+ *               token:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Email verificado com sucesso
+ *       400:
+ *         description: Dados inválidos ou token inválido, expirado ou já utilizado
+ *       429:
+ *         description: Muitas tentativas de verificação
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.post(
+  '/verify-email',
+  emailVerificationRateLimit,
+  sanitizeInput,
+  validateEmailVerification,
+  handleValidationErrors,
+  AuthController.verifyEmail
+);
+
+/**
+ * @swagger
+ * /api/auth/resend-verification:
+ *   post:
+ *     summary: Reenvia o email de verificação
+ *     tags: [Auth]
+ *     description: |
+ *       Envia um novo link de verificação para o email do usuário autenticado, invalidando os anteriores.
+ *       Permitido uma vez a cada EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS.
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Email de verificação reenviado
+ *       401:
+ *         description: Token ausente, inválido ou expirado
+ *       409:
+ *         description: Email já verificado
+ *       429:
+ *         description: Reenvio solicitado antes do intervalo mínimo
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.post('/resend-verification', authenticate, AuthController.resendVerification);
+
+/**
+ * @swagger
+ * /api/auth/me:
+ *   get:
+ *     summary: Obtém o usuário autenticado
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Usuário autenticado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/UserResponse'
+ *       401:
+ *         description: Token ausente, inválido ou expirado
+ */
+router.get('/me', authenticateForEnrollment, AuthController.me);
+
+export default router;
@@ -255,6 +255,49 @@ router.get('/info', HealthController.getAppInfo);
  *                           type: string
  *                         nodeVersion:
  *                           type: string
+ *                     counterBuffer:
+ *                       type: object
+ *                       description: Buffer de incrementos (write-behind)
+ *                       properties:
+ *                         enabled:
+ *                           type: boolean
+ *                         pendingIncrements:
+ *                           type: number
+ *                         pendingKeys:
+ *                           type: number
+ *                         bufferedTotal:
+ *                           type: number
+ *                         flushedTotal:
+ *                           type: number
+ *                         flushCount:
+ *                           type: number
+ *                         failedFlushes:
+ *                           type: number
+ *                         lastFlushAt:
+ *                           type: string
+ *                           format: date-time
+ *                           nullable: true
+ *                         lastFlushDurationMs:
+ *                           type: number
+ *                           nullable: true
+ *                     realtime:
+ *                       type: object
+ *                       description: Conexões SSE/WebSocket de atualizações em tempo real
+ *                       properties:
+ *                         connections:
+ *                           type: number
+ *                         subscriptions:
+ *                           type: number
+ *                         changeStream:
+ *                           type: boolean
+ *                         publishedTotal:
+ *                           type: number
+ *                         deliveredTotal:
+ *                           type: number
+ *                         coalescedTotal:
+ *                           type: number
+ *                         deferredTotal:
+ *                           type: number
  */
 router.get('/metrics', HealthController.getMetrics);
 
@@ -2,6 +2,9 @@ import { Router, Application } from 'express';
 import accessRoutes from './accessRoutes';
 import userRoutes from './userRoutes';
 import healthRoutes from './healthRoutes';
+import authRoutes from './authRoutes';
+import alertRoutes from './alertRoutes';
+import apiKeyRoutes from './apiKeyRoutes';
 import { Logger } from '../utils';
 
 /**
@@ -23,6 +26,9 @@ export const setupRoutes = (app: Application): void => {
         endpoints: {
           access: '/api/access',
           users: '/api/users',
+          auth: '/api/auth',
+          alerts: '/api/alerts',
+          apiKeys: '/api/api-keys',
           health: '/health',
           info: '/info',
           metrics: '/metrics',
@@ -37,6 +43,9 @@ export const setupRoutes = (app: Application): void => {
   // Registro das rotas com seus prefixos
   router.use('/access', accessRoutes);
   router.use('/users', userRoutes);
+  router.use('/auth', authRoutes);
+  router.use('/alerts', alertRoutes);
+  router.use('/api-keys', apiKeyRoutes);
 
   // Rotas de health check (sem prefixo /api)
   app.use('/health', healthRoutes);
@@ -56,6 +65,9 @@ export const setupRoutes = (app: Application): void => {
       api: '/api',
       access: '/api/access',
       users: '/api/users',
+      auth: '/api/auth',
+      alerts: '/api/alerts',
+      apiKeys: '/api/api-keys',
       health: '/health',
       info: '/info',
       metrics: '/metrics',
@@ -79,8 +91,37 @@ export const getAvailableRoutes = () => {
         'POST /api/access/increment - Incrementa contador',
         'GET /api/access/count - Obtém contador atual', 
         'GET /api/access/statistics - Estatísticas do contador',
+        'GET /api/access/history - Histórico por minuto/hora/dia/mês',
+        'GET /api/access/breakdown - Segmentação por referrer, caminho, navegador, UTM... (?dimension=)',
+        'GET /api/access/trends - Variação entre períodos, médias móveis e previsão (?period=&compare=)',
+        'GET /api/access/export - Exporta buckets e dimensões em CSV, NDJSON ou JSON (?format=)',
+        'POST /api/access/exports - Agenda exportação em segundo plano para intervalos grandes',
+        'GET /api/access/exports/:id - Estado da exportação em segundo plano',
+        'GET /api/access/exports/:id/download - Baixa o arquivo da exportação concluída',
+        'GET /api/access/stream - Atualizações em tempo real via SSE (?keys=)',
+        'WS /api/access/ws - Atualizações em tempo real via WebSocket',
         'GET /api/access/health - Verifica integridade',
-        'POST /api/access/reset - Reseta contador (dev only)',
+        'POST /api/access/reset - Reseta contador (admin ou counter:admin, auditado)',
+        'GET /api/access/snapshots - Snapshots dos períodos encerrados por resets agendados',
+        'GET /api/access/anomalies - Anomalias de tráfego detectadas (admin/operador)',
+        'POST /api/access/anomalies/:id/quarantine - Desconta do total o excedente da anomalia (admin)',
+        'POST /api/access/anomalies/:id/release - Devolve ao total o excedente em quarentena (admin)',
+        'GET /api/access - Lista contadores (?namespace=)',
+        'POST /api/access/:key/increment - Incrementa contador nomeado',
+        'GET /api/access/:key/count - Obtém contador nomeado',
+        'GET /api/access/:key/pixel.gif - Pixel de rastreamento (incrementa e retorna GIF 1x1)',
+        'GET /api/access/:key/badge.svg - Badge SVG com o total (?label=, ?color=, ?format=)',
+        'GET /api/access/:key/statistics - Estatísticas do contador nomeado',
+        'GET /api/access/:key/history - Histórico do contador nomeado',
+        'GET /api/access/:key/breakdown - Segmentação do contador nomeado',
+        'GET /api/access/:key/trends - Tendências do contador nomeado',
+        'GET /api/access/:key/export - Exporta os dados do contador nomeado',
+        'POST /api/access/:key/reset - Reseta contador nomeado (admin ou counter:admin, auditado)',
+        'POST /api/access/:key/adjust - Ajusta o total (delta, value ou by) com motivo (admin)',
+        'GET /api/access/:key/events - Trilha de auditoria do contador (admin/operador ou counter:admin)',
+        'GET /api/access/:key/count?at= - Valor em um instante passado (contadores event-sourced)',
+        'PATCH /api/access/:key/settings - Shards, bots, resets, event-sourced e acesso (admin ou counter:admin)',
+        'POST /api/access/:key/rebuild - Reconstrói contador event-sourced a partir do log (admin ou counter:admin)',
       ],
     },
     users: {
@@ -90,10 +131,50 @@ export const getAvailableRoutes = () => {
         'GET /api/users - Lista usuários (paginado)',
         'GET /api/users/:id - Obtém usuário por ID',
         'PUT /api/users/:id - Atualiza usuário',
-        'DELETE /api/users/:id - Remove usuário',
+        'DELETE /api/users/:id - Remove usuário (restaurável durante o prazo de retenção)',
+        'POST /api/users/:id/restore - Restaura usuário removido (admin)',
+        'POST /api/users/:id/unlock - Desbloqueia o login do usuário (admin)',
         'GET /api/users/statistics - Estatísticas de usuários',
         'GET /api/users/search/email - Busca por email',
         'GET /api/users/:id/exists - Verifica se existe',
+        'PATCH /api/users/:id/role - Altera papel (admin)',
+        'POST /api/users/me/password - Troca a própria senha (exige a senha atual)',
+        'POST /api/users/me/2fa/setup - Gera o segredo TOTP para ativar o 2FA',
+        'POST /api/users/me/2fa/verify - Confirma o 2FA e retorna os códigos de recuperação',
+        'POST /api/users/me/2fa/disable - Desativa o 2FA (exige senha e código)',
+      ],
+    },
+    auth: {
+      base: '/api/auth',
+      endpoints: [
+        'POST /api/auth/login - Autentica usuário',
+        'POST /api/auth/2fa - Conclui o login com o código do autenticador',
+        'POST /api/auth/refresh - Renova tokens (rotação)',
+        'POST /api/auth/logout - Revoga refresh token',
+        'GET /api/auth/me - Usuário autenticado',
+        'POST /api/auth/forgot-password - Envia link de redefinição de senha por email',
+        'POST /api/auth/reset-password - Redefine a senha com o token e revoga as sessões',
+        'POST /api/auth/verify-email - Confirma o email com o token recebido',
+        'POST /api/auth/resend-verification - Reenvia o email de verificação (requer autenticação)',
+      ],
+    },
+    alerts: {
+      base: '/api/alerts',
+      endpoints: [
+        'GET /api/alerts - Lista regras de alerta (admin/operador)',
+        'POST /api/alerts - Cria regra de alerta (admin)',
+        'GET /api/alerts/:id - Obtém regra de alerta',
+        'PATCH /api/alerts/:id - Atualiza regra de alerta (admin)',
+        'DELETE /api/alerts/:id - Remove regra de alerta (admin)',
+        'GET /api/alerts/:id/deliveries - Histórico de entregas de webhooks',
+      ],
+    },
+    apiKeys: {
+      base: '/api/api-keys',
+      endpoints: [
+        'GET /api/api-keys - Lista as API keys do usuário (?owner= para admin)',
+        'POST /api/api-keys - Cria API key com scopes counter:read, counter:increment, counter:admin',
+        'DELETE /api/api-keys/:id - Revoga API key',
       ],
     },
     health: {
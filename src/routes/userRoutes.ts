@@ -7,11 +7,23 @@ import {
   validateQueryParams,
   validateRouteParams,
   userCreationRateLimit,
+  authenticate,
+  authenticateForEnrollment,
+  authorize,
+  authorizeSelfOr,
+  validateRoleUpdate,
+  validatePasswordChange,
+  validateTwoFactorCode,
+  validateTwoFactorDisable,
+  idempotent,
 } from '../middleware';
+import { PERMISSIONS } from '../config/permissions';
 
 /**
  * Rotas para gerenciamento de usuários
- * Implementa CRUD completo com validações e segurança
+ * Implementa CRUD completo com validações e segurança.
+ * O cadastro é público; as demais rotas exigem autenticação e seguem a
+ * matriz de permissões (usuários comuns acessam apenas o próprio registro)
  */
 const router = Router();
 
@@ -53,6 +65,25 @@ const router = Router();
  *           pattern: '^(?=.*[a-z])(?=.*[A-Z])(?=.*\d).+$'
  *           description: Senha com pelo menos 1 maiúscula, 1 minúscula e 1 número
  *           example: "MinhaSenh@123"
+ *     UserLockout:
+ *       type: object
+ *       description: Estado de bloqueio de login (apenas para administradores)
+ *       properties:
+ *         locked:
+ *           type: boolean
+ *           example: false
+ *         failedAttempts:
+ *           type: integer
+ *           description: Falhas de senha na janela atual (LOGIN_FAILURE_WINDOW_MINUTES)
+ *           example: 2
+ *         lockedUntil:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         lastFailureAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
  *     UserResponse:
  *       type: object
  *       properties:
@@ -66,6 +97,20 @@ const router = Router();
  *         email:
  *           type: string
  *           example: "joao.silva@email.com"
+ *         role:
+ *           type: string
+ *           enum: [admin, operator, user]
+ *           example: "user"
+ *         emailVerified:
+ *           type: boolean
+ *           description: Indica se o email atual já foi confirmado
+ *           example: true
+ *         twoFactorEnabled:
+ *           type: boolean
+ *           description: Indica se a autenticação em dois fatores está ativa
+ *           example: false
+ *         lockout:
+ *           $ref: '#/components/schemas/UserLockout'
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -83,6 +128,8 @@ const router = Router();
  *     summary: Cria um novo usuário
  *     tags: [Users]
  *     description: Registra um novo usuário no sistema
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
@@ -111,7 +158,9 @@ const router = Router();
  *       400:
  *         description: Dados inválidos
  *       409:
- *         description: Email já está em uso
+ *         description: Email já está em uso ou Idempotency-Key ainda em processamento
+ *       422:
+ *         description: Idempotency-Key já utilizada com outra requisição
  *       429:
  *         description: Muitas tentativas de criação
  *       500:
@@ -123,6 +172,7 @@ router.post(
   sanitizeInput,
   validateUserCreation,
   handleValidationErrors,
+  idempotent,
   UserController.createUser
 );
 
@@ -132,6 +182,8 @@ router.post(
  *   get:
  *     summary: Lista usuários com paginação
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     description: Retorna lista paginada de usuários
  *     parameters:
  *       - in: query
@@ -193,10 +245,20 @@ router.post(
  *                           example: false
  *       400:
  *         description: Parâmetros inválidos
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
  *       500:
  *         description: Erro interno do servidor
  */
-router.get('/', validateQueryParams, UserController.listUsers);
+router.get(
+  '/',
+  authenticate,
+  authorize(...PERMISSIONS.listUsers),
+  validateQueryParams,
+  UserController.listUsers
+);
 
 /**
  * @swagger
@@ -204,6 +266,8 @@ router.get('/', validateQueryParams, UserController.listUsers);
  *   get:
  *     summary: Obtém estatísticas dos usuários
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     description: Retorna estatísticas de cadastros de usuários
  *     responses:
  *       200:
@@ -234,10 +298,19 @@ router.get('/', validateQueryParams, UserController.listUsers);
  *                     usersThisMonth:
  *                       type: integer
  *                       example: 45
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
  *       500:
  *         description: Erro interno do servidor
  */
-router.get('/statistics', UserController.getUserStatistics);
+router.get(
+  '/statistics',
+  authenticate,
+  authorize(...PERMISSIONS.userStatistics),
+  UserController.getUserStatistics
+);
 
 /**
  * @swagger
@@ -245,6 +318,8 @@ router.get('/statistics', UserController.getUserStatistics);
  *   get:
  *     summary: Busca usuário por email
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     description: Encontra usuário através do email
  *     parameters:
  *       - in: query
@@ -274,10 +349,222 @@ router.get('/statistics', UserController.getUserStatistics);
  *         description: Email não fornecido
  *       404:
  *         description: Usuário não encontrado
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
  *       500:
  *         description: Erro interno do servidor
  */
-router.get('/search/email', UserController.getUserByEmail);
+router.get(
+  '/search/email',
+  authenticate,
+  authorize(...PERMISSIONS.searchUsers),
+  UserController.getUserByEmail
+);
+
+/**
+ * @swagger
+ * /api/users/me/password:
+ *   post:
+ *     summary: Troca a senha do usuário autenticado
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Exige a senha atual. As demais sessões são revogadas e a resposta traz novos tokens para a sessão atual
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - currentPassword
+ *               - newPassword
+ *             properties:
+ *               currentPassword:
+ *                 type: string
+ *                 example: "MinhaSenh@123"
+ *               newPassword:
+ *                 type: string
+ *                 minLength: 8
+ *                 maxLength: 128
+ *                 description: Nova senha com pelo menos 1 maiúscula, 1 minúscula e 1 número
+ *                 example: "NovaSenh@456"
+ *     responses:
+ *       200:
+ *         description: Senha alterada com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/AuthTokens'
+ *       400:
+ *         description: Dados inválidos, senha atual incorreta ou nova senha igual à atual
+ *       401:
+ *         description: Não autenticado
+ *       500:
+ *         description: Erro interno do servidor
+ */
+router.post(
+  '/me/password',
+  authenticate,
+  sanitizeInput,
+  validatePasswordChange,
+  handleValidationErrors,
+  UserController.changePassword
+);
+
+/**
+ * @swagger
+ * /api/users/me/2fa/setup:
+ *   post:
+ *     summary: Inicia a ativação da autenticação em dois fatores
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Gera um segredo TOTP (RFC 6238) e a URI otpauth:// para o aplicativo autenticador
+ *       (geralmente exibida como QR code). O 2FA só é ativado após a confirmação em
+ *       /api/users/me/2fa/verify; chamar novamente substitui o segredo pendente
+ *     responses:
+ *       200:
+ *         description: Segredo gerado
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     secret:
+ *                       type: string
+ *                       example: "JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP"
+ *                     otpauthUri:
+ *                       type: string
+ *                       example: "otpauth://totp/Anota%20AI%3Ajoao%40email.com?secret=JBSWY3DPEHPK3PXP&issuer=Anota+AI"
+ *       401:
+ *         description: Não autenticado
+ *       409:
+ *         description: Autenticação em dois fatores já está ativa
+ */
+router.post('/me/2fa/setup', authenticateForEnrollment, UserController.setupTwoFactor);
+
+/**
+ * @swagger
+ * /api/users/me/2fa/verify:
+ *   post:
+ *     summary: Confirma a ativação da autenticação em dois fatores
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Ativa o 2FA com um código do aplicativo autenticador. A resposta traz os códigos de
+ *       recuperação, exibidos apenas uma vez; cada um pode substituir o código do autenticador
+ *       em um único login
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Autenticação em dois fatores ativada
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     recoveryCodes:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                       example: ["3f9a1-c04d2", "b7e55-1a9f0"]
+ *       400:
+ *         description: Código inválido ou configuração não iniciada
+ *       401:
+ *         description: Não autenticado
+ *       409:
+ *         description: Autenticação em dois fatores já está ativa
+ */
+router.post(
+  '/me/2fa/verify',
+  authenticateForEnrollment,
+  sanitizeInput,
+  validateTwoFactorCode,
+  handleValidationErrors,
+  UserController.verifyTwoFactor
+);
+
+/**
+ * @swagger
+ * /api/users/me/2fa/disable:
+ *   post:
+ *     summary: Desativa a autenticação em dois fatores
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Exige a senha e um código do autenticador (ou de recuperação). Recusado quando o papel
+ *       do usuário exige 2FA (TWO_FACTOR_REQUIRED_ROLES)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - password
+ *               - code
+ *             properties:
+ *               password:
+ *                 type: string
+ *                 example: "MinhaSenh@123"
+ *               code:
+ *                 type: string
+ *                 example: "123456"
+ *     responses:
+ *       200:
+ *         description: Autenticação em dois fatores desativada
+ *       400:
+ *         description: Dados inválidos, senha ou código incorretos
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Autenticação em dois fatores obrigatória para o papel do usuário
+ *       409:
+ *         description: Autenticação em dois fatores não está ativa
+ */
+router.post(
+  '/me/2fa/disable',
+  authenticate,
+  sanitizeInput,
+  validateTwoFactorDisable,
+  handleValidationErrors,
+  UserController.disableTwoFactor
+);
 
 /**
  * @swagger
@@ -285,7 +572,9 @@ router.get('/search/email', UserController.getUserByEmail);
  *   get:
  *     summary: Obtém usuário por ID
  *     tags: [Users]
- *     description: Retorna informações de um usuário específico
+ *     security:
+ *       - bearerAuth: []
+ *     description: Retorna informações de um usuário específico. Para administradores, inclui o estado de bloqueio de login (lockout)
  *     parameters:
  *       - in: path
  *         name: id
@@ -314,10 +603,20 @@ router.get('/search/email', UserController.getUserByEmail);
  *         description: ID inválido
  *       404:
  *         description: Usuário não encontrado
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
  *       500:
  *         description: Erro interno do servidor
  */
-router.get('/:id', validateRouteParams('id'), UserController.getUserById);
+router.get(
+  '/:id',
+  validateRouteParams('id'),
+  authenticate,
+  authorizeSelfOr(...PERMISSIONS.readAnyUser),
+  UserController.getUserById
+);
 
 /**
  * @swagger
@@ -325,6 +624,8 @@ router.get('/:id', validateRouteParams('id'), UserController.getUserById);
  *   get:
  *     summary: Verifica se usuário existe
  *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
  *     description: Verifica se um usuário existe pelo ID
  *     parameters:
  *       - in: path
@@ -359,8 +660,18 @@ router.get('/:id', validateRouteParams('id'), UserController.getUserById);
  *                       example: "507f1f77bcf86cd799439011"
  *       400:
  *         description: ID inválido
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
  */
-router.get('/:id/exists', validateRouteParams('id'), UserController.checkUserExists);
+router.get(
+  '/:id/exists',
+  validateRouteParams('id'),
+  authenticate,
+  authorizeSelfOr(...PERMISSIONS.readAnyUser),
+  UserController.checkUserExists
+);
 
 /**
  * @swagger
@@ -368,7 +679,9 @@ router.get('/:id/exists', validateRouteParams('id'), UserController.checkUserExi
  *   put:
  *     summary: Atualiza dados do usuário
  *     tags: [Users]
- *     description: Atualiza nome e/ou email do usuário
+ *     security:
+ *       - bearerAuth: []
+ *     description: Atualiza nome e/ou email do usuário. A troca de email exige nova verificação do endereço
  *     parameters:
  *       - in: path
  *         name: id
@@ -415,10 +728,21 @@ router.get('/:id/exists', validateRouteParams('id'), UserController.checkUserExi
  *         description: Usuário não encontrado
  *       409:
  *         description: Email já está em uso
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
  *       500:
  *         description: Erro interno do servidor
  */
-router.put('/:id', validateRouteParams('id'), sanitizeInput, UserController.updateUser);
+router.put(
+  '/:id',
+  validateRouteParams('id'),
+  authenticate,
+  authorizeSelfOr(...PERMISSIONS.updateAnyUser),
+  sanitizeInput,
+  UserController.updateUser
+);
 
 /**
  * @swagger
@@ -426,7 +750,12 @@ router.put('/:id', validateRouteParams('id'), sanitizeInput, UserController.upda
  *   delete:
  *     summary: Remove usuário
  *     tags: [Users]
- *     description: Remove um usuário do sistema
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Remove o usuário (soft delete): ele deixa de aparecer nas consultas e no login, suas sessões
+ *       são revogadas e o email fica livre para novos cadastros. Administradores podem restaurá-lo
+ *       por USER_DELETION_GRACE_DAYS dias; depois disso ele é excluído definitivamente
  *     parameters:
  *       - in: path
  *         name: id
@@ -453,9 +782,183 @@ router.put('/:id', validateRouteParams('id'), sanitizeInput, UserController.upda
  *         description: ID inválido
  *       404:
  *         description: Usuário não encontrado
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
  *       500:
  *         description: Erro interno do servidor
  */
-router.delete('/:id', validateRouteParams('id'), UserController.deleteUser);
+router.delete(
+  '/:id',
+  validateRouteParams('id'),
+  authenticate,
+  authorizeSelfOr(...PERMISSIONS.deleteAnyUser),
+  UserController.deleteUser
+);
+
+/**
+ * @swagger
+ * /api/users/{id}/unlock:
+ *   post:
+ *     summary: Desbloqueia o login de um usuário
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Encerra o bloqueio temporário e zera as falhas de login da conta. Bloqueios por IP
+ *       expiram sozinhos após LOGIN_LOCKOUT_MINUTES. Apenas administradores
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: ID do usuário
+ *     responses:
+ *       200:
+ *         description: Usuário desbloqueado com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/UserResponse'
+ *       400:
+ *         description: ID inválido
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
+ *       404:
+ *         description: Usuário não encontrado
+ */
+router.post(
+  '/:id/unlock',
+  validateRouteParams('id'),
+  authenticate,
+  authorize(...PERMISSIONS.manageLockouts),
+  UserController.unlockUser
+);
+
+/**
+ * @swagger
+ * /api/users/{id}/restore:
+ *   post:
+ *     summary: Restaura um usuário removido
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     description: |
+ *       Desfaz a remoção enquanto o usuário não foi excluído definitivamente. O email original
+ *       volta a valer; se outro cadastro já o utiliza, a restauração é recusada. As sessões
+ *       revogadas na remoção não são restabelecidas. Apenas administradores
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: ID do usuário
+ *     responses:
+ *       200:
+ *         description: Usuário restaurado com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/UserResponse'
+ *       400:
+ *         description: ID inválido
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
+ *       404:
+ *         description: Usuário não encontrado ou já excluído definitivamente
+ *       409:
+ *         description: Usuário não está removido ou o email original já está em uso
+ */
+router.post(
+  '/:id/restore',
+  validateRouteParams('id'),
+  authenticate,
+  authorize(...PERMISSIONS.restoreUsers),
+  UserController.restoreUser
+);
+
+/**
+ * @swagger
+ * /api/users/{id}/role:
+ *   patch:
+ *     summary: Altera o papel do usuário
+ *     tags: [Users]
+ *     security:
+ *       - bearerAuth: []
+ *     description: Define o papel (admin, operator ou user) de outro usuário. Apenas administradores
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9a-fA-F]{24}$'
+ *         description: ID do usuário
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - role
+ *             properties:
+ *               role:
+ *                 type: string
+ *                 enum: [admin, operator, user]
+ *                 example: "operator"
+ *     responses:
+ *       200:
+ *         description: Papel atualizado com sucesso
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                   example: true
+ *                 data:
+ *                   $ref: '#/components/schemas/UserResponse'
+ *       400:
+ *         description: Papel inválido ou tentativa de alterar o próprio papel
+ *       401:
+ *         description: Não autenticado
+ *       403:
+ *         description: Permissão insuficiente
+ *       404:
+ *         description: Usuário não encontrado
+ */
+router.patch(
+  '/:id/role',
+  validateRouteParams('id'),
+  authenticate,
+  authorize(...PERMISSIONS.manageRoles),
+  sanitizeInput,
+  validateRoleUpdate,
+  handleValidationErrors,
+  UserController.updateUserRole
+);
 
 export default router;
@@ -0,0 +1,384 @@
+import { ANOMALY_GRANULARITIES, AccessAnomaly, AccessBucket, IAccessAnomalyDocument } from '../models';
+import {
+  AnomalySeverity,
+  AnomalyStatus,
+  HistoryGranularity,
+  IAccessAnomalyResponse,
+  IAuthenticatedUser,
+  PaginatedResponse,
+} from '../types';
+import {
+  Logger,
+  anomalyScore,
+  anomalySeverity,
+  compareSeverity,
+  robustBaseline,
+  truncateToBucket,
+} from '../utils';
+import { AppError } from '../middleware';
+import { config } from '../config/environment';
+import { AccessCounterService } from './AccessCounterService';
+import { AccessSourceService } from './AccessSourceService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Janelas do baseline de cada granularidade, em buckets
+ * - recent: buckets imediatamente anteriores (nível atual do tráfego)
+ * - seasonal: vizinhos do mesmo horário em cada dia anterior (sazonalidade diária)
+ * - lookback: buckets encerrados avaliados a cada execução
+ */
+const BASELINE_WINDOWS: Record<string, { unitMs: number; recent: number; seasonal: number; lookback: number }> = {
+  [HistoryGranularity.MINUTE]: { unitMs: 60 * 1000, recent: 60, seasonal: 30, lookback: 5 },
+  [HistoryGranularity.HOUR]: { unitMs: 60 * 60 * 1000, recent: 6, seasonal: 1, lookback: 2 },
+};
+
+/**
+ * Origens mais frequentes guardadas em cada anomalia
+ */
+const MAX_ANOMALY_SOURCES = 10;
+
+/**
+ * Retenção dos buckets de cada granularidade (0 = sem limite)
+ */
+const retentionMs = (granularity: HistoryGranularity): number =>
+  granularity === HistoryGranularity.MINUTE
+    ? config.history.minuteRetentionHours * 60 * 60 * 1000
+    : config.history.hourRetentionDays * DAY_MS;
+
+/**
+ * Converte uma anomalia para o formato de resposta
+ * historyUrl aponta para a série do contador em torno da janela
+ */
+const toResponse = (anomaly: IAccessAnomalyDocument): IAccessAnomalyResponse => {
+  const { _id, __v, ...fields } = anomaly.toObject();
+  const { unitMs, recent } = BASELINE_WINDOWS[anomaly.granularity];
+  const from = new Date(anomaly.windowStart.getTime() - recent * unitMs).toISOString();
+  const to = anomaly.windowEnd.toISOString();
+
+  return {
+    id: String(_id),
+    ...fields,
+    historyUrl:
+      `/api/access/${encodeURIComponent(anomaly.key)}/history` +
+      `?granularity=${anomaly.granularity}&from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`,
+  };
+};
+
+/**
+ * Service do detector de anomalias no tráfego dos contadores
+ * Avalia os buckets por minuto e por hora recém-encerrados contra um baseline
+ * robusto (mediana e MAD) que combina o nível recente e o mesmo horário dos
+ * dias anteriores. Anomalias podem ter o excedente posto em quarentena:
+ * descontado do total por um ajuste auditado, reversível pela liberação
+ */
+export class AccessAnomalyService {
+  /**
+   * Avalia os buckets encerrados recentemente de todos os contadores
+   * Retorna o número de anomalias registradas
+   */
+  public static async detect(now: Date = new Date()): Promise<number> {
+    let detected = 0;
+
+    for (const granularity of ANOMALY_GRANULARITIES) {
+      const { unitMs, lookback } = BASELINE_WINDOWS[granularity];
+      const end = truncateToBucket(now, granularity);
+      const start = new Date(end.getTime() - lookback * unitMs);
+
+      // Janelas abaixo do mínimo nunca são anômalas e nem precisam de baseline
+      const candidates = await AccessBucket.find({
+        granularity,
+        bucketStart: { $gte: start, $lt: end },
+        count: { $gte: config.anomalies.minCount },
+      })
+        .select('key bucketStart count')
+        .lean();
+
+      for (const { key, bucketStart, count } of candidates) {
+        try {
+          if (await this.evaluate(key, granularity, bucketStart, count, now)) {
+            detected++;
+          }
+        } catch (error) {
+          Logger.error('Erro ao avaliar anomalia de tráfego', { key, granularity, bucketStart, error });
+        }
+      }
+    }
+
+    return detected;
+  }
+
+  /**
+   * Lista as anomalias, da janela mais recente à mais antiga
+   * from e to filtram pelo início da janela
+   */
+  public static async listAnomalies(
+    filters: {
+      key?: string;
+      granularity?: HistoryGranularity;
+      severity?: AnomalySeverity;
+      status?: AnomalyStatus;
+      from?: Date;
+      to?: Date;
+    },
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{
+    anomalies: IAccessAnomalyResponse[];
+    pagination: PaginatedResponse<IAccessAnomalyResponse>['pagination'];
+  }> {
+    const { key, granularity, severity, status, from, to } = filters;
+
+    if (from && to && from > to) {
+      throw new AppError('Parâmetro from deve ser anterior a to', 400);
+    }
+
+    try {
+      const query = {
+        ...(key && { key }),
+        ...(granularity && { granularity }),
+        ...(severity && { severity }),
+        ...(status && { status }),
+        ...((from || to) && { windowStart: { ...(from && { $gte: from }), ...(to && { $lte: to }) } }),
+      };
+
+      const [anomalies, total] = await Promise.all([
+        AccessAnomaly.find(query)
+          .sort({ windowStart: -1, key: 1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        AccessAnomaly.countDocuments(query),
+      ]);
+
+      const pages = Math.ceil(total / limit);
+
+      return {
+        anomalies: anomalies.map(toResponse),
+        pagination: { page, limit, total, pages, hasNext: page < pages, hasPrev: page > 1 },
+      };
+    } catch (error) {
+      Logger.error('Erro ao listar anomalias de tráfego', error);
+      throw new AppError('Erro interno ao listar anomalias', 500);
+    }
+  }
+
+  /**
+   * Põe em quarentena os acessos excedentes de uma anomalia
+   * O excedente (acessos acima do esperado, descontado o que outras anomalias
+   * sobrepostas já removeram) é subtraído do total com um ajuste auditado
+   */
+  public static async quarantine(id: string, actor?: IAuthenticatedUser): Promise<IAccessAnomalyResponse> {
+    const anomaly = await this.findAnomaly(id);
+
+    if (anomaly.status === AnomalyStatus.QUARANTINED) {
+      throw new AppError('Anomalia já está em quarentena', 409);
+    }
+
+    const overlapping = await AccessAnomaly.quarantinedBetween(anomaly.key, anomaly.windowStart, anomaly.windowEnd, id);
+    const excess = anomaly.count - anomaly.expected - overlapping;
+
+    if (excess <= 0) {
+      throw new AppError('Os acessos excedentes desta janela já estão em quarentena', 409);
+    }
+
+    const claimed = await AccessAnomaly.transition(id, [AnomalyStatus.OPEN, AnomalyStatus.RELEASED], {
+      status: AnomalyStatus.QUARANTINED,
+      quarantined: excess,
+      quarantinedAt: new Date(),
+    });
+
+    if (!claimed) {
+      throw new AppError('Anomalia já está em quarentena', 409);
+    }
+
+    try {
+      await AccessCounterService.adjustCounter(
+        anomaly.key,
+        { delta: -excess },
+        { actor, reason: `Quarentena da anomalia ${id}` }
+      );
+    } catch (error) {
+      await AccessAnomaly.transition(id, [AnomalyStatus.QUARANTINED], {
+        status: anomaly.status,
+        quarantined: 0,
+        quarantinedAt: anomaly.quarantinedAt,
+      });
+      throw error;
+    }
+
+    Logger.warn('Acessos de anomalia em quarentena', { id, key: anomaly.key, excess, actorId: actor?.id });
+
+    return toResponse(claimed);
+  }
+
+  /**
+   * Libera a quarentena de uma anomalia, devolvendo o excedente ao total
+   */
+  public static async release(id: string, actor?: IAuthenticatedUser): Promise<IAccessAnomalyResponse> {
+    const anomaly = await this.findAnomaly(id);
+    const claimed = await AccessAnomaly.transition(id, [AnomalyStatus.QUARANTINED], {
+      status: AnomalyStatus.RELEASED,
+      quarantined: 0,
+      releasedAt: new Date(),
+    });
+
+    if (!claimed) {
+      throw new AppError('Anomalia não está em quarentena', 409);
+    }
+
+    try {
+      await AccessCounterService.adjustCounter(
+        anomaly.key,
+        { delta: anomaly.quarantined },
+        { actor, reason: `Liberação da quarentena da anomalia ${id}` }
+      );
+    } catch (error) {
+      await AccessAnomaly.transition(id, [AnomalyStatus.RELEASED], {
+        status: AnomalyStatus.QUARANTINED,
+        quarantined: anomaly.quarantined,
+        releasedAt: anomaly.releasedAt,
+      });
+      throw error;
+    }
+
+    Logger.info('Quarentena de anomalia liberada', { id, key: anomaly.key, actorId: actor?.id });
+
+    return toResponse(claimed);
+  }
+
+  /**
+   * Pontos do baseline de uma janela: os buckets recentes e os vizinhos do
+   * mesmo horário nos dias anteriores. Buckets sem acessos contam como zero;
+   * trechos fora da retenção ou anteriores ao primeiro acesso são ignorados
+   */
+  public static async baselineValues(
+    key: string,
+    granularity: HistoryGranularity,
+    windowStart: Date,
+    now: Date = new Date()
+  ): Promise<number[]> {
+    const { unitMs, recent, seasonal } = BASELINE_WINDOWS[granularity];
+    const retention = retentionMs(granularity);
+    const first = await AccessBucket.findOne({ key, granularity })
+      .sort({ bucketStart: 1 })
+      .select('bucketStart')
+      .lean();
+    const cutoff = Math.max(
+      first?.bucketStart.getTime() ?? windowStart.getTime(),
+      retention > 0 ? now.getTime() - retention : 0
+    );
+
+    const windows: Array<{ from: number; to: number }> = [
+      { from: windowStart.getTime() - recent * unitMs, to: windowStart.getTime() },
+    ];
+
+    for (let day = 1; day <= config.anomalies.baselineDays; day++) {
+      const center = windowStart.getTime() - day * DAY_MS;
+      windows.push({ from: center - seasonal * unitMs, to: center + (seasonal + 1) * unitMs });
+    }
+
+    const ranges = windows
+      .map(({ from, to }) => ({ from: Math.max(from, cutoff), to }))
+      .filter(({ from, to }) => from < to);
+
+    if (ranges.length === 0) {
+      return [];
+    }
+
+    const buckets = await AccessBucket.find({
+      key,
+      granularity,
+      $or: ranges.map(({ from, to }) => ({ bucketStart: { $gte: new Date(from), $lt: new Date(to) } })),
+    })
+      .select('bucketStart count')
+      .lean();
+
+    const counts = new Map(buckets.map(bucket => [bucket.bucketStart.getTime(), bucket.count]));
+
+    return ranges.flatMap(({ from, to }) => {
+      const values: number[] = [];
+
+      for (let time = Math.ceil(from / unitMs) * unitMs; time < to; time += unitMs) {
+        values.push(counts.get(time) ?? 0);
+      }
+
+      return values;
+    });
+  }
+
+  /**
+   * Avalia uma janela e registra a anomalia, aplicando a quarentena
+   * automática quando habilitada. Retorna null se a janela é normal, se
+   * o histórico é insuficiente ou se a anomalia já foi registrada
+   */
+  private static async evaluate(
+    key: string,
+    granularity: HistoryGranularity,
+    windowStart: Date,
+    count: number,
+    now: Date
+  ): Promise<IAccessAnomalyDocument | null> {
+    const { unitMs, recent } = BASELINE_WINDOWS[granularity];
+    const values = await this.baselineValues(key, granularity, windowStart, now);
+
+    // Contadores novos precisam de ao menos a janela recente completa
+    if (values.length < recent) {
+      return null;
+    }
+
+    const baseline = robustBaseline(values);
+    const score = anomalyScore(count, baseline, values);
+    const severity = anomalySeverity(score, config.anomalies.threshold);
+
+    if (!severity) {
+      return null;
+    }
+
+    const windowEnd = new Date(windowStart.getTime() + unitMs);
+    const sources = await AccessSourceService.getTopSources(key, windowStart, windowEnd, MAX_ANOMALY_SOURCES);
+
+    const anomaly = await AccessAnomaly.recordDetection({
+      key,
+      granularity,
+      windowStart,
+      windowEnd,
+      count,
+      expected: Math.round(baseline.median),
+      score,
+      severity,
+      baseline,
+      sources: sources.entries,
+      sourcesTotal: sources.total,
+      detectedAt: now,
+    });
+
+    if (!anomaly) {
+      return null;
+    }
+
+    Logger.warn('Anomalia detectada no tráfego', { key, granularity, windowStart, count, score, severity });
+
+    if (config.anomalies.autoQuarantine && compareSeverity(severity, config.anomalies.quarantineSeverity) >= 0) {
+      try {
+        await this.quarantine(anomaly.id);
+      } catch (error) {
+        Logger.error('Erro na quarentena automática de anomalia', { id: anomaly.id, error });
+      }
+    }
+
+    return anomaly;
+  }
+
+  /**
+   * Busca uma anomalia pelo id
+   */
+  private static async findAnomaly(id: string): Promise<IAccessAnomalyDocument> {
+    const anomaly = await AccessAnomaly.findById(id);
+
+    if (!anomaly) {
+      throw new AppError('Anomalia não encontrada', 404);
+    }
+
+    return anomaly;
+  }
+}
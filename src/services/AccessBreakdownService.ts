@@ -0,0 +1,202 @@
+import { AccessBreakdown, BREAKDOWN_GRANULARITIES, DEFAULT_COUNTER_KEY } from '../models';
+import {
+  BreakdownDimension,
+  HistoryGranularity,
+  IAccessBreakdownResponse,
+  IAccessDimensions,
+  IBreakdownIncrement,
+} from '../types';
+import { Logger, truncateToBucket } from '../utils';
+import { AppError } from '../middleware';
+import { config } from '../config/environment';
+
+/**
+ * Janela padrão consultada quando "from" não é informado (7 dias)
+ */
+const DEFAULT_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Maior intervalo atendido pelos buckets por hora; acima disso usa os diários
+ */
+const MAX_HOURLY_RANGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Número máximo de valores retornados em uma consulta
+ */
+export const MAX_BREAKDOWN_LIMIT = 100;
+
+/**
+ * Service para a segmentação do tráfego por dimensão
+ * (referrer, caminho, origem, navegador, sistema, dispositivo e UTM)
+ */
+export class AccessBreakdownService {
+  /**
+   * Indica se as dimensões devem ser registradas
+   */
+  public static isEnabled(): boolean {
+    return config.breakdown.enabled;
+  }
+
+  /**
+   * Monta os incrementos de dimensões de um acesso em cada granularidade
+   */
+  public static buildIncrements(
+    key: string,
+    dimensions: IAccessDimensions,
+    at: Date = new Date(),
+    amount: number = 1
+  ): IBreakdownIncrement[] {
+    const entries = Object.entries(dimensions) as Array<[BreakdownDimension, string | undefined]>;
+
+    return BREAKDOWN_GRANULARITIES.flatMap(granularity => {
+      const bucketStart = truncateToBucket(at, granularity);
+
+      return entries
+        .filter(([, value]) => Boolean(value))
+        .map(([dimension, value]) => ({
+          key,
+          granularity,
+          bucketStart,
+          dimension,
+          value: value!,
+          count: amount,
+        }));
+    });
+  }
+
+  /**
+   * Registra as dimensões de um acesso
+   * Falhas são apenas registradas em log para não afetar o total do contador
+   */
+  public static async recordIncrement(
+    key: string,
+    dimensions: IAccessDimensions,
+    at: Date = new Date(),
+    amount: number = 1
+  ): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    try {
+      await this.applyIncrements(this.buildIncrements(key, dimensions, at, amount));
+    } catch (error) {
+      Logger.error('Erro ao registrar dimensões do acesso', { key, at, error });
+    }
+  }
+
+  /**
+   * Aplica incrementos de dimensões já agregados (modo buffer)
+   */
+  public static async applyIncrements(increments: IBreakdownIncrement[]): Promise<void> {
+    await AccessBreakdown.applyIncrements(increments, config.breakdown.maxValuesPerBucket);
+  }
+
+  /**
+   * Obtém os valores mais frequentes de uma dimensão no intervalo
+   * Intervalos de até 7 dias dentro da retenção por hora usam buckets por hora;
+   * os demais usam buckets diários (o início é alinhado ao bucket)
+   */
+  public static async getBreakdown(
+    key: string = DEFAULT_COUNTER_KEY,
+    dimension: BreakdownDimension,
+    from?: Date,
+    to?: Date,
+    limit: number = 10
+  ): Promise<IAccessBreakdownResponse> {
+    const end = to ?? new Date();
+    const start = from ?? new Date(end.getTime() - DEFAULT_WINDOW_MS);
+
+    if (start > end) {
+      throw new AppError('Parâmetro from deve ser anterior a to', 400);
+    }
+
+    if (limit < 1 || limit > MAX_BREAKDOWN_LIMIT) {
+      throw new AppError(`Parâmetro limit deve estar entre 1 e ${MAX_BREAKDOWN_LIMIT}`, 400);
+    }
+
+    const granularity = this.selectGranularity(start, end);
+    const rangeStart = truncateToBucket(start, granularity);
+
+    try {
+      Logger.debug('Obtendo segmentação de acessos', { key, dimension, granularity, from: rangeStart, to: end });
+
+      const { total, overflow, items } = await AccessBreakdown.summarize(
+        key,
+        dimension,
+        granularity,
+        rangeStart,
+        end,
+        limit
+      );
+
+      const listed = items.reduce((sum, item) => sum + item.count, 0);
+
+      return {
+        key,
+        dimension,
+        granularity,
+        from: rangeStart,
+        to: end,
+        total,
+        other: total - listed,
+        capped: overflow > 0,
+        items: items.map(item => ({
+          ...item,
+          share: total > 0 ? Math.round((item.count / total) * 10000) / 10000 : 0,
+        })),
+      };
+    } catch (error) {
+      Logger.error('Erro ao obter segmentação de acessos', error);
+      throw new AppError('Erro interno ao obter segmentação', 500);
+    }
+  }
+
+  /**
+   * Remove tabelas fora da retenção do histórico
+   * As tabelas por hora seguem HISTORY_HOUR_RETENTION_DAYS e as diárias
+   * HISTORY_DAY_RETENTION_DAYS (0 = sem limite)
+   */
+  public static async applyRetention(now: Date = new Date()): Promise<number> {
+    const day = 24 * 60 * 60 * 1000;
+
+    const policies: Array<{ granularity: HistoryGranularity; retentionMs: number }> = [
+      { granularity: HistoryGranularity.HOUR, retentionMs: config.history.hourRetentionDays * day },
+      { granularity: HistoryGranularity.DAY, retentionMs: config.history.dayRetentionDays * day },
+    ];
+
+    let removed = 0;
+
+    try {
+      for (const { granularity, retentionMs } of policies) {
+        if (retentionMs <= 0) {
+          continue;
+        }
+
+        const cutoff = truncateToBucket(new Date(now.getTime() - retentionMs), granularity);
+        removed += await AccessBreakdown.pruneBefore(granularity, cutoff);
+      }
+
+      if (removed > 0) {
+        Logger.info('Retenção da segmentação de acessos aplicada', { removed });
+      }
+
+      return removed;
+    } catch (error) {
+      Logger.error('Erro ao aplicar retenção da segmentação', error);
+      throw new AppError('Erro interno ao aplicar retenção da segmentação', 500);
+    }
+  }
+
+  /**
+   * Escolhe a granularidade das tabelas consultadas
+   */
+  private static selectGranularity(start: Date, end: Date): HistoryGranularity {
+    const hourlyRetentionMs = config.history.hourRetentionDays * 24 * 60 * 60 * 1000;
+    const withinRetention = hourlyRetentionMs <= 0 || start.getTime() >= Date.now() - hourlyRetentionMs;
+
+    return end.getTime() - start.getTime() <= MAX_HOURLY_RANGE_MS && withinRetention
+      ? HistoryGranularity.HOUR
+      : HistoryGranularity.DAY;
+  }
+}
@@ -0,0 +1,647 @@
+import { AccessBucket, AccessCounter } from '../models';
+import {
+  BreakdownDimension,
+  HistoryGranularity,
+  IAccessDimensions,
+  IAccessOrigin,
+  IAccessSourceIncrement,
+  IBreakdownIncrement,
+  IBucketIncrement,
+  ICounterBufferMetrics,
+  ICounterIncrement,
+} from '../types';
+import { Logger, HllRegister, HllRegisters, truncateToBucket } from '../utils';
+import { config } from '../config/environment';
+import { AccessBreakdownService } from './AccessBreakdownService';
+import { AccessSourceService } from './AccessSourceService';
+
+/**
+ * Valores pendentes de uma dimensão em um bucket
+ * Segue o mesmo limite de cardinalidade das tabelas gravadas; o excedente vai para "other"
+ */
+interface PendingBreakdown {
+  key: string;
+  granularity: HistoryGranularity;
+  bucketStart: Date;
+  dimension: BreakdownDimension;
+  values: Map<string, number>;
+  overflow: number;
+}
+
+/**
+ * Origens pendentes de um minuto, com o mesmo limite das tabelas gravadas
+ */
+interface PendingSources {
+  key: string;
+  bucketStart: Date;
+  origins: Map<string, { origin: IAccessOrigin; count: number }>;
+  overflow: number;
+}
+
+/**
+ * Incrementos pendentes de um contador
+ */
+interface PendingCounter extends ICounterIncrement {
+  buckets: Map<string, IBucketIncrement>;
+  breakdowns: Map<string, PendingBreakdown>;
+  sources: Map<string, PendingSources>;
+}
+
+/**
+ * Cria o registro vazio de incrementos pendentes de um contador
+ */
+const createEntry = (key: string, namespace: string, lastUpdated: Date): PendingCounter => ({
+  key,
+  namespace,
+  count: 0,
+  botCount: 0,
+  lastUpdated,
+  hll: {},
+  buckets: new Map(),
+  breakdowns: new Map(),
+  sources: new Map(),
+});
+
+/**
+ * Limite de chaves com total conhecido mantidas em memória
+ */
+const MAX_KNOWN_COUNTS = 10000;
+
+/**
+ * Mescla um registrador HyperLogLog em um sketch esparso
+ */
+const mergeRegister = (registers: HllRegisters, visitor?: HllRegister): void => {
+  if (visitor && (registers[visitor.index] ?? 0) < visitor.rank) {
+    registers[visitor.index] = visitor.rank;
+  }
+};
+
+/**
+ * Soma um valor na tabela pendente de uma dimensão
+ */
+const addBreakdownValue = (breakdown: PendingBreakdown, value: string | null, count: number): void => {
+  const current = value === null ? undefined : breakdown.values.get(value);
+
+  if (value !== null && (current !== undefined || breakdown.values.size < config.breakdown.maxValuesPerBucket)) {
+    breakdown.values.set(value, (current ?? 0) + count);
+  } else {
+    breakdown.overflow += count;
+  }
+};
+
+/**
+ * Converte as tabelas pendentes em incrementos para gravação
+ */
+const toBreakdownIncrements = (breakdown: PendingBreakdown): IBreakdownIncrement[] => {
+  const { key, granularity, bucketStart, dimension } = breakdown;
+  const increments: IBreakdownIncrement[] = Array.from(breakdown.values, ([value, count]) => ({
+    key,
+    granularity,
+    bucketStart,
+    dimension,
+    value,
+    count,
+  }));
+
+  if (breakdown.overflow > 0) {
+    increments.push({ key, granularity, bucketStart, dimension, value: null, count: breakdown.overflow });
+  }
+
+  return increments;
+};
+
+/**
+ * Soma uma origem na tabela pendente de um minuto
+ */
+const addSourceOrigin = (sources: PendingSources, origin: IAccessOrigin, count: number): void => {
+  const originKey = `${origin.ip}\n${origin.userAgent}`;
+  const current = sources.origins.get(originKey);
+
+  if (current) {
+    current.count += count;
+  } else if (sources.origins.size < config.anomalies.maxSourcesPerMinute) {
+    sources.origins.set(originKey, { origin, count });
+  } else {
+    sources.overflow += count;
+  }
+};
+
+/**
+ * Converte as origens pendentes em incrementos para gravação
+ */
+const toSourceIncrements = (sources: PendingSources): IAccessSourceIncrement[] => {
+  const { key, bucketStart } = sources;
+  const increments: IAccessSourceIncrement[] = Array.from(sources.origins.values(), ({ origin, count }) => ({
+    key,
+    bucketStart,
+    origin,
+    count,
+  }));
+
+  if (sources.overflow > 0) {
+    increments.push({ key, bucketStart, origin: null, count: sources.overflow });
+  }
+
+  return increments;
+};
+
+/**
+ * Buffer write-behind de incrementos dos contadores
+ * Agrega incrementos em memória e os grava periodicamente (ou ao atingir
+ * o limite de pendências) com um único $inc por contador e por bucket.
+ * Habilitado por COUNTER_BUFFER_ENABLED; o flush final ocorre no graceful shutdown
+ */
+export class AccessCounterBuffer {
+  private static pending = new Map<string, PendingCounter>();
+  private static pendingIncrements = 0;
+  private static knownCounts = new Map<string, number>();
+  private static timer: NodeJS.Timeout | null = null;
+  private static flushing: Promise<number> | null = null;
+  private static stopped = false;
+
+  private static metrics = {
+    bufferedTotal: 0,
+    flushedTotal: 0,
+    flushCount: 0,
+    failedFlushes: 0,
+    lastFlushAt: null as Date | null,
+    lastFlushDurationMs: null as number | null,
+  };
+
+  /**
+   * Indica se os incrementos devem passar pelo buffer
+   */
+  public static isActive(): boolean {
+    return config.counterBuffer.enabled && !this.stopped;
+  }
+
+  /**
+   * Agenda o flush periódico
+   */
+  public static start(): void {
+    if (!config.counterBuffer.enabled || this.timer) {
+      return;
+    }
+
+    this.stopped = false;
+    this.timer = setInterval(() => {
+      void this.flush();
+    }, config.counterBuffer.flushIntervalMs);
+
+    // Não impede o encerramento do processo
+    this.timer.unref();
+
+    Logger.info('📥 Buffer de incrementos habilitado', {
+      flushIntervalMs: config.counterBuffer.flushIntervalMs,
+      maxPending: config.counterBuffer.maxPending,
+    });
+  }
+
+  /**
+   * Para o flush periódico e grava os incrementos pendentes
+   * Após a parada, novos incrementos são gravados diretamente no banco
+   */
+  public static async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    this.stopped = true;
+
+    const flushed = await this.flush();
+
+    if (flushed > 0) {
+      Logger.info('📤 Incrementos pendentes gravados no encerramento', { flushed });
+    }
+  }
+
+  /**
+   * Adiciona um incremento ao buffer
+   * Retorna o total estimado do contador (último valor conhecido + pendentes)
+   */
+  public static async add(
+    key: string,
+    namespace: string,
+    visitor?: HllRegister,
+    dimensions?: IAccessDimensions,
+    origin?: IAccessOrigin,
+    at: Date = new Date()
+  ): Promise<{ count: number; lastUpdated: Date }> {
+    const entry = this.getEntry(key, namespace, at);
+
+    entry.count++;
+    entry.lastUpdated = at;
+    mergeRegister(entry.hll, visitor);
+
+    for (const granularity of Object.values(HistoryGranularity)) {
+      const bucketStart = truncateToBucket(at, granularity);
+      const bucketKey = `${granularity}|${bucketStart.getTime()}`;
+      let bucket = entry.buckets.get(bucketKey);
+
+      if (!bucket) {
+        bucket = { key, granularity, bucketStart, count: 0, hll: {} };
+        entry.buckets.set(bucketKey, bucket);
+      }
+
+      bucket.count++;
+      mergeRegister(bucket.hll, visitor);
+    }
+
+    if (dimensions && AccessBreakdownService.isEnabled()) {
+      for (const increment of AccessBreakdownService.buildIncrements(key, dimensions, at)) {
+        const breakdownKey = `${increment.dimension}|${increment.granularity}|${increment.bucketStart.getTime()}`;
+        let breakdown = entry.breakdowns.get(breakdownKey);
+
+        if (!breakdown) {
+          const { granularity, bucketStart, dimension } = increment;
+          breakdown = { key, granularity, bucketStart, dimension, values: new Map(), overflow: 0 };
+          entry.breakdowns.set(breakdownKey, breakdown);
+        }
+
+        addBreakdownValue(breakdown, increment.value, increment.count);
+      }
+    }
+
+    if (origin && AccessSourceService.isEnabled()) {
+      const { bucketStart } = AccessSourceService.buildIncrement(key, origin, at);
+      const sourcesKey = String(bucketStart.getTime());
+      let sources = entry.sources.get(sourcesKey);
+
+      if (!sources) {
+        sources = { key, bucketStart, origins: new Map(), overflow: 0 };
+        entry.sources.set(sourcesKey, sources);
+      }
+
+      addSourceOrigin(sources, origin, 1);
+    }
+
+    this.pendingIncrements++;
+    this.metrics.bufferedTotal++;
+
+    if (this.pendingIncrements >= config.counterBuffer.maxPending) {
+      void this.flush();
+    }
+
+    const persisted = await this.getKnownCount(key);
+
+    return { count: persisted + this.pendingFor(key), lastUpdated: at };
+  }
+
+  /**
+   * Adiciona ao buffer um acesso de bot contado à parte (política "separate")
+   * Retorna o total estimado de acessos humanos, que não é alterado
+   */
+  public static async addBot(
+    key: string,
+    namespace: string,
+    at: Date = new Date()
+  ): Promise<{ count: number; lastUpdated: Date }> {
+    const entry = this.getEntry(key, namespace, at);
+
+    entry.botCount++;
+    entry.lastUpdated = at;
+
+    this.pendingIncrements++;
+    this.metrics.bufferedTotal++;
+
+    if (this.pendingIncrements >= config.counterBuffer.maxPending) {
+      void this.flush();
+    }
+
+    const persisted = await this.getKnownCount(key);
+
+    return { count: persisted + this.pendingFor(key), lastUpdated: at };
+  }
+
+  /**
+   * Número de incrementos ainda não gravados de um contador
+   */
+  public static pendingFor(key: string): number {
+    return this.pending.get(key)?.count ?? 0;
+  }
+
+  /**
+   * Número de acessos de bots ainda não gravados de um contador
+   */
+  public static pendingBotsFor(key: string): number {
+    return this.pending.get(key)?.botCount ?? 0;
+  }
+
+  /**
+   * Descarta os incrementos pendentes de um contador (ex.: antes de um reset)
+   * Retorna os incrementos descartados, se houver
+   */
+  public static discard(key: string): ICounterIncrement | undefined {
+    const entry = this.pending.get(key);
+
+    if (entry) {
+      this.pendingIncrements -= entry.count + entry.botCount;
+      this.pending.delete(key);
+    }
+
+    this.knownCounts.delete(key);
+
+    return entry;
+  }
+
+  /**
+   * Grava todos os incrementos pendentes no banco
+   * Flushes concorrentes são serializados; em caso de falha os incrementos
+   * voltam para o buffer e são gravados no próximo flush
+   */
+  public static async flush(): Promise<number> {
+    if (this.flushing) {
+      await this.flushing;
+    }
+
+    if (this.pending.size === 0) {
+      return 0;
+    }
+
+    this.flushing = this.writePending();
+
+    try {
+      return await this.flushing;
+    } finally {
+      this.flushing = null;
+    }
+  }
+
+  /**
+   * Métricas de incrementos bufferizados vs. gravados
+   */
+  public static getMetrics(): ICounterBufferMetrics {
+    return {
+      enabled: this.isActive(),
+      pendingIncrements: this.pendingIncrements,
+      pendingKeys: this.pending.size,
+      ...this.metrics,
+    };
+  }
+
+  /**
+   * Troca o buffer atual por um vazio e grava o snapshot
+   * Cada etapa (contadores, buckets, dimensões e origens) devolve ao buffer apenas
+   * as operações que não foram gravadas; repetir as demais somaria os totais de novo
+   */
+  private static async writePending(): Promise<number> {
+    const snapshot = this.pending;
+    const startedAt = Date.now();
+
+    this.pending = new Map();
+    this.pendingIncrements = 0;
+
+    const counters = Array.from(snapshot.values());
+    const failed = new Map<string, PendingCounter>();
+    const errors: unknown[] = [];
+
+    const failedEntry = (key: string): PendingCounter => {
+      let entry = failed.get(key);
+
+      if (!entry) {
+        const { namespace, lastUpdated } = snapshot.get(key)!;
+        entry = createEntry(key, namespace, lastUpdated);
+        failed.set(key, entry);
+      }
+
+      return entry;
+    };
+
+    const counterIncrements: ICounterIncrement[] = counters
+      .filter(entry => entry.count > 0 || entry.botCount > 0)
+      .map(({ key, namespace, count, botCount, lastUpdated, hll }) => ({
+        key,
+        namespace,
+        count,
+        botCount,
+        lastUpdated,
+        hll,
+      }));
+
+    const failedCounters = await this.writeStage(
+      counterIncrements,
+      increments => AccessCounter.applyIncrements(increments),
+      errors
+    );
+
+    for (const { key, count, botCount, hll } of failedCounters) {
+      Object.assign(failedEntry(key), { count, botCount, hll });
+    }
+
+    const failedBuckets = await this.writeStage(
+      counters.flatMap(entry => Array.from(entry.buckets.values())),
+      increments => AccessBucket.applyIncrements(increments),
+      errors
+    );
+
+    for (const bucket of failedBuckets) {
+      failedEntry(bucket.key).buckets.set(`${bucket.granularity}|${bucket.bucketStart.getTime()}`, bucket);
+    }
+
+    const failedBreakdowns = await this.writeStage(
+      counters.flatMap(entry => Array.from(entry.breakdowns.values()).flatMap(toBreakdownIncrements)),
+      increments => AccessBreakdownService.applyIncrements(increments),
+      errors
+    );
+
+    for (const increment of failedBreakdowns) {
+      const { key, granularity, bucketStart, dimension } = increment;
+      const breakdowns = failedEntry(key).breakdowns;
+      const breakdownKey = `${dimension}|${granularity}|${bucketStart.getTime()}`;
+      let breakdown = breakdowns.get(breakdownKey);
+
+      if (!breakdown) {
+        breakdown = { key, granularity, bucketStart, dimension, values: new Map(), overflow: 0 };
+        breakdowns.set(breakdownKey, breakdown);
+      }
+
+      addBreakdownValue(breakdown, increment.value, increment.count);
+    }
+
+    const failedSources = await this.writeStage(
+      counters.flatMap(entry => Array.from(entry.sources.values()).flatMap(toSourceIncrements)),
+      increments => AccessSourceService.applyIncrements(increments),
+      errors
+    );
+
+    for (const increment of failedSources) {
+      const { key, bucketStart } = increment;
+      const sourcesByMinute = failedEntry(key).sources;
+      const sourcesKey = String(bucketStart.getTime());
+      let sources = sourcesByMinute.get(sourcesKey);
+
+      if (!sources) {
+        sources = { key, bucketStart, origins: new Map(), overflow: 0 };
+        sourcesByMinute.set(sourcesKey, sources);
+      }
+
+      if (increment.origin) {
+        addSourceOrigin(sources, increment.origin, increment.count);
+      } else {
+        sources.overflow += increment.count;
+      }
+    }
+
+    const unsaved = new Set(failedCounters.map(({ key }) => key));
+    let persisted = 0;
+
+    for (const { key, count, botCount } of counterIncrements) {
+      if (unsaved.has(key)) {
+        continue;
+      }
+
+      persisted += count + botCount;
+
+      const known = this.knownCounts.get(key);
+      if (known !== undefined) {
+        this.knownCounts.set(key, known + count);
+      }
+    }
+
+    this.metrics.flushedTotal += persisted;
+
+    if (errors.length > 0) {
+      this.metrics.failedFlushes++;
+      this.restore(failed);
+      Logger.error('Erro ao gravar buffer de incrementos', { errors, persisted, pendingKeys: failed.size });
+      return persisted;
+    }
+
+    this.metrics.flushCount++;
+    this.metrics.lastFlushAt = new Date();
+    this.metrics.lastFlushDurationMs = Date.now() - startedAt;
+
+    Logger.debug('Buffer de incrementos gravado', { increments: persisted, keys: counters.length });
+
+    return persisted;
+  }
+
+  /**
+   * Grava uma etapa do flush e retorna os itens que não foram persistidos
+   * Em um bulkWrite não ordenado só falharam as operações listadas em writeErrors;
+   * nos demais erros (ex.: falha de conexão) a etapa inteira volta ao buffer
+   */
+  private static async writeStage<T>(
+    items: T[],
+    write: (items: T[]) => Promise<void>,
+    errors: unknown[]
+  ): Promise<T[]> {
+    if (items.length === 0) {
+      return [];
+    }
+
+    try {
+      await write(items);
+      return [];
+    } catch (error) {
+      errors.push(error);
+
+      if ((error as any)?.name === 'MongoBulkWriteError') {
+        const failedIndexes = new Set(
+          ((error as any).writeErrors ?? []).map((writeError: { index: number }) => writeError.index)
+        );
+        return items.filter((_, index) => failedIndexes.has(index));
+      }
+
+      return items;
+    }
+  }
+
+  /**
+   * Devolve ao buffer os incrementos de um flush que falhou
+   */
+  private static restore(snapshot: Map<string, PendingCounter>): void {
+    for (const entry of snapshot.values()) {
+      this.pendingIncrements += entry.count + entry.botCount;
+
+      const current = this.pending.get(entry.key);
+      if (!current) {
+        this.pending.set(entry.key, entry);
+        continue;
+      }
+
+      current.count += entry.count;
+      current.botCount += entry.botCount;
+      current.lastUpdated = current.lastUpdated > entry.lastUpdated ? current.lastUpdated : entry.lastUpdated;
+      for (const [index, rank] of Object.entries(entry.hll)) {
+        mergeRegister(current.hll, { index: Number(index), rank });
+      }
+
+      for (const [bucketKey, bucket] of entry.buckets) {
+        const existing = current.buckets.get(bucketKey);
+        if (!existing) {
+          current.buckets.set(bucketKey, bucket);
+          continue;
+        }
+
+        existing.count += bucket.count;
+        for (const [index, rank] of Object.entries(bucket.hll)) {
+          mergeRegister(existing.hll, { index: Number(index), rank });
+        }
+      }
+
+      for (const [breakdownKey, breakdown] of entry.breakdowns) {
+        const existing = current.breakdowns.get(breakdownKey);
+        if (!existing) {
+          current.breakdowns.set(breakdownKey, breakdown);
+          continue;
+        }
+
+        for (const [value, count] of breakdown.values) {
+          addBreakdownValue(existing, value, count);
+        }
+        existing.overflow += breakdown.overflow;
+      }
+
+      for (const [sourcesKey, sources] of entry.sources) {
+        const existing = current.sources.get(sourcesKey);
+        if (!existing) {
+          current.sources.set(sourcesKey, sources);
+          continue;
+        }
+
+        for (const { origin, count } of sources.origins.values()) {
+          addSourceOrigin(existing, origin, count);
+        }
+        existing.overflow += sources.overflow;
+      }
+    }
+  }
+
+  /**
+   * Obtém (ou cria) os incrementos pendentes de um contador
+   */
+  private static getEntry(key: string, namespace: string, at: Date): PendingCounter {
+    let entry = this.pending.get(key);
+
+    if (!entry) {
+      entry = createEntry(key, namespace, at);
+      this.pending.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  /**
+   * Obtém o último total gravado de um contador
+   * Consulta o banco apenas na primeira vez que a chave é vista
+   */
+  private static async getKnownCount(key: string): Promise<number> {
+    const known = this.knownCounts.get(key);
+
+    if (known !== undefined) {
+      return known;
+    }
+
+    const counter = await AccessCounter.getCurrentCount(key);
+    const persisted = counter?.count ?? 0;
+
+    if (this.knownCounts.size >= MAX_KNOWN_COUNTS) {
+      this.knownCounts.clear();
+    }
+
+    this.knownCounts.set(key, persisted);
+    return persisted;
+  }
+}
@@ -1,73 +1,241 @@
-import { AccessCounter, IAccessCounterDocument } from '../models';
-import { IAccessCounterResponse } from '../types';
-import { Logger } from '../utils';
+import {
+  AccessCounter,
+  CounterEvent,
+  DEFAULT_COUNTER_KEY,
+  DEFAULT_COUNTER_NAMESPACE,
+  PRIMARY_SHARD,
+} from '../models';
+import {
+  BotPolicy,
+  CounterEventType,
+  CounterLogOperation,
+  CounterVisibility,
+  IAccessCounterResponse,
+  IAccessCounterSummary,
+  IAuthenticatedUser,
+  IAccessDimensions,
+  IAccessOrigin,
+  IBotClassification,
+  ICounterAdjustment,
+  ICounterBufferMetrics,
+  ICounterEventSourcing,
+  ICounterResetSchedule,
+  PaginatedResponse,
+  ResetPeriod,
+} from '../types';
+import {
+  Logger,
+  estimateCardinality,
+  hllRegisterFor,
+  isValidTimeZone,
+  mergeHllRegisters,
+  nextPeriodStart,
+  normalizeOrigin,
+} from '../utils';
 import { AppError } from '../middleware';
+import { AccessHistoryService } from './AccessHistoryService';
+import { AccessBreakdownService } from './AccessBreakdownService';
+import { AccessSourceService } from './AccessSourceService';
+import { AccessCounterBuffer } from './AccessCounterBuffer';
+import { RealtimeService } from './RealtimeService';
+import { CounterLogService } from './CounterLogService';
+import { UserService } from './UserService';
+import { config } from '../config/environment';
 
 /**
- * Service para gerenciamento do contador de acessos
- * Implementa lógica de negócio e abstrai acesso aos dados
+ * Service para gerenciamento dos contadores de acessos
+ * Implementa lógica de negócio e abstrai acesso aos dados.
+ * Todos os métodos operam sobre o contador padrão quando nenhuma chave é informada
  */
 export class AccessCounterService {
   /**
    * Incrementa o contador de acessos de forma atômica
-   * Garante consistência mesmo com múltiplas requisições simultâneas
+   * Garante consistência mesmo com múltiplas requisições simultâneas.
+   * O fingerprint do visitante, quando informado, alimenta a estimativa
+   * de visitantes únicos do contador e dos buckets de histórico.
+   * As dimensões (referrer, caminho, navegador...) alimentam a segmentação do tráfego
+   * e a origem (IP e User-Agent), a investigação de anomalias.
+   * Acessos classificados como bot seguem a política de bots do contador
    */
-  public static async incrementAccess(): Promise<IAccessCounterResponse> {
+  public static async incrementAccess(
+    key: string = DEFAULT_COUNTER_KEY,
+    namespace: string = DEFAULT_COUNTER_NAMESPACE,
+    visitorFingerprint?: string,
+    dimensions?: IAccessDimensions,
+    bot?: IBotClassification,
+    origin?: IAccessOrigin
+  ): Promise<IAccessCounterResponse> {
     try {
-      Logger.debug('Incrementando contador de acessos');
-      
-      const counter = await AccessCounter.incrementCounter();
-      
+      Logger.debug('Incrementando contador de acessos', { key });
+
+      if (bot?.isBot) {
+        const policy = await this.getBotPolicy(key);
+
+        if (policy !== BotPolicy.COUNT) {
+          return await this.recordBotAccess(key, namespace, policy, bot);
+        }
+      }
+
+      const visitor = visitorFingerprint ? hllRegisterFor(visitorFingerprint) : undefined;
+      const eventSourced = await CounterLogService.getState(key);
+
+      // Modo write-behind: o incremento é agregado em memória e gravado em lote.
+      // Contadores event-sourced não passam pelo buffer: cada incremento vai para o log
+      if (AccessCounterBuffer.isActive() && !eventSourced) {
+        const buffered = await AccessCounterBuffer.add(key, namespace, visitor, dimensions, origin);
+
+        RealtimeService.publish({ key, namespace, count: buffered.count, lastUpdated: buffered.lastUpdated });
+
+        return {
+          key,
+          namespace,
+          count: buffered.count,
+          lastUpdated: buffered.lastUpdated,
+          buffered: true,
+        };
+      }
+
+      const counter = await AccessCounter.incrementCounter(key, namespace, visitor);
+
       if (!counter) {
         throw new AppError('Erro ao incrementar contador de acessos', 500);
       }
 
-      Logger.info('Contador de acessos incrementado', { 
+      // Gravado após a projeção: um incremento que falhou nunca entra no log, e uma
+      // falha aqui deixa a projeção adiantada até o próximo rebuild, que a corrige
+      if (eventSourced) {
+        await CounterLogService.append(key, CounterLogOperation.INCREMENT, { delta: 1 });
+      }
+
+      // Registra o incremento nos buckets de histórico (minuto/hora/dia/mês)
+      await AccessHistoryService.recordIncrement(counter.key, counter.lastUpdated, 1, visitor);
+
+      if (dimensions) {
+        await AccessBreakdownService.recordIncrement(counter.key, dimensions, counter.lastUpdated);
+      }
+
+      if (origin) {
+        await AccessSourceService.recordIncrement(counter.key, origin, counter.lastUpdated);
+      }
+
+      RealtimeService.publish({
+        key: counter.key,
+        namespace: counter.namespace,
+        count: counter.count,
+        lastUpdated: counter.lastUpdated,
+      });
+
+      Logger.info('Contador de acessos incrementado', {
+        key,
         newCount: counter.count,
-        lastUpdated: counter.lastUpdated 
+        lastUpdated: counter.lastUpdated
       });
 
       return {
+        key: counter.key,
+        namespace: counter.namespace,
         count: counter.count,
         lastUpdated: counter.lastUpdated,
       };
     } catch (error) {
       Logger.error('Erro ao incrementar contador de acessos', error);
-      
+
       if (error instanceof AppError) {
         throw error;
       }
-      
+
+      if ((error as any).name === 'ValidationError') {
+        throw new AppError('Chave ou namespace do contador inválido', 400);
+      }
+
       throw new AppError('Erro interno ao incrementar contador', 500);
     }
   }
 
+  /**
+   * Política de bots efetiva do contador (a do contador ou BOT_DEFAULT_POLICY)
+   */
+  public static async getBotPolicy(key: string = DEFAULT_COUNTER_KEY): Promise<BotPolicy> {
+    return (await AccessCounter.getBotPolicy(key)) ?? config.bots.defaultPolicy;
+  }
+
+  /**
+   * Registra um acesso de bot conforme a política do contador
+   * "ignore" não grava nada; "separate" soma apenas em botCount, sem histórico,
+   * segmentação, visitantes únicos ou notificação em tempo real
+   */
+  private static async recordBotAccess(
+    key: string,
+    namespace: string,
+    policy: BotPolicy,
+    bot: IBotClassification
+  ): Promise<IAccessCounterResponse> {
+    Logger.debug('Acesso de bot detectado', { key, policy, ...bot });
+
+    if (policy === BotPolicy.IGNORE) {
+      return { ...(await this.getCurrentCount(key)), bot: true };
+    }
+
+    if (AccessCounterBuffer.isActive()) {
+      const buffered = await AccessCounterBuffer.addBot(key, namespace);
+
+      return {
+        key,
+        namespace,
+        count: buffered.count,
+        lastUpdated: buffered.lastUpdated,
+        buffered: true,
+        bot: true,
+      };
+    }
+
+    const counter = await AccessCounter.incrementBotCounter(key, namespace);
+
+    return {
+      key: counter.key,
+      namespace: counter.namespace,
+      count: counter.count,
+      lastUpdated: counter.lastUpdated,
+      bot: true,
+    };
+  }
+
   /**
    * Obtém o contador atual de acessos
-   * Retorna 0 se nenhum contador existir ainda
+   * Retorna 0 se o contador ainda não existir
    */
-  public static async getCurrentCount(): Promise<IAccessCounterResponse> {
+  public static async getCurrentCount(
+    key: string = DEFAULT_COUNTER_KEY
+  ): Promise<IAccessCounterResponse> {
     try {
-      Logger.debug('Obtendo contador atual de acessos');
-      
-      const counter = await AccessCounter.getCurrentCount();
-      
-      // Se não existe contador ainda, retorna 0
+      Logger.debug('Obtendo contador atual de acessos', { key });
+
+      const counter = await AccessCounter.getCurrentCount(key);
+
+      // Incrementos ainda no buffer também são contabilizados
+      const pending = AccessCounterBuffer.pendingFor(key);
+
+      // Se não existe contador ainda, retorna apenas os pendentes
       if (!counter) {
-        Logger.info('Nenhum contador encontrado, retornando 0');
+        Logger.info('Nenhum contador encontrado, retornando 0', { key });
         return {
-          count: 0,
+          key,
+          namespace: DEFAULT_COUNTER_NAMESPACE,
+          count: pending,
           lastUpdated: new Date(),
         };
       }
 
-      Logger.debug('Contador obtido com sucesso', { 
+      Logger.debug('Contador obtido com sucesso', {
+        key,
         count: counter.count,
-        lastUpdated: counter.lastUpdated 
+        lastUpdated: counter.lastUpdated
       });
 
       return {
-        count: counter.count,
+        key: counter.key,
+        namespace: counter.namespace,
+        count: counter.count + pending,
         lastUpdated: counter.lastUpdated,
       };
     } catch (error) {
@@ -77,71 +245,381 @@ export class AccessCounterService {
   }
 
   /**
-   * Reseta o contador para 0
-   * Útil para manutenção e testes
+   * Obtém o valor de um contador event-sourced em um instante passado
+   * O valor é reproduzido a partir do log de operações
    */
-  public static async resetCounter(): Promise<IAccessCounterResponse> {
+  public static async getCountAt(key: string = DEFAULT_COUNTER_KEY, at: Date): Promise<IAccessCounterResponse> {
     try {
-      Logger.warn('Resetando contador de acessos');
-      
-      const counter = await AccessCounter.resetCounter();
-      
+      Logger.debug('Obtendo valor histórico do contador', { key, at });
+
+      const counter = await AccessCounter.getCurrentCount(key);
+
       if (!counter) {
-        throw new AppError('Erro ao resetar contador de acessos', 500);
+        throw new AppError('Contador não encontrado', 404);
       }
 
-      Logger.info('Contador de acessos resetado com sucesso');
+      const { count, lastUpdated } = await CounterLogService.valueAt(key, at);
+
+      return { key: counter.key, namespace: counter.namespace, count, lastUpdated, at };
+    } catch (error) {
+      Logger.error('Erro ao obter valor histórico do contador', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao obter valor histórico do contador', 500);
+    }
+  }
+
+  /**
+   * Reconstrói a projeção de um contador event-sourced a partir do log
+   * A reconstrução é registrada na trilha de auditoria com o total anterior
+   */
+  public static async rebuildCounter(
+    key: string,
+    audit: { actor?: IAuthenticatedUser } = {}
+  ): Promise<IAccessCounterResponse> {
+    try {
+      Logger.warn('Reconstruindo contador a partir do log', { key, actorId: audit.actor?.id });
+
+      const { previousCount } = await CounterLogService.rebuild(key);
+      const counter = await AccessCounter.getCurrentCount(key);
+
+      if (!counter) {
+        throw new AppError('Contador não encontrado', 404);
+      }
+
+      await CounterEvent.create({
+        key,
+        type: CounterEventType.REBUILD,
+        previousCount,
+        previousBotCount: counter.botCount,
+        actorId: audit.actor?.id ?? null,
+        actorEmail: audit.actor?.email ?? null,
+        reason: 'Projeção reconstruída a partir do log',
+      });
+
+      RealtimeService.publish({
+        key: counter.key,
+        namespace: counter.namespace,
+        count: counter.count,
+        lastUpdated: counter.lastUpdated,
+      });
 
       return {
+        key: counter.key,
+        namespace: counter.namespace,
         count: counter.count,
         lastUpdated: counter.lastUpdated,
+        previousCount,
+      };
+    } catch (error) {
+      Logger.error('Erro ao reconstruir contador', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao reconstruir contador', 500);
+    }
+  }
+
+  /**
+   * Lista contadores, opcionalmente filtrando por namespace
+   * access restringe a listagem aos contadores visíveis (ver CounterAccessService.readableFilter)
+   */
+  public static async listCounters(
+    namespace?: string,
+    page: number = 1,
+    limit: number = 10,
+    access: Record<string, unknown> | null = null
+  ): Promise<{
+    counters: IAccessCounterResponse[];
+    pagination: PaginatedResponse<IAccessCounterResponse>['pagination'];
+  }> {
+    try {
+      Logger.debug('Listando contadores', { namespace, page, limit });
+
+      const skip = (page - 1) * limit;
+      const { counters, total } = await AccessCounter.listSummaries(namespace, skip, limit, access);
+
+      const pages = Math.ceil(total / limit);
+
+      return {
+        counters: counters.map(counter => ({
+          key: counter.key,
+          namespace: counter.namespace,
+          count: counter.count + AccessCounterBuffer.pendingFor(counter.key),
+          lastUpdated: counter.lastUpdated,
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          pages,
+          hasNext: page < pages,
+          hasPrev: page > 1,
+        },
+      };
+    } catch (error) {
+      Logger.error('Erro ao listar contadores', error);
+      throw new AppError('Erro interno ao listar contadores', 500);
+    }
+  }
+
+  /**
+   * Reseta o contador para 0
+   * O reset é registrado na trilha de auditoria (counter_events) com o valor
+   * anterior, o usuário responsável e o motivo informado
+   */
+  public static async resetCounter(
+    key: string = DEFAULT_COUNTER_KEY,
+    audit: { actor?: IAuthenticatedUser; reason?: string } = {}
+  ): Promise<IAccessCounterResponse> {
+    try {
+      Logger.warn('Resetando contador de acessos', { key, actorId: audit.actor?.id, reason: audit.reason });
+
+      const { counter, previous } = await this.applyReset(key);
+
+      await CounterEvent.create({
+        key: counter.key,
+        type: CounterEventType.RESET,
+        previousCount: previous.count,
+        previousBotCount: previous.botCount,
+        actorId: audit.actor?.id ?? null,
+        actorEmail: audit.actor?.email ?? null,
+        reason: audit.reason ?? null,
+      });
+
+      Logger.info('Contador de acessos resetado com sucesso', { key, previousCount: previous.count });
+
+      return {
+        key: counter.key,
+        namespace: counter.namespace,
+        count: counter.count,
+        lastUpdated: counter.lastUpdated,
+        previousCount: previous.count,
       };
     } catch (error) {
       Logger.error('Erro ao resetar contador de acessos', error);
-      
+
       if (error instanceof AppError) {
         throw error;
       }
-      
+
       throw new AppError('Erro interno ao resetar contador', 500);
     }
   }
 
+  /**
+   * Ajusta manualmente o total de um contador (correções, importação de totais
+   * legados e incrementos em lote de coletores de borda)
+   * Apenas incrementos em lote (by) entram no histórico, pois representam acessos;
+   * delta e value corrigem somente o total. O total nunca fica negativo e todo
+   * ajuste é registrado na trilha de auditoria com o motivo informado
+   */
+  public static async adjustCounter(
+    key: string,
+    adjustment: ICounterAdjustment,
+    audit: { actor?: IAuthenticatedUser; reason: string }
+  ): Promise<IAccessCounterResponse> {
+    const { delta, value, by } = adjustment;
+
+    if ([delta, value, by].filter(field => field !== undefined).length !== 1) {
+      throw new AppError('Informe exatamente um entre delta, value e by', 400);
+    }
+
+    if (delta !== undefined && (!Number.isInteger(delta) || delta === 0)) {
+      throw new AppError('delta deve ser um inteiro diferente de zero', 400);
+    }
+
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      throw new AppError('value deve ser um inteiro não negativo', 400);
+    }
+
+    if (by !== undefined && (!Number.isInteger(by) || by < 1)) {
+      throw new AppError('by deve ser um inteiro positivo', 400);
+    }
+
+    if (!audit.reason?.trim()) {
+      throw new AppError('Motivo do ajuste é obrigatório', 400);
+    }
+
+    try {
+      Logger.warn('Ajustando contador de acessos', { key, adjustment, actorId: audit.actor?.id, reason: audit.reason });
+
+      // delta e by partem do total gravado: os incrementos pendentes no buffer são
+      // gravados antes, para que o total anterior registrado na auditoria seja o real
+      if (value === undefined && AccessCounterBuffer.pendingFor(key) > 0) {
+        await AccessCounterBuffer.flush();
+
+        if (AccessCounterBuffer.pendingFor(key) > 0) {
+          throw new AppError('Não foi possível gravar os incrementos pendentes, tente novamente', 503);
+        }
+      }
+
+      const before = await this.getCurrentCount(key);
+      let counter: IAccessCounterSummary | null;
+      let applied: number;
+
+      if (value !== undefined) {
+        // O novo total substitui também os incrementos pendentes no buffer
+        AccessCounterBuffer.discard(key);
+        counter = await AccessCounter.overwriteCount(key, value);
+        applied = value - before.count;
+      } else {
+        applied = (by ?? delta)!;
+        counter = await AccessCounter.adjustCounter(key, applied);
+      }
+
+      if (!counter) {
+        throw new AppError('Ajuste deixaria o contador negativo', 400);
+      }
+
+      // Gravado logo após a projeção, que pode recusar o ajuste (valores negativos),
+      // e antes das demais gravações, cuja falha não deve deixar o log para trás
+      if (await CounterLogService.getState(key)) {
+        if (value !== undefined) {
+          await CounterLogService.append(key, CounterLogOperation.ADJUSTMENT, { value });
+        } else {
+          const operation = by !== undefined
+            ? CounterLogOperation.INCREMENT
+            : applied < 0 ? CounterLogOperation.DECREMENT : CounterLogOperation.ADJUSTMENT;
+          await CounterLogService.append(key, operation, { delta: applied });
+        }
+      }
+
+      if (by !== undefined) {
+        await AccessHistoryService.recordIncrement(key, counter.lastUpdated, by);
+      }
+
+      await CounterEvent.create({
+        key,
+        type: by !== undefined ? CounterEventType.BULK_INCREMENT : CounterEventType.ADJUSTMENT,
+        previousCount: before.count,
+        previousBotCount: counter.botCount,
+        delta: applied,
+        actorId: audit.actor?.id ?? null,
+        actorEmail: audit.actor?.email ?? null,
+        reason: audit.reason,
+      });
+
+      const count = counter.count + AccessCounterBuffer.pendingFor(key);
+
+      RealtimeService.publish({ key, namespace: counter.namespace, count, lastUpdated: counter.lastUpdated });
+
+      Logger.info('Contador de acessos ajustado', { key, previousCount: before.count, count });
+
+      return {
+        key,
+        namespace: counter.namespace,
+        count,
+        lastUpdated: counter.lastUpdated,
+        previousCount: before.count,
+      };
+    } catch (error) {
+      Logger.error('Erro ao ajustar contador de acessos', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao ajustar contador', 500);
+    }
+  }
+
+  /**
+   * Zera o contador, descartando incrementos pendentes no buffer, e notifica
+   * os clientes em tempo real. Retorna os valores anteriores ao reset
+   * (incluindo os pendentes descartados) para auditoria e snapshots
+   */
+  public static async applyReset(key: string): Promise<{
+    counter: IAccessCounterSummary;
+    previous: { namespace: string; count: number; botCount: number; uniqueVisitors: number };
+  }> {
+    // Incrementos anteriores ao reset ainda não gravados também são zerados
+    const pending = AccessCounterBuffer.discard(key);
+    const { counter, previous } = await AccessCounter.resetCounter(key);
+
+    if (!counter) {
+      throw new AppError('Erro ao resetar contador de acessos', 500);
+    }
+
+    // Gravado após a projeção, como nos incrementos
+    if (await CounterLogService.getState(key)) {
+      await CounterLogService.append(key, CounterLogOperation.RESET, { value: 0 });
+    }
+
+    RealtimeService.publish({
+      key: counter.key,
+      namespace: counter.namespace,
+      count: counter.count,
+      lastUpdated: counter.lastUpdated,
+    });
+
+    return {
+      counter,
+      previous: {
+        namespace: previous?.namespace ?? counter.namespace,
+        count: (previous?.count ?? 0) + (pending?.count ?? 0),
+        botCount: (previous?.botCount ?? 0) + (pending?.botCount ?? 0),
+        uniqueVisitors: estimateCardinality(mergeHllRegisters(previous?.hll, pending?.hll)),
+      },
+    };
+  }
+
   /**
    * Obtém estatísticas do contador
    * Fornece informações adicionais sobre o uso
    */
-  public static async getStatistics(): Promise<{
+  public static async getStatistics(key: string = DEFAULT_COUNTER_KEY): Promise<{
+    key: string;
     count: number;
+    botCount: number;
+    botPolicy: BotPolicy;
+    uniqueVisitors: number;
+    shards?: number;
     lastUpdated: Date;
     averageAccessesPerDay?: number;
     createdAt?: Date;
   }> {
     try {
-      Logger.debug('Obtendo estatísticas do contador');
-      
-      const counter = await AccessCounter.findOne({});
-      
+      Logger.debug('Obtendo estatísticas do contador', { key });
+
+      const counter = await AccessCounter.getSummary(key);
+      const pending = AccessCounterBuffer.pendingFor(key);
+      const pendingBots = AccessCounterBuffer.pendingBotsFor(key);
+
       if (!counter) {
         return {
-          count: 0,
+          key,
+          count: pending,
+          botCount: pendingBots,
+          botPolicy: config.bots.defaultPolicy,
+          uniqueVisitors: 0,
           lastUpdated: new Date(),
         };
       }
 
       // Calcula média de acessos por dia se possível
       let averageAccessesPerDay: number | undefined;
-      
+
       if (counter.createdAt) {
         const daysSinceCreation = Math.max(
           1,
           Math.floor((Date.now() - counter.createdAt.getTime()) / (1000 * 60 * 60 * 24))
         );
-        averageAccessesPerDay = counter.count / daysSinceCreation;
+        averageAccessesPerDay = (counter.count + pending) / daysSinceCreation;
       }
 
       return {
-        count: counter.count,
+        key: counter.key,
+        count: counter.count + pending,
+        botCount: counter.botCount + pendingBots,
+        botPolicy: counter.botPolicy ?? config.bots.defaultPolicy,
+        uniqueVisitors: estimateCardinality(counter.hll),
+        shards: counter.shards,
         lastUpdated: counter.lastUpdated,
         averageAccessesPerDay,
         createdAt: counter.createdAt,
@@ -153,28 +631,261 @@ export class AccessCounterService {
   }
 
   /**
-   * Valida se o contador está em um estado consistente
+   * Grava imediatamente os incrementos pendentes do buffer
+   */
+  public static async flushBuffer(): Promise<number> {
+    return await AccessCounterBuffer.flush();
+  }
+
+  /**
+   * Métricas do buffer de incrementos
+   */
+  public static getBufferMetrics(): ICounterBufferMetrics {
+    return AccessCounterBuffer.getMetrics();
+  }
+
+  /**
+   * Migra o contador singleton legado para o contador padrão
+   * Executado na inicialização; idempotente
+   */
+  public static async migrateLegacyCounter(): Promise<void> {
+    try {
+      const migrated = await AccessCounter.migrateLegacyCounter();
+
+      if (migrated) {
+        Logger.info('Contador legado migrado para a chave padrão', { key: DEFAULT_COUNTER_KEY });
+      }
+    } catch (error) {
+      Logger.error('Erro ao migrar contador legado', error);
+      throw new AppError('Erro interno ao migrar contador legado', 500);
+    }
+  }
+
+  /**
+   * Migra contadores anteriores ao layout com shards
+   * Executado na inicialização; idempotente
+   */
+  public static async migrateShardLayout(): Promise<void> {
+    try {
+      const migrated = await AccessCounter.migrateShardLayout();
+
+      if (migrated > 0) {
+        Logger.info('Contadores migrados para o layout com shards', { count: migrated });
+      }
+    } catch (error) {
+      Logger.error('Erro ao migrar layout de shards dos contadores', error);
+      throw new AppError('Erro interno ao migrar layout de shards', 500);
+    }
+  }
+
+  /**
+   * Altera as configurações de um contador sem indisponibilidade
+   * Mais shards distribuem as escritas entre documentos diferentes;
+   * a política de bots define como acessos de bots são contabilizados;
+   * o reset agendado zera o contador a cada período (null remove o agendamento);
+   * o modo event-sourced registra as operações no log, permitindo consultas históricas;
+   * dono, visibilidade e origens permitidas definem quem lê e incrementa o contador
+   */
+  public static async updateSettings(
+    key: string,
+    settings: {
+      shards?: number;
+      botPolicy?: BotPolicy;
+      resetSchedule?: { period: ResetPeriod; timezone?: string } | null;
+      eventSourced?: boolean;
+      owner?: string | null;
+      visibility?: CounterVisibility;
+      allowedOrigins?: string[];
+    }
+  ): Promise<
+    IAccessCounterResponse & {
+      shards: number;
+      botPolicy: BotPolicy;
+      resetSchedule: ICounterResetSchedule | null;
+      eventSourcing: ICounterEventSourcing | null;
+      owner: string | null;
+      visibility: CounterVisibility;
+      allowedOrigins: string[];
+    }
+  > {
+    const { shards, botPolicy, resetSchedule, eventSourced, owner, visibility } = settings;
+    const allowedOrigins = settings.allowedOrigins?.map(origin => normalizeOrigin(origin));
+
+    if (botPolicy !== undefined && !Object.values(BotPolicy).includes(botPolicy)) {
+      throw new AppError(`Política de bots deve ser uma de: ${Object.values(BotPolicy).join(', ')}`, 400);
+    }
+
+    if (shards !== undefined && (!Number.isInteger(shards) || shards < 1 || shards > config.counterShards.maxShards)) {
+      throw new AppError(`Número de shards deve ser um inteiro entre 1 e ${config.counterShards.maxShards}`, 400);
+    }
+
+    if (resetSchedule) {
+      if (!Object.values(ResetPeriod).includes(resetSchedule.period)) {
+        throw new AppError(`Período do reset deve ser um de: ${Object.values(ResetPeriod).join(', ')}`, 400);
+      }
+
+      if (resetSchedule.timezone !== undefined && !isValidTimeZone(resetSchedule.timezone)) {
+        throw new AppError('Fuso horário do reset inválido', 400);
+      }
+    }
+
+    if (visibility !== undefined && !Object.values(CounterVisibility).includes(visibility)) {
+      throw new AppError(`Visibilidade deve ser uma de: ${Object.values(CounterVisibility).join(', ')}`, 400);
+    }
+
+    if (allowedOrigins !== undefined) {
+      if (allowedOrigins.length > config.counterAccess.maxAllowedOrigins) {
+        throw new AppError(`Informe no máximo ${config.counterAccess.maxAllowedOrigins} origens permitidas`, 400);
+      }
+
+      if (allowedOrigins.includes(null)) {
+        throw new AppError('Origens permitidas devem ter o formato https://dominio[:porta]', 400);
+      }
+    }
+
+    if (owner && !(await UserService.getUserDocumentById(owner))) {
+      throw new AppError('Usuário dono do contador não encontrado', 400);
+    }
+
+    try {
+      Logger.info('Atualizando configurações do contador', { key, settings });
+
+      if (shards !== undefined) {
+        await AccessCounter.setShardCount(key, shards);
+      }
+
+      if (resetSchedule !== undefined) {
+        const timezone = resetSchedule?.timezone ?? 'UTC';
+
+        await AccessCounter.setResetSchedule(
+          key,
+          resetSchedule && {
+            period: resetSchedule.period,
+            timezone,
+            nextResetAt: nextPeriodStart(new Date(), resetSchedule.period, timezone),
+          }
+        );
+      }
+
+      if (eventSourced !== undefined) {
+        await AccessCounter.setEventSourcing(key, eventSourced);
+      }
+
+      if (owner !== undefined || visibility !== undefined || allowedOrigins !== undefined) {
+        await AccessCounter.setAccessPolicy(key, {
+          owner,
+          visibility,
+          allowedOrigins: allowedOrigins && [...new Set(allowedOrigins as string[])],
+        });
+      }
+
+      const counter = botPolicy !== undefined
+        ? await AccessCounter.setBotPolicy(key, botPolicy)
+        : await AccessCounter.getCurrentCount(key);
+
+      if (!counter) {
+        throw new AppError('Contador não encontrado', 404);
+      }
+
+      return {
+        key: counter.key,
+        namespace: counter.namespace,
+        count: counter.count + AccessCounterBuffer.pendingFor(key),
+        lastUpdated: counter.lastUpdated,
+        shards: counter.shards,
+        botPolicy: counter.botPolicy ?? config.bots.defaultPolicy,
+        resetSchedule: counter.resetSchedule ?? null,
+        eventSourcing: counter.eventSourcing ?? null,
+        owner: counter.owner ?? null,
+        visibility: counter.visibility ?? config.counterAccess.defaultVisibility,
+        allowedOrigins: counter.allowedOrigins ?? [],
+      };
+    } catch (error) {
+      Logger.error('Erro ao atualizar configurações do contador', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao atualizar configurações do contador', 500);
+    }
+  }
+
+  /**
+   * Valida se os contadores estão em um estado consistente
    * Útil para verificações de integridade
    */
   public static async validateIntegrity(): Promise<boolean> {
     try {
-      const counters = await AccessCounter.find({});
-      
-      // Deve haver exatamente um contador
-      if (counters.length > 1) {
-        Logger.error('Múltiplos contadores encontrados', { count: counters.length });
+      // Documentos sem chave indicam contador legado não migrado
+      const unkeyed = await AccessCounter.countDocuments({ key: { $exists: false } });
+
+      if (unkeyed > 0) {
+        Logger.error('Contadores sem chave encontrados', { count: unkeyed });
         return false;
       }
-      
-      // Se existe um contador, deve ter valores válidos
-      if (counters.length === 1) {
-        const counter = counters[0];
-        if (counter.count < 0) {
-          Logger.error('Contador com valor negativo', { count: counter.count });
-          return false;
-        }
+
+      // Documentos sem shard indicam layout anterior não migrado
+      const unsharded = await AccessCounter.countDocuments({ shard: { $exists: false } });
+
+      if (unsharded > 0) {
+        Logger.error('Contadores sem shard encontrados', { count: unsharded });
+        return false;
+      }
+
+      // Cada par chave/shard deve ser único
+      const duplicatedShards = await AccessCounter.aggregate([
+        { $group: { _id: { key: '$key', shard: '$shard' }, total: { $sum: 1 } } },
+        { $match: { total: { $gt: 1 } } },
+      ]);
+
+      if (duplicatedShards.length > 0) {
+        Logger.error('Shards de contador duplicados', {
+          shards: duplicatedShards.map(entry => entry._id),
+        });
+        return false;
+      }
+
+      // Cada chave deve ter exatamente um shard principal, com número de
+      // shards dentro do limite, e nenhum shard fora do intervalo permitido
+      const invalidLayouts = await AccessCounter.aggregate([
+        {
+          $group: {
+            _id: '$key',
+            primaries: { $sum: { $cond: [{ $eq: ['$shard', PRIMARY_SHARD] }, 1, 0] } },
+            shards: { $max: { $cond: [{ $eq: ['$shard', PRIMARY_SHARD] }, { $ifNull: ['$shards', 1] }, 0] } },
+            maxShard: { $max: '$shard' },
+          },
+        },
+        {
+          $match: {
+            $or: [
+              { primaries: { $ne: 1 } },
+              { shards: { $lt: 1 } },
+              { shards: { $gt: config.counterShards.maxShards } },
+              { maxShard: { $gte: config.counterShards.maxShards } },
+            ],
+          },
+        },
+      ]);
+
+      if (invalidLayouts.length > 0) {
+        Logger.error('Contadores com layout de shards inválido', {
+          keys: invalidLayouts.map(entry => entry._id),
+        });
+        return false;
+      }
+
+      // Nenhum contador pode ter valor negativo
+      const negative = await AccessCounter.find({ count: { $lt: 0 } }).select('key count').lean();
+
+      if (negative.length > 0) {
+        Logger.error('Contador com valor negativo', {
+          counters: negative.map(counter => ({ key: counter.key, count: counter.count })),
+        });
+        return false;
       }
-      
+
       return true;
     } catch (error) {
       Logger.error('Erro ao validar integridade do contador', error);
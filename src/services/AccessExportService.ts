@@ -0,0 +1,425 @@
+import mongoose from 'mongoose';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  AccessBreakdown,
+  AccessBucket,
+  AccessExport,
+  BREAKDOWN_GRANULARITIES,
+  IAccessExportDocument,
+} from '../models';
+import {
+  AccessExportFormat,
+  AccessExportStatus,
+  HistoryGranularity,
+  IAccessBreakdown,
+  IAccessExportQuery,
+  IAccessExportResponse,
+  IAccessExportRow,
+  IAuthenticatedUser,
+} from '../types';
+import {
+  EXPORT_FORMATS,
+  EXPORT_OTHER_VALUE,
+  Logger,
+  countBuckets,
+  estimateCardinality,
+  exportFileName,
+  serializeExportRows,
+  truncateToBucket,
+} from '../utils';
+import { AppError } from '../middleware';
+import { hasPermission } from '../config/permissions';
+import { config } from '../config/environment';
+import { AccessHistoryService } from './AccessHistoryService';
+
+/**
+ * Bucket do GridFS com os arquivos das exportações em segundo plano
+ */
+const GRIDFS_BUCKET = 'exports';
+
+/**
+ * Tempo máximo de uma exportação em segundo plano antes de ser retomada por outra instância
+ */
+const EXPORT_LOCK_MS = 30 * 60 * 1000;
+
+/**
+ * Limite de exportações processadas por execução do job
+ */
+const MAX_EXPORTS_PER_RUN = 5;
+
+/**
+ * Documentos lidos do banco por lote durante a exportação
+ */
+const CURSOR_BATCH_SIZE = 1000;
+
+/**
+ * Tamanho aproximado de cada trecho escrito na resposta ou no arquivo
+ */
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Bucket do GridFS na conexão atual
+ */
+const exportFiles = () =>
+  new mongoose.mongo.GridFSBucket(mongoose.connection.db!, { bucketName: GRIDFS_BUCKET });
+
+/**
+ * Linhas de uma tabela de dimensão: os valores mais frequentes e o excedente em "other"
+ */
+function* dimensionRows(table: IAccessBreakdown): Generator<IAccessExportRow> {
+  const { key, granularity, bucketStart, dimension } = table;
+  const entries = [...table.entries].sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+
+  for (const { value, count } of entries) {
+    yield { key, granularity, bucketStart, dimension, value, count, uniqueVisitors: null };
+  }
+
+  if (table.other > 0) {
+    yield {
+      key,
+      granularity,
+      bucketStart,
+      dimension,
+      value: EXPORT_OTHER_VALUE,
+      count: table.other,
+      uniqueVisitors: null,
+    };
+  }
+}
+
+/**
+ * Agrupa trechos pequenos para reduzir o número de escritas
+ */
+async function* coalesce(source: AsyncIterable<string>): AsyncGenerator<string> {
+  let pending = '';
+
+  for await (const chunk of source) {
+    pending += chunk;
+
+    if (pending.length >= CHUNK_SIZE) {
+      yield pending;
+      pending = '';
+    }
+  }
+
+  if (pending) {
+    yield pending;
+  }
+}
+
+/**
+ * Converte uma exportação para o formato de resposta
+ */
+const toResponse = (job: IAccessExportDocument): IAccessExportResponse => {
+  const { _id, __v, requestedBy, file, lockedUntil, ...fields } = job.toObject();
+  const id = String(_id);
+
+  return {
+    id,
+    ...fields,
+    requestedBy: String(requestedBy),
+    downloadUrl: job.status === AccessExportStatus.COMPLETED ? `/api/access/exports/${id}/download` : null,
+  };
+};
+
+/**
+ * Service de exportação dos dados de acesso (CSV, NDJSON e JSON)
+ * Exporta os buckets do histórico e, nas granularidades hora e dia, as
+ * tabelas de dimensões. A exportação direta é transmitida enquanto é lida do
+ * banco; intervalos maiores são gerados em segundo plano e gravados no GridFS
+ */
+export class AccessExportService {
+  /**
+   * Resolve os parâmetros de uma exportação (mesmo intervalo padrão do histórico)
+   */
+  public static prepare(
+    key: string,
+    granularity: HistoryGranularity = HistoryGranularity.HOUR,
+    format: AccessExportFormat = AccessExportFormat.CSV,
+    from?: Date,
+    to?: Date
+  ): IAccessExportQuery {
+    const { start, end } = AccessHistoryService.resolveRange(granularity, from, to);
+
+    return { key, granularity, from: start, to: end, format };
+  }
+
+  /**
+   * Resolve os parâmetros de uma exportação direta
+   * Intervalos acima de EXPORT_MAX_SYNC_BUCKETS devem usar a exportação em segundo plano
+   */
+  public static prepareDirect(
+    key: string,
+    granularity?: HistoryGranularity,
+    format?: AccessExportFormat,
+    from?: Date,
+    to?: Date
+  ): IAccessExportQuery {
+    const query = this.prepare(key, granularity, format, from, to);
+
+    if (countBuckets(query.from, query.to, query.granularity) > config.exports.maxSyncBuckets) {
+      throw new AppError(
+        `Intervalo muito grande para exportação direta (máximo de ${config.exports.maxSyncBuckets} buckets); ` +
+          'use POST /api/access/exports',
+        400
+      );
+    }
+
+    return query;
+  }
+
+  /**
+   * Linhas da exportação em ordem cronológica: o total de cada bucket seguido
+   * das contagens das dimensões. Buckets sem acessos não são exportados
+   */
+  public static async *rows(query: IAccessExportQuery): AsyncGenerator<IAccessExportRow> {
+    const { key, granularity, from, to } = query;
+    const range = { key, granularity, bucketStart: { $gte: truncateToBucket(from, granularity), $lte: to } };
+
+    const buckets = AccessBucket.find(range)
+      .sort({ bucketStart: 1 })
+      .select('key granularity bucketStart count +hll')
+      .lean()
+      .cursor({ batchSize: CURSOR_BATCH_SIZE });
+
+    const tables = BREAKDOWN_GRANULARITIES.includes(granularity)
+      ? AccessBreakdown.find(range)
+          .sort({ bucketStart: 1, dimension: 1 })
+          .lean<IAccessBreakdown[]>()
+          .cursor({ batchSize: CURSOR_BATCH_SIZE })
+      : null;
+
+    try {
+      let table = tables ? await tables.next() : null;
+
+      for await (const bucket of buckets) {
+        // Tabelas de buckets sem total registrado vêm antes
+        while (table && table.bucketStart < bucket.bucketStart) {
+          yield* dimensionRows(table);
+          table = await tables!.next();
+        }
+
+        yield {
+          key,
+          granularity,
+          bucketStart: bucket.bucketStart,
+          dimension: null,
+          value: null,
+          count: bucket.count,
+          uniqueVisitors: estimateCardinality(bucket.hll),
+        };
+
+        while (table && table.bucketStart <= bucket.bucketStart) {
+          yield* dimensionRows(table);
+          table = await tables!.next();
+        }
+      }
+
+      while (table) {
+        yield* dimensionRows(table);
+        table = await tables!.next();
+      }
+    } finally {
+      await buckets.close();
+      await tables?.close();
+    }
+  }
+
+  /**
+   * Stream com a exportação serializada no formato escolhido
+   */
+  public static stream(query: IAccessExportQuery): Readable {
+    return Readable.from(coalesce(serializeExportRows(this.rows(query), query.format)));
+  }
+
+  /**
+   * Agenda uma exportação em segundo plano
+   */
+  public static async requestExport(
+    query: IAccessExportQuery,
+    user: IAuthenticatedUser
+  ): Promise<IAccessExportResponse> {
+    try {
+      const job = await AccessExport.create({ ...query, requestedBy: user.id });
+
+      Logger.info('Exportação de acessos agendada', { id: job.id, key: query.key, userId: user.id });
+
+      return toResponse(job);
+    } catch (error) {
+      Logger.error('Erro ao agendar exportação de acessos', error);
+      throw new AppError('Erro interno ao agendar exportação', 500);
+    }
+  }
+
+  /**
+   * Obtém o estado de uma exportação
+   */
+  public static async getExport(id: string, user: IAuthenticatedUser): Promise<IAccessExportResponse> {
+    return toResponse(await this.findAccessible(id, user));
+  }
+
+  /**
+   * Abre o arquivo de uma exportação concluída para download
+   */
+  public static async openDownload(
+    id: string,
+    user: IAuthenticatedUser
+  ): Promise<{ fileName: string; contentType: string; stream: Readable }> {
+    const job = await this.findAccessible(id, user);
+
+    if (job.status === AccessExportStatus.FAILED) {
+      throw new AppError(`Exportação falhou: ${job.error ?? 'erro desconhecido'}`, 409);
+    }
+
+    if (job.status !== AccessExportStatus.COMPLETED || !job.file) {
+      throw new AppError('Exportação ainda não concluída', 409);
+    }
+
+    if (job.expiresAt && job.expiresAt <= new Date()) {
+      throw new AppError('Arquivo da exportação expirou', 410);
+    }
+
+    return {
+      fileName: exportFileName(job),
+      contentType: EXPORT_FORMATS[job.format].contentType,
+      stream: exportFiles().openDownloadStream(job.file),
+    };
+  }
+
+  /**
+   * Processa as exportações pendentes
+   * Retorna o número de exportações concluídas
+   */
+  public static async processPending(): Promise<number> {
+    let completed = 0;
+
+    for (let i = 0; i < MAX_EXPORTS_PER_RUN; i++) {
+      const job = await AccessExport.claimNext(EXPORT_LOCK_MS);
+
+      if (!job) {
+        break;
+      }
+
+      try {
+        await this.generate(job);
+        completed++;
+      } catch (error) {
+        Logger.error('Erro ao gerar exportação de acessos', { id: job.id, error });
+
+        job.set({
+          status: AccessExportStatus.FAILED,
+          error: error instanceof Error ? error.message : String(error),
+          lockedUntil: null,
+          completedAt: new Date(),
+          expiresAt: new Date(Date.now() + config.exports.retentionHours * 60 * 60 * 1000),
+        });
+        await job.save();
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Remove as exportações expiradas e seus arquivos
+   * Retorna o número de exportações removidas
+   */
+  public static async purgeExpired(now: Date = new Date()): Promise<number> {
+    const expired = await AccessExport.find({ expiresAt: { $lte: now } }).select('_id file').lean();
+    const files = exportFiles();
+    let removed = 0;
+
+    for (const { _id, file } of expired) {
+      try {
+        if (file) {
+          await files.delete(file).catch(error => {
+            // Arquivo já removido (ex.: execução anterior interrompida)
+            if (!(error instanceof mongoose.mongo.MongoRuntimeError)) {
+              throw error;
+            }
+          });
+        }
+
+        await AccessExport.deleteOne({ _id });
+        removed++;
+      } catch (error) {
+        Logger.error('Erro ao remover exportação expirada', { id: String(_id), error });
+      }
+    }
+
+    if (removed > 0) {
+      Logger.info('Exportações expiradas removidas', { count: removed });
+    }
+
+    return removed;
+  }
+
+  /**
+   * Gera o arquivo de uma exportação no GridFS
+   * Em caso de falha o arquivo parcial é removido
+   */
+  private static async generate(job: IAccessExportDocument): Promise<void> {
+    const files = exportFiles();
+    const upload = files.openUploadStream(exportFileName(job), {
+      metadata: { exportId: job._id, contentType: EXPORT_FORMATS[job.format].contentType },
+    });
+
+    let rows = 0;
+    let bytes = 0;
+
+    const counted = async function* (source: AsyncIterable<IAccessExportRow>) {
+      for await (const row of source) {
+        rows++;
+        yield row;
+      }
+    };
+
+    const measured = async function* (source: AsyncIterable<string>) {
+      for await (const chunk of source) {
+        bytes += Buffer.byteLength(chunk);
+        yield chunk;
+      }
+    };
+
+    try {
+      await pipeline(
+        Readable.from(measured(coalesce(serializeExportRows(counted(this.rows(job)), job.format)))),
+        upload
+      );
+    } catch (error) {
+      await files.delete(upload.id).catch(() => undefined);
+      throw error;
+    }
+
+    const completedAt = new Date();
+
+    job.set({
+      status: AccessExportStatus.COMPLETED,
+      rows,
+      bytes,
+      file: upload.id,
+      lockedUntil: null,
+      error: null,
+      completedAt,
+      expiresAt: new Date(completedAt.getTime() + config.exports.retentionHours * 60 * 60 * 1000),
+    });
+    await job.save();
+
+    Logger.info('Exportação de acessos concluída', { id: job.id, key: job.key, rows, bytes });
+  }
+
+  /**
+   * Busca uma exportação visível ao usuário: as próprias ou, com a
+   * permissão readAnyExport, as de qualquer usuário
+   */
+  private static async findAccessible(id: string, user: IAuthenticatedUser): Promise<IAccessExportDocument> {
+    const job = await AccessExport.findById(id);
+
+    if (!job || (String(job.requestedBy) !== user.id && !hasPermission(user.role, 'readAnyExport'))) {
+      throw new AppError('Exportação não encontrada', 404);
+    }
+
+    return job;
+  }
+}
@@ -0,0 +1,187 @@
+import { AccessBucket, DEFAULT_COUNTER_KEY } from '../models';
+import { HistoryGranularity, IAccessHistoryResponse } from '../types';
+import {
+  Logger,
+  HllRegister,
+  countBuckets,
+  enumerateBuckets,
+  estimateCardinality,
+  mergeHllRegisters,
+  truncateToBucket,
+} from '../utils';
+import { AppError } from '../middleware';
+import { config } from '../config/environment';
+
+/**
+ * Número máximo de pontos retornados em uma série histórica
+ */
+export const MAX_HISTORY_POINTS = 1000;
+
+/**
+ * Janela padrão consultada quando "from" não é informado
+ */
+const DEFAULT_WINDOW_MS: Record<HistoryGranularity, number> = {
+  [HistoryGranularity.MINUTE]: 60 * 60 * 1000, // 1 hora
+  [HistoryGranularity.HOUR]: 24 * 60 * 60 * 1000, // 24 horas
+  [HistoryGranularity.DAY]: 30 * 24 * 60 * 60 * 1000, // 30 dias
+  [HistoryGranularity.MONTH]: 365 * 24 * 60 * 60 * 1000, // 12 meses
+};
+
+/**
+ * Service para o histórico de acessos em buckets de tempo
+ * Registra incrementos por minuto/hora/dia/mês e aplica a política de retenção
+ */
+export class AccessHistoryService {
+  /**
+   * Registra um incremento nos buckets de tempo do contador
+   * Falhas são apenas registradas em log para não afetar o total do contador
+   */
+  public static async recordIncrement(
+    key: string,
+    at: Date = new Date(),
+    amount: number = 1,
+    visitor?: HllRegister
+  ): Promise<void> {
+    try {
+      await AccessBucket.recordIncrement(key, at, amount, visitor);
+    } catch (error) {
+      Logger.error('Erro ao registrar incremento no histórico', { key, at, error });
+    }
+  }
+
+  /**
+   * Resolve o intervalo consultado: até "to" (padrão: agora) e a partir de
+   * "from" (padrão: a janela padrão da granularidade)
+   */
+  public static resolveRange(
+    granularity: HistoryGranularity,
+    from?: Date,
+    to?: Date
+  ): { start: Date; end: Date } {
+    const end = to ?? new Date();
+    const start = from ?? new Date(end.getTime() - DEFAULT_WINDOW_MS[granularity]);
+
+    if (start > end) {
+      throw new AppError('Parâmetro from deve ser anterior a to', 400);
+    }
+
+    return { start, end };
+  }
+
+  /**
+   * Obtém a série histórica de acessos de um contador
+   * Buckets sem acessos são preenchidos com zero. Os visitantes únicos do
+   * intervalo são estimados mesclando os sketches de todos os buckets
+   */
+  public static async getHistory(
+    key: string = DEFAULT_COUNTER_KEY,
+    granularity: HistoryGranularity = HistoryGranularity.HOUR,
+    from?: Date,
+    to?: Date
+  ): Promise<IAccessHistoryResponse> {
+    const { start, end } = this.resolveRange(granularity, from, to);
+
+    if (countBuckets(start, end, granularity) > MAX_HISTORY_POINTS) {
+      throw new AppError(
+        `Intervalo muito grande para a granularidade ${granularity} (máximo de ${MAX_HISTORY_POINTS} pontos)`,
+        400
+      );
+    }
+
+    try {
+      Logger.debug('Obtendo histórico de acessos', { key, granularity, from: start, to: end });
+
+      const rangeStart = truncateToBucket(start, granularity);
+      const buckets = await AccessBucket.findRange(key, granularity, rangeStart, end);
+
+      const bucketsByStart = new Map(
+        buckets.map(bucket => [bucket.bucketStart.getTime(), bucket])
+      );
+
+      const series = enumerateBuckets(start, end, granularity).map(bucketStart => {
+        const bucket = bucketsByStart.get(bucketStart.getTime());
+
+        return {
+          bucketStart,
+          count: bucket?.count ?? 0,
+          uniqueVisitors: estimateCardinality(bucket?.hll),
+        };
+      });
+
+      return {
+        key,
+        granularity,
+        from: rangeStart,
+        to: end,
+        total: series.reduce((sum, point) => sum + point.count, 0),
+        uniqueVisitors: estimateCardinality(mergeHllRegisters(...buckets.map(bucket => bucket.hll))),
+        series,
+      };
+    } catch (error) {
+      Logger.error('Erro ao obter histórico de acessos', error);
+      throw new AppError('Erro interno ao obter histórico', 500);
+    }
+  }
+
+  /**
+   * Conta os acessos de um contador no intervalo [from, to)
+   * Usa os buckets por minuto, então a janela deve caber na retenção por minuto
+   */
+  public static async countInWindow(key: string, from: Date, to: Date): Promise<number> {
+    const buckets = await AccessBucket.findRange(
+      key,
+      HistoryGranularity.MINUTE,
+      truncateToBucket(from, HistoryGranularity.MINUTE),
+      new Date(to.getTime() - 1)
+    );
+
+    return buckets.reduce((sum, bucket) => sum + bucket.count, 0);
+  }
+
+  /**
+   * Aplica a política de retenção do histórico
+   * Buckets mais antigos que a retenção configurada são consolidados na
+   * granularidade superior (minuto → hora → dia → mês) e removidos.
+   * Buckets mensais são mantidos indefinidamente
+   */
+  public static async applyRetention(now: Date = new Date()): Promise<{
+    rolledUp: number;
+    removed: number;
+  }> {
+    const hour = 60 * 60 * 1000;
+    const day = 24 * hour;
+
+    const policies: Array<{ granularity: HistoryGranularity; retentionMs: number }> = [
+      { granularity: HistoryGranularity.MINUTE, retentionMs: config.history.minuteRetentionHours * hour },
+      { granularity: HistoryGranularity.HOUR, retentionMs: config.history.hourRetentionDays * day },
+      { granularity: HistoryGranularity.DAY, retentionMs: config.history.dayRetentionDays * day },
+    ];
+
+    let rolledUp = 0;
+    let removed = 0;
+
+    try {
+      // Da granularidade mais fina para a mais grossa, para que o rollup se propague
+      for (const { granularity, retentionMs } of policies) {
+        if (retentionMs <= 0) {
+          continue;
+        }
+
+        const cutoff = truncateToBucket(new Date(now.getTime() - retentionMs), granularity);
+        const result = await AccessBucket.rollUp(granularity, cutoff);
+
+        rolledUp += result.rolledUp;
+        removed += result.removed;
+      }
+
+      if (removed > 0) {
+        Logger.info('Retenção do histórico aplicada', { rolledUp, removed });
+      }
+
+      return { rolledUp, removed };
+    } catch (error) {
+      Logger.error('Erro ao aplicar retenção do histórico', error);
+      throw new AppError('Erro interno ao aplicar retenção do histórico', 500);
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { AccessSource } from '../models';
+import { HistoryGranularity, IAccessOrigin, IAccessSourceEntry, IAccessSourceIncrement } from '../types';
+import { Logger, truncateToBucket } from '../utils';
+import { config } from '../config/environment';
+
+/**
+ * Service das origens dos acessos (IP e User-Agent por minuto)
+ * Registradas apenas para a investigação de anomalias, com retenção curta
+ */
+export class AccessSourceService {
+  /**
+   * Indica se as origens devem ser registradas (ANOMALY_SOURCE_RETENTION_HOURS > 0)
+   */
+  public static isEnabled(): boolean {
+    return config.anomalies.sourceRetentionHours > 0;
+  }
+
+  /**
+   * Monta o incremento da origem de um acesso no bucket do minuto
+   */
+  public static buildIncrement(
+    key: string,
+    origin: IAccessOrigin,
+    at: Date = new Date(),
+    amount: number = 1
+  ): IAccessSourceIncrement {
+    return { key, bucketStart: truncateToBucket(at, HistoryGranularity.MINUTE), origin, count: amount };
+  }
+
+  /**
+   * Registra a origem de um acesso
+   * Falhas são apenas registradas em log para não afetar o total do contador
+   */
+  public static async recordIncrement(
+    key: string,
+    origin: IAccessOrigin,
+    at: Date = new Date(),
+    amount: number = 1
+  ): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    try {
+      await this.applyIncrements([this.buildIncrement(key, origin, at, amount)]);
+    } catch (error) {
+      Logger.error('Erro ao registrar origem do acesso', { key, at, error });
+    }
+  }
+
+  /**
+   * Aplica incrementos de origens já agregados (modo buffer)
+   */
+  public static async applyIncrements(increments: IAccessSourceIncrement[]): Promise<void> {
+    await AccessSource.applyIncrements(
+      increments,
+      config.anomalies.maxSourcesPerMinute,
+      config.anomalies.sourceRetentionHours * 60 * 60 * 1000
+    );
+  }
+
+  /**
+   * Origens mais frequentes de um intervalo e o total de acessos com origem registrada
+   */
+  public static async getTopSources(
+    key: string,
+    from: Date,
+    to: Date,
+    limit: number = 10
+  ): Promise<{ total: number; entries: IAccessSourceEntry[] }> {
+    return await AccessSource.summarize(key, from, to, limit);
+  }
+}
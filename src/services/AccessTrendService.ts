@@ -0,0 +1,306 @@
+import { AccessBucket, DEFAULT_COUNTER_KEY } from '../models';
+import {
+  HistoryGranularity,
+  IAccessTrendsResponse,
+  ITrendPeriodCount,
+  ITrendPoint,
+  TrendComparison,
+  TrendForecastMethod,
+  TrendPeriod,
+} from '../types';
+import {
+  LinearSums,
+  Logger,
+  addPeriods,
+  fillPeriods,
+  linearForecast,
+  percentageChange,
+  startOfTrendPeriod,
+  yearAgo,
+} from '../utils';
+import { AppError } from '../middleware';
+
+/**
+ * Número máximo de períodos encerrados analisados
+ */
+export const MAX_TREND_PERIODS = 366;
+
+/**
+ * Fator de suavização da média móvel exponencial (EWMA)
+ */
+const EWMA_ALPHA = 0.3;
+
+/**
+ * Períodos analisados e janela da média móvel quando não informados
+ */
+const DEFAULTS: Record<TrendPeriod, { periods: number; window: number }> = {
+  [TrendPeriod.DAY]: { periods: 30, window: 7 },
+  [TrendPeriod.WEEK]: { periods: 12, window: 4 },
+  [TrendPeriod.MONTH]: { periods: 12, window: 3 },
+};
+
+/**
+ * Granularidade dos buckets agregados em cada período
+ * Buckets mensais nunca expiram; os diários seguem HISTORY_DAY_RETENTION_DAYS
+ */
+const SOURCE_GRANULARITY: Record<TrendPeriod, HistoryGranularity> = {
+  [TrendPeriod.DAY]: HistoryGranularity.DAY,
+  [TrendPeriod.WEEK]: HistoryGranularity.DAY,
+  [TrendPeriod.MONTH]: HistoryGranularity.MONTH,
+};
+
+/**
+ * Resultado da agregação da série de períodos encerrados
+ */
+interface SeriesFacets {
+  series: Array<{ start: Date; count: number; movingAverage: number; ewma: number }>;
+  best: Array<{ start: Date; count: number }>;
+  worst: Array<{ start: Date; count: number }>;
+  regression: LinearSums[];
+}
+
+/**
+ * Service da análise de tendências dos contadores
+ * Compara períodos (dia, semana, mês) com o anterior ou com o mesmo período
+ * do ano anterior e projeta o período em andamento. Os totais por período vêm
+ * de pipelines de agregação sobre os buckets do histórico
+ */
+export class AccessTrendService {
+  /**
+   * Obtém a análise de tendências de um contador
+   * O período atual (current) é o último encerrado; o período em andamento
+   * aparece apenas na previsão (forecast)
+   */
+  public static async getTrends(
+    key: string = DEFAULT_COUNTER_KEY,
+    options: {
+      period?: TrendPeriod;
+      compare?: TrendComparison;
+      forecast?: TrendForecastMethod;
+      periods?: number;
+      window?: number;
+    } = {},
+    now: Date = new Date()
+  ): Promise<IAccessTrendsResponse> {
+    const period = options.period ?? TrendPeriod.DAY;
+    const compare = options.compare ?? TrendComparison.PREVIOUS;
+    const method = options.forecast ?? TrendForecastMethod.LINEAR;
+    const periods = options.periods ?? DEFAULTS[period].periods;
+    const window = options.window ?? DEFAULTS[period].window;
+
+    if (periods < 2 || periods > MAX_TREND_PERIODS) {
+      throw new AppError(`Parâmetro periods deve estar entre 2 e ${MAX_TREND_PERIODS}`, 400);
+    }
+
+    if (window < 1 || window > periods) {
+      throw new AppError('Parâmetro window deve estar entre 1 e o número de períodos', 400);
+    }
+
+    const inProgressStart = startOfTrendPeriod(now, period);
+    const inProgressEnd = addPeriods(inProgressStart, period, 1);
+    const currentStart = addPeriods(inProgressStart, period, -1);
+    const seriesStart = addPeriods(inProgressStart, period, -periods);
+    const comparisonStart =
+      compare === TrendComparison.YOY ? yearAgo(currentStart, period) : addPeriods(currentStart, period, -1);
+    const comparisonEnd = addPeriods(comparisonStart, period, 1);
+
+    try {
+      Logger.debug('Obtendo tendências de acessos', { key, period, compare, periods, window });
+
+      const [facets, totals] = await Promise.all([
+        this.aggregateSeries(key, period, seriesStart, inProgressStart, window),
+        this.aggregateTotals(key, period, { start: comparisonStart, end: comparisonEnd }, inProgressStart),
+      ]);
+
+      const toPeriod = ({ start, count }: { start: Date; count: number }): ITrendPeriodCount => ({
+        start,
+        end: addPeriods(start, period, 1),
+        count,
+      });
+
+      const series: ITrendPoint[] = facets.series.map(point => ({
+        ...toPeriod(point),
+        movingAverage: Math.round(point.movingAverage * 100) / 100,
+      }));
+
+      const last = facets.series[facets.series.length - 1];
+      const current = toPeriod({ start: currentStart, count: last?.count ?? 0 });
+      const comparison = toPeriod({ start: comparisonStart, count: totals.comparison });
+
+      // Nível esperado para um período inteiro, aplicado à fração restante
+      const expected = this.expectedLevel(method, facets, totals.toDate, now, inProgressStart, inProgressEnd);
+      const elapsed =
+        (now.getTime() - inProgressStart.getTime()) / (inProgressEnd.getTime() - inProgressStart.getTime());
+      const remaining = Math.max(0, Math.round(expected * (1 - elapsed)));
+
+      return {
+        key,
+        period,
+        compare,
+        current,
+        comparison,
+        change: {
+          absolute: current.count - comparison.count,
+          percentage: percentageChange(current.count, comparison.count),
+        },
+        movingAverageWindow: window,
+        series,
+        best: facets.best[0] ? toPeriod(facets.best[0]) : null,
+        worst: facets.worst[0] ? toPeriod(facets.worst[0]) : null,
+        forecast: {
+          start: inProgressStart,
+          end: inProgressEnd,
+          count: totals.toDate,
+          method,
+          elapsed: Math.round(elapsed * 10000) / 10000,
+          remaining,
+          projected: totals.toDate + remaining,
+        },
+      };
+    } catch (error) {
+      Logger.error('Erro ao obter tendências de acessos', error);
+      throw new AppError('Erro interno ao obter tendências', 500);
+    }
+  }
+
+  /**
+   * Série dos períodos encerrados a partir do primeiro com acessos, com média
+   * móvel, EWMA, melhor e pior período e os somatórios da regressão linear
+   * Os períodos sem acessos são completados em memória ($densify exige MongoDB 5.1)
+   */
+  private static async aggregateSeries(
+    key: string,
+    period: TrendPeriod,
+    from: Date,
+    to: Date,
+    window: number
+  ): Promise<SeriesFacets> {
+    const counts = await AccessBucket.aggregate<{ start: Date; count: number }>([
+      {
+        $match: {
+          key,
+          granularity: SOURCE_GRANULARITY[period],
+          bucketStart: { $gte: from, $lt: to },
+        },
+      },
+      {
+        $group: {
+          _id: {
+            $dateTrunc: {
+              date: '$bucketStart',
+              unit: period,
+              ...(period === TrendPeriod.WEEK && { startOfWeek: 'monday' }),
+            },
+          },
+          count: { $sum: '$count' },
+        },
+      },
+      { $project: { _id: 0, start: '$_id', count: 1 } },
+    ]);
+
+    // Descarta os períodos anteriores ao primeiro acesso
+    const filled = fillPeriods(counts, period, from, to);
+    const first = filled.findIndex(point => point.count > 0);
+    const points = first === -1 ? [] : filled.slice(first);
+
+    const series: SeriesFacets['series'] = [];
+    const sums: LinearSums = { n: 0, sx: 0, sy: 0, sxy: 0, sxx: 0 };
+
+    points.forEach(({ start, count }, index) => {
+      const x = index + 1;
+      const recent = points.slice(Math.max(0, index - window + 1), index + 1);
+      const previous = series[index - 1];
+
+      series.push({
+        start,
+        count,
+        movingAverage: recent.reduce((total, point) => total + point.count, 0) / recent.length,
+        ewma: previous ? EWMA_ALPHA * count + (1 - EWMA_ALPHA) * previous.ewma : count,
+      });
+
+      sums.n++;
+      sums.sx += x;
+      sums.sy += count;
+      sums.sxy += x * count;
+      sums.sxx += x * x;
+    });
+
+    // Empates ficam com o período mais recente
+    const byRecency = [...points].reverse();
+    const best = byRecency.reduce<(typeof points)[number] | null>(
+      (top, point) => (!top || point.count > top.count ? point : top),
+      null
+    );
+    const worst = byRecency.reduce<(typeof points)[number] | null>(
+      (bottom, point) => (!bottom || point.count < bottom.count ? point : bottom),
+      null
+    );
+
+    return {
+      series,
+      best: best ? [best] : [],
+      worst: worst ? [worst] : [],
+      regression: sums.n > 0 ? [sums] : [],
+    };
+  }
+
+  /**
+   * Total do período de comparação e acessos do período em andamento até agora
+   */
+  private static async aggregateTotals(
+    key: string,
+    period: TrendPeriod,
+    comparison: { start: Date; end: Date },
+    inProgressStart: Date
+  ): Promise<{ comparison: number; toDate: number }> {
+    const [totals] = await AccessBucket.aggregate<{ comparison: number; toDate: number }>([
+      {
+        $match: {
+          key,
+          granularity: SOURCE_GRANULARITY[period],
+          $or: [
+            { bucketStart: { $gte: comparison.start, $lt: comparison.end } },
+            { bucketStart: { $gte: inProgressStart } },
+          ],
+        },
+      },
+      {
+        $group: {
+          _id: null,
+          comparison: { $sum: { $cond: [{ $lt: ['$bucketStart', comparison.end] }, '$count', 0] } },
+          toDate: { $sum: { $cond: [{ $gte: ['$bucketStart', inProgressStart] }, '$count', 0] } },
+        },
+      },
+    ]);
+
+    return { comparison: totals?.comparison ?? 0, toDate: totals?.toDate ?? 0 };
+  }
+
+  /**
+   * Acessos esperados em um período inteiro
+   * linear: reta ajustada aos períodos encerrados; ewma: última média exponencial.
+   * Sem histórico, usa o ritmo do período em andamento
+   */
+  private static expectedLevel(
+    method: TrendForecastMethod,
+    facets: SeriesFacets,
+    toDate: number,
+    now: Date,
+    start: Date,
+    end: Date
+  ): number {
+    const [sums] = facets.regression;
+
+    if (!sums || sums.n === 0) {
+      const elapsedMs = now.getTime() - start.getTime();
+      return elapsedMs > 0 ? (toDate * (end.getTime() - start.getTime())) / elapsedMs : 0;
+    }
+
+    const level =
+      method === TrendForecastMethod.EWMA
+        ? facets.series[facets.series.length - 1].ewma
+        : linearForecast(sums, sums.n + 1);
+
+    return Math.max(0, level);
+  }
+}
@@ -0,0 +1,419 @@
+import { AlertRule, IAlertRuleDocument, WebhookDelivery } from '../models';
+import {
+  AlertConditionType,
+  AlertEvent,
+  AlertOperator,
+  AlertState,
+  IAlertCondition,
+  IAlertRuleInput,
+  IAlertRuleResponse,
+  IWebhookDelivery,
+} from '../types';
+import { Logger, generateSecureToken } from '../utils';
+import { AppError } from '../middleware';
+import { config } from '../config/environment';
+import { AccessCounterService } from './AccessCounterService';
+import { AccessHistoryService } from './AccessHistoryService';
+import { WebhookService } from './WebhookService';
+
+/**
+ * Resultado da avaliação de uma condição
+ * firing = null quando ainda não há dados suficientes (o estado é mantido)
+ */
+interface ConditionResult {
+  value: number | null;
+  firing: boolean | null;
+}
+
+/**
+ * Paginação padrão das listagens de alertas
+ */
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+const buildPagination = (page: number, limit: number, total: number): Pagination => {
+  const pages = Math.ceil(total / limit);
+  return { page, limit, total, pages, hasNext: page < pages, hasPrev: page > 1 };
+};
+
+const compare = (operator: AlertOperator, observed: number, value: number): boolean =>
+  operator === AlertOperator.ABOVE ? observed >= value : observed < value;
+
+/**
+ * Service para regras de alerta dos contadores
+ * As regras são avaliadas periodicamente (AlertEvaluationJob) e disparam
+ * webhooks apenas nas transições ok → triggered e triggered → ok
+ */
+export class AlertService {
+  /**
+   * Cria uma regra de alerta
+   * O segredo de assinatura dos webhooks é retornado apenas nesta resposta
+   */
+  public static async createRule(input: IAlertRuleInput, createdBy?: string): Promise<IAlertRuleResponse> {
+    const condition = this.normalizeCondition(input.condition!);
+
+    try {
+      const rule = await AlertRule.create({
+        name: input.name,
+        counterKey: input.counterKey,
+        condition,
+        webhooks: input.webhooks,
+        enabled: input.enabled ?? true,
+        secret: generateSecureToken(32),
+        createdBy,
+      });
+
+      Logger.info('Regra de alerta criada', { ruleId: rule._id, counterKey: rule.counterKey, createdBy });
+
+      return rule.toResponseObject(true);
+    } catch (error) {
+      Logger.error('Erro ao criar regra de alerta', error);
+
+      if ((error as any).name === 'ValidationError') {
+        const validationErrors = Object.values((error as any).errors)
+          .map((err: any) => err.message)
+          .join(', ');
+        throw new AppError(`Dados inválidos: ${validationErrors}`, 400);
+      }
+
+      throw new AppError('Erro interno ao criar regra de alerta', 500);
+    }
+  }
+
+  /**
+   * Lista regras de alerta, opcionalmente filtrando por contador
+   */
+  public static async listRules(
+    counterKey: string | undefined,
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{ rules: IAlertRuleResponse[]; pagination: Pagination }> {
+    try {
+      const filter = counterKey ? { counterKey } : {};
+
+      const [rules, total] = await Promise.all([
+        AlertRule.find(filter)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        AlertRule.countDocuments(filter),
+      ]);
+
+      return {
+        rules: rules.map(rule => rule.toResponseObject()),
+        pagination: buildPagination(page, limit, total),
+      };
+    } catch (error) {
+      Logger.error('Erro ao listar regras de alerta', error);
+      throw new AppError('Erro interno ao listar regras de alerta', 500);
+    }
+  }
+
+  /**
+   * Obtém uma regra de alerta
+   */
+  public static async getRule(id: string): Promise<IAlertRuleResponse> {
+    try {
+      return (await this.findRule(id)).toResponseObject();
+    } catch (error) {
+      Logger.error('Erro ao buscar regra de alerta', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao buscar regra de alerta', 500);
+    }
+  }
+
+  /**
+   * Atualiza uma regra de alerta
+   * Alterar o contador ou a condição reinicia o estado da regra;
+   * rotateSecret gera um novo segredo, retornado na resposta
+   */
+  public static async updateRule(id: string, input: IAlertRuleInput): Promise<IAlertRuleResponse> {
+    try {
+      const rule = await this.findRule(id);
+
+      if (input.name !== undefined) {
+        rule.name = input.name;
+      }
+
+      if (input.webhooks !== undefined) {
+        rule.webhooks = input.webhooks;
+      }
+
+      if (input.enabled !== undefined) {
+        rule.enabled = input.enabled;
+      }
+
+      if (input.counterKey !== undefined || input.condition !== undefined) {
+        if (input.counterKey !== undefined) {
+          rule.counterKey = input.counterKey;
+        }
+
+        if (input.condition !== undefined) {
+          rule.condition = this.normalizeCondition(input.condition);
+        }
+
+        rule.state = AlertState.OK;
+        rule.lastValue = null;
+      }
+
+      if (input.rotateSecret) {
+        rule.secret = generateSecureToken(32);
+      }
+
+      await rule.save();
+
+      Logger.info('Regra de alerta atualizada', { ruleId: id, fields: Object.keys(input) });
+
+      return rule.toResponseObject(Boolean(input.rotateSecret));
+    } catch (error) {
+      Logger.error('Erro ao atualizar regra de alerta', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      if ((error as any).name === 'ValidationError') {
+        const validationErrors = Object.values((error as any).errors)
+          .map((err: any) => err.message)
+          .join(', ');
+        throw new AppError(`Dados inválidos: ${validationErrors}`, 400);
+      }
+
+      throw new AppError('Erro interno ao atualizar regra de alerta', 500);
+    }
+  }
+
+  /**
+   * Remove uma regra de alerta e seu histórico de entregas
+   */
+  public static async deleteRule(id: string): Promise<void> {
+    try {
+      const rule = await this.findRule(id);
+
+      await rule.deleteOne();
+      await WebhookDelivery.deleteMany({ rule: rule._id });
+
+      Logger.info('Regra de alerta removida', { ruleId: id });
+    } catch (error) {
+      Logger.error('Erro ao remover regra de alerta', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao remover regra de alerta', 500);
+    }
+  }
+
+  /**
+   * Lista o histórico de entregas de webhooks de uma regra
+   */
+  public static async listDeliveries(
+    id: string,
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{ deliveries: IWebhookDelivery[]; pagination: Pagination }> {
+    try {
+      const rule = await this.findRule(id);
+
+      const [deliveries, total] = await Promise.all([
+        WebhookDelivery.find({ rule: rule._id })
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .select('-lockedUntil -__v')
+          .lean(),
+        WebhookDelivery.countDocuments({ rule: rule._id }),
+      ]);
+
+      return {
+        deliveries: deliveries as unknown as IWebhookDelivery[],
+        pagination: buildPagination(page, limit, total),
+      };
+    } catch (error) {
+      Logger.error('Erro ao listar entregas de webhooks', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao listar entregas de webhooks', 500);
+    }
+  }
+
+  /**
+   * Avalia todas as regras habilitadas
+   */
+  public static async evaluateAll(now: Date = new Date()): Promise<{
+    evaluated: number;
+    triggered: number;
+    resolved: number;
+  }> {
+    const rules = await AlertRule.find({ enabled: true });
+    let triggered = 0;
+    let resolved = 0;
+
+    for (const rule of rules) {
+      try {
+        const transition = await this.evaluateRule(rule, now);
+
+        if (transition === AlertState.TRIGGERED) {
+          triggered++;
+        }
+
+        if (transition === AlertState.OK) {
+          resolved++;
+        }
+      } catch (error) {
+        Logger.error('Erro ao avaliar regra de alerta', { ruleId: rule._id, error });
+      }
+    }
+
+    return { evaluated: rules.length, triggered, resolved };
+  }
+
+  /**
+   * Avalia uma regra e dispara os webhooks se o estado mudar
+   * Retorna o novo estado em caso de transição
+   */
+  private static async evaluateRule(rule: IAlertRuleDocument, now: Date): Promise<AlertState | null> {
+    const { value, firing } = await this.evaluateCondition(rule, now);
+
+    const target = firing === null
+      ? rule.state
+      : firing ? AlertState.TRIGGERED : AlertState.OK;
+
+    if (target === rule.state) {
+      await AlertRule.updateOne({ _id: rule._id }, { $set: { lastValue: value, lastEvaluatedAt: now } });
+      return null;
+    }
+
+    // Transição atômica: com várias instâncias, apenas uma dispara o alerta
+    const updated = await AlertRule.transitionState(rule._id, rule.state, target, value, now);
+
+    if (!updated) {
+      return null;
+    }
+
+    const event = target === AlertState.TRIGGERED ? AlertEvent.TRIGGERED : AlertEvent.RESOLVED;
+
+    Logger.warn('Alerta de contador mudou de estado', {
+      ruleId: rule._id,
+      counterKey: rule.counterKey,
+      event,
+      value,
+    });
+
+    await WebhookService.enqueue(updated, event, {
+      occurredAt: now,
+      state: target,
+      value,
+      rule: {
+        id: String(rule._id),
+        name: rule.name,
+        counterKey: rule.counterKey,
+        condition: rule.condition,
+      },
+    });
+
+    return target;
+  }
+
+  /**
+   * Calcula o valor observado e se a condição da regra está ativa
+   * Condições com janela só são avaliadas depois que a regra existe há uma janela inteira
+   */
+  private static async evaluateCondition(rule: IAlertRuleDocument, now: Date): Promise<ConditionResult> {
+    const { type, operator, value, windowMinutes } = rule.condition;
+
+    if (type === AlertConditionType.THRESHOLD && !windowMinutes) {
+      const { count } = await AccessCounterService.getCurrentCount(rule.counterKey);
+      return { value: count, firing: compare(operator!, count, value!) };
+    }
+
+    const windowMs = windowMinutes! * 60 * 1000;
+    const windowStart = new Date(now.getTime() - windowMs);
+
+    if (rule.createdAt && rule.createdAt > windowStart) {
+      return { value: null, firing: null };
+    }
+
+    const current = await AccessHistoryService.countInWindow(rule.counterKey, windowStart, now);
+
+    if (type === AlertConditionType.NO_TRAFFIC) {
+      return { value: current, firing: current === 0 };
+    }
+
+    if (type === AlertConditionType.THRESHOLD) {
+      return { value: current, firing: compare(operator!, current, value!) };
+    }
+
+    // rate_of_change: variação percentual em relação à janela anterior
+    const previous = await AccessHistoryService.countInWindow(
+      rule.counterKey,
+      new Date(windowStart.getTime() - windowMs),
+      windowStart
+    );
+
+    if (previous === 0) {
+      return { value: null, firing: null };
+    }
+
+    const changePercent = Math.round(((current - previous) / previous) * 10000) / 100;
+    return { value: changePercent, firing: compare(operator!, changePercent, value!) };
+  }
+
+  /**
+   * Valida a combinação de campos de uma condição
+   * Janelas usam os buckets por minuto e precisam caber na retenção configurada
+   */
+  private static normalizeCondition(condition: IAlertCondition): IAlertCondition {
+    const { type, operator, value, windowMinutes } = condition;
+    const needsComparison = type !== AlertConditionType.NO_TRAFFIC;
+    const needsWindow = type !== AlertConditionType.THRESHOLD;
+
+    if (needsComparison && (operator === undefined || value === undefined)) {
+      throw new AppError('Condições threshold e rate_of_change exigem operator e value', 400);
+    }
+
+    if (needsWindow && windowMinutes === undefined) {
+      throw new AppError('Condições rate_of_change e no_traffic exigem windowMinutes', 400);
+    }
+
+    const maxWindowMinutes = config.history.minuteRetentionHours * 60;
+    const requiredMinutes = (windowMinutes ?? 0) * (type === AlertConditionType.RATE_OF_CHANGE ? 2 : 1);
+
+    if (maxWindowMinutes > 0 && requiredMinutes > maxWindowMinutes) {
+      throw new AppError(
+        `Janela muito grande: o histórico por minuto é mantido por ${config.history.minuteRetentionHours} horas`,
+        400
+      );
+    }
+
+    return {
+      type,
+      ...(needsComparison ? { operator, value } : {}),
+      ...(windowMinutes !== undefined ? { windowMinutes } : {}),
+    };
+  }
+
+  private static async findRule(id: string): Promise<IAlertRuleDocument> {
+    const rule = await AlertRule.findById(id);
+
+    if (!rule) {
+      throw new AppError('Regra de alerta não encontrada', 404);
+    }
+
+    return rule;
+  }
+}
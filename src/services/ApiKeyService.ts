@@ -0,0 +1,191 @@
+import { ApiKey, IApiKeyDocument } from '../models';
+import {
+  IApiKeyInput,
+  IApiKeyResponse,
+  IAuthenticatedUser,
+  ICounterPrincipal,
+} from '../types';
+import { Logger, generateSecureToken, hashToken } from '../utils';
+import { AppError } from '../middleware';
+import { hasPermission } from '../config/permissions';
+import { config } from '../config/environment';
+import { UserService } from './UserService';
+import { TwoFactorService } from './TwoFactorService';
+
+/**
+ * Prefixo das chaves geradas, para que sejam reconhecidas em logs e repositórios
+ */
+const API_KEY_PREFIX = 'ak_';
+
+/**
+ * Caracteres iniciais da chave guardados em texto puro para identificação
+ */
+const VISIBLE_PREFIX_LENGTH = 10;
+
+/**
+ * Intervalo mínimo entre as gravações de lastUsedAt de uma chave
+ */
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Paginação padrão das listagens de API keys
+ */
+interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+const buildPagination = (page: number, limit: number, total: number): Pagination => {
+  const pages = Math.ceil(total / limit);
+  return { page, limit, total, pages, hasNext: page < pages, hasPrev: page > 1 };
+};
+
+/**
+ * Service das API keys de acesso aos contadores
+ * Cada chave age em nome do usuário que a criou, limitada aos scopes
+ * (counter:read, counter:increment, counter:admin) e contadores da chave
+ */
+export class ApiKeyService {
+  /**
+   * Cria uma API key para o usuário
+   * A chave em texto puro é retornada apenas nesta resposta
+   */
+  public static async createKey(input: IApiKeyInput, user: IAuthenticatedUser): Promise<IApiKeyResponse> {
+    const now = new Date();
+
+    if (input.expiresAt && input.expiresAt.getTime() <= now.getTime()) {
+      throw new AppError('A expiração da API key deve estar no futuro', 400);
+    }
+
+    if ((await ApiKey.countActiveForOwner(user.id, now)) >= config.counterAccess.apiKeysPerUser) {
+      throw new AppError(`Limite de ${config.counterAccess.apiKeysPerUser} API keys ativas atingido`, 409);
+    }
+
+    const key = `${API_KEY_PREFIX}${generateSecureToken(32)}`;
+
+    try {
+      const apiKey = await ApiKey.create({
+        name: input.name,
+        owner: user.id,
+        keyHash: hashToken(key),
+        prefix: key.slice(0, VISIBLE_PREFIX_LENGTH),
+        scopes: [...new Set(input.scopes)],
+        counters: [...new Set(input.counters ?? [])],
+        expiresAt: input.expiresAt ?? null,
+      });
+
+      Logger.info('API key criada', { apiKeyId: apiKey.id, owner: user.id, scopes: apiKey.scopes });
+
+      return apiKey.toResponseObject(key);
+    } catch (error) {
+      Logger.error('Erro ao criar API key', error);
+
+      if ((error as any).name === 'ValidationError') {
+        const validationErrors = Object.values((error as any).errors)
+          .map((err: any) => err.message)
+          .join(', ');
+        throw new AppError(`Dados inválidos: ${validationErrors}`, 400);
+      }
+
+      throw new AppError('Erro interno ao criar API key', 500);
+    }
+  }
+
+  /**
+   * Lista as API keys de um usuário (as próprias ou, com manageApiKeys, as de qualquer um)
+   */
+  public static async listKeys(
+    user: IAuthenticatedUser,
+    owner: string | undefined,
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{ apiKeys: IApiKeyResponse[]; pagination: Pagination }> {
+    if (owner && owner !== user.id && !hasPermission(user.role, 'manageApiKeys')) {
+      throw new AppError('Permissão insuficiente para esta operação', 403);
+    }
+
+    const filter = { owner: owner ?? user.id };
+
+    const [apiKeys, total] = await Promise.all([
+      ApiKey.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      ApiKey.countDocuments(filter),
+    ]);
+
+    return {
+      apiKeys: apiKeys.map(apiKey => apiKey.toResponseObject()),
+      pagination: buildPagination(page, limit, total),
+    };
+  }
+
+  /**
+   * Revoga uma API key; a revogação vale imediatamente
+   */
+  public static async revokeKey(id: string, user: IAuthenticatedUser): Promise<IApiKeyResponse> {
+    const apiKey = await this.findAccessible(id, user);
+
+    if (!apiKey.revokedAt) {
+      apiKey.revokedAt = new Date();
+      await apiKey.save();
+
+      Logger.warn('API key revogada', { apiKeyId: id, owner: apiKey.owner, actorId: user.id });
+    }
+
+    return apiKey.toResponseObject();
+  }
+
+  /**
+   * Autentica uma API key enviada no header X-API-Key
+   * Retorna o dono da chave e os scopes e contadores aos quais ela se limita
+   */
+  public static async authenticate(key: string): Promise<ICounterPrincipal> {
+    const now = new Date();
+    const apiKey = key.startsWith(API_KEY_PREFIX) ? await ApiKey.findActiveByHash(hashToken(key), now) : null;
+    const owner = apiKey ? await UserService.getUserDocumentById(apiKey.owner.toString()) : null;
+
+    if (!apiKey || !owner) {
+      throw new AppError('API key inválida', 401);
+    }
+
+    // As chaves herdam a política de 2FA do dono
+    TwoFactorService.assertPolicy(owner);
+
+    ApiKey.touch(apiKey._id, now, TOUCH_INTERVAL_MS).catch(error =>
+      Logger.warn('Erro ao registrar uso da API key', { apiKeyId: apiKey.id, error })
+    );
+
+    return {
+      user: {
+        id: (owner._id as any).toString(),
+        email: owner.email,
+        role: owner.role,
+        emailVerified: owner.emailVerified,
+      },
+      apiKey: {
+        id: apiKey.id,
+        scopes: apiKey.scopes,
+        counters: apiKey.counters,
+      },
+    };
+  }
+
+  /**
+   * Busca uma API key visível ao usuário: as próprias ou, com a
+   * permissão manageApiKeys, as de qualquer usuário
+   */
+  private static async findAccessible(id: string, user: IAuthenticatedUser): Promise<IApiKeyDocument> {
+    const apiKey = await ApiKey.findById(id);
+
+    if (!apiKey || (String(apiKey.owner) !== user.id && !hasPermission(user.role, 'manageApiKeys'))) {
+      throw new AppError('API key não encontrada', 404);
+    }
+
+    return apiKey;
+  }
+}
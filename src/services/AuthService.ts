@@ -0,0 +1,356 @@
+import jwt from 'jsonwebtoken';
+import { RefreshToken, IUserDocument } from '../models';
+import {
+  IAccessTokenPayload,
+  IAuthResponse,
+  IAuthTokens,
+  ISessionMetadata,
+  ITwoFactorChallenge,
+  ITwoFactorChallengePayload,
+} from '../types';
+import { Logger, generateSecureToken, hashToken } from '../utils';
+import { AppError } from '../middleware';
+import { config } from '../config/environment';
+import { UserService } from './UserService';
+import { LoginProtectionService } from './LoginProtectionService';
+import { TwoFactorService } from './TwoFactorService';
+
+/**
+ * Service para autenticação com JWT
+ * Emite access tokens de curta duração e refresh tokens rotativos
+ * armazenados no servidor (apenas o hash) para permitir revogação
+ */
+export class AuthService {
+  /**
+   * Autentica usuário com email e senha
+   * Retorna dados do usuário e o par de tokens ou, com 2FA ativo, um desafio
+   * a ser concluído com o código do autenticador em completeTwoFactorLogin
+   */
+  public static async login(
+    email: string,
+    password: string,
+    metadata: ISessionMetadata = {}
+  ): Promise<IAuthResponse | ITwoFactorChallenge> {
+    try {
+      Logger.debug('Tentativa de login', { email });
+
+      // Lança 429 se a conta ou o IP estiverem bloqueados
+      await LoginProtectionService.beforeAttempt(email, metadata.ip);
+
+      const user = await UserService.getUserByEmail(email);
+
+      // Mesma mensagem para email inexistente e senha incorreta (evita enumeração)
+      if (!user || !(await user.comparePassword(password))) {
+        Logger.warn('Falha de autenticação', { email, ip: metadata.ip });
+        await LoginProtectionService.recordFailure(email, metadata.ip);
+        throw new AppError('Credenciais inválidas', 401);
+      }
+
+      // As falhas só são zeradas quando o segundo fator também for confirmado
+      if (user.twoFactorEnabled) {
+        Logger.info('Senha confirmada, aguardando segundo fator', { userId: user._id });
+        return this.issueTwoFactorChallenge(user);
+      }
+
+      await LoginProtectionService.recordSuccess(email);
+
+      return await this.completeLogin(user, metadata);
+    } catch (error) {
+      Logger.error('Erro ao realizar login', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao realizar login', 500);
+    }
+  }
+
+  /**
+   * Conclui o login em dois passos com o código TOTP ou de recuperação
+   * Códigos incorretos contam como falha de login para a conta e o IP
+   */
+  public static async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    metadata: ISessionMetadata = {}
+  ): Promise<IAuthResponse> {
+    try {
+      const payload = this.verifyTwoFactorChallenge(challengeToken);
+      const user = await UserService.getUserDocumentById(payload.sub);
+
+      if (!user || !user.twoFactorEnabled) {
+        throw new AppError('Desafio de autenticação inválido', 401);
+      }
+
+      await LoginProtectionService.beforeAttempt(user.email, metadata.ip);
+
+      if (!(await TwoFactorService.verifyLoginCode(user, code))) {
+        Logger.warn('Código de dois fatores inválido', { userId: user._id, ip: metadata.ip });
+        await LoginProtectionService.recordFailure(user.email, metadata.ip);
+        throw new AppError('Código de verificação inválido', 401);
+      }
+
+      await LoginProtectionService.recordSuccess(user.email);
+
+      return await this.completeLogin(user, metadata);
+    } catch (error) {
+      Logger.error('Erro ao concluir login com dois fatores', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao realizar login', 500);
+    }
+  }
+
+  /**
+   * Rotaciona o refresh token e emite um novo par de tokens
+   * A reutilização de um token já rotacionado revoga toda a família
+   */
+  public static async refresh(
+    refreshToken: string,
+    metadata: ISessionMetadata = {}
+  ): Promise<IAuthTokens> {
+    try {
+      const tokenHash = hashToken(refreshToken);
+      const storedToken = await RefreshToken.findByHash(tokenHash);
+
+      if (!storedToken) {
+        throw new AppError('Refresh token inválido', 401);
+      }
+
+      if (storedToken.revokedAt) {
+        // Token já utilizado: possível roubo, revoga a sessão inteira
+        const revoked = await RefreshToken.revokeFamily(storedToken.family);
+        Logger.warn('Reutilização de refresh token detectada', {
+          userId: storedToken.user,
+          family: storedToken.family,
+          revoked,
+        });
+        throw new AppError('Refresh token inválido', 401);
+      }
+
+      if (storedToken.expiresAt.getTime() <= Date.now()) {
+        throw new AppError('Refresh token expirado', 401);
+      }
+
+      const user = await UserService.getUserDocumentById(storedToken.user.toString());
+
+      if (!user) {
+        await RefreshToken.revokeFamily(storedToken.family);
+        throw new AppError('Refresh token inválido', 401);
+      }
+
+      const newRefreshToken = generateSecureToken();
+      const newTokenHash = hashToken(newRefreshToken);
+
+      // Revogação condicional garante que apenas uma requisição concorrente rotacione
+      const rotated = await RefreshToken.findOneAndUpdate(
+        { _id: storedToken._id, revokedAt: null },
+        { $set: { revokedAt: new Date(), replacedByHash: newTokenHash } },
+        { new: true }
+      );
+
+      if (!rotated) {
+        await RefreshToken.revokeFamily(storedToken.family);
+        throw new AppError('Refresh token inválido', 401);
+      }
+
+      await this.persistRefreshToken(user, newTokenHash, storedToken.family, metadata);
+
+      Logger.info('Refresh token rotacionado', { userId: user._id });
+
+      return {
+        accessToken: this.signAccessToken(user),
+        refreshToken: newRefreshToken,
+        tokenType: 'Bearer',
+        expiresIn: config.jwt.accessTokenTtlSeconds,
+      };
+    } catch (error) {
+      Logger.error('Erro ao renovar tokens', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao renovar tokens', 500);
+    }
+  }
+
+  /**
+   * Encerra a sessão revogando o refresh token informado
+   * Operação idempotente: tokens inexistentes são ignorados
+   */
+  public static async logout(refreshToken: string): Promise<void> {
+    try {
+      const tokenHash = hashToken(refreshToken);
+
+      const token = await RefreshToken.findOneAndUpdate(
+        { tokenHash, revokedAt: null },
+        { $set: { revokedAt: new Date() } }
+      );
+
+      if (token) {
+        Logger.info('Logout realizado com sucesso', { userId: token.user });
+      }
+    } catch (error) {
+      Logger.error('Erro ao realizar logout', error);
+      throw new AppError('Erro interno ao realizar logout', 500);
+    }
+  }
+
+  /**
+   * Revoga todas as sessões ativas de um usuário
+   */
+  public static async revokeAllSessions(userId: string): Promise<number> {
+    try {
+      const revoked = await RefreshToken.revokeAllForUser(userId);
+      Logger.info('Sessões do usuário revogadas', { userId, revoked });
+      return revoked;
+    } catch (error) {
+      Logger.error('Erro ao revogar sessões do usuário', error);
+      throw new AppError('Erro interno ao revogar sessões', 500);
+    }
+  }
+
+  /**
+   * Valida um access token e retorna seu payload
+   */
+  public static verifyAccessToken(token: string): IAccessTokenPayload {
+    try {
+      const payload = jwt.verify(token, config.jwt.secret) as IAccessTokenPayload;
+
+      if (payload.type !== 'access' || !payload.sub) {
+        throw new AppError('Token de acesso inválido', 401);
+      }
+
+      return payload;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new AppError('Token de acesso expirado', 401);
+      }
+
+      throw new AppError('Token de acesso inválido', 401);
+    }
+  }
+
+  /**
+   * Emite um novo par de tokens iniciando uma nova família de sessão
+   */
+  public static async issueTokens(
+    user: IUserDocument,
+    metadata: ISessionMetadata = {}
+  ): Promise<IAuthTokens> {
+    const refreshToken = generateSecureToken();
+
+    await this.persistRefreshToken(user, hashToken(refreshToken), generateSecureToken(16), metadata);
+
+    return {
+      accessToken: this.signAccessToken(user),
+      refreshToken,
+      tokenType: 'Bearer',
+      expiresIn: config.jwt.accessTokenTtlSeconds,
+    };
+  }
+
+  /**
+   * Emite os tokens da sessão após todas as etapas do login
+   */
+  private static async completeLogin(user: IUserDocument, metadata: ISessionMetadata): Promise<IAuthResponse> {
+    const tokens = await this.issueTokens(user, metadata);
+
+    Logger.info('Login realizado com sucesso', { userId: user._id });
+
+    return {
+      user: user.toResponseObject(),
+      ...tokens,
+    };
+  }
+
+  /**
+   * Assina o desafio de curta duração do primeiro passo do login com 2FA
+   */
+  private static issueTwoFactorChallenge(user: IUserDocument): ITwoFactorChallenge {
+    const payload: ITwoFactorChallengePayload = {
+      sub: (user._id as any).toString(),
+      type: '2fa',
+    };
+
+    return {
+      twoFactorRequired: true,
+      challengeToken: jwt.sign(payload, config.jwt.secret, {
+        expiresIn: config.twoFactor.challengeTtlSeconds,
+      }),
+      expiresIn: config.twoFactor.challengeTtlSeconds,
+    };
+  }
+
+  /**
+   * Valida o desafio de 2FA; expirado ou adulterado gera 401
+   */
+  private static verifyTwoFactorChallenge(token: string): ITwoFactorChallengePayload {
+    try {
+      const payload = jwt.verify(token, config.jwt.secret) as ITwoFactorChallengePayload;
+
+      if (payload.type !== '2fa' || !payload.sub) {
+        throw new AppError('Desafio de autenticação inválido', 401);
+      }
+
+      return payload;
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      if (error instanceof jwt.TokenExpiredError) {
+        throw new AppError('Desafio de autenticação expirado, faça login novamente', 401);
+      }
+
+      throw new AppError('Desafio de autenticação inválido', 401);
+    }
+  }
+
+  /**
+   * Assina o access token do usuário
+   */
+  private static signAccessToken(user: IUserDocument): string {
+    const payload: IAccessTokenPayload = {
+      sub: (user._id as any).toString(),
+      email: user.email,
+      type: 'access',
+    };
+
+    return jwt.sign(payload, config.jwt.secret, {
+      expiresIn: config.jwt.accessTokenTtlSeconds,
+    });
+  }
+
+  /**
+   * Persiste o hash de um refresh token
+   */
+  private static async persistRefreshToken(
+    user: IUserDocument,
+    tokenHash: string,
+    family: string,
+    metadata: ISessionMetadata
+  ): Promise<void> {
+    const expiresAt = new Date(
+      Date.now() + config.jwt.refreshTokenTtlDays * 24 * 60 * 60 * 1000
+    );
+
+    await RefreshToken.create({
+      user: user._id,
+      tokenHash,
+      family,
+      expiresAt,
+      createdByIp: metadata.ip,
+      userAgent: metadata.userAgent?.slice(0, 512),
+    });
+  }
+}
@@ -0,0 +1,79 @@
+import { Request } from 'express';
+import { BotCategory, BotSignal, IBotClassification } from '../types';
+import { matchBotRule } from '../config/botRules';
+import { config } from '../config/environment';
+
+/**
+ * Janela da heurística de cadência
+ */
+const CADENCE_WINDOW_MS = 60 * 1000;
+
+/**
+ * Limite de clientes acompanhados pela heurística de cadência
+ */
+const MAX_TRACKED_CLIENTS = 10000;
+
+/**
+ * Classificação de requisições de acesso como humanas ou de bots
+ * Usa primeiro a lista de regras de User-Agent (src/config/botRules.ts) e,
+ * com BOT_HEURISTICS_ENABLED, sinais de clientes automatizados: ausência de
+ * headers enviados por todo navegador e cadência acima de
+ * BOT_MAX_REQUESTS_PER_MINUTE para o mesmo IP e User-Agent
+ */
+export class BotDetectionService {
+  private static cadence = new Map<string, { windowStart: number; requests: number }>();
+
+  /**
+   * Classifica a requisição
+   */
+  public static classify(req: Request, now: number = Date.now()): IBotClassification {
+    const userAgent = req.get('User-Agent');
+    const rule = matchBotRule(userAgent);
+
+    if (rule) {
+      return { isBot: true, signal: BotSignal.USER_AGENT, name: rule.name, category: rule.category };
+    }
+
+    if (!config.bots.heuristicsEnabled) {
+      return { isBot: false };
+    }
+
+    // Navegadores sempre enviam User-Agent e Accept-Language
+    if (!userAgent || !req.get('Accept-Language')) {
+      return { isBot: true, signal: BotSignal.MISSING_HEADERS, category: BotCategory.TOOL };
+    }
+
+    if (this.exceedsCadence(`${req.ip}|${userAgent}`, now)) {
+      return { isBot: true, signal: BotSignal.CADENCE };
+    }
+
+    return { isBot: false };
+  }
+
+  /**
+   * Limpa o estado da heurística de cadência (útil para testes)
+   */
+  public static reset(): void {
+    this.cadence.clear();
+  }
+
+  /**
+   * Conta a requisição na janela do cliente e indica se o limite foi excedido
+   */
+  private static exceedsCadence(client: string, now: number): boolean {
+    let window = this.cadence.get(client);
+
+    if (!window || now - window.windowStart >= CADENCE_WINDOW_MS) {
+      if (!window && this.cadence.size >= MAX_TRACKED_CLIENTS) {
+        this.cadence.clear();
+      }
+
+      window = { windowStart: now, requests: 0 };
+      this.cadence.set(client, window);
+    }
+
+    window.requests++;
+
+    return window.requests > config.bots.maxRequestsPerMinute;
+  }
+}
@@ -0,0 +1,154 @@
+import mongoose from 'mongoose';
+import { AccessCounter } from '../models';
+import {
+  CounterScope,
+  CounterVisibility,
+  ICounterAccessPolicy,
+  ICounterPrincipal,
+  UserRole,
+} from '../types';
+import { Logger, isOriginAllowed, resolveCounterScopes } from '../utils';
+import { AppError } from '../middleware';
+import { config } from '../config/environment';
+import { AuthService } from './AuthService';
+import { ApiKeyService } from './ApiKeyService';
+import { TwoFactorService } from './TwoFactorService';
+import { UserService } from './UserService';
+
+/**
+ * Quem faz a requisição quando não há credenciais
+ */
+const ANONYMOUS: ICounterPrincipal = { user: null, apiKey: null };
+
+/**
+ * Service do controle de acesso por contador
+ * Combina a visibilidade e o dono do contador com o papel do usuário (JWT)
+ * ou os scopes da API key, e confere as origens permitidas nos incrementos
+ */
+export class CounterAccessService {
+  /**
+   * Resolve quem faz a requisição a partir do access token ou da API key
+   * Sem credenciais a requisição é anônima; credenciais inválidas geram 401
+   */
+  public static async resolvePrincipal(credentials: {
+    token?: string | null;
+    apiKey?: string | null;
+  }): Promise<ICounterPrincipal> {
+    if (credentials.token) {
+      const payload = AuthService.verifyAccessToken(credentials.token);
+      const user = await UserService.getUserDocumentById(payload.sub);
+
+      if (!user) {
+        throw new AppError('Token de acesso inválido', 401);
+      }
+
+      if (user.changedPasswordAfter(payload.iat)) {
+        throw new AppError('Token de acesso revogado', 401);
+      }
+
+      TwoFactorService.assertPolicy(user);
+
+      return {
+        user: {
+          id: (user._id as any).toString(),
+          email: user.email,
+          role: user.role,
+          emailVerified: user.emailVerified,
+        },
+        apiKey: null,
+      };
+    }
+
+    if (credentials.apiKey) {
+      return await ApiKeyService.authenticate(credentials.apiKey);
+    }
+
+    return ANONYMOUS;
+  }
+
+  /**
+   * Obtém a política de acesso (dono, visibilidade e origens permitidas) de um contador
+   */
+  public static async getPolicy(key: string): Promise<ICounterAccessPolicy> {
+    return await AccessCounter.getAccessPolicy(key);
+  }
+
+  /**
+   * Permissões de quem faz a requisição sobre um contador
+   */
+  public static async getScopes(key: string, principal: ICounterPrincipal): Promise<CounterScope[]> {
+    return resolveCounterScopes(principal, await this.getPolicy(key));
+  }
+
+  /**
+   * Garante que quem faz a requisição tem a permissão no contador
+   * Incrementos também precisam vir de uma origem permitida: com a lista
+   * definida, requisições anônimas sem Origin/Referer são recusadas
+   * Lança 401 para requisições anônimas sem permissão e 403 nos demais casos
+   */
+  public static async assertAccess(
+    key: string,
+    principal: ICounterPrincipal,
+    scope: CounterScope,
+    origin: string | null = null
+  ): Promise<void> {
+    const policy = await this.getPolicy(key);
+
+    if (!resolveCounterScopes(principal, policy).includes(scope)) {
+      if (!principal.user) {
+        throw new AppError('Autenticação necessária', 401);
+      }
+
+      Logger.warn('Acesso ao contador negado', {
+        key,
+        scope,
+        userId: principal.user.id,
+        apiKeyId: principal.apiKey?.id,
+      });
+      throw new AppError('Permissão insuficiente para esta operação', 403);
+    }
+
+    if (scope !== CounterScope.INCREMENT || policy.allowedOrigins.length === 0) {
+      return;
+    }
+
+    const allowed = origin ? isOriginAllowed(origin, policy.allowedOrigins) : principal.user !== null;
+
+    if (!allowed) {
+      Logger.warn('Incremento recusado por origem não permitida', { key, origin });
+      throw new AppError('Origem não permitida para este contador', 403);
+    }
+  }
+
+  /**
+   * Filtro dos contadores visíveis para quem faz a requisição nas listagens
+   * (usado em agregação, por isso o dono é convertido para ObjectId)
+   * Retorna null quando todos são visíveis (administradores e operadores)
+   */
+  public static readableFilter(principal: ICounterPrincipal): Record<string, unknown> | null {
+    const { user, apiKey } = principal;
+    const canRead = !apiKey || apiKey.scopes.includes(CounterScope.READ);
+
+    if (user && canRead && !apiKey?.counters.length && [UserRole.ADMIN, UserRole.OPERATOR].includes(user.role)) {
+      return null;
+    }
+
+    const visible: Record<string, unknown>[] = [
+      config.counterAccess.defaultVisibility === CounterVisibility.PUBLIC
+        ? { visibility: { $ne: CounterVisibility.PRIVATE } }
+        : { visibility: CounterVisibility.PUBLIC },
+    ];
+
+    if (user && canRead) {
+      const restricted = apiKey?.counters.length ? { key: { $in: apiKey.counters } } : {};
+
+      visible.push(
+        [UserRole.ADMIN, UserRole.OPERATOR].includes(user.role)
+          ? restricted
+          : { owner: new mongoose.Types.ObjectId(user.id), ...restricted }
+      );
+    }
+
+    return { $or: visible };
+  }
+}
@@ -0,0 +1,247 @@
+import { AccessCounter, CounterCheckpoint, CounterLogEntry } from '../models';
+import { CounterLogOperation, ICounterEventSourcing } from '../types';
+import { Logger } from '../utils';
+import { AppError } from '../middleware';
+import { config } from '../config/environment';
+
+/**
+ * Ponto de partida da reprodução do log (checkpoint)
+ */
+interface ReplayOrigin {
+  at: Date;
+  count: number;
+}
+
+/**
+ * Service do modo event-sourced dos contadores
+ * As operações (incrementos, decrementos, ajustes e resets) são registradas
+ * em counter_log e o valor em qualquer instante é o último checkpoint mais as
+ * operações posteriores. O documento do contador continua sendo atualizado a
+ * cada operação e funciona como projeção do log, reconstruível por rebuild()
+ */
+export class CounterLogService {
+  /**
+   * Estado do modo event-sourced do contador (undefined se desabilitado)
+   */
+  public static async getState(key: string): Promise<ICounterEventSourcing | undefined> {
+    return AccessCounter.getEventSourcing(key);
+  }
+
+  /**
+   * Registra uma operação no log do contador
+   * Operações absolutas (reset, ajuste para um valor) informam value
+   */
+  public static async append(
+    key: string,
+    operation: CounterLogOperation,
+    change: { delta?: number; value?: number },
+    at: Date = new Date()
+  ): Promise<void> {
+    await CounterLogEntry.create({
+      key,
+      operation,
+      delta: change.delta ?? 0,
+      value: change.value ?? null,
+      at,
+    });
+  }
+
+  /**
+   * Valor do contador em um instante, reproduzindo o log a partir do
+   * checkpoint mais recente anterior a ele
+   */
+  public static async valueAt(key: string, at: Date): Promise<{ count: number; lastUpdated: Date }> {
+    if (at.getTime() > Date.now()) {
+      throw new AppError('Parâmetro at não pode estar no futuro', 400);
+    }
+
+    const state = await this.getState(key);
+
+    if (!state) {
+      throw new AppError('Consultas históricas exigem o modo event-sourced habilitado no contador', 400);
+    }
+
+    if (!state.baselineAt) {
+      throw new AppError('Histórico do contador ainda não disponível: aguardando o checkpoint inicial', 400);
+    }
+
+    if (at < state.baselineAt) {
+      throw new AppError(`Histórico do contador disponível a partir de ${state.baselineAt.toISOString()}`, 400);
+    }
+
+    const checkpoint = await CounterCheckpoint.findOne({ key, at: { $gte: state.baselineAt, $lte: at } })
+      .sort({ at: -1 })
+      .lean();
+
+    if (!checkpoint) {
+      throw new AppError('Checkpoint inicial do contador não encontrado; reconstrua o contador', 409);
+    }
+
+    return this.replay(key, checkpoint, at);
+  }
+
+  /**
+   * Registra o checkpoint inicial dos contadores recém-habilitados e novos
+   * checkpoints dos contadores com operações desde o último
+   * Retorna o número de checkpoints criados
+   */
+  public static async checkpointAll(now: Date = new Date()): Promise<number> {
+    const counters = await AccessCounter.findEventSourced();
+    let created = 0;
+
+    for (const { key, eventSourcing } of counters) {
+      try {
+        const checkpointed = eventSourcing.baselineAt
+          ? await this.checkpoint(key, eventSourcing.baselineAt, now)
+          : await this.createBaseline(key, eventSourcing.enabledAt, now);
+
+        if (checkpointed) {
+          created++;
+        }
+      } catch (error) {
+        Logger.error('Erro ao criar checkpoint do contador', { key, error });
+      }
+    }
+
+    if (created > 0) {
+      Logger.info('Checkpoints de contadores criados', { count: created });
+    }
+
+    return created;
+  }
+
+  /**
+   * Reconstrói os checkpoints e a projeção (documento do contador) a partir do log
+   * Operações gravadas durante a reconstrução ficam no log, mas podem não
+   * estar refletidas na projeção até a próxima reconstrução
+   * Retorna os totais da projeção antes e depois
+   */
+  public static async rebuild(key: string): Promise<{ previousCount: number; count: number }> {
+    const state = await AccessCounter.getEventSourcing(key);
+
+    if (!state) {
+      throw new AppError('Contador não está no modo event-sourced', 400);
+    }
+
+    if (!state.baselineAt) {
+      throw new AppError('Contador ainda não possui checkpoint inicial', 409);
+    }
+
+    const baseline = await CounterCheckpoint.findOne({ key, baseline: true, at: state.baselineAt }).lean();
+
+    if (!baseline) {
+      throw new AppError('Checkpoint inicial do contador não encontrado', 409);
+    }
+
+    // Checkpoints intermediários são derivados do log e recalculados
+    await CounterCheckpoint.deleteMany({ key, baseline: false, at: { $gt: state.baselineAt } });
+
+    const now = new Date();
+    const cutoff = new Date(now.getTime() - config.eventSourcing.settleMs);
+    let origin: ReplayOrigin = baseline;
+
+    if (cutoff > baseline.at) {
+      const settled = await this.replay(key, baseline, cutoff);
+      origin = await CounterCheckpoint.create({ key, at: cutoff, count: settled.count });
+    }
+
+    const current = await this.replay(key, origin, now);
+    const before = await AccessCounter.getCurrentCount(key);
+
+    await AccessCounter.overwriteCount(key, current.count);
+
+    Logger.warn('Projeção do contador reconstruída a partir do log', {
+      key,
+      previousCount: before?.count ?? 0,
+      count: current.count,
+    });
+
+    return { previousCount: before?.count ?? 0, count: current.count };
+  }
+
+  /**
+   * Registra o checkpoint inicial com o total atual do contador
+   * Aguarda o TTL do cache de configurações para que todas as instâncias já
+   * estejam registrando as operações no log
+   */
+  private static async createBaseline(key: string, enabledAt: Date, now: Date): Promise<boolean> {
+    if (now.getTime() < enabledAt.getTime() + config.counterShards.cacheTtlMs) {
+      return false;
+    }
+
+    const at = new Date();
+    const counter = await AccessCounter.getCurrentCount(key);
+    const checkpoint = await CounterCheckpoint.create({ key, at, count: counter?.count ?? 0, baseline: true });
+
+    // Outra instância registrou o checkpoint inicial antes
+    if (!(await AccessCounter.claimEventSourcingBaseline(key, enabledAt, at))) {
+      await checkpoint.deleteOne();
+      return false;
+    }
+
+    Logger.info('Checkpoint inicial do contador event-sourced registrado', { key, count: checkpoint.count });
+
+    return true;
+  }
+
+  /**
+   * Consolida as operações desde o último checkpoint
+   * Operações dentro da janela de acomodação ficam para o próximo checkpoint
+   */
+  private static async checkpoint(key: string, baselineAt: Date, now: Date): Promise<boolean> {
+    const cutoff = new Date(now.getTime() - config.eventSourcing.settleMs);
+    const last = await CounterCheckpoint.findOne({ key, at: { $gte: baselineAt } })
+      .sort({ at: -1 })
+      .lean();
+
+    if (!last || cutoff <= last.at) {
+      return false;
+    }
+
+    const pending = await CounterLogEntry.exists({ key, at: { $gt: last.at, $lte: cutoff } });
+
+    if (!pending) {
+      return false;
+    }
+
+    const { count } = await this.replay(key, last, cutoff);
+    await CounterCheckpoint.create({ key, at: cutoff, count });
+
+    return true;
+  }
+
+  /**
+   * Reproduz as operações do log entre o ponto de partida e o instante informado
+   * A última operação absoluta do intervalo substitui o valor acumulado; as
+   * operações relativas posteriores são somadas no banco
+   */
+  private static async replay(
+    key: string,
+    origin: ReplayOrigin,
+    until: Date
+  ): Promise<{ count: number; lastUpdated: Date }> {
+    const range = { key, at: { $gt: origin.at, $lte: until } };
+
+    const absolute = await CounterLogEntry.findOne({ ...range, value: { $ne: null } })
+      .sort({ at: -1, _id: -1 })
+      .lean();
+
+    const relative = absolute
+      ? {
+          key,
+          at: { $lte: until },
+          $or: [{ at: { $gt: absolute.at } }, { at: absolute.at, _id: { $gt: absolute._id } }],
+        }
+      : range;
+
+    const [totals] = await CounterLogEntry.aggregate<{ delta: number; lastUpdated: Date }>([
+      { $match: relative },
+      { $group: { _id: null, delta: { $sum: '$delta' }, lastUpdated: { $max: '$at' } } },
+    ]);
+
+    const base = absolute ? absolute.value! : origin.count;
+    const lastUpdated = totals?.lastUpdated ?? absolute?.at ?? origin.at;
+
+    return { count: Math.max(0, base + (totals?.delta ?? 0)), lastUpdated };
+  }
+}
@@ -0,0 +1,181 @@
+import { AccessCounter, CounterEvent, CounterSnapshot } from '../models';
+import {
+  CounterEventType,
+  ICounterEventResponse,
+  ICounterResetSchedule,
+  ICounterSnapshotResponse,
+  PaginatedResponse,
+} from '../types';
+import { Logger, nextPeriodStart, startOfPeriod } from '../utils';
+import { AppError } from '../middleware';
+import { AccessCounterService } from './AccessCounterService';
+
+/**
+ * Limite de resets agendados processados por execução do job
+ */
+const MAX_RESETS_PER_RUN = 100;
+
+/**
+ * Monta os dados de paginação de uma listagem
+ */
+const paginate = <T>(page: number, limit: number, total: number): PaginatedResponse<T>['pagination'] => {
+  const pages = Math.ceil(total / limit);
+
+  return { page, limit, total, pages, hasNext: page < pages, hasPrev: page > 1 };
+};
+
+/**
+ * Service dos resets agendados, dos snapshots de períodos e da trilha de
+ * auditoria dos contadores. Cada reset agendado arquiva o valor de fechamento
+ * do período em counter_snapshots e é registrado em counter_events
+ */
+export class CounterResetService {
+  /**
+   * Executa os resets agendados cujo horário chegou
+   * Retorna o número de contadores resetados
+   */
+  public static async runDueResets(now: Date = new Date()): Promise<number> {
+    const due = await AccessCounter.findDueResets(now, MAX_RESETS_PER_RUN);
+    let executed = 0;
+
+    for (const { key, resetSchedule } of due) {
+      try {
+        if (await this.runScheduledReset(key, resetSchedule, now)) {
+          executed++;
+        }
+      } catch (error) {
+        Logger.error('Erro ao executar reset agendado', { key, error });
+      }
+    }
+
+    if (executed > 0) {
+      Logger.info('Resets agendados executados', { count: executed });
+    }
+
+    return executed;
+  }
+
+  /**
+   * Executa o reset agendado de um contador e arquiva o snapshot do período
+   * Períodos perdidos (ex.: servidor parado) geram um único snapshot e o
+   * próximo reset é agendado a partir de agora
+   */
+  private static async runScheduledReset(
+    key: string,
+    schedule: ICounterResetSchedule,
+    now: Date
+  ): Promise<boolean> {
+    const { period, timezone, nextResetAt: periodEnd } = schedule;
+    const next = nextPeriodStart(now > periodEnd ? now : periodEnd, period, timezone);
+
+    // Outra instância já executou este reset
+    if (!(await AccessCounter.claimScheduledReset(key, periodEnd, next))) {
+      return false;
+    }
+
+    const { previous } = await AccessCounterService.applyReset(key);
+
+    const snapshot = await CounterSnapshot.create({
+      key,
+      namespace: previous.namespace,
+      period,
+      timezone,
+      periodStart: startOfPeriod(new Date(periodEnd.getTime() - 1), period, timezone),
+      periodEnd,
+      count: previous.count,
+      botCount: previous.botCount,
+      uniqueVisitors: previous.uniqueVisitors,
+    });
+
+    await CounterEvent.create({
+      key,
+      type: CounterEventType.SCHEDULED_RESET,
+      previousCount: previous.count,
+      previousBotCount: previous.botCount,
+      reason: `Reset agendado (${period})`,
+      snapshot: snapshot._id,
+    });
+
+    Logger.info('Reset agendado executado', { key, period, count: previous.count, nextResetAt: next });
+
+    return true;
+  }
+
+  /**
+   * Lista snapshots de períodos encerrados, do mais recente ao mais antigo
+   * O intervalo from/to filtra pelo fim do período
+   */
+  public static async listSnapshots(
+    filters: { key?: string; from?: Date; to?: Date },
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{
+    snapshots: ICounterSnapshotResponse[];
+    pagination: PaginatedResponse<ICounterSnapshotResponse>['pagination'];
+  }> {
+    const { key, from, to } = filters;
+
+    if (from && to && from > to) {
+      throw new AppError('Parâmetro from deve ser anterior a to', 400);
+    }
+
+    try {
+      const query = {
+        ...(key && { key }),
+        ...((from || to) && { periodEnd: { ...(from && { $gte: from }), ...(to && { $lte: to }) } }),
+      };
+
+      const [snapshots, total] = await Promise.all([
+        CounterSnapshot.find(query)
+          .sort({ periodEnd: -1, key: 1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .lean(),
+        CounterSnapshot.countDocuments(query),
+      ]);
+
+      return {
+        snapshots: snapshots.map(({ _id, __v, ...snapshot }) => ({ id: String(_id), ...snapshot })),
+        pagination: paginate(page, limit, total),
+      };
+    } catch (error) {
+      Logger.error('Erro ao listar snapshots de contadores', error);
+      throw new AppError('Erro interno ao listar snapshots', 500);
+    }
+  }
+
+  /**
+   * Lista a trilha de auditoria de um contador, do evento mais recente ao mais antigo
+   */
+  public static async listEvents(
+    key: string,
+    page: number = 1,
+    limit: number = 10
+  ): Promise<{
+    events: ICounterEventResponse[];
+    pagination: PaginatedResponse<ICounterEventResponse>['pagination'];
+  }> {
+    try {
+      const [events, total] = await Promise.all([
+        CounterEvent.find({ key })
+          .sort({ createdAt: -1, _id: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit)
+          .lean(),
+        CounterEvent.countDocuments({ key }),
+      ]);
+
+      return {
+        events: events.map(({ _id, __v, snapshot, ...event }) => ({
+          id: String(_id),
+          ...event,
+          snapshotId: snapshot ? String(snapshot) : null,
+        })),
+        pagination: paginate(page, limit, total),
+      };
+    } catch (error) {
+      Logger.error('Erro ao listar eventos do contador', error);
+      throw new AppError('Erro interno ao listar eventos do contador', 500);
+    }
+  }
+}
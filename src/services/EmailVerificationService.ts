@@ -0,0 +1,129 @@
+import { EmailVerificationToken, User, IUserDocument } from '../models';
+import { IMailMessage } from '../types';
+import { Logger, generateSecureToken, hashToken } from '../utils';
+import { AppError } from '../middleware';
+import { config } from '../config/environment';
+import { MailService } from './MailService';
+
+/**
+ * Service de verificação de email
+ * Cada token fica vinculado ao endereço para o qual foi enviado: se o usuário
+ * trocar de email antes de confirmar, o link antigo deixa de valer
+ */
+export class EmailVerificationService {
+  /**
+   * Gera um novo token de verificação e o envia para o email atual do usuário
+   * Tokens pendentes anteriores são invalidados (apenas o link mais recente vale)
+   */
+  public static async sendVerification(user: IUserDocument): Promise<void> {
+    await EmailVerificationToken.invalidateForUser(user._id);
+
+    const token = generateSecureToken();
+
+    await EmailVerificationToken.create({
+      user: user._id,
+      email: user.email,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + config.emailVerification.tokenTtlHours * 60 * 60 * 1000),
+    });
+
+    await MailService.send(this.buildVerificationMessage(user, token));
+
+    Logger.info('Email de verificação enviado', { userId: user._id, email: user.email });
+  }
+
+  /**
+   * Confirma o email a partir do token recebido
+   * O token é consumido (uso único) e só vale se o email do usuário não mudou
+   */
+  public static async verifyEmail(token: string): Promise<void> {
+    try {
+      const verificationToken = await EmailVerificationToken.consume(hashToken(token), new Date());
+      const user = verificationToken ? await User.findById(verificationToken.user) : null;
+
+      if (!user || user.email !== verificationToken?.email) {
+        throw new AppError('Token de verificação inválido ou expirado', 400);
+      }
+
+      if (!user.emailVerified) {
+        user.emailVerified = true;
+        user.emailVerifiedAt = new Date();
+        await user.save();
+      }
+
+      Logger.info('Email verificado', { userId: user._id, email: user.email });
+    } catch (error) {
+      Logger.error('Erro ao verificar email', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao verificar email', 500);
+    }
+  }
+
+  /**
+   * Reenvia o email de verificação do usuário autenticado
+   * Limitado a um envio a cada EMAIL_VERIFICATION_RESEND_INTERVAL_SECONDS
+   */
+  public static async resendVerification(userId: string): Promise<void> {
+    try {
+      const user = await User.findById(userId);
+
+      if (!user) {
+        throw new AppError('Usuário não encontrado', 404);
+      }
+
+      if (user.emailVerified) {
+        throw new AppError('Email já verificado', 409);
+      }
+
+      const latest = await EmailVerificationToken.findLatestForUser(user._id);
+
+      if (latest?.createdAt) {
+        const elapsed = Date.now() - latest.createdAt.getTime();
+        const interval = config.emailVerification.resendIntervalSeconds * 1000;
+
+        if (elapsed < interval) {
+          const wait = Math.ceil((interval - elapsed) / 1000);
+          throw new AppError(`Aguarde ${wait} segundos para solicitar um novo email de verificação`, 429);
+        }
+      }
+
+      await this.sendVerification(user);
+    } catch (error) {
+      Logger.error('Erro ao reenviar email de verificação', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao reenviar email de verificação', 500);
+    }
+  }
+
+  /**
+   * Monta o email com o link de verificação
+   */
+  private static buildVerificationMessage(user: IUserDocument, token: string): IMailMessage {
+    const url = new URL(config.emailVerification.url);
+    url.searchParams.set('token', token);
+
+    const hours = config.emailVerification.tokenTtlHours;
+
+    return {
+      to: user.email,
+      subject: 'Confirme seu email',
+      text: [
+        `Olá, ${user.name}.`,
+        '',
+        'Para confirmar o endereço de email da sua conta, acesse:',
+        url.toString(),
+        '',
+        `O link vale por ${hours} horas e pode ser usado uma única vez.`,
+        'Se você não criou uma conta nem alterou seu email, ignore esta mensagem.',
+      ].join('\n'),
+    };
+  }
+}
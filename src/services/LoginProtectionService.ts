@@ -0,0 +1,147 @@
+import { LoginThrottle, ILoginThrottleDocument } from '../models';
+import { IUserLockoutState, LoginThrottleScope } from '../types';
+import { Logger } from '../utils';
+import { AppError, TooManyRequestsError } from '../middleware';
+import { config } from '../config/environment';
+
+/**
+ * Service de proteção contra força bruta no login
+ * Conta as falhas por conta (email informado, exista ou não) e por IP no MongoDB,
+ * para que o limite valha em todas as instâncias. Após cada falha a conta aguarda um
+ * intervalo progressivo e, ao atingir o limite, a conta ou o IP ficam bloqueados temporariamente
+ */
+export class LoginProtectionService {
+  /**
+   * Verifica bloqueios e o intervalo progressivo antes de conferir a senha
+   * Lança 429 com Retry-After se a conta ou o IP estiverem bloqueados ou se a
+   * tentativa vier antes do fim do intervalo (sem segurar a conexão aberta)
+   */
+  public static async beforeAttempt(email: string, ip?: string): Promise<void> {
+    const now = new Date();
+    const [account, address] = await Promise.all([
+      this.find(LoginThrottleScope.ACCOUNT, this.accountKey(email)),
+      ip ? this.find(LoginThrottleScope.IP, ip) : Promise.resolve(null),
+    ]);
+
+    const lock = [account, address]
+      .filter((throttle): throttle is ILoginThrottleDocument => !!throttle?.lockedUntil && throttle.lockedUntil > now)
+      .sort((a, b) => b.lockedUntil!.getTime() - a.lockedUntil!.getTime())[0];
+
+    if (lock) {
+      const minutes = Math.ceil((lock.lockedUntil!.getTime() - now.getTime()) / 60000);
+      Logger.warn('Tentativa de login bloqueada', { scope: lock.scope, email, ip, lockedUntil: lock.lockedUntil });
+      throw new TooManyRequestsError(
+        `Muitas tentativas de login sem sucesso. Tente novamente em ${minutes} minuto${minutes > 1 ? 's' : ''}`,
+        this.secondsUntil(lock.lockedUntil!, now)
+      );
+    }
+
+    const failures = account && account.windowExpiresAt > now ? account.failures : 0;
+    const retryAt = account ? new Date(account.lastFailureAt.getTime() + this.delayFor(failures)) : now;
+
+    if (retryAt > now) {
+      const seconds = this.secondsUntil(retryAt, now);
+      throw new TooManyRequestsError(
+        `Aguarde ${seconds} segundo${seconds > 1 ? 's' : ''} antes de tentar novamente`,
+        seconds
+      );
+    }
+  }
+
+  /**
+   * Registra uma falha de senha para a conta e para o IP
+   */
+  public static async recordFailure(email: string, ip?: string): Promise<void> {
+    const now = new Date();
+    const windowMs = config.loginProtection.failureWindowMinutes * 60 * 1000;
+    const lockoutMs = config.loginProtection.lockoutMinutes * 60 * 1000;
+
+    const [account, address] = await Promise.all([
+      LoginThrottle.recordFailure(LoginThrottleScope.ACCOUNT, this.accountKey(email), now, {
+        windowMs,
+        lockoutMs,
+        maxFailures: config.loginProtection.maxAccountFailures,
+      }),
+      ip
+        ? LoginThrottle.recordFailure(LoginThrottleScope.IP, ip, now, {
+            windowMs,
+            lockoutMs,
+            maxFailures: config.loginProtection.maxIpFailures,
+          })
+        : Promise.resolve(null),
+    ]);
+
+    for (const throttle of [account, address]) {
+      // lockedUntil recém-definido: o bloqueio começou nesta falha
+      if (throttle?.lockedUntil && throttle.lockedUntil.getTime() === now.getTime() + lockoutMs) {
+        Logger.warn('Login bloqueado temporariamente por excesso de falhas', {
+          scope: throttle.scope,
+          key: throttle.key,
+          failures: throttle.failures,
+          lockedUntil: throttle.lockedUntil,
+        });
+      }
+    }
+  }
+
+  /**
+   * Zera as falhas da conta após um login bem-sucedido
+   * As falhas do IP são mantidas, para não premiar quem alterna entre contas
+   */
+  public static async recordSuccess(email: string): Promise<void> {
+    await LoginThrottle.deleteOne({ scope: LoginThrottleScope.ACCOUNT, key: this.accountKey(email) });
+  }
+
+  /**
+   * Estado de bloqueio da conta, exibido aos administradores
+   */
+  public static async getAccountState(email: string): Promise<IUserLockoutState> {
+    const now = new Date();
+    const throttle = await this.find(LoginThrottleScope.ACCOUNT, this.accountKey(email));
+    const windowOpen = !!throttle && throttle.windowExpiresAt > now;
+    const locked = !!throttle?.lockedUntil && throttle.lockedUntil > now;
+
+    return {
+      locked,
+      failedAttempts: windowOpen || locked ? throttle!.failures : 0,
+      lockedUntil: locked ? throttle!.lockedUntil! : null,
+      lastFailureAt: throttle?.lastFailureAt ?? null,
+    };
+  }
+
+  /**
+   * Desbloqueia a conta e zera as falhas (ação administrativa)
+   */
+  public static async unlockAccount(email: string): Promise<void> {
+    try {
+      await LoginThrottle.deleteOne({ scope: LoginThrottleScope.ACCOUNT, key: this.accountKey(email) });
+    } catch (error) {
+      Logger.error('Erro ao desbloquear conta', error);
+      throw new AppError('Erro interno ao desbloquear conta', 500);
+    }
+  }
+
+  /**
+   * Intervalo após a última falha: dobra a cada falha, até o máximo configurado
+   */
+  private static delayFor(failures: number): number {
+    if (failures <= 0) {
+      return 0;
+    }
+
+    const { delayBaseMs, delayMaxMs } = config.loginProtection;
+    return Math.min(delayBaseMs * 2 ** (failures - 1), delayMaxMs);
+  }
+
+  private static secondsUntil(date: Date, now: Date): number {
+    return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+  }
+
+  private static find(scope: LoginThrottleScope, key: string): Promise<ILoginThrottleDocument | null> {
+    return LoginThrottle.findOne({ scope, key }).exec();
+  }
+
+  private static accountKey(email: string): string {
+    return email.toLowerCase().trim();
+  }
+}
@@ -0,0 +1,125 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import nodemailer, { Transporter } from 'nodemailer';
+import { IMailMessage } from '../types';
+import { Logger, generateSecureToken } from '../utils';
+import { config } from '../config/environment';
+
+/**
+ * Tempo máximo das etapas da conexão SMTP
+ */
+const SMTP_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Transporte de e-mail plugável
+ * Novos provedores implementam esta interface e são registrados via MailService.setTransport
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: IMailMessage & { from: string }): Promise<void>;
+}
+
+/**
+ * Escreve as mensagens no log, para desenvolvimento local
+ */
+class ConsoleMailTransport implements MailTransport {
+  public readonly name = 'console';
+
+  public async send(message: IMailMessage & { from: string }): Promise<void> {
+    Logger.info('📧 E-mail (transporte console)', {
+      from: message.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+    });
+  }
+}
+
+/**
+ * Grava cada mensagem como um arquivo .eml, que pode ser aberto em qualquer cliente de e-mail
+ */
+class FileMailTransport implements MailTransport {
+  public readonly name = 'file';
+  private readonly composer = nodemailer.createTransport({ streamTransport: true, buffer: true });
+
+  constructor(private readonly dir: string) {}
+
+  public async send(message: IMailMessage & { from: string }): Promise<void> {
+    const info = await this.composer.sendMail(message);
+    const file = path.join(this.dir, `${Date.now()}-${generateSecureToken(6)}.eml`);
+
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(file, info.message as Buffer);
+
+    Logger.info('📧 E-mail gravado em arquivo', { to: message.to, subject: message.subject, file });
+  }
+}
+
+/**
+ * Envia as mensagens por um servidor SMTP
+ */
+class SmtpMailTransport implements MailTransport {
+  public readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  constructor(smtp: typeof config.mail.smtp) {
+    this.transporter = nodemailer.createTransport({
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      auth: smtp.user ? { user: smtp.user, pass: smtp.password } : undefined,
+      connectionTimeout: SMTP_TIMEOUT_MS,
+      greetingTimeout: SMTP_TIMEOUT_MS,
+      socketTimeout: SMTP_TIMEOUT_MS,
+    });
+  }
+
+  public async send(message: IMailMessage & { from: string }): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
+
+/**
+ * Service de envio de e-mails
+ * O transporte é escolhido por MAIL_TRANSPORT (console, file ou smtp)
+ */
+export class MailService {
+  private static transport: MailTransport | null = null;
+
+  /**
+   * Envia uma mensagem com o remetente padrão (MAIL_FROM)
+   */
+  public static async send(message: IMailMessage): Promise<void> {
+    const transport = this.getTransport();
+
+    await transport.send({ from: config.mail.from, ...message });
+
+    Logger.debug('E-mail enviado', { to: message.to, subject: message.subject, transport: transport.name });
+  }
+
+  /**
+   * Substitui o transporte configurado (null volta ao de MAIL_TRANSPORT)
+   */
+  public static setTransport(transport: MailTransport | null): void {
+    this.transport = transport;
+  }
+
+  private static getTransport(): MailTransport {
+    if (!this.transport) {
+      this.transport = this.createTransport();
+    }
+
+    return this.transport;
+  }
+
+  private static createTransport(): MailTransport {
+    switch (config.mail.transport) {
+      case 'smtp':
+        return new SmtpMailTransport(config.mail.smtp);
+      case 'file':
+        return new FileMailTransport(config.mail.fileDir);
+      default:
+        return new ConsoleMailTransport();
+    }
+  }
+}
@@ -0,0 +1,204 @@
+import { PasswordResetToken, IUserDocument } from '../models';
+import { IAuthTokens, IMailMessage, ISessionMetadata } from '../types';
+import { Logger, generateSecureToken, hashToken } from '../utils';
+import { AppError } from '../middleware';
+import { config } from '../config/environment';
+import { AuthService } from './AuthService';
+import { MailService } from './MailService';
+import { UserService } from './UserService';
+
+/**
+ * Service de troca e redefinição de senha
+ * A troca exige a senha atual; a redefinição usa tokens de uso único
+ * enviados por e-mail. Nos dois casos as sessões existentes são revogadas
+ */
+export class PasswordService {
+  /**
+   * Troca a senha do usuário autenticado
+   * As demais sessões são encerradas e um novo par de tokens é emitido para a atual
+   */
+  public static async changePassword(
+    userId: string,
+    currentPassword: string,
+    newPassword: string,
+    metadata: ISessionMetadata = {}
+  ): Promise<IAuthTokens> {
+    try {
+      const user = await UserService.getUserDocumentById(userId);
+
+      if (!user) {
+        throw new AppError('Usuário não encontrado', 404);
+      }
+
+      if (!(await user.comparePassword(currentPassword))) {
+        Logger.warn('Troca de senha com senha atual incorreta', { userId, ip: metadata.ip });
+        throw new AppError('Senha atual incorreta', 400);
+      }
+
+      if (currentPassword === newPassword) {
+        throw new AppError('A nova senha deve ser diferente da atual', 400);
+      }
+
+      await this.setPassword(user, newPassword);
+      const revoked = await AuthService.revokeAllSessions(userId);
+
+      Logger.info('Senha alterada pelo usuário', { userId, revoked });
+
+      return await AuthService.issueTokens(user, metadata);
+    } catch (error) {
+      Logger.error('Erro ao alterar senha', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao alterar senha', 500);
+    }
+  }
+
+  /**
+   * Gera um token de redefinição e o envia por e-mail
+   * Emails não cadastrados são ignorados em silêncio (evita enumeração) e o
+   * envio não é aguardado, para que o tempo de resposta não revele o cadastro
+   */
+  public static async requestReset(email: string, metadata: ISessionMetadata = {}): Promise<void> {
+    try {
+      const user = await UserService.getUserByEmail(email);
+
+      if (!user) {
+        Logger.info('Redefinição de senha solicitada para email não cadastrado', { email, ip: metadata.ip });
+        return;
+      }
+
+      // Apenas o link mais recente vale
+      await PasswordResetToken.invalidateForUser(user._id);
+
+      const token = generateSecureToken();
+
+      await PasswordResetToken.create({
+        user: user._id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + config.passwordReset.tokenTtlMinutes * 60 * 1000),
+        requestedByIp: metadata.ip,
+      });
+
+      MailService.send(this.buildResetMessage(user, token)).catch(error =>
+        Logger.error('Erro ao enviar e-mail de redefinição de senha', error)
+      );
+
+      Logger.info('Redefinição de senha solicitada', { userId: user._id, ip: metadata.ip });
+    } catch (error) {
+      Logger.error('Erro ao solicitar redefinição de senha', error);
+      throw new AppError('Erro interno ao solicitar redefinição de senha', 500);
+    }
+  }
+
+  /**
+   * Redefine a senha com um token recebido por e-mail
+   * O token é consumido (uso único) e todas as sessões do usuário são revogadas.
+   * A nova senha é validada antes: uma senha recusada não inutiliza o link
+   */
+  public static async resetPassword(token: string, newPassword: string): Promise<void> {
+    try {
+      const tokenHash = hashToken(token);
+      const now = new Date();
+      const resetToken = await PasswordResetToken.findActive(tokenHash, now);
+      const user = resetToken ? await UserService.getUserDocumentById(resetToken.user.toString()) : null;
+
+      if (!user) {
+        throw new AppError('Token de redefinição inválido ou expirado', 400);
+      }
+
+      user.password = newPassword;
+      await this.validatePassword(user);
+
+      // Consumo condicional: de duas redefinições concorrentes, só uma grava a senha
+      if (!(await PasswordResetToken.consume(tokenHash, now))) {
+        throw new AppError('Token de redefinição inválido ou expirado', 400);
+      }
+
+      try {
+        await this.setPassword(user, newPassword);
+      } catch (error) {
+        await PasswordResetToken.release(resetToken!._id, now);
+        throw error;
+      }
+
+      const userId = (user._id as any).toString();
+      await PasswordResetToken.invalidateForUser(user._id);
+      const revoked = await AuthService.revokeAllSessions(userId);
+
+      Logger.warn('Senha redefinida por token', { userId, revoked });
+    } catch (error) {
+      Logger.error('Erro ao redefinir senha', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao redefinir senha', 500);
+    }
+  }
+
+  /**
+   * Grava a nova senha (o hash e passwordChangedAt são definidos no pre-save do model)
+   */
+  private static async setPassword(user: IUserDocument, newPassword: string): Promise<void> {
+    user.password = newPassword;
+
+    try {
+      await user.save();
+    } catch (error) {
+      throw this.toValidationError(error);
+    }
+  }
+
+  /**
+   * Valida a senha atribuída ao documento sem gravá-la
+   */
+  private static async validatePassword(user: IUserDocument): Promise<void> {
+    try {
+      await user.validate(['password']);
+    } catch (error) {
+      throw this.toValidationError(error);
+    }
+  }
+
+  /**
+   * Converte erros de validação do Mongoose em AppError 400
+   */
+  private static toValidationError(error: unknown): unknown {
+    if ((error as any).name === 'ValidationError') {
+      const validationErrors = Object.values((error as any).errors)
+        .map((err: any) => err.message)
+        .join(', ');
+      return new AppError(`Dados inválidos: ${validationErrors}`, 400);
+    }
+
+    return error;
+  }
+
+  /**
+   * Monta o e-mail com o link de redefinição
+   */
+  private static buildResetMessage(user: IUserDocument, token: string): IMailMessage {
+    const url = new URL(config.passwordReset.url);
+    url.searchParams.set('token', token);
+
+    const minutes = config.passwordReset.tokenTtlMinutes;
+
+    return {
+      to: user.email,
+      subject: 'Redefinição de senha',
+      text: [
+        `Olá, ${user.name}.`,
+        '',
+        'Recebemos um pedido para redefinir a senha da sua conta. Para criar uma nova senha, acesse:',
+        url.toString(),
+        '',
+        `O link vale por ${minutes} minutos e pode ser usado uma única vez.`,
+        'Se você não fez este pedido, ignore este e-mail; sua senha continua a mesma.',
+      ].join('\n'),
+    };
+  }
+}
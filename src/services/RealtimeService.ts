@@ -0,0 +1,459 @@
+import { AccessCounter, DEFAULT_COUNTER_NAMESPACE } from '../models';
+import { ICounterUpdate, IRealtimeMetrics } from '../types';
+import { Logger } from '../utils';
+import { AppError } from '../middleware';
+import { config } from '../config/environment';
+import { AccessCounterBuffer } from './AccessCounterBuffer';
+
+/**
+ * Transporte de um cliente em tempo real (conexão SSE ou WebSocket)
+ */
+export interface RealtimeSubscriber {
+  /** Indica se o transporte aceita novas mensagens sem acumular buffer */
+  isWritable(): boolean;
+  send(update: ICounterUpdate): void;
+  heartbeat(): void;
+  close(): void;
+}
+
+/**
+ * Estado de um cliente: chaves assinadas e atualizações adiadas por backpressure
+ */
+interface SubscriberState {
+  keys: Set<string>;
+  deferred: Map<string, ICounterUpdate>;
+}
+
+/**
+ * Limite de documentos com chave conhecida mantidos em memória (change streams)
+ */
+const MAX_KNOWN_DOCUMENTS = 10000;
+
+/**
+ * Intervalo para reabrir o change stream após uma falha
+ */
+const CHANGE_STREAM_RETRY_MS = 5000;
+
+/**
+ * Distribuição de atualizações dos contadores em tempo real
+ * As atualizações são agregadas por contador em uma janela de REALTIME_COALESCE_MS,
+ * de modo que uma rajada de incrementos gera no máximo uma mensagem por janela.
+ * Clientes lentos recebem apenas o valor mais recente quando voltam a aceitar escrita.
+ * Com REALTIME_CHANGE_STREAMS=true, as mudanças chegam pelo change stream da coleção
+ * de contadores e todas as instâncias notificam seus clientes
+ */
+export class RealtimeService {
+  private static subscribers = new Map<RealtimeSubscriber, SubscriberState>();
+  private static subscriptions = new Map<string, Set<RealtimeSubscriber>>();
+  private static dirty = new Map<string, ICounterUpdate | null>();
+  private static documentKeys = new Map<string, string>();
+  private static flushTimer: NodeJS.Timeout | null = null;
+  private static heartbeatTimer: NodeJS.Timeout | null = null;
+  private static retryTimer: NodeJS.Timeout | null = null;
+  private static changeStream: ReturnType<typeof AccessCounter.watch> | null = null;
+  private static resumeToken: unknown = null;
+
+  private static metrics = {
+    publishedTotal: 0,
+    deliveredTotal: 0,
+    coalescedTotal: 0,
+    deferredTotal: 0,
+  };
+
+  /**
+   * Inicia o heartbeat e, se habilitado, o change stream
+   */
+  public static start(): void {
+    if (!this.heartbeatTimer) {
+      this.heartbeatTimer = setInterval(() => this.sendHeartbeats(), config.realtime.heartbeatIntervalMs);
+      this.heartbeatTimer.unref();
+    }
+
+    if (config.realtime.changeStreams && !this.changeStream) {
+      this.openChangeStream();
+    }
+  }
+
+  /**
+   * Encerra timers, change stream e todas as conexões
+   */
+  public static async stop(): Promise<void> {
+    for (const timer of [this.flushTimer, this.heartbeatTimer, this.retryTimer]) {
+      if (timer) {
+        clearTimeout(timer);
+      }
+    }
+
+    this.flushTimer = null;
+    this.heartbeatTimer = null;
+    this.retryTimer = null;
+    this.dirty.clear();
+
+    if (this.changeStream) {
+      const stream = this.changeStream;
+      this.changeStream = null;
+      await stream.close();
+    }
+
+    for (const subscriber of Array.from(this.subscribers.keys())) {
+      subscriber.close();
+      this.remove(subscriber);
+    }
+  }
+
+  /**
+   * Indica se um novo cliente pode ser aceito
+   */
+  public static hasCapacity(): boolean {
+    return this.subscribers.size < config.realtime.maxConnections;
+  }
+
+  /**
+   * Registra um cliente conectado, ainda sem assinaturas
+   * O cliente passa a contar no limite de conexões e a receber heartbeats
+   */
+  public static register(subscriber: RealtimeSubscriber): void {
+    this.getState(subscriber);
+  }
+
+  /**
+   * Indica se o cliente assina ao menos um contador
+   */
+  public static isSubscribed(subscriber: RealtimeSubscriber): boolean {
+    return (this.subscribers.get(subscriber)?.keys.size ?? 0) > 0;
+  }
+
+  /**
+   * Assina as chaves informadas para um cliente
+   * Retorna as chaves efetivamente adicionadas
+   */
+  public static subscribe(subscriber: RealtimeSubscriber, keys: string[]): string[] {
+    const state = this.getState(subscriber);
+    const added = keys.filter(key => !state.keys.has(key));
+
+    if (state.keys.size + added.length > config.realtime.maxKeysPerConnection) {
+      throw new AppError(`Máximo de ${config.realtime.maxKeysPerConnection} contadores por conexão`, 400);
+    }
+
+    for (const key of added) {
+      state.keys.add(key);
+
+      let subscribers = this.subscriptions.get(key);
+      if (!subscribers) {
+        subscribers = new Set();
+        this.subscriptions.set(key, subscribers);
+      }
+      subscribers.add(subscriber);
+    }
+
+    return added;
+  }
+
+  /**
+   * Cancela a assinatura das chaves informadas
+   */
+  public static unsubscribe(subscriber: RealtimeSubscriber, keys: string[]): void {
+    const state = this.subscribers.get(subscriber);
+
+    if (!state) {
+      return;
+    }
+
+    for (const key of keys) {
+      state.keys.delete(key);
+      state.deferred.delete(key);
+      this.detach(subscriber, key);
+    }
+  }
+
+  /**
+   * Remove um cliente e todas as suas assinaturas
+   */
+  public static remove(subscriber: RealtimeSubscriber): void {
+    const state = this.subscribers.get(subscriber);
+
+    if (!state) {
+      return;
+    }
+
+    for (const key of state.keys) {
+      this.detach(subscriber, key);
+    }
+
+    this.subscribers.delete(subscriber);
+  }
+
+  /**
+   * Valores atuais dos contadores, enviados logo após a assinatura
+   */
+  public static async snapshot(keys: string[]): Promise<ICounterUpdate[]> {
+    return Promise.all(keys.map(key => this.loadUpdate(key)));
+  }
+
+  /**
+   * Publica a alteração de um contador feita por esta instância
+   * Com change streams a alteração chega pelo stream, inclusive para esta instância
+   */
+  public static publish(update: ICounterUpdate): void {
+    if (config.realtime.changeStreams) {
+      return;
+    }
+
+    this.enqueue(update.key, update);
+  }
+
+  /**
+   * Entrega imediatamente as atualizações pendentes
+   */
+  public static async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const batch = this.dirty;
+    this.dirty = new Map();
+
+    for (const [key, pending] of batch) {
+      const subscribers = this.subscriptions.get(key);
+
+      if (!subscribers || subscribers.size === 0) {
+        continue;
+      }
+
+      try {
+        const update = pending ?? (await this.loadUpdate(key));
+
+        for (const subscriber of subscribers) {
+          this.deliver(subscriber, update);
+        }
+      } catch (error) {
+        Logger.error('Erro ao distribuir atualização em tempo real', { key, error });
+      }
+    }
+
+    this.retryDeferred();
+  }
+
+  /**
+   * Métricas das conexões em tempo real
+   */
+  public static getMetrics(): IRealtimeMetrics {
+    let subscriptions = 0;
+    for (const subscribers of this.subscriptions.values()) {
+      subscriptions += subscribers.size;
+    }
+
+    return {
+      connections: this.subscribers.size,
+      subscriptions,
+      changeStream: this.changeStream !== null,
+      ...this.metrics,
+    };
+  }
+
+  /**
+   * Marca um contador como alterado e agenda a entrega
+   * Sem valor informado, o total é relido do banco no momento da entrega
+   */
+  private static enqueue(key: string, update: ICounterUpdate | null): void {
+    if (!this.subscriptions.has(key)) {
+      return;
+    }
+
+    this.metrics.publishedTotal++;
+
+    if (this.dirty.has(key)) {
+      this.metrics.coalescedTotal++;
+    }
+
+    this.dirty.set(key, update);
+    this.scheduleFlush();
+  }
+
+  private static scheduleFlush(): void {
+    if (this.flushTimer) {
+      return;
+    }
+
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, config.realtime.coalesceMs);
+    this.flushTimer.unref();
+  }
+
+  /**
+   * Envia a atualização ou a adia enquanto o cliente estiver congestionado
+   * Apenas a atualização mais recente de cada contador é mantida
+   */
+  private static deliver(subscriber: RealtimeSubscriber, update: ICounterUpdate): void {
+    const state = this.subscribers.get(subscriber);
+
+    if (!state) {
+      return;
+    }
+
+    if (!subscriber.isWritable()) {
+      if (state.deferred.has(update.key)) {
+        this.metrics.coalescedTotal++;
+      }
+
+      state.deferred.set(update.key, update);
+      this.metrics.deferredTotal++;
+      return;
+    }
+
+    state.deferred.delete(update.key);
+    subscriber.send(update);
+    this.metrics.deliveredTotal++;
+  }
+
+  /**
+   * Tenta entregar as atualizações adiadas dos clientes que voltaram a aceitar escrita
+   */
+  private static retryDeferred(): void {
+    let pending = false;
+
+    for (const [subscriber, state] of this.subscribers) {
+      if (state.deferred.size === 0) {
+        continue;
+      }
+
+      if (!subscriber.isWritable()) {
+        pending = true;
+        continue;
+      }
+
+      const deferred = Array.from(state.deferred.values());
+      state.deferred.clear();
+
+      for (const update of deferred) {
+        subscriber.send(update);
+        this.metrics.deliveredTotal++;
+      }
+    }
+
+    if (pending) {
+      this.scheduleFlush();
+    }
+  }
+
+  private static getState(subscriber: RealtimeSubscriber): SubscriberState {
+    let state = this.subscribers.get(subscriber);
+
+    if (!state) {
+      state = { keys: new Set(), deferred: new Map() };
+      this.subscribers.set(subscriber, state);
+    }
+
+    return state;
+  }
+
+  private static sendHeartbeats(): void {
+    for (const subscriber of this.subscribers.keys()) {
+      if (subscriber.isWritable()) {
+        subscriber.heartbeat();
+      }
+    }
+  }
+
+  private static detach(subscriber: RealtimeSubscriber, key: string): void {
+    const subscribers = this.subscriptions.get(key);
+
+    if (subscribers) {
+      subscribers.delete(subscriber);
+
+      if (subscribers.size === 0) {
+        this.subscriptions.delete(key);
+        this.dirty.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Lê o total atual de um contador (todos os shards + incrementos pendentes)
+   */
+  private static async loadUpdate(key: string): Promise<ICounterUpdate> {
+    const counter = await AccessCounter.getCurrentCount(key);
+    const pending = AccessCounterBuffer.pendingFor(key);
+
+    return {
+      key,
+      namespace: counter?.namespace ?? DEFAULT_COUNTER_NAMESPACE,
+      count: (counter?.count ?? 0) + pending,
+      lastUpdated: counter?.lastUpdated ?? new Date(),
+    };
+  }
+
+  /**
+   * Abre o change stream da coleção de contadores
+   * Eventos de update trazem apenas o _id do documento; a chave é resolvida
+   * uma vez por documento (shard) e mantida em memória
+   */
+  private static openChangeStream(): void {
+    try {
+      const stream = AccessCounter.watch(
+        [{ $match: { operationType: { $in: ['insert', 'update', 'replace', 'delete'] } } }],
+        this.resumeToken ? { resumeAfter: this.resumeToken } : {}
+      );
+
+      stream.on('change', (change: any) => {
+        this.resumeToken = change._id;
+        void this.handleChange(change);
+      });
+
+      stream.on('error', (error: unknown) => {
+        Logger.error('Erro no change stream de contadores', error);
+        this.changeStream = null;
+        stream.close().catch(closeError => {
+          Logger.warn('Falha ao fechar o change stream de contadores', closeError);
+        });
+        this.scheduleChangeStreamRetry();
+      });
+
+      this.changeStream = stream;
+      Logger.info('📡 Change stream de contadores aberto para atualizações em tempo real');
+    } catch (error) {
+      Logger.error('Erro ao abrir change stream de contadores', error);
+      this.scheduleChangeStreamRetry();
+    }
+  }
+
+  private static scheduleChangeStreamRetry(): void {
+    if (this.retryTimer || !this.heartbeatTimer) {
+      return;
+    }
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.openChangeStream();
+    }, CHANGE_STREAM_RETRY_MS);
+    this.retryTimer.unref();
+  }
+
+  private static async handleChange(change: any): Promise<void> {
+    try {
+      const documentId = String(change.documentKey?._id);
+      let key: string | undefined = change.fullDocument?.key ?? this.documentKeys.get(documentId);
+
+      if (!key && change.operationType !== 'delete') {
+        const document = await AccessCounter.findById(change.documentKey._id).select('key').lean();
+        key = document?.key;
+      }
+
+      if (!key) {
+        return;
+      }
+
+      if (this.documentKeys.size >= MAX_KNOWN_DOCUMENTS) {
+        this.documentKeys.clear();
+      }
+
+      this.documentKeys.set(documentId, key);
+      this.enqueue(key, null);
+    } catch (error) {
+      Logger.error('Erro ao processar evento do change stream', error);
+    }
+  }
+}
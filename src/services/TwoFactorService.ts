@@ -0,0 +1,260 @@
+import crypto from 'crypto';
+import { User, IUserDocument } from '../models';
+import { ITwoFactorSetup, UserRole } from '../types';
+import {
+  Logger,
+  buildOtpauthUri,
+  decryptSecret,
+  encryptSecret,
+  generateTotpSecret,
+  hashToken,
+  verifyTotp,
+} from '../utils';
+import { AppError } from '../middleware';
+import { config } from '../config/environment';
+
+/**
+ * Campos sigilosos do 2FA, fora das consultas padrão do usuário
+ */
+const TWO_FACTOR_FIELDS = '+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes';
+
+/**
+ * Service de autenticação em dois fatores (TOTP, RFC 6238)
+ * O segredo é cifrado no banco e os códigos de recuperação são guardados
+ * apenas como hash; cada código TOTP ou de recuperação vale uma única vez
+ */
+export class TwoFactorService {
+  /**
+   * Inicia a ativação gerando um novo segredo, pendente até a confirmação
+   * Chamar novamente substitui o segredo pendente
+   */
+  public static async setup(userId: string): Promise<ITwoFactorSetup> {
+    try {
+      const user = await this.findUser(userId);
+
+      if (user.twoFactorEnabled) {
+        throw new AppError('Autenticação em dois fatores já está ativa', 409);
+      }
+
+      const secret = generateTotpSecret();
+
+      await User.updateOne(
+        { _id: user._id },
+        { $set: { twoFactorPendingSecret: encryptSecret(secret, config.twoFactor.encryptionKey) } }
+      );
+
+      Logger.info('Configuração de 2FA iniciada', { userId });
+
+      return {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email, config.twoFactor.issuer),
+      };
+    } catch (error) {
+      Logger.error('Erro ao iniciar configuração de 2FA', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao configurar autenticação em dois fatores', 500);
+    }
+  }
+
+  /**
+   * Confirma a ativação com um código do aplicativo autenticador
+   * Retorna os códigos de recuperação, exibidos somente nesta resposta
+   */
+  public static async verify(userId: string, code: string): Promise<string[]> {
+    try {
+      const user = await this.findUser(userId);
+
+      if (user.twoFactorEnabled) {
+        throw new AppError('Autenticação em dois fatores já está ativa', 409);
+      }
+
+      if (!user.twoFactorPendingSecret) {
+        throw new AppError('Inicie a configuração da autenticação em dois fatores', 400);
+      }
+
+      const step = verifyTotp(this.decrypt(user.twoFactorPendingSecret), code);
+
+      if (step === null) {
+        throw new AppError('Código de verificação inválido', 400);
+      }
+
+      const recoveryCodes = this.generateRecoveryCodes();
+
+      // Condicional no segredo pendente: uma configuração concorrente invalida esta confirmação
+      const result = await User.updateOne(
+        { _id: user._id, twoFactorEnabled: { $ne: true }, twoFactorPendingSecret: user.twoFactorPendingSecret },
+        {
+          $set: {
+            twoFactorEnabled: true,
+            twoFactorEnabledAt: new Date(),
+            twoFactorSecret: user.twoFactorPendingSecret,
+            twoFactorPendingSecret: null,
+            twoFactorRecoveryCodes: recoveryCodes.map(recoveryCode => this.hashRecoveryCode(recoveryCode)),
+            twoFactorLastUsedStep: step,
+          },
+        }
+      );
+
+      if (result.modifiedCount === 0) {
+        throw new AppError('Inicie a configuração da autenticação em dois fatores', 400);
+      }
+
+      Logger.info('Autenticação em dois fatores ativada', { userId });
+
+      return recoveryCodes;
+    } catch (error) {
+      Logger.error('Erro ao confirmar configuração de 2FA', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao configurar autenticação em dois fatores', 500);
+    }
+  }
+
+  /**
+   * Desativa o 2FA mediante senha e código (TOTP ou de recuperação)
+   * Recusado quando o papel do usuário exige 2FA
+   */
+  public static async disable(userId: string, password: string, code: string): Promise<void> {
+    try {
+      const user = await this.findUser(userId);
+
+      if (!user.twoFactorEnabled) {
+        throw new AppError('Autenticação em dois fatores não está ativa', 409);
+      }
+
+      if (this.isRequiredFor(user.role)) {
+        throw new AppError('Autenticação em dois fatores é obrigatória para o seu perfil', 403);
+      }
+
+      if (!(await user.comparePassword(password))) {
+        throw new AppError('Senha incorreta', 400);
+      }
+
+      if (!(await this.verifyLoginCode(user, code))) {
+        throw new AppError('Código de verificação inválido', 400);
+      }
+
+      await User.updateOne(
+        { _id: user._id },
+        {
+          $set: {
+            twoFactorEnabled: false,
+            twoFactorEnabledAt: null,
+            twoFactorSecret: null,
+            twoFactorPendingSecret: null,
+            twoFactorRecoveryCodes: [],
+            twoFactorLastUsedStep: null,
+          },
+        }
+      );
+
+      Logger.warn('Autenticação em dois fatores desativada', { userId });
+    } catch (error) {
+      Logger.error('Erro ao desativar 2FA', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao desativar autenticação em dois fatores', 500);
+    }
+  }
+
+  /**
+   * Confere o código do segundo passo do login: TOTP ou código de recuperação
+   * Ambos são consumidos de forma atômica, então cada código vale uma única vez
+   */
+  public static async verifyLoginCode(user: IUserDocument, code: string): Promise<boolean> {
+    const stored = await User.findById(user._id).select(TWO_FACTOR_FIELDS);
+
+    if (!stored?.twoFactorEnabled || !stored.twoFactorSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(this.decrypt(stored.twoFactorSecret), code);
+
+    if (step !== null) {
+      // Aceita apenas passos posteriores ao último usado (impede replay do código)
+      const result = await User.updateOne(
+        {
+          _id: stored._id,
+          $or: [{ twoFactorLastUsedStep: null }, { twoFactorLastUsedStep: { $lt: step } }],
+        },
+        { $set: { twoFactorLastUsedStep: step } }
+      );
+
+      return result.modifiedCount === 1;
+    }
+
+    const codeHash = this.hashRecoveryCode(code);
+    const result = await User.updateOne(
+      { _id: stored._id, twoFactorRecoveryCodes: codeHash },
+      { $pull: { twoFactorRecoveryCodes: codeHash } }
+    );
+
+    if (result.modifiedCount === 1) {
+      Logger.warn('Código de recuperação de 2FA utilizado', {
+        userId: stored._id,
+        remaining: stored.twoFactorRecoveryCodes!.length - 1,
+      });
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Indica se a política exige 2FA para o papel
+   */
+  public static isRequiredFor(role: UserRole): boolean {
+    return config.twoFactor.requiredRoles.includes(role);
+  }
+
+  /**
+   * Garante que o usuário cumpre a política de 2FA do seu papel
+   * Lança 403 enquanto o 2FA obrigatório não for ativado
+   */
+  public static assertPolicy(user: Pick<IUserDocument, 'role' | 'twoFactorEnabled'>): void {
+    if (this.isRequiredFor(user.role) && !user.twoFactorEnabled) {
+      throw new AppError('Ative a autenticação em dois fatores para acessar este recurso', 403);
+    }
+  }
+
+  private static async findUser(userId: string): Promise<IUserDocument> {
+    const user = await User.findById(userId).select(TWO_FACTOR_FIELDS);
+
+    if (!user) {
+      throw new AppError('Usuário não encontrado', 404);
+    }
+
+    return user;
+  }
+
+  /**
+   * Gera códigos de recuperação no formato xxxxx-xxxxx (hexadecimal)
+   */
+  private static generateRecoveryCodes(): string[] {
+    return Array.from({ length: config.twoFactor.recoveryCodeCount }, () => {
+      const hex = crypto.randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+  }
+
+  /**
+   * Hash do código de recuperação, ignorando caixa, espaços e hífens
+   */
+  private static hashRecoveryCode(code: string): string {
+    return hashToken(code.toLowerCase().replace(/[\s-]/g, ''));
+  }
+
+  private static decrypt(secret: string): string {
+    return decryptSecret(secret, config.twoFactor.encryptionKey);
+  }
+}
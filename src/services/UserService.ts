@@ -1,7 +1,22 @@
-import { User, IUserDocument } from '../models';
-import { IUserCreateRequest, IUserResponse } from '../types';
+import {
+  ApiKey,
+  EmailVerificationToken,
+  PasswordResetToken,
+  RefreshToken,
+  User,
+  IUserDocument,
+} from '../models';
+import { IUserCreateRequest, IUserResponse, UserRole } from '../types';
 import { Logger } from '../utils';
 import { AppError } from '../middleware';
+import { config } from '../config/environment';
+import { EmailVerificationService } from './EmailVerificationService';
+import { LoginProtectionService } from './LoginProtectionService';
+
+/**
+ * Máximo de usuários excluídos definitivamente por execução do job
+ */
+const PURGE_BATCH_SIZE = 500;
 
 /**
  * Service para gerenciamento de usuários
@@ -37,6 +52,11 @@ export class UserService {
         email: savedUser.email 
       });
 
+      // O envio não bloqueia o cadastro; o usuário pode pedir o reenvio depois
+      EmailVerificationService.sendVerification(savedUser).catch(error =>
+        Logger.error('Erro ao enviar email de verificação', error)
+      );
+
       return savedUser.toResponseObject();
     } catch (error) {
       Logger.error('Erro ao criar usuário', error);
@@ -63,9 +83,13 @@ export class UserService {
 
   /**
    * Busca usuário por ID
-   * Retorna dados do usuário sem informações sensíveis
+   * Retorna dados do usuário sem informações sensíveis; includeLockout
+   * acrescenta o estado de bloqueio de login (visão administrativa)
    */
-  public static async getUserById(userId: string): Promise<IUserResponse> {
+  public static async getUserById(
+    userId: string,
+    options: { includeLockout?: boolean } = {}
+  ): Promise<IUserResponse> {
     try {
       Logger.debug('Buscando usuário por ID', { userId });
 
@@ -83,6 +107,10 @@ export class UserService {
         _id: user._id.toString(),
         name: user.name,
         email: user.email,
+        role: user.role,
+        emailVerified: user.emailVerified ?? false,
+        twoFactorEnabled: user.twoFactorEnabled ?? false,
+        ...(options.includeLockout && { lockout: await LoginProtectionService.getAccountState(user.email) }),
         createdAt: user.createdAt!,
         updatedAt: user.updatedAt!,
       };
@@ -124,6 +152,23 @@ export class UserService {
     }
   }
 
+  /**
+   * Busca o documento do usuário por ID
+   * Usado principalmente para autenticação (retorna null se não existir)
+   */
+  public static async getUserDocumentById(userId: string): Promise<IUserDocument | null> {
+    try {
+      return await User.findById(userId);
+    } catch (error) {
+      if ((error as any).name === 'CastError') {
+        return null;
+      }
+
+      Logger.error('Erro ao buscar usuário por ID', error);
+      throw new AppError('Erro interno ao buscar usuário', 500);
+    }
+  }
+
   /**
    * Lista usuários com paginação
    * Retorna lista paginada sem informações sensíveis
@@ -164,6 +209,9 @@ export class UserService {
         _id: user._id.toString(),
         name: user.name,
         email: user.email,
+        role: user.role,
+        emailVerified: user.emailVerified ?? false,
+        twoFactorEnabled: user.twoFactorEnabled ?? false,
         createdAt: user.createdAt!,
         updatedAt: user.updatedAt!,
       }));
@@ -195,6 +243,7 @@ export class UserService {
   /**
    * Atualiza dados do usuário
    * Permite atualizar nome e email (não senha por segurança)
+   * A troca de email marca o endereço como não verificado e envia nova verificação
    */
   public static async updateUser(
     userId: string,
@@ -203,19 +252,26 @@ export class UserService {
     try {
       Logger.debug('Atualizando usuário', { userId, updateData });
 
+      const email = updateData.email?.toLowerCase().trim();
+      let emailChanged = false;
+
       // Se está atualizando email, verifica se não está em uso
-      if (updateData.email) {
-        const existingUser = await User.findByEmail(updateData.email);
+      if (email) {
+        const existingUser = await User.findByEmail(email);
         if (existingUser && (existingUser._id as any).toString() !== userId) {
           throw new AppError('Email já está em uso por outro usuário', 409);
         }
+
+        const currentUser = await User.findById(userId).select('email').lean();
+        emailChanged = !!currentUser && currentUser.email !== email;
       }
 
       const updatedUser = await User.findByIdAndUpdate(
         userId,
         {
           ...(updateData.name && { name: updateData.name.trim() }),
-          ...(updateData.email && { email: updateData.email.toLowerCase().trim() }),
+          ...(email && { email }),
+          ...(emailChanged && { emailVerified: false, emailVerifiedAt: null }),
         },
         {
           new: true, // Retorna documento atualizado
@@ -229,6 +285,12 @@ export class UserService {
 
       Logger.info('Usuário atualizado com sucesso', { userId });
 
+      if (emailChanged) {
+        EmailVerificationService.sendVerification(updatedUser).catch(error =>
+          Logger.error('Erro ao enviar email de verificação', error)
+        );
+      }
+
       return updatedUser.toResponseObject();
     } catch (error) {
       Logger.error('Erro ao atualizar usuário', error);
@@ -253,20 +315,85 @@ export class UserService {
   }
 
   /**
-   * Remove usuário
-   * Soft delete seria implementado aqui em um cenário real
+   * Altera o papel (role) do usuário
+   * Operação administrativa, separada da atualização de dados pessoais
+   */
+  public static async updateUserRole(userId: string, role: UserRole): Promise<IUserResponse> {
+    try {
+      Logger.debug('Alterando papel do usuário', { userId, role });
+
+      const updatedUser = await User.findByIdAndUpdate(
+        userId,
+        { role },
+        {
+          new: true,
+          runValidators: true,
+        }
+      );
+
+      if (!updatedUser) {
+        throw new AppError('Usuário não encontrado', 404);
+      }
+
+      Logger.info('Papel do usuário alterado com sucesso', { userId, role });
+
+      return updatedUser.toResponseObject();
+    } catch (error) {
+      Logger.error('Erro ao alterar papel do usuário', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      if ((error as any).name === 'ValidationError') {
+        throw new AppError('Papel de usuário inválido', 400);
+      }
+
+      throw new AppError('Erro interno ao alterar papel do usuário', 500);
+    }
+  }
+
+  /**
+   * Remove usuário (soft delete)
+   * O usuário deixa de aparecer nas consultas e no login, as sessões são revogadas
+   * e o email fica livre para um novo cadastro. A exclusão definitiva ocorre
+   * após USER_DELETION_GRACE_DAYS (ver purgeDeletedUsers)
    */
-  public static async deleteUser(userId: string): Promise<void> {
+  public static async deleteUser(userId: string, deletedBy?: string): Promise<void> {
     try {
-      Logger.debug('Removendo usuário', { userId });
+      Logger.debug('Removendo usuário', { userId, deletedBy });
+
+      const user = await User.findById(userId);
+
+      if (!user) {
+        throw new AppError('Usuário não encontrado', 404);
+      }
 
-      const deletedUser = await User.findByIdAndDelete(userId);
+      // O email original é guardado para a restauração; o campo recebe um
+      // endereço reservado para não bloquear o índice único
+      const deletedUser = await User.findOneAndUpdate(
+        { _id: user._id, deletedAt: null },
+        {
+          $set: {
+            deletedAt: new Date(),
+            deletedBy: deletedBy ?? null,
+            deletedEmail: user.email,
+            email: this.deletedEmailPlaceholder(userId),
+          },
+        }
+      );
 
       if (!deletedUser) {
         throw new AppError('Usuário não encontrado', 404);
       }
 
-      Logger.info('Usuário removido com sucesso', { userId });
+      const [revoked] = await Promise.all([
+        RefreshToken.revokeAllForUser(userId),
+        PasswordResetToken.invalidateForUser(user._id),
+        EmailVerificationToken.invalidateForUser(user._id),
+      ]);
+
+      Logger.info('Usuário removido com sucesso', { userId, deletedBy, revoked });
     } catch (error) {
       Logger.error('Erro ao remover usuário', error);
 
@@ -278,6 +405,122 @@ export class UserService {
     }
   }
 
+  /**
+   * Desbloqueia o login de um usuário, zerando as falhas da conta
+   */
+  public static async unlockUser(userId: string, unlockedBy?: string): Promise<IUserResponse> {
+    try {
+      const user = await User.findById(userId).select('email').lean();
+
+      if (!user) {
+        throw new AppError('Usuário não encontrado', 404);
+      }
+
+      await LoginProtectionService.unlockAccount(user.email);
+
+      Logger.info('Login do usuário desbloqueado', { userId, unlockedBy });
+
+      return await this.getUserById(userId, { includeLockout: true });
+    } catch (error) {
+      Logger.error('Erro ao desbloquear usuário', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Erro interno ao desbloquear usuário', 500);
+    }
+  }
+
+  /**
+   * Restaura um usuário removido dentro do prazo de retenção
+   * Falha se o email original tiver sido usado por outro cadastro nesse meio tempo
+   */
+  public static async restoreUser(userId: string, restoredBy?: string): Promise<IUserResponse> {
+    try {
+      Logger.debug('Restaurando usuário', { userId, restoredBy });
+
+      const user = await User.findOne({ _id: userId, deletedAt: { $ne: null } });
+
+      if (!user) {
+        if (await this.userExists(userId)) {
+          throw new AppError('Usuário não está removido', 409);
+        }
+
+        throw new AppError('Usuário não encontrado', 404);
+      }
+
+      const email = user.deletedEmail || user.email;
+
+      if (await User.emailExists(email)) {
+        throw new AppError('Email já está em uso por outro usuário', 409);
+      }
+
+      const restoredUser = await User.findOneAndUpdate(
+        { _id: user._id, deletedAt: { $ne: null } },
+        { $set: { email, deletedAt: null, deletedBy: null, deletedEmail: null } },
+        { new: true }
+      );
+
+      if (!restoredUser) {
+        throw new AppError('Usuário não encontrado', 404);
+      }
+
+      Logger.info('Usuário restaurado com sucesso', { userId, restoredBy });
+
+      return restoredUser.toResponseObject();
+    } catch (error) {
+      Logger.error('Erro ao restaurar usuário', error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      if ((error as any).code === 11000) {
+        throw new AppError('Email já está em uso por outro usuário', 409);
+      }
+
+      throw new AppError('Erro interno ao restaurar usuário', 500);
+    }
+  }
+
+  /**
+   * Exclui definitivamente os usuários removidos há mais de USER_DELETION_GRACE_DAYS,
+   * junto com sessões, tokens e API keys. Contadores e exportações continuam existindo
+   */
+  public static async purgeDeletedUsers(now: Date = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - config.userDeletion.graceDays * 24 * 60 * 60 * 1000);
+
+    try {
+      const users = await User.find({ deletedAt: { $ne: null, $lte: cutoff } })
+        .select('_id')
+        .limit(PURGE_BATCH_SIZE)
+        .lean();
+
+      if (users.length === 0) {
+        return 0;
+      }
+
+      const ids = users.map(user => user._id);
+
+      await Promise.all([
+        RefreshToken.deleteMany({ user: { $in: ids } }),
+        PasswordResetToken.deleteMany({ user: { $in: ids } }),
+        EmailVerificationToken.deleteMany({ user: { $in: ids } }),
+        ApiKey.deleteMany({ owner: { $in: ids } }),
+      ]);
+
+      const result = await User.deleteMany({ _id: { $in: ids }, deletedAt: { $ne: null, $lte: cutoff } });
+
+      Logger.info('Usuários removidos excluídos definitivamente', { purged: result.deletedCount, cutoff });
+
+      return result.deletedCount;
+    } catch (error) {
+      Logger.error('Erro ao excluir definitivamente usuários removidos', error);
+      throw new AppError('Erro interno ao excluir usuários removidos', 500);
+    }
+  }
+
   /**
    * Verifica se um usuário existe
    */
@@ -323,4 +566,11 @@ export class UserService {
       throw new AppError('Erro interno ao obter estatísticas', 500);
     }
   }
+
+  /**
+   * Endereço reservado que ocupa o campo email enquanto o usuário está removido
+   */
+  private static deletedEmailPlaceholder(userId: string): string {
+    return `deleted.${userId}@users.invalid`;
+  }
 }
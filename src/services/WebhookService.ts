@@ -0,0 +1,195 @@
+import { AlertEvent, WebhookDeliveryStatus } from '../types';
+import { AlertRule, IAlertRuleDocument, IWebhookDeliveryDocument, WebhookDelivery } from '../models';
+import { Logger, signPayload } from '../utils';
+import { config } from '../config/environment';
+
+/**
+ * Headers enviados em cada webhook
+ * A assinatura é o HMAC-SHA256 de "<timestamp>.<corpo>" com o segredo da regra
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+/**
+ * Entregas processadas por execução do job de reenvio
+ */
+const DELIVERY_BATCH_SIZE = 50;
+
+/**
+ * Service para entrega de webhooks de alertas
+ * Cada envio é registrado; falhas são reagendadas com backoff exponencial
+ * até ALERT_WEBHOOK_MAX_ATTEMPTS tentativas
+ */
+export class WebhookService {
+  /**
+   * Registra e dispara a entrega de um evento para todos os webhooks da regra
+   * O segredo da regra precisa ter sido carregado (+secret). Retorna o número de entregas
+   */
+  public static async enqueue(
+    rule: IAlertRuleDocument,
+    event: AlertEvent,
+    payload: Record<string, unknown>
+  ): Promise<number> {
+    const now = new Date();
+
+    const deliveries = await WebhookDelivery.insertMany(
+      rule.webhooks.map(url => ({
+        rule: rule._id,
+        event,
+        url,
+        payload,
+        nextAttemptAt: now,
+      }))
+    );
+
+    // Primeira tentativa imediata; falhas ficam para o job de reenvio
+    for (const delivery of deliveries) {
+      this.attempt(delivery._id, rule.secret).catch(error =>
+        Logger.error('Erro ao entregar webhook de alerta', { deliveryId: delivery._id, error })
+      );
+    }
+
+    return deliveries.length;
+  }
+
+  /**
+   * Processa as entregas pendentes cujo horário de reenvio chegou
+   */
+  public static async processDue(now: Date = new Date()): Promise<number> {
+    const ids = await WebhookDelivery.findDueIds(now, DELIVERY_BATCH_SIZE);
+
+    for (const id of ids) {
+      await this.attempt(id);
+    }
+
+    return ids.length;
+  }
+
+  /**
+   * Gera a assinatura de um corpo de webhook
+   */
+  public static sign(secret: string, timestamp: number, body: string): string {
+    return `sha256=${signPayload(secret, `${timestamp}.${body}`)}`;
+  }
+
+  /**
+   * Executa uma tentativa de entrega
+   * Retorna true se o destinatário respondeu com 2xx
+   */
+  public static async attempt(id: unknown, secret?: string): Promise<boolean> {
+    try {
+      const timeoutMs = config.alerts.webhookTimeoutMs;
+      const delivery = await WebhookDelivery.claim(id, timeoutMs * 2);
+
+      if (!delivery) {
+        return false;
+      }
+
+      const ruleSecret = secret ?? (await this.loadSecret(delivery));
+
+      if (ruleSecret === null) {
+        // Regra removida: não há mais como assinar a entrega
+        await this.recordFailure(delivery, null, 'Regra de alerta removida', true);
+        return false;
+      }
+
+      const body = JSON.stringify({ id: String(delivery._id), event: delivery.event, ...delivery.payload });
+      const timestamp = Math.floor(Date.now() / 1000);
+
+      try {
+        const response = await fetch(delivery.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'AnotaAI-Webhooks/1.0',
+            [WEBHOOK_SIGNATURE_HEADER]: this.sign(ruleSecret, timestamp, body),
+            [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+            [WEBHOOK_EVENT_HEADER]: delivery.event,
+            [WEBHOOK_DELIVERY_HEADER]: String(delivery._id),
+          },
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+
+        if (response.ok) {
+          await WebhookDelivery.updateOne(
+            { _id: delivery._id },
+            {
+              $set: {
+                status: WebhookDeliveryStatus.DELIVERED,
+                lastStatusCode: response.status,
+                lastError: null,
+                deliveredAt: new Date(),
+                nextAttemptAt: null,
+                lockedUntil: null,
+              },
+              $inc: { attempts: 1 },
+            }
+          );
+
+          Logger.info('Webhook de alerta entregue', {
+            deliveryId: delivery._id,
+            url: delivery.url,
+            event: delivery.event,
+          });
+
+          return true;
+        }
+
+        await this.recordFailure(delivery, response.status, `Resposta HTTP ${response.status}`);
+      } catch (error) {
+        await this.recordFailure(delivery, null, error instanceof Error ? error.message : String(error));
+      }
+
+      return false;
+    } catch (error) {
+      // Erro de banco: a trava da entrega expira e o job de reenvio tenta de novo
+      Logger.error('Erro ao processar entrega de webhook', { deliveryId: id, error });
+      return false;
+    }
+  }
+
+  /**
+   * Registra uma tentativa com falha e agenda a próxima com backoff exponencial
+   */
+  private static async recordFailure(
+    delivery: IWebhookDeliveryDocument,
+    statusCode: number | null,
+    message: string,
+    permanent: boolean = false
+  ): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    const exhausted = permanent || attempts >= config.alerts.webhookMaxAttempts;
+    const delayMs = config.alerts.webhookRetryBaseMs * 2 ** (attempts - 1);
+
+    await WebhookDelivery.updateOne(
+      { _id: delivery._id },
+      {
+        $set: {
+          status: exhausted ? WebhookDeliveryStatus.FAILED : WebhookDeliveryStatus.PENDING,
+          attempts,
+          lastStatusCode: statusCode,
+          lastError: message.slice(0, 500),
+          nextAttemptAt: exhausted ? null : new Date(Date.now() + delayMs),
+          lockedUntil: null,
+        },
+      }
+    );
+
+    Logger.warn('Falha na entrega de webhook de alerta', {
+      deliveryId: delivery._id,
+      url: delivery.url,
+      attempts,
+      error: message,
+      retryInMs: exhausted ? null : delayMs,
+    });
+  }
+
+  private static async loadSecret(delivery: IWebhookDeliveryDocument): Promise<string | null> {
+    const rule = await AlertRule.findById(delivery.rule).select('+secret').lean();
+    return rule?.secret ?? null;
+  }
+}
@@ -4,3 +4,26 @@
 
 export { AccessCounterService } from './AccessCounterService';
 export { UserService } from './UserService';
+export { AuthService } from './AuthService';
+export { AccessHistoryService } from './AccessHistoryService';
+export { AccessCounterBuffer } from './AccessCounterBuffer';
+export { RealtimeService } from './RealtimeService';
+export type { RealtimeSubscriber } from './RealtimeService';
+export { AlertService } from './AlertService';
+export { WebhookService } from './WebhookService';
+export { AccessBreakdownService } from './AccessBreakdownService';
+export { BotDetectionService } from './BotDetectionService';
+export { CounterResetService } from './CounterResetService';
+export { CounterLogService } from './CounterLogService';
+export { AccessExportService } from './AccessExportService';
+export { AccessTrendService } from './AccessTrendService';
+export { AccessSourceService } from './AccessSourceService';
+export { AccessAnomalyService } from './AccessAnomalyService';
+export { ApiKeyService } from './ApiKeyService';
+export { CounterAccessService } from './CounterAccessService';
+export { MailService } from './MailService';
+export type { MailTransport } from './MailService';
+export { PasswordService } from './PasswordService';
+export { EmailVerificationService } from './EmailVerificationService';
+export { LoginProtectionService } from './LoginProtectionService';
+export { TwoFactorService } from './TwoFactorService';
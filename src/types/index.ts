@@ -1,15 +1,476 @@
 import { Request } from 'express';
+import { Types } from 'mongoose';
 
 /**
  * Interface para o contador de acessos
  */
 export interface IAccessCounter {
+  key: string;
+  namespace: string;
+  shard: number;
+  shards?: number;
+  botPolicy?: BotPolicy;
+  resetSchedule?: ICounterResetSchedule | null;
+  eventSourcing?: ICounterEventSourcing | null;
+  owner?: Types.ObjectId | null;
+  visibility?: CounterVisibility;
+  allowedOrigins?: string[];
   count: number;
+  botCount?: number;
   lastUpdated: Date;
+  hll?: Record<string, number>;
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+/**
+ * Visão consolidada de um contador (soma de todos os seus shards)
+ */
+export interface IAccessCounterSummary {
+  key: string;
+  namespace: string;
+  count: number;
+  botCount: number;
+  shards: number;
+  botPolicy?: BotPolicy;
+  resetSchedule?: ICounterResetSchedule;
+  eventSourcing?: ICounterEventSourcing;
+  owner?: string | null;
+  visibility?: CounterVisibility;
+  allowedOrigins?: string[];
+  lastUpdated: Date;
+  createdAt?: Date;
+  hll?: Record<string, number>;
+}
+
+/**
+ * Periodicidade dos resets agendados de um contador
+ */
+export enum ResetPeriod {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+}
+
+/**
+ * Reset periódico de um contador (dia, semana iniciando na segunda-feira ou mês)
+ * O limite de cada período é a meia-noite no fuso horário informado
+ */
+export interface ICounterResetSchedule {
+  period: ResetPeriod;
+  timezone: string;
+  nextResetAt: Date;
+}
+
+/**
+ * Visibilidade de um contador
+ * - public: qualquer um lê e incrementa (sujeito às origens permitidas)
+ * - private: leitura e incremento apenas com permissão no contador
+ */
+export enum CounterVisibility {
+  PUBLIC = 'public',
+  PRIVATE = 'private',
+}
+
+/**
+ * Permissões por contador concedidas a usuários (JWT) e API keys
+ */
+export enum CounterScope {
+  READ = 'counter:read',
+  INCREMENT = 'counter:increment',
+  ADMIN = 'counter:admin',
+}
+
+/**
+ * Política de acesso de um contador (lida do shard principal)
+ */
+export interface ICounterAccessPolicy {
+  key: string;
+  owner: string | null;
+  visibility: CounterVisibility;
+  allowedOrigins: string[];
+}
+
+/**
+ * Tipos de evento registrados na trilha de auditoria dos contadores
+ */
+export enum CounterEventType {
+  RESET = 'reset',
+  SCHEDULED_RESET = 'scheduled_reset',
+  REBUILD = 'rebuild',
+  ADJUSTMENT = 'adjustment',
+  BULK_INCREMENT = 'bulk_increment',
+}
+
+/**
+ * Evento imutável da trilha de auditoria de um contador
+ */
+export interface ICounterEvent {
+  key: string;
+  type: CounterEventType;
+  previousCount: number;
+  previousBotCount: number;
+  delta?: number | null;
+  actorId?: string | null;
+  actorEmail?: string | null;
+  reason?: string | null;
+  snapshot?: Types.ObjectId | null;
+  createdAt?: Date;
+}
+
+/**
+ * Valor de fechamento de um período de um contador com reset agendado
+ */
+export interface ICounterSnapshot {
+  key: string;
+  namespace: string;
+  period: ResetPeriod;
+  timezone: string;
+  periodStart: Date;
+  periodEnd: Date;
+  count: number;
+  botCount: number;
+  uniqueVisitors: number;
+  createdAt?: Date;
+}
+
+/**
+ * Snapshot de período retornado pela API
+ */
+export interface ICounterSnapshotResponse extends ICounterSnapshot {
+  id: string;
+}
+
+/**
+ * Evento de auditoria retornado pela API
+ */
+export interface ICounterEventResponse extends Omit<ICounterEvent, 'snapshot'> {
+  id: string;
+  snapshotId: string | null;
+}
+
+/**
+ * Ajuste manual de um contador; exatamente um dos campos deve ser informado
+ * - delta: soma (ou subtrai) um valor, para correções
+ * - value: define o total, para importação de totais legados
+ * - by: incremento em lote de acessos contados externamente (coletores de borda)
+ */
+export interface ICounterAdjustment {
+  delta?: number;
+  value?: number;
+  by?: number;
+}
+
+/**
+ * Estado do modo event-sourced de um contador
+ * O histórico fica disponível a partir do checkpoint inicial (baselineAt),
+ * criado quando todas as instâncias já registram as operações no log
+ */
+export interface ICounterEventSourcing {
+  enabledAt: Date;
+  baselineAt?: Date | null;
+}
+
+/**
+ * Operações registradas no log de um contador event-sourced
+ */
+export enum CounterLogOperation {
+  INCREMENT = 'increment',
+  DECREMENT = 'decrement',
+  ADJUSTMENT = 'adjustment',
+  RESET = 'reset',
+}
+
+/**
+ * Entrada imutável do log de um contador event-sourced
+ * Operações relativas usam delta; operações absolutas (reset, ajuste para
+ * um valor) informam o valor resultante em value
+ */
+export interface ICounterLogEntry {
+  key: string;
+  operation: CounterLogOperation;
+  delta: number;
+  value?: number | null;
+  at: Date;
+}
+
+/**
+ * Valor de um contador event-sourced consolidado até um instante
+ */
+export interface ICounterCheckpoint {
+  key: string;
+  at: Date;
+  count: number;
+  baseline: boolean;
+  createdAt?: Date;
+}
+
+/**
+ * Incrementos agregados de um contador aplicados em lote (modo buffer)
+ */
+export interface ICounterIncrement {
+  key: string;
+  namespace: string;
+  count: number;
+  botCount: number;
+  lastUpdated: Date;
+  hll: Record<string, number>;
+}
+
+/**
+ * Política de contagem de acessos de bots de um contador
+ * - ignore: acessos de bots são descartados
+ * - separate: contados à parte (botCount), fora do total e do histórico
+ * - count: contados como acessos humanos
+ */
+export enum BotPolicy {
+  IGNORE = 'ignore',
+  SEPARATE = 'separate',
+  COUNT = 'count',
+}
+
+/**
+ * Categorias das regras de User-Agent de bots
+ */
+export enum BotCategory {
+  CRAWLER = 'crawler',
+  PREVIEW = 'preview',
+  MONITOR = 'monitor',
+  HEADLESS = 'headless',
+  TOOL = 'tool',
+  SCANNER = 'scanner',
+}
+
+/**
+ * Sinal que levou à classificação de uma requisição como bot
+ */
+export enum BotSignal {
+  USER_AGENT = 'user_agent',
+  MISSING_HEADERS = 'missing_headers',
+  CADENCE = 'cadence',
+}
+
+/**
+ * Formatação do número exibido no badge SVG
+ * compact: 1.2k, 3.4M; full: 1,234; raw: 1234
+ */
+export enum BadgeNumberFormat {
+  COMPACT = 'compact',
+  FULL = 'full',
+  RAW = 'raw',
+}
+
+/**
+ * Resultado da classificação de uma requisição
+ */
+export interface IBotClassification {
+  isBot: boolean;
+  signal?: BotSignal;
+  name?: string;
+  category?: BotCategory;
+}
+
+/**
+ * Granularidades dos buckets de histórico de acessos
+ */
+export enum HistoryGranularity {
+  MINUTE = 'minute',
+  HOUR = 'hour',
+  DAY = 'day',
+  MONTH = 'month',
+}
+
+/**
+ * Interface para um bucket de histórico de acessos
+ * Agrega os incrementos de um contador em uma janela de tempo (UTC)
+ */
+export interface IAccessBucket {
+  key: string;
+  granularity: HistoryGranularity;
+  bucketStart: Date;
+  count: number;
+  hll?: Record<string, number>;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Incrementos agregados de um bucket de histórico aplicados em lote
+ */
+export interface IBucketIncrement {
+  key: string;
+  granularity: HistoryGranularity;
+  bucketStart: Date;
+  count: number;
+  hll: Record<string, number>;
+}
+
+/**
+ * Dimensões de segmentação do tráfego registradas em cada incremento
+ */
+export enum BreakdownDimension {
+  REFERRER = 'referrer',
+  PATH = 'path',
+  SOURCE = 'source',
+  BROWSER = 'browser',
+  OS = 'os',
+  DEVICE = 'device',
+  UTM_SOURCE = 'utm_source',
+  UTM_MEDIUM = 'utm_medium',
+  UTM_CAMPAIGN = 'utm_campaign',
+}
+
+/**
+ * Valores das dimensões extraídos de uma requisição de incremento
+ */
+export type IAccessDimensions = Partial<Record<BreakdownDimension, string>>;
+
+/**
+ * Tabela top-N de uma dimensão em um bucket de tempo
+ * Valores além do limite de cardinalidade são somados em "other"
+ */
+export interface IAccessBreakdown {
+  key: string;
+  granularity: HistoryGranularity;
+  bucketStart: Date;
+  dimension: BreakdownDimension;
+  total: number;
+  other: number;
+  entries: Array<{ value: string; count: number }>;
+}
+
+/**
+ * Incremento agregado de um valor de dimensão aplicado em lote
+ * value = null registra apenas em "other" (limite de cardinalidade atingido)
+ */
+export interface IBreakdownIncrement {
+  key: string;
+  granularity: HistoryGranularity;
+  bucketStart: Date;
+  dimension: BreakdownDimension;
+  value: string | null;
+  count: number;
+}
+
+/**
+ * Formatos de exportação dos dados de acesso
+ */
+export enum AccessExportFormat {
+  CSV = 'csv',
+  NDJSON = 'ndjson',
+  JSON = 'json',
+}
+
+/**
+ * Linha exportada: o total de um bucket (dimension = null) ou a contagem de
+ * um valor de dimensão no bucket. Todas as linhas têm as mesmas colunas
+ */
+export interface IAccessExportRow {
+  key: string;
+  granularity: HistoryGranularity;
+  bucketStart: Date;
+  dimension: BreakdownDimension | null;
+  value: string | null;
+  count: number;
+  uniqueVisitors: number | null;
+}
+
+/**
+ * Parâmetros de uma exportação, já com o intervalo resolvido
+ */
+export interface IAccessExportQuery {
+  key: string;
+  granularity: HistoryGranularity;
+  from: Date;
+  to: Date;
+  format: AccessExportFormat;
+}
+
+/**
+ * Estados de uma exportação em segundo plano
+ */
+export enum AccessExportStatus {
+  PENDING = 'pending',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+/**
+ * Interface para exportação em segundo plano
+ * O arquivo gerado fica no GridFS até expiresAt
+ */
+export interface IAccessExport extends IAccessExportQuery {
+  status: AccessExportStatus;
+  requestedBy: Types.ObjectId;
+  rows: number;
+  bytes: number;
+  file?: Types.ObjectId | null;
+  lockedUntil?: Date | null;
+  error?: string | null;
+  startedAt?: Date | null;
+  completedAt?: Date | null;
+  expiresAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Interface para resposta de exportação em segundo plano
+ */
+export interface IAccessExportResponse extends Omit<IAccessExport, 'requestedBy' | 'file' | 'lockedUntil'> {
+  id: string;
+  requestedBy: string;
+  downloadUrl: string | null;
+}
+
+/**
+ * Métricas do buffer de incrementos (write-behind)
+ */
+export interface ICounterBufferMetrics {
+  enabled: boolean;
+  pendingIncrements: number;
+  pendingKeys: number;
+  bufferedTotal: number;
+  flushedTotal: number;
+  flushCount: number;
+  failedFlushes: number;
+  lastFlushAt: Date | null;
+  lastFlushDurationMs: number | null;
+}
+
+/**
+ * Atualização de contador enviada aos clientes em tempo real (SSE/WebSocket)
+ */
+export interface ICounterUpdate {
+  key: string;
+  namespace: string;
+  count: number;
+  lastUpdated: Date;
+}
+
+/**
+ * Métricas das conexões em tempo real
+ */
+export interface IRealtimeMetrics {
+  connections: number;
+  subscriptions: number;
+  changeStream: boolean;
+  publishedTotal: number;
+  deliveredTotal: number;
+  coalescedTotal: number;
+  deferredTotal: number;
+}
+
+/**
+ * Papéis de usuário para controle de acesso
+ */
+export enum UserRole {
+  ADMIN = 'admin',
+  OPERATOR = 'operator',
+  USER = 'user',
+}
+
 /**
  * Interface para o usuário
  */
@@ -17,6 +478,19 @@ export interface IUser {
   name: string;
   email: string;
   password: string;
+  role: UserRole;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date | null;
+  passwordChangedAt?: Date | null;
+  twoFactorEnabled: boolean;
+  twoFactorEnabledAt?: Date | null;
+  twoFactorSecret?: string | null;
+  twoFactorPendingSecret?: string | null;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastUsedStep?: number | null;
+  deletedAt?: Date | null;
+  deletedBy?: Types.ObjectId | null;
+  deletedEmail?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -37,16 +511,584 @@ export interface IUserResponse {
   _id: string;
   name: string;
   email: string;
+  role: UserRole;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  lockout?: IUserLockoutState;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Escopos em que as falhas de login são contadas
+ */
+export enum LoginThrottleScope {
+  ACCOUNT = 'account', // Por email informado no login
+  IP = 'ip',
+}
+
+/**
+ * Interface para o contador de falhas de login de uma conta ou IP
+ * Compartilhado entre as instâncias da API; removido automaticamente ao expirar
+ */
+export interface ILoginThrottle {
+  scope: LoginThrottleScope;
+  key: string;
+  failures: number;
+  windowExpiresAt: Date;
+  lockedUntil?: Date | null;
+  lastFailureAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Interface para o estado de bloqueio de login exibido aos administradores
+ */
+export interface IUserLockoutState {
+  locked: boolean;
+  failedAttempts: number;
+  lockedUntil: Date | null;
+  lastFailureAt: Date | null;
+}
+
+/**
+ * Interface para refresh token persistido (armazenado apenas como hash)
+ */
+export interface IRefreshToken {
+  user: Types.ObjectId;
+  tokenHash: string;
+  family: string;
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  replacedByHash?: string | null;
+  createdByIp?: string;
+  userAgent?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Interface para token de redefinição de senha (armazenado apenas como hash)
+ * O token é de uso único: usedAt é preenchido ao consumi-lo
+ */
+export interface IPasswordResetToken {
+  user: Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  requestedByIp?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Interface para token de verificação de email (armazenado apenas como hash)
+ * Vale apenas para o endereço informado: trocar o email invalida o token
+ */
+export interface IEmailVerificationToken {
+  user: Types.ObjectId;
+  email: string;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Interface para o payload do access token (JWT)
+ */
+export interface IAccessTokenPayload {
+  sub: string;
+  email: string;
+  type: 'access';
+  iat?: number;
+}
+
+/**
+ * Interface para o par de tokens emitido na autenticação
+ */
+export interface IAuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number;
+}
+
+/**
+ * Interface para resposta de login
+ */
+export interface IAuthResponse extends IAuthTokens {
+  user: IUserResponse;
+}
+
+/**
+ * Interface para o payload do desafio de dois fatores (primeiro passo do login)
+ */
+export interface ITwoFactorChallengePayload {
+  sub: string;
+  type: '2fa';
+}
+
+/**
+ * Interface para a resposta do login quando o usuário tem 2FA ativo
+ * O challengeToken deve ser enviado com o código em POST /api/auth/2fa
+ */
+export interface ITwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number;
+}
+
+/**
+ * Interface para o segredo gerado no início da ativação do 2FA
+ */
+export interface ITwoFactorSetup {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * Interface para o usuário autenticado anexado à requisição
+ */
+export interface IAuthenticatedUser {
+  id: string;
+  email: string;
+  role: UserRole;
+  emailVerified?: boolean;
+}
+
+/**
+ * Interface para API key de acesso aos contadores (armazenada apenas como hash)
+ * counters vazio vale para todos os contadores sobre os quais o dono tem permissão
+ */
+export interface IApiKey {
+  name: string;
+  owner: Types.ObjectId;
+  keyHash: string;
+  prefix: string;
+  scopes: CounterScope[];
+  counters: string[];
+  expiresAt?: Date | null;
+  revokedAt?: Date | null;
+  lastUsedAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Dados para criação de uma API key
+ */
+export interface IApiKeyInput {
+  name: string;
+  scopes: CounterScope[];
+  counters?: string[];
+  expiresAt?: Date | null;
+}
+
+/**
+ * Interface para resposta de API key
+ * A chave em texto puro só é retornada na criação
+ */
+export interface IApiKeyResponse extends Omit<IApiKey, 'owner' | 'keyHash'> {
+  _id: string;
+  owner: string;
+  key?: string;
+}
+
+/**
+ * Interface para a API key autenticada anexada à requisição
+ */
+export interface IAuthenticatedApiKey {
+  id: string;
+  scopes: CounterScope[];
+  counters: string[];
+}
+
+/**
+ * Quem faz a requisição sobre um contador: anônimo, usuário (JWT) ou
+ * API key (user é o dono da chave)
+ */
+export interface ICounterPrincipal {
+  user: IAuthenticatedUser | null;
+  apiKey: IAuthenticatedApiKey | null;
+}
+
+/**
+ * Metadados da requisição registrados junto à sessão
+ */
+export interface ISessionMetadata {
+  ip?: string;
+  userAgent?: string;
+}
+
+/**
+ * Mensagem de e-mail enviada pelo transporte configurado
+ */
+export interface IMailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Extensão do Request do Express com o usuário (ou API key) autenticado
+ */
+declare module 'express-serve-static-core' {
+  interface Request {
+    user?: IAuthenticatedUser;
+    apiKey?: IAuthenticatedApiKey;
+  }
+}
+
+/**
+ * Tipos de condição de uma regra de alerta
+ */
+export enum AlertConditionType {
+  THRESHOLD = 'threshold',
+  RATE_OF_CHANGE = 'rate_of_change',
+  NO_TRAFFIC = 'no_traffic',
+}
+
+/**
+ * Comparação aplicada ao valor observado
+ */
+export enum AlertOperator {
+  ABOVE = 'above',
+  BELOW = 'below',
+}
+
+/**
+ * Estado de uma regra de alerta
+ */
+export enum AlertState {
+  OK = 'ok',
+  TRIGGERED = 'triggered',
+}
+
+/**
+ * Eventos enviados aos webhooks
+ */
+export enum AlertEvent {
+  TRIGGERED = 'alert.triggered',
+  RESOLVED = 'alert.resolved',
+}
+
+/**
+ * Condição de uma regra de alerta
+ * - threshold: total do contador (ou acessos na janela, se windowMinutes) comparado a value
+ * - rate_of_change: variação percentual entre a janela atual e a anterior comparada a value
+ * - no_traffic: nenhum acesso nos últimos windowMinutes
+ */
+export interface IAlertCondition {
+  type: AlertConditionType;
+  operator?: AlertOperator;
+  value?: number;
+  windowMinutes?: number;
+}
+
+/**
+ * Interface para regra de alerta
+ */
+export interface IAlertRule {
+  name: string;
+  counterKey: string;
+  condition: IAlertCondition;
+  webhooks: string[];
+  secret: string;
+  enabled: boolean;
+  state: AlertState;
+  lastValue?: number | null;
+  lastEvaluatedAt?: Date | null;
+  lastTriggeredAt?: Date | null;
+  createdBy?: string;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Dados para criação/atualização de uma regra de alerta
+ */
+export interface IAlertRuleInput {
+  name?: string;
+  counterKey?: string;
+  condition?: IAlertCondition;
+  webhooks?: string[];
+  enabled?: boolean;
+  rotateSecret?: boolean;
+}
+
+/**
+ * Interface para resposta de regra de alerta
+ * O segredo de assinatura só é retornado na criação e na rotação
+ */
+export interface IAlertRuleResponse extends Omit<IAlertRule, 'secret'> {
+  _id: string;
+  secret?: string;
+}
+
+/**
+ * Status de uma entrega de webhook
+ */
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending',
+  DELIVERED = 'delivered',
+  FAILED = 'failed',
+}
+
+/**
+ * Interface para entrega de webhook (histórico de envios)
+ */
+export interface IWebhookDelivery {
+  rule: Types.ObjectId;
+  event: AlertEvent;
+  url: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lockedUntil: Date | null;
+  lastStatusCode?: number | null;
+  lastError?: string | null;
+  deliveredAt?: Date | null;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
+/**
+ * Estados de uma requisição idempotente
+ */
+export enum IdempotencyStatus {
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+}
+
+/**
+ * Interface para o registro de uma Idempotency-Key
+ */
+export interface IIdempotencyRecord {
+  key: string;
+  scope: string;
+  fingerprint: string;
+  status: IdempotencyStatus;
+  statusCode?: number;
+  responseBody?: unknown;
+  expiresAt: Date;
+  createdAt?: Date;
+  updatedAt?: Date;
+}
+
 /**
  * Interface para resposta de contador de acessos
  */
 export interface IAccessCounterResponse {
+  key: string;
+  namespace: string;
   count: number;
   lastUpdated: Date;
+  buffered?: boolean;
+  bot?: boolean;
+  previousCount?: number;
+  at?: Date;
+}
+
+/**
+ * Ponto de uma série histórica de acessos
+ */
+export interface IAccessHistoryPoint {
+  bucketStart: Date;
+  count: number;
+  uniqueVisitors: number;
+}
+
+/**
+ * Interface para resposta de histórico de acessos
+ */
+export interface IAccessHistoryResponse {
+  key: string;
+  granularity: HistoryGranularity;
+  from: Date;
+  to: Date;
+  total: number;
+  uniqueVisitors: number;
+  series: IAccessHistoryPoint[];
+}
+
+/**
+ * Interface para resposta de segmentação do tráfego por dimensão
+ */
+export interface IAccessBreakdownResponse {
+  key: string;
+  dimension: BreakdownDimension;
+  granularity: HistoryGranularity;
+  from: Date;
+  to: Date;
+  total: number;
+  other: number;
+  capped: boolean;
+  items: Array<{ value: string; count: number; share: number }>;
+}
+
+/**
+ * Períodos da análise de tendências (alinhados em UTC; semanas começam na segunda-feira)
+ */
+export enum TrendPeriod {
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+}
+
+/**
+ * Base de comparação: o período anterior ou o mesmo período um ano antes
+ */
+export enum TrendComparison {
+  PREVIOUS = 'previous',
+  YOY = 'yoy',
+}
+
+/**
+ * Métodos de previsão do período em andamento
+ */
+export enum TrendForecastMethod {
+  LINEAR = 'linear',
+  EWMA = 'ewma',
+}
+
+/**
+ * Total de acessos em um período
+ */
+export interface ITrendPeriodCount {
+  start: Date;
+  end: Date;
+  count: number;
+}
+
+/**
+ * Ponto da série de períodos encerrados
+ */
+export interface ITrendPoint extends ITrendPeriodCount {
+  movingAverage: number;
+}
+
+/**
+ * Interface para resposta da análise de tendências
+ */
+export interface IAccessTrendsResponse {
+  key: string;
+  period: TrendPeriod;
+  compare: TrendComparison;
+  current: ITrendPeriodCount;
+  comparison: ITrendPeriodCount;
+  change: {
+    absolute: number;
+    percentage: number | null;
+  };
+  movingAverageWindow: number;
+  series: ITrendPoint[];
+  best: ITrendPeriodCount | null;
+  worst: ITrendPeriodCount | null;
+  forecast: ITrendPeriodCount & {
+    method: TrendForecastMethod;
+    elapsed: number;
+    remaining: number;
+    projected: number;
+  };
+}
+
+/**
+ * Origem de um acesso, registrada para a investigação de anomalias
+ */
+export interface IAccessOrigin {
+  ip: string;
+  userAgent: string;
+}
+
+/**
+ * Acessos de uma origem em uma janela
+ */
+export interface IAccessSourceEntry extends IAccessOrigin {
+  count: number;
+}
+
+/**
+ * Interface base para as origens dos acessos de um contador em um minuto
+ */
+export interface IAccessSource {
+  key: string;
+  bucketStart: Date;
+  total: number;
+  other: number;
+  entries: IAccessSourceEntry[];
+  expiresAt: Date;
+}
+
+/**
+ * Incremento das origens de um minuto (origin null soma apenas em "other")
+ */
+export interface IAccessSourceIncrement {
+  key: string;
+  bucketStart: Date;
+  origin: IAccessOrigin | null;
+  count: number;
+}
+
+/**
+ * Severidade de uma anomalia, pela distância ao baseline
+ */
+export enum AnomalySeverity {
+  LOW = 'low',
+  MEDIUM = 'medium',
+  HIGH = 'high',
+}
+
+/**
+ * Estado de uma anomalia: aberta, com os acessos excedentes em quarentena
+ * (descontados do total) ou liberada (excedente devolvido ao total)
+ */
+export enum AnomalyStatus {
+  OPEN = 'open',
+  QUARANTINED = 'quarantined',
+  RELEASED = 'released',
+}
+
+/**
+ * Baseline robusto de uma janela: mediana e desvio absoluto mediano (MAD)
+ */
+export interface IAnomalyBaseline {
+  median: number;
+  mad: number;
+  points: number;
+}
+
+/**
+ * Interface base para uma anomalia detectada no tráfego
+ */
+export interface IAccessAnomaly {
+  key: string;
+  granularity: HistoryGranularity;
+  windowStart: Date;
+  windowEnd: Date;
+  count: number;
+  expected: number;
+  score: number;
+  severity: AnomalySeverity;
+  baseline: IAnomalyBaseline;
+  sources: IAccessSourceEntry[];
+  sourcesTotal: number;
+  status: AnomalyStatus;
+  quarantined: number;
+  quarantinedAt: Date | null;
+  releasedAt: Date | null;
+  detectedAt: Date;
+}
+
+/**
+ * Interface para resposta de uma anomalia
+ */
+export interface IAccessAnomalyResponse extends IAccessAnomaly {
+  id: string;
+  historyUrl: string;
 }
 
 /**
@@ -66,6 +1108,7 @@ export interface ApiResponse<T = any> {
 export interface CustomError extends Error {
   statusCode?: number;
   isOperational?: boolean;
+  retryAfterSeconds?: number;
 }
 
 /**
@@ -89,11 +1132,13 @@ export type ValidationResult = {
 export enum HttpStatus {
   OK = 200,
   CREATED = 201,
+  ACCEPTED = 202,
   BAD_REQUEST = 400,
   UNAUTHORIZED = 401,
   FORBIDDEN = 403,
   NOT_FOUND = 404,
   CONFLICT = 409,
+  UNPROCESSABLE_ENTITY = 422,
   INTERNAL_SERVER_ERROR = 500,
   SERVICE_UNAVAILABLE = 503,
 }
@@ -0,0 +1,119 @@
+import { AccessExportFormat, IAccessExportQuery, IAccessExportRow } from '../types';
+
+/**
+ * Utilitários de serialização da exportação de dados de acesso
+ * As linhas são convertidas uma a uma para que a exportação possa ser
+ * transmitida sem carregar o intervalo inteiro em memória
+ */
+
+/**
+ * Colunas exportadas, na ordem do CSV
+ */
+export const EXPORT_COLUMNS: Array<keyof IAccessExportRow> = [
+  'key',
+  'granularity',
+  'bucketStart',
+  'dimension',
+  'value',
+  'count',
+  'uniqueVisitors',
+];
+
+/**
+ * Valor exportado para os acessos somados em "other" nas tabelas de dimensões
+ */
+export const EXPORT_OTHER_VALUE = '(other)';
+
+/**
+ * Content-Type e extensão de arquivo de cada formato
+ */
+export const EXPORT_FORMATS: Record<AccessExportFormat, { contentType: string; extension: string }> = {
+  [AccessExportFormat.CSV]: { contentType: 'text/csv; charset=utf-8', extension: 'csv' },
+  [AccessExportFormat.NDJSON]: { contentType: 'application/x-ndjson; charset=utf-8', extension: 'ndjson' },
+  [AccessExportFormat.JSON]: { contentType: 'application/json; charset=utf-8', extension: 'json' },
+};
+
+/**
+ * Escapa um campo CSV (RFC 4180)
+ * Valores iniciados por =, +, - ou @ recebem um apóstrofo para não serem
+ * interpretados como fórmulas por planilhas (referrers e UTMs vêm do cliente)
+ */
+function escapeCsvField(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Converte uma linha exportada em uma linha CSV (com quebra de linha)
+ */
+export function toCsvLine(row: IAccessExportRow): string {
+  return EXPORT_COLUMNS.map(column => escapeCsvField(row[column])).join(',') + '\r\n';
+}
+
+/**
+ * Serializa as linhas no formato escolhido, produzindo um trecho por linha
+ * JSON é um array com um objeto por linha; NDJSON, um objeto por linha de texto
+ */
+export async function* serializeExportRows(
+  rows: AsyncIterable<IAccessExportRow>,
+  format: AccessExportFormat
+): AsyncGenerator<string> {
+  switch (format) {
+    case AccessExportFormat.CSV:
+      yield EXPORT_COLUMNS.join(',') + '\r\n';
+
+      for await (const row of rows) {
+        yield toCsvLine(row);
+      }
+      return;
+
+    case AccessExportFormat.NDJSON:
+      for await (const row of rows) {
+        yield JSON.stringify(row) + '\n';
+      }
+      return;
+
+    case AccessExportFormat.JSON: {
+      let first = true;
+
+      yield '[';
+
+      for await (const row of rows) {
+        yield (first ? '\n' : ',\n') + JSON.stringify(row);
+        first = false;
+      }
+
+      yield first ? ']\n' : '\n]\n';
+      return;
+    }
+  }
+}
+
+/**
+ * Nome do arquivo exportado
+ * Ex.: access-home-hour-20260101T000000Z-20260201T000000Z.csv
+ */
+export function exportFileName(query: IAccessExportQuery): string {
+  const stamp = (date: Date) => date.toISOString().replace(/[-:]|\.\d{3}/g, '');
+
+  return (
+    `access-${query.key}-${query.granularity}-${stamp(query.from)}-${stamp(query.to)}` +
+    `.${EXPORT_FORMATS[query.format].extension}`
+  );
+}
+
+/**
+ * Valor do cabeçalho Content-Disposition para download do arquivo
+ */
+export function contentDisposition(fileName: string): string {
+  return `attachment; filename="${fileName}"`;
+}
@@ -0,0 +1,96 @@
+import { AnomalySeverity, IAnomalyBaseline } from '../types';
+
+/**
+ * Utilitários estatísticos do detector de anomalias
+ * O baseline usa mediana e desvio absoluto mediano (MAD), que não são
+ * distorcidos pelos próprios picos como a média e o desvio padrão
+ */
+
+/**
+ * Fator que torna o MAD comparável ao desvio padrão de uma distribuição normal
+ */
+const MAD_SCALE = 1.4826;
+
+/**
+ * Fator equivalente para o desvio absoluto médio, usado quando o MAD é zero
+ */
+const MEAN_ABSOLUTE_DEVIATION_SCALE = 1.2533;
+
+/**
+ * Severidades na ordem crescente, com o múltiplo do limite que as define
+ */
+const SEVERITY_LEVELS: Array<[AnomalySeverity, number]> = [
+  [AnomalySeverity.LOW, 1],
+  [AnomalySeverity.MEDIUM, 2],
+  [AnomalySeverity.HIGH, 4],
+];
+
+/**
+ * Mediana de uma lista de valores (0 para listas vazias)
+ */
+export function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Mediana e MAD dos pontos do baseline
+ */
+export function robustBaseline(values: number[]): IAnomalyBaseline {
+  const center = median(values);
+
+  return {
+    median: center,
+    mad: median(values.map(value => Math.abs(value - center))),
+    points: values.length,
+  };
+}
+
+/**
+ * Score robusto: quantos desvios o valor está acima da mediana
+ * Com MAD zero (tráfego quase constante) usa o desvio absoluto médio e,
+ * por último, um desvio mínimo de 1 acesso para manter o score finito
+ */
+export function anomalyScore(value: number, baseline: IAnomalyBaseline, values: number[]): number {
+  let deviation = MAD_SCALE * baseline.mad;
+
+  if (deviation === 0 && values.length > 0) {
+    const meanAbsoluteDeviation =
+      values.reduce((sum, point) => sum + Math.abs(point - baseline.median), 0) / values.length;
+    deviation = MEAN_ABSOLUTE_DEVIATION_SCALE * meanAbsoluteDeviation;
+  }
+
+  const scale = Math.max(deviation, 1);
+
+  return Math.round(((value - baseline.median) / scale) * 100) / 100;
+}
+
+/**
+ * Severidade de um score (null abaixo do limite)
+ * low a partir do limite, medium a partir do dobro e high a partir do quádruplo
+ */
+export function anomalySeverity(score: number, threshold: number): AnomalySeverity | null {
+  let severity: AnomalySeverity | null = null;
+
+  for (const [level, multiple] of SEVERITY_LEVELS) {
+    if (score >= threshold * multiple) {
+      severity = level;
+    }
+  }
+
+  return severity;
+}
+
+/**
+ * Compara severidades (negativo quando a primeira é menor)
+ */
+export function compareSeverity(a: AnomalySeverity, b: AnomalySeverity): number {
+  const order = SEVERITY_LEVELS.map(([level]) => level);
+  return order.indexOf(a) - order.indexOf(b);
+}
@@ -0,0 +1,157 @@
+import { BadgeNumberFormat } from '../types';
+
+/**
+ * Utilitários do pixel de rastreamento e do badge SVG dos contadores
+ */
+
+/**
+ * GIF transparente de 1x1 pixel
+ */
+export const TRANSPARENT_GIF = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+/**
+ * Cores nomeadas aceitas pelo badge (mesmos nomes do shields.io)
+ */
+export const BADGE_COLORS: Record<string, string> = {
+  brightgreen: '#4c1',
+  green: '#97ca00',
+  yellowgreen: '#a4a61d',
+  yellow: '#dfb317',
+  orange: '#fe7d37',
+  red: '#e05d44',
+  blue: '#007ec6',
+  blueviolet: '#8a2be2',
+  lightgrey: '#9f9f9f',
+  grey: '#555',
+  success: '#4c1',
+  important: '#fe7d37',
+  critical: '#e05d44',
+  informational: '#007ec6',
+  inactive: '#9f9f9f',
+};
+
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Resolve uma cor nomeada ou hexadecimal (com ou sem "#")
+ * Retorna undefined para valores não reconhecidos
+ */
+export function resolveBadgeColor(value: string): string | undefined {
+  const named = BADGE_COLORS[value.toLowerCase()];
+
+  if (named) {
+    return named;
+  }
+
+  const hex = HEX_COLOR_PATTERN.exec(value);
+  return hex ? `#${hex[1].toLowerCase()}` : undefined;
+}
+
+/**
+ * Formata o total exibido no badge
+ */
+export function formatBadgeCount(count: number, format: BadgeNumberFormat = BadgeNumberFormat.COMPACT): string {
+  if (format === BadgeNumberFormat.RAW) {
+    return String(count);
+  }
+
+  if (format === BadgeNumberFormat.FULL) {
+    return new Intl.NumberFormat('en-US').format(count);
+  }
+
+  const units = ['', 'k', 'M', 'B', 'T'];
+  let value = count;
+  let unit = 0;
+
+  // 999.5 em diante arredondaria para 1000: passa para a próxima unidade
+  while (value >= 999.5 && unit < units.length - 1) {
+    value /= 1000;
+    unit++;
+  }
+
+  if (unit === 0) {
+    return String(count);
+  }
+
+  const rounded = value < 10 ? Math.round(value * 10) / 10 : Math.round(value);
+  return `${rounded}${units[unit]}`;
+}
+
+/**
+ * Largura aproximada de um texto em Verdana 11px
+ */
+function textWidth(text: string): number {
+  let width = 0;
+
+  for (const char of text) {
+    if ('il.,:;!|\'`'.includes(char)) {
+      width += 3.2;
+    } else if ('fjrt()[] '.includes(char)) {
+      width += 4.4;
+    } else if ('mwMW%@'.includes(char)) {
+      width += 9.8;
+    } else if (/[0-9]/.test(char)) {
+      width += 7;
+    } else if (/[A-Z]/.test(char)) {
+      width += 7.6;
+    } else {
+      width += 6.6;
+    }
+  }
+
+  return Math.ceil(width);
+}
+
+/**
+ * Escapa texto para uso em SVG
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Renderiza um badge no estilo "flat" do shields.io
+ * Sem rótulo, apenas a mensagem é exibida
+ */
+export function renderBadge(options: {
+  label: string;
+  message: string;
+  color: string;
+  labelColor: string;
+}): string {
+  const padding = 10;
+  const label = escapeXml(options.label);
+  const message = escapeXml(options.message);
+  const labelWidth = options.label ? textWidth(options.label) + padding : 0;
+  const messageWidth = textWidth(options.message) + padding;
+  const width = labelWidth + messageWidth;
+  const title = options.label ? `${label}: ${message}` : message;
+
+  const text = (content: string, center: number) =>
+    `<text x="${center}" y="15" fill="#010101" fill-opacity=".3">${content}</text>` +
+    `<text x="${center}" y="14">${content}</text>`;
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="20" role="img" aria-label="${title}">` +
+    `<title>${title}</title>` +
+    '<linearGradient id="s" x2="0" y2="100%">' +
+    '<stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/>' +
+    '</linearGradient>' +
+    `<clipPath id="r"><rect width="${width}" height="20" rx="3" fill="#fff"/></clipPath>` +
+    '<g clip-path="url(#r)">' +
+    (labelWidth > 0 ? `<rect width="${labelWidth}" height="20" fill="${options.labelColor}"/>` : '') +
+    `<rect x="${labelWidth}" width="${messageWidth}" height="20" fill="${options.color}"/>` +
+    `<rect width="${width}" height="20" fill="url(#s)"/>` +
+    '</g>' +
+    '<g fill="#fff" text-anchor="middle" font-family="Verdana,Geneva,DejaVu Sans,sans-serif" font-size="11">' +
+    (labelWidth > 0 ? text(label, labelWidth / 2) : '') +
+    text(message, labelWidth + messageWidth / 2) +
+    '</g>' +
+    '</svg>'
+  );
+}
@@ -0,0 +1,111 @@
+import { Request } from 'express';
+import { CounterScope, CounterVisibility, ICounterAccessPolicy, ICounterPrincipal, UserRole } from '../types';
+
+/**
+ * Regras de acesso por contador
+ * Funções puras usadas pelo CounterAccessService e testadas isoladamente
+ */
+
+/**
+ * Todas as permissões de contador (dono e administradores)
+ */
+export const ALL_COUNTER_SCOPES = Object.values(CounterScope);
+
+/**
+ * Permissões de qualquer pessoa, inclusive anônima, em contadores públicos
+ */
+const PUBLIC_SCOPES = [CounterScope.READ, CounterScope.INCREMENT];
+
+/**
+ * Normaliza uma origem (esquema, host e porta), ex.: "https://Site.com/" → "https://site.com"
+ * Aceita o curinga de subdomínios "https://*.site.com". Retorna null se inválida
+ */
+export function normalizeOrigin(value: string): string | null {
+  const wildcard = /^(https?:\/\/)\*\./i.exec(value);
+
+  try {
+    const url = new URL(wildcard ? value.replace('*.', '') : value);
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return null;
+    }
+
+    if ((url.pathname !== '/' && url.pathname !== '') || url.search || url.hash || url.username) {
+      return null;
+    }
+
+    return wildcard ? `${url.protocol}//*.${url.host}` : url.origin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Origem do site que fez a requisição: header Origin ou, na falta dele
+ * (imagens embutidas não o enviam), a origem do Referer
+ */
+export function resolveSiteOrigin(req: Request): string | null {
+  const origin = req.get('Origin');
+
+  if (origin && origin !== 'null') {
+    return normalizeOrigin(origin);
+  }
+
+  const referer = req.get('Referer');
+
+  if (!referer) {
+    return null;
+  }
+
+  try {
+    const { origin: refererOrigin } = new URL(referer);
+    return refererOrigin === 'null' ? null : refererOrigin;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Verifica se uma origem está na lista de origens permitidas de um contador
+ */
+export function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+  return allowedOrigins.some(allowed => {
+    if (!allowed.includes('//*.')) {
+      return allowed === origin;
+    }
+
+    const [protocol, domain] = allowed.split('//*.');
+    return origin.startsWith(`${protocol}//`) && origin.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Permissões de quem faz a requisição sobre um contador
+ * - contador público: leitura e incremento para todos
+ * - administradores e o dono: todas; operadores: leitura
+ * - API key: as permissões do dono da chave limitadas aos scopes e contadores da chave
+ */
+export function resolveCounterScopes(principal: ICounterPrincipal, policy: ICounterAccessPolicy): CounterScope[] {
+  const granted = new Set<CounterScope>(policy.visibility === CounterVisibility.PUBLIC ? PUBLIC_SCOPES : []);
+  const { user, apiKey } = principal;
+
+  if (!user) {
+    return [...granted];
+  }
+
+  let userScopes: CounterScope[] = [];
+
+  if (user.role === UserRole.ADMIN || policy.owner === user.id) {
+    userScopes = ALL_COUNTER_SCOPES;
+  } else if (user.role === UserRole.OPERATOR) {
+    userScopes = [CounterScope.READ];
+  }
+
+  if (!apiKey) {
+    userScopes.forEach(scope => granted.add(scope));
+  } else if (apiKey.counters.length === 0 || apiKey.counters.includes(policy.key)) {
+    userScopes.filter(scope => apiKey.scopes.includes(scope)).forEach(scope => granted.add(scope));
+  }
+
+  return ALL_COUNTER_SCOPES.filter(scope => granted.has(scope));
+}
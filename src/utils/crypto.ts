@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+
+/**
+ * Utilitários criptográficos compartilhados
+ * Geração de tokens opacos e hash para armazenamento seguro
+ */
+
+/**
+ * Gera um token aleatório seguro codificado em base64url
+ */
+export function generateSecureToken(bytes: number = 48): string {
+  return crypto.randomBytes(bytes).toString('base64url');
+}
+
+/**
+ * Gera o hash SHA-256 de um token
+ * Tokens nunca são persistidos em texto puro, apenas o hash
+ */
+export function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Gera a assinatura HMAC-SHA256 (hex) de um payload
+ * Usada para que destinatários de webhooks validem a origem
+ */
+export function signPayload(secret: string, payload: string): string {
+  return crypto.createHmac('sha256', secret).update(payload).digest('hex');
+}
+
+/**
+ * Cifra um segredo com AES-256-GCM para armazenamento
+ * Formato: iv.authTag.ciphertext (base64url); a chave é derivada via SHA-256
+ */
+export function encryptSecret(plaintext: string, key: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(key), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), ciphertext].map(part => part.toString('base64url')).join('.');
+}
+
+/**
+ * Decifra um segredo gerado por encryptSecret
+ * Lança erro se o conteúdo tiver sido alterado ou a chave for outra
+ */
+export function decryptSecret(payload: string, key: string): string {
+  const [iv, authTag, ciphertext] = payload.split('.').map(part => Buffer.from(part, 'base64url'));
+  const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(key), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+function deriveKey(key: string): Buffer {
+  return crypto.createHash('sha256').update(key).digest();
+}
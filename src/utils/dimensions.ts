@@ -0,0 +1,161 @@
+import { Request } from 'express';
+import { BreakdownDimension, IAccessDimensions } from '../types';
+import { config } from '../config/environment';
+
+/**
+ * Utilitários para extrair as dimensões de segmentação de um incremento
+ * Os valores são normalizados para manter a cardinalidade baixa
+ * (ex.: apenas o host do referrer, apenas o caminho da página)
+ */
+
+/**
+ * Valor registrado quando não há referrer
+ */
+export const DIRECT_REFERRER = '(direct)';
+
+/**
+ * Família do navegador, sistema operacional e classe do dispositivo
+ */
+export interface UserAgentInfo {
+  browser: string;
+  os: string;
+  device: string;
+}
+
+/**
+ * Regras de identificação na ordem de prioridade
+ * (ex.: o User-Agent do Edge também contém "Chrome" e "Safari")
+ */
+const BROWSER_PATTERNS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/CriOS\/|Chrome\/|Chromium\//, 'Chrome'],
+  [/Version\/[\d.]+.*Safari\//, 'Safari'],
+  [/MSIE |Trident\//, 'Internet Explorer'],
+];
+
+const OS_PATTERNS: Array<[RegExp, string]> = [
+  [/Windows/, 'Windows'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/CrOS/, 'Chrome OS'],
+  [/Macintosh|Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+/**
+ * Identifica navegador, sistema operacional e dispositivo a partir do User-Agent
+ */
+export function parseUserAgent(userAgent: string | undefined): UserAgentInfo {
+  if (!userAgent) {
+    return { browser: 'Unknown', os: 'Unknown', device: 'unknown' };
+  }
+
+  const browser = BROWSER_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Other';
+  const os = OS_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1] ?? 'Other';
+
+  let device = 'desktop';
+  if (/iPad|Tablet/.test(userAgent) || (/Android/.test(userAgent) && !/Mobile/.test(userAgent))) {
+    device = 'tablet';
+  } else if (/Mobi|iPhone|iPod|Android/.test(userAgent)) {
+    device = 'mobile';
+  }
+
+  return { browser, os, device };
+}
+
+/**
+ * Reduz um referrer ao host (sem "www.")
+ * Retorna undefined para valores que não são URLs http(s)
+ */
+export function normalizeReferrer(referrer: string | undefined): string | undefined {
+  if (!referrer) {
+    return undefined;
+  }
+
+  try {
+    const url = new URL(referrer);
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return undefined;
+    }
+
+    return url.hostname.toLowerCase().replace(/^www\./, '') || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Lê um parâmetro textual do body ou da query
+ */
+function readParam(req: Request, name: string): string | undefined {
+  const candidate = req.body?.[name] ?? req.query[name];
+
+  if (typeof candidate !== 'string') {
+    return undefined;
+  }
+
+  const trimmed = candidate.trim();
+  return trimmed || undefined;
+}
+
+/**
+ * Limita o tamanho de um valor de dimensão
+ */
+function truncate(value: string | undefined): string | undefined {
+  return value?.slice(0, config.breakdown.maxValueLength);
+}
+
+/**
+ * Extrai as dimensões de uma requisição de incremento
+ * - referrer: "referrer" informado pelo cliente (document.referrer) ou header Referer
+ * - path/source: informados pelo cliente no body ou na query
+ * - browser/os/device: derivados do User-Agent
+ * - utm_*: informados pelo cliente ou extraídos da query string de "path"
+ */
+export function extractAccessDimensions(req: Request): IAccessDimensions {
+  const dimensions: IAccessDimensions = {};
+  const rawReferrer = readParam(req, 'referrer') ?? req.get('Referer');
+
+  dimensions[BreakdownDimension.REFERRER] = truncate(normalizeReferrer(rawReferrer)) ?? DIRECT_REFERRER;
+
+  const rawPath = readParam(req, 'path');
+  let pathQuery: URLSearchParams | undefined;
+
+  if (rawPath) {
+    try {
+      const url = new URL(rawPath, 'http://localhost');
+      dimensions[BreakdownDimension.PATH] = truncate(url.pathname);
+      pathQuery = url.searchParams;
+    } catch {
+      // Caminho inválido: a dimensão é ignorada
+    }
+  }
+
+  const source = readParam(req, 'source');
+  if (source) {
+    dimensions[BreakdownDimension.SOURCE] = truncate(source.toLowerCase());
+  }
+
+  const userAgent = parseUserAgent(req.get('User-Agent'));
+  dimensions[BreakdownDimension.BROWSER] = userAgent.browser;
+  dimensions[BreakdownDimension.OS] = userAgent.os;
+  dimensions[BreakdownDimension.DEVICE] = userAgent.device;
+
+  for (const dimension of [
+    BreakdownDimension.UTM_SOURCE,
+    BreakdownDimension.UTM_MEDIUM,
+    BreakdownDimension.UTM_CAMPAIGN,
+  ]) {
+    const value = readParam(req, dimension) ?? pathQuery?.get(dimension)?.trim();
+
+    if (value) {
+      dimensions[dimension] = truncate(value.toLowerCase());
+    }
+  }
+
+  return dimensions;
+}
@@ -0,0 +1,98 @@
+import crypto from 'crypto';
+
+/**
+ * Implementação de HyperLogLog para estimativa de visitantes únicos
+ * Os registradores são persistidos de forma esparsa ({ "<índice>": rank })
+ * e podem ser mesclados pelo maior valor de cada índice, o que permite
+ * combinar buckets de tempo diretamente no MongoDB com $max
+ */
+
+/**
+ * Precisão do sketch: 2^12 = 4096 registradores (erro padrão ~1,6%)
+ */
+export const HLL_PRECISION = 12;
+export const HLL_REGISTER_COUNT = 1 << HLL_PRECISION;
+
+/**
+ * Registrador afetado por um valor observado
+ */
+export interface HllRegister {
+  index: number;
+  rank: number;
+}
+
+/**
+ * Representação esparsa dos registradores persistida no banco
+ */
+export type HllRegisters = Record<string, number>;
+
+const VALUE_BITS = 64 - HLL_PRECISION;
+const VALUE_MASK = (BigInt(1) << BigInt(VALUE_BITS)) - BigInt(1);
+
+/**
+ * Calcula o registrador e o rank de um valor
+ * Usa os 64 primeiros bits do SHA-256: os bits mais altos escolhem o
+ * registrador e o rank é a posição do primeiro bit 1 nos bits restantes
+ */
+export function hllRegisterFor(value: string): HllRegister {
+  const hash = crypto.createHash('sha256').update(value).digest().readBigUInt64BE(0);
+
+  const index = Number(hash >> BigInt(VALUE_BITS));
+  const remaining = hash & VALUE_MASK;
+  const rank = remaining === BigInt(0)
+    ? VALUE_BITS + 1
+    : VALUE_BITS - remaining.toString(2).length + 1;
+
+  return { index, rank };
+}
+
+/**
+ * Mescla vários conjuntos de registradores mantendo o maior rank por índice
+ */
+export function mergeHllRegisters(...sketches: Array<HllRegisters | undefined | null>): HllRegisters {
+  const merged: HllRegisters = {};
+
+  for (const sketch of sketches) {
+    if (!sketch) {
+      continue;
+    }
+
+    for (const [index, rank] of Object.entries(sketch)) {
+      if (!merged[index] || rank > merged[index]) {
+        merged[index] = rank;
+      }
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Estima a cardinalidade a partir dos registradores
+ * Aplica a correção de linear counting para cardinalidades pequenas
+ */
+export function estimateCardinality(registers: HllRegisters | undefined | null): number {
+  if (!registers) {
+    return 0;
+  }
+
+  const values = Object.values(registers).filter(rank => rank > 0);
+
+  if (values.length === 0) {
+    return 0;
+  }
+
+  const m = HLL_REGISTER_COUNT;
+  const alpha = 0.7213 / (1 + 1.079 / m);
+  const zeros = m - values.length;
+
+  // Registradores ausentes valem 0 e contribuem com 2^0 = 1
+  const sum = values.reduce((acc, rank) => acc + Math.pow(2, -rank), zeros);
+  const estimate = (alpha * m * m) / sum;
+
+  if (estimate <= 2.5 * m && zeros > 0) {
+    return Math.round(m * Math.log(m / zeros));
+  }
+
+  return Math.round(estimate);
+}
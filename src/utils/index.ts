@@ -4,3 +4,74 @@
 
 export { ApiResponseUtil } from './ApiResponse';
 export { Logger, LogLevel } from './logger';
+export { generateSecureToken, hashToken, signPayload, encryptSecret, decryptSecret } from './crypto';
+export {
+  TOTP_STEP_SECONDS,
+  TOTP_DIGITS,
+  base32Encode,
+  base32Decode,
+  generateTotpSecret,
+  totpStep,
+  generateHotp,
+  generateTotp,
+  verifyTotp,
+  buildOtpauthUri,
+} from './totp';
+export {
+  PARENT_GRANULARITY,
+  truncateToBucket,
+  nextBucket,
+  enumerateBuckets,
+  countBuckets,
+} from './timeBuckets';
+export {
+  HLL_PRECISION,
+  HLL_REGISTER_COUNT,
+  HllRegister,
+  HllRegisters,
+  hllRegisterFor,
+  mergeHllRegisters,
+  estimateCardinality,
+} from './hyperloglog';
+export { readCookie, readExplicitVisitorId, resolveVisitorFingerprint, resolveAccessOrigin } from './visitor';
+export {
+  DIRECT_REFERRER,
+  UserAgentInfo,
+  parseUserAgent,
+  normalizeReferrer,
+  extractAccessDimensions,
+} from './dimensions';
+export {
+  TRANSPARENT_GIF,
+  BADGE_COLORS,
+  resolveBadgeColor,
+  formatBadgeCount,
+  renderBadge,
+} from './badge';
+export { isValidTimeZone, startOfPeriod, nextPeriodStart } from './timezone';
+export {
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  EXPORT_OTHER_VALUE,
+  toCsvLine,
+  serializeExportRows,
+  exportFileName,
+  contentDisposition,
+} from './accessExport';
+export {
+  LinearSums,
+  startOfTrendPeriod,
+  addPeriods,
+  fillPeriods,
+  yearAgo,
+  percentageChange,
+  linearForecast,
+} from './trends';
+export { median, robustBaseline, anomalyScore, anomalySeverity, compareSeverity } from './anomaly';
+export {
+  ALL_COUNTER_SCOPES,
+  normalizeOrigin,
+  resolveSiteOrigin,
+  isOriginAllowed,
+  resolveCounterScopes,
+} from './counterAccess';
@@ -0,0 +1,109 @@
+import { HistoryGranularity } from '../types';
+
+/**
+ * Utilitários para cálculo de buckets de tempo
+ * Todos os cálculos são feitos em UTC para evitar ambiguidades de fuso horário
+ */
+
+/**
+ * Granularidade imediatamente superior usada no rollup
+ */
+export const PARENT_GRANULARITY: Partial<Record<HistoryGranularity, HistoryGranularity>> = {
+  [HistoryGranularity.MINUTE]: HistoryGranularity.HOUR,
+  [HistoryGranularity.HOUR]: HistoryGranularity.DAY,
+  [HistoryGranularity.DAY]: HistoryGranularity.MONTH,
+};
+
+/**
+ * Trunca uma data para o início do bucket da granularidade informada
+ */
+export function truncateToBucket(date: Date, granularity: HistoryGranularity): Date {
+  const truncated = new Date(date.getTime());
+
+  switch (granularity) {
+    case HistoryGranularity.MINUTE:
+      truncated.setUTCSeconds(0, 0);
+      break;
+    case HistoryGranularity.HOUR:
+      truncated.setUTCMinutes(0, 0, 0);
+      break;
+    case HistoryGranularity.DAY:
+      truncated.setUTCHours(0, 0, 0, 0);
+      break;
+    case HistoryGranularity.MONTH:
+      truncated.setUTCHours(0, 0, 0, 0);
+      truncated.setUTCDate(1);
+      break;
+  }
+
+  return truncated;
+}
+
+/**
+ * Retorna o início do bucket seguinte
+ */
+export function nextBucket(bucketStart: Date, granularity: HistoryGranularity): Date {
+  const next = new Date(bucketStart.getTime());
+
+  switch (granularity) {
+    case HistoryGranularity.MINUTE:
+      next.setUTCMinutes(next.getUTCMinutes() + 1);
+      break;
+    case HistoryGranularity.HOUR:
+      next.setUTCHours(next.getUTCHours() + 1);
+      break;
+    case HistoryGranularity.DAY:
+      next.setUTCDate(next.getUTCDate() + 1);
+      break;
+    case HistoryGranularity.MONTH:
+      next.setUTCMonth(next.getUTCMonth() + 1);
+      break;
+  }
+
+  return next;
+}
+
+/**
+ * Gera os inícios de todos os buckets entre from e to (inclusive)
+ */
+export function enumerateBuckets(from: Date, to: Date, granularity: HistoryGranularity): Date[] {
+  const buckets: Date[] = [];
+
+  for (
+    let cursor = truncateToBucket(from, granularity);
+    cursor.getTime() <= to.getTime();
+    cursor = nextBucket(cursor, granularity)
+  ) {
+    buckets.push(cursor);
+  }
+
+  return buckets;
+}
+
+/**
+ * Conta quantos buckets existem entre from e to sem materializá-los
+ * Usado para limitar o tamanho das séries antes de consultar o banco
+ */
+export function countBuckets(from: Date, to: Date, granularity: HistoryGranularity): number {
+  const start = truncateToBucket(from, granularity);
+  const end = truncateToBucket(to, granularity);
+
+  if (end < start) {
+    return 0;
+  }
+
+  switch (granularity) {
+    case HistoryGranularity.MINUTE:
+      return Math.floor((end.getTime() - start.getTime()) / 60000) + 1;
+    case HistoryGranularity.HOUR:
+      return Math.floor((end.getTime() - start.getTime()) / 3600000) + 1;
+    case HistoryGranularity.DAY:
+      return Math.floor((end.getTime() - start.getTime()) / 86400000) + 1;
+    case HistoryGranularity.MONTH:
+      return (
+        (end.getUTCFullYear() - start.getUTCFullYear()) * 12 +
+        (end.getUTCMonth() - start.getUTCMonth()) +
+        1
+      );
+  }
+}
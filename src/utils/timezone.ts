@@ -0,0 +1,113 @@
+import { ResetPeriod } from '../types';
+
+/**
+ * Utilitários de datas em fusos horários IANA (ex.: America/Sao_Paulo)
+ * Usados nos resets agendados, cujos períodos começam à meia-noite local
+ */
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number;
+}
+
+/**
+ * Verifica se o fuso horário é reconhecido pelo runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Decompõe um instante na data/hora local do fuso
+ */
+function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    weekday: 'short',
+  }).formatToParts(date);
+
+  const value = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value ?? '';
+
+  return {
+    year: Number(value('year')),
+    month: Number(value('month')),
+    day: Number(value('day')),
+    hour: Number(value('hour')),
+    minute: Number(value('minute')),
+    second: Number(value('second')),
+    weekday: WEEKDAYS[value('weekday')],
+  };
+}
+
+/**
+ * Diferença, em ms, entre a hora local do fuso e UTC no instante informado
+ */
+function timeZoneOffset(date: Date, timeZone: string): number {
+  const local = zonedParts(date, timeZone);
+  const wall = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second);
+
+  return wall - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Converte a meia-noite local de uma data do fuso para um instante UTC
+ * Aceita dias e meses fora do intervalo (ex.: dia 32), normalizados pelo Date.UTC
+ */
+function zonedMidnight(year: number, month: number, day: number, timeZone: string): Date {
+  const wall = Date.UTC(year, month - 1, day);
+  const guess = wall - timeZoneOffset(new Date(wall), timeZone);
+
+  // Segunda passada corrige o deslocamento em mudanças de horário de verão
+  return new Date(wall - timeZoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * Início do período (dia, semana a partir da segunda-feira ou mês) que contém a data
+ */
+export function startOfPeriod(date: Date, period: ResetPeriod, timeZone: string): Date {
+  const { year, month, day, weekday } = zonedParts(date, timeZone);
+
+  switch (period) {
+    case ResetPeriod.DAILY:
+      return zonedMidnight(year, month, day, timeZone);
+    case ResetPeriod.WEEKLY:
+      return zonedMidnight(year, month, day - ((weekday + 6) % 7), timeZone);
+    case ResetPeriod.MONTHLY:
+      return zonedMidnight(year, month, 1, timeZone);
+  }
+}
+
+/**
+ * Início do período seguinte ao que contém a data
+ */
+export function nextPeriodStart(date: Date, period: ResetPeriod, timeZone: string): Date {
+  const { year, month, day, weekday } = zonedParts(date, timeZone);
+
+  switch (period) {
+    case ResetPeriod.DAILY:
+      return zonedMidnight(year, month, day + 1, timeZone);
+    case ResetPeriod.WEEKLY:
+      return zonedMidnight(year, month, day - ((weekday + 6) % 7) + 7, timeZone);
+    case ResetPeriod.MONTHLY:
+      return zonedMidnight(year, month + 1, 1, timeZone);
+  }
+}
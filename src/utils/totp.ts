@@ -0,0 +1,150 @@
+import crypto from 'crypto';
+
+/**
+ * Utilitários de TOTP (RFC 6238) para autenticação em dois fatores
+ * HMAC-SHA1, passos de 30 segundos e códigos de 6 dígitos, o padrão
+ * aceito pelos aplicativos autenticadores (Google Authenticator, Authy, 1Password...)
+ */
+
+/**
+ * Duração de cada passo em segundos
+ */
+export const TOTP_STEP_SECONDS = 30;
+
+/**
+ * Quantidade de dígitos do código
+ */
+export const TOTP_DIGITS = 6;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * Codifica bytes em base32 (RFC 4648, sem padding), formato usado nos segredos TOTP
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decodifica um texto base32, ignorando espaços, hífens, padding e caixa
+ */
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+
+    if (index === -1) {
+      throw new Error(`Caractere base32 inválido: ${char}`);
+    }
+
+    value = (value << 5) | index;
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Gera um segredo TOTP aleatório (160 bits, recomendado pela RFC 4226) em base32
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+/**
+ * Passo de tempo (contador) correspondente a um instante
+ */
+export function totpStep(time: number = Date.now()): number {
+  return Math.floor(time / 1000 / TOTP_STEP_SECONDS);
+}
+
+/**
+ * Calcula o código HOTP (RFC 4226) de um contador
+ */
+export function generateHotp(secret: Buffer, counter: number, digits: number = TOTP_DIGITS): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', secret).update(message).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+
+  return binary.toString().padStart(digits, '0');
+}
+
+/**
+ * Calcula o código TOTP de um segredo base32 em um instante
+ */
+export function generateTotp(secret: string, time: number = Date.now()): string {
+  return generateHotp(base32Decode(secret), totpStep(time));
+}
+
+/**
+ * Verifica um código TOTP aceitando `window` passos antes e depois (tolerância
+ * a relógios dessincronizados). Retorna o passo correspondente, para impedir o
+ * reuso do mesmo código, ou null se o código for inválido
+ */
+export function verifyTotp(secret: string, code: string, time: number = Date.now(), window: number = 1): number | null {
+  const normalized = code.replace(/\s/g, '');
+
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const current = totpStep(time);
+  const expected = Buffer.from(normalized);
+
+  for (let offset = -window; offset <= window; offset++) {
+    const candidate = Buffer.from(generateHotp(key, current + offset));
+
+    if (crypto.timingSafeEqual(candidate, expected)) {
+      return current + offset;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Monta a URI otpauth:// lida pelos aplicativos autenticadores (geralmente via QR code)
+ */
+export function buildOtpauthUri(secret: string, account: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_STEP_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
@@ -0,0 +1,116 @@
+import { ResetPeriod, TrendPeriod } from '../types';
+import { startOfPeriod } from './timezone';
+
+/**
+ * Utilitários da análise de tendências
+ * Os períodos seguem os buckets do histórico: alinhados em UTC, com semanas
+ * começando na segunda-feira
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const RESET_PERIODS: Record<TrendPeriod, ResetPeriod> = {
+  [TrendPeriod.DAY]: ResetPeriod.DAILY,
+  [TrendPeriod.WEEK]: ResetPeriod.WEEKLY,
+  [TrendPeriod.MONTH]: ResetPeriod.MONTHLY,
+};
+
+/**
+ * Somatórios de uma regressão linear simples (x = posição do período, y = acessos)
+ */
+export interface LinearSums {
+  n: number;
+  sx: number;
+  sy: number;
+  sxy: number;
+  sxx: number;
+}
+
+/**
+ * Início do período que contém a data
+ */
+export function startOfTrendPeriod(date: Date, period: TrendPeriod): Date {
+  return startOfPeriod(date, RESET_PERIODS[period], 'UTC');
+}
+
+/**
+ * Soma (ou subtrai) períodos inteiros a um início de período
+ */
+export function addPeriods(start: Date, period: TrendPeriod, amount: number): Date {
+  switch (period) {
+    case TrendPeriod.DAY:
+      return new Date(start.getTime() + amount * DAY_MS);
+    case TrendPeriod.WEEK:
+      return new Date(start.getTime() + amount * 7 * DAY_MS);
+    case TrendPeriod.MONTH:
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + amount, 1));
+  }
+}
+
+/**
+ * Completa a série com os períodos sem acessos (contagem zero), de from até to (exclusivo)
+ */
+export function fillPeriods(
+  counts: Array<{ start: Date; count: number }>,
+  period: TrendPeriod,
+  from: Date,
+  to: Date
+): Array<{ start: Date; count: number }> {
+  const byStart = new Map(counts.map(({ start, count }) => [start.getTime(), count]));
+  const filled: Array<{ start: Date; count: number }> = [];
+
+  for (let start = from; start < to; start = addPeriods(start, period, 1)) {
+    filled.push({ start, count: byStart.get(start.getTime()) ?? 0 });
+  }
+
+  return filled;
+}
+
+/**
+ * Início do período equivalente um ano antes
+ * Dias e semanas voltam 52 semanas, para comparar o mesmo dia da semana
+ */
+export function yearAgo(start: Date, period: TrendPeriod): Date {
+  switch (period) {
+    case TrendPeriod.DAY:
+      return addPeriods(start, TrendPeriod.DAY, -364);
+    case TrendPeriod.WEEK:
+      return addPeriods(start, TrendPeriod.WEEK, -52);
+    case TrendPeriod.MONTH:
+      return addPeriods(start, TrendPeriod.MONTH, -12);
+  }
+}
+
+/**
+ * Variação percentual com duas casas decimais (null quando a base é zero)
+ */
+export function percentageChange(current: number, base: number): number | null {
+  if (base === 0) {
+    return null;
+  }
+
+  return Math.round(((current - base) / base) * 10000) / 100;
+}
+
+/**
+ * Valor previsto pela reta de mínimos quadrados na posição x
+ * Com menos de dois pontos a previsão é a média dos valores
+ */
+export function linearForecast(sums: LinearSums, x: number): number {
+  const { n, sx, sy, sxy, sxx } = sums;
+
+  if (n === 0) {
+    return 0;
+  }
+
+  const denominator = n * sxx - sx * sx;
+
+  if (denominator === 0) {
+    return sy / n;
+  }
+
+  const slope = (n * sxy - sx * sy) / denominator;
+  const intercept = (sy - slope * sx) / n;
+
+  return intercept + slope * x;
+}
@@ -0,0 +1,84 @@
+import { Request } from 'express';
+import { IAccessOrigin } from '../types';
+import { config } from '../config/environment';
+
+/**
+ * Utilitários para identificação de visitantes
+ * O fingerprint nunca é persistido: apenas seu hash alimenta o HyperLogLog
+ */
+
+/**
+ * Lê um cookie do header Cookie sem depender de cookie-parser
+ */
+export function readCookie(req: Request, name: string): string | undefined {
+  const header = req.get('Cookie');
+
+  if (!header) {
+    return undefined;
+  }
+
+  for (const part of header.split(';')) {
+    const [rawName, ...rawValue] = part.trim().split('=');
+
+    if (rawName === name) {
+      const value = rawValue.join('=');
+      try {
+        return decodeURIComponent(value) || undefined;
+      } catch {
+        return value || undefined;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Obtém o visitorId explícito informado pelo cliente (body, query ou header)
+ */
+export function readExplicitVisitorId(req: Request): string | undefined {
+  const candidate = req.body?.visitorId ?? req.query.visitorId ?? req.get('X-Visitor-Id');
+
+  if (typeof candidate !== 'string') {
+    return undefined;
+  }
+
+  const trimmed = candidate.trim();
+  return trimmed ? trimmed.slice(0, 256) : undefined;
+}
+
+/**
+ * Resolve o fingerprint do visitante conforme a estratégia configurada
+ * Estratégias baseadas em cookie ou visitorId recaem em IP + User-Agent
+ * quando o identificador não é enviado
+ */
+export function resolveVisitorFingerprint(req: Request): string {
+  const ip = req.ip || 'unknown';
+  const ipWithUserAgent = `ip:${ip}|ua:${req.get('User-Agent') || ''}`;
+
+  switch (config.visitors.fingerprint) {
+    case 'ip':
+      return `ip:${ip}`;
+    case 'cookie': {
+      const cookie = readCookie(req, config.visitors.cookieName);
+      return cookie ? `cookie:${cookie}` : ipWithUserAgent;
+    }
+    case 'visitor_id': {
+      const visitorId = readExplicitVisitorId(req);
+      return visitorId ? `id:${visitorId}` : ipWithUserAgent;
+    }
+    case 'ip_ua':
+    default:
+      return ipWithUserAgent;
+  }
+}
+
+/**
+ * Origem da requisição (IP e User-Agent) para a investigação de anomalias
+ */
+export function resolveAccessOrigin(req: Request): IAccessOrigin {
+  return {
+    ip: req.ip || 'unknown',
+    userAgent: (req.get('User-Agent') || '').slice(0, config.breakdown.maxValueLength),
+  };
+}
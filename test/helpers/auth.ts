@@ -0,0 +1,41 @@
+import request from 'supertest';
+import { User } from '../../src/models/User';
+import { UserRole } from '../../src/types';
+
+let userSequence = 0;
+
+/**
+ * Cria um usuário diretamente no banco e autentica via API
+ * Evita o rate limit de criação de usuários nas rotas públicas
+ * O email já nasce verificado, salvo quando emailVerified: false
+ */
+export async function createAuthenticatedUser(
+  server: any,
+  role: UserRole = UserRole.USER,
+  overrides: { name?: string; email?: string; password?: string; emailVerified?: boolean } = {}
+): Promise<{ id: string; email: string; password: string; token: string; refreshToken: string }> {
+  userSequence++;
+
+  const password = overrides.password || 'Password123';
+  const email = overrides.email || `${role}.${userSequence}@test.com`;
+
+  const user = await User.create({
+    name: overrides.name || 'Usuario Teste',
+    email,
+    password,
+    role,
+    emailVerified: overrides.emailVerified ?? true,
+  });
+
+  const response = await request(server)
+    .post('/api/auth/login')
+    .send({ email, password });
+
+  return {
+    id: (user._id as any).toString(),
+    email,
+    password,
+    token: response.body.data.accessToken,
+    refreshToken: response.body.data.refreshToken,
+  };
+}
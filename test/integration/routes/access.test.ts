@@ -1,5 +1,10 @@
+import http from 'http';
+import { AddressInfo } from 'net';
 import request from 'supertest';
 import { App } from '../../../src/app';
+import { UserRole } from '../../../src/types';
+import { createAuthenticatedUser } from '../../helpers/auth';
+import { AccessCounterService, RealtimeService } from '../../../src/services';
 
 describe('Access Routes Integration', () => {
   let app: App;
@@ -90,7 +95,9 @@ describe('Access Routes Integration', () => {
   });
 
   describe('POST /api/access/reset', () => {
-    it('should reset counter in development', async () => {
+    it('should reset counter for admins', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
+
       // Incrementa contador
       await request(server)
         .post('/api/access/increment');
@@ -98,10 +105,962 @@ describe('Access Routes Integration', () => {
       // Reseta contador
       const response = await request(server)
         .post('/api/access/reset')
+        .set('Authorization', `Bearer ${token}`)
         .expect(200);
 
       expect(response.body.success).toBe(true);
       expect(response.body.data.count).toBe(0);
     });
+
+    it('should return 401 without token', async () => {
+      await request(server)
+        .post('/api/access/reset')
+        .expect(401);
+    });
+
+    it('should return 403 for non-admin users', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.OPERATOR);
+
+      await request(server)
+        .post('/api/access/reset')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+    });
+  });
+
+  describe('Named counters', () => {
+    it('should increment and read a named counter', async () => {
+      await request(server)
+        .post('/api/access/home-page/increment')
+        .send({ namespace: 'pages' })
+        .expect(200);
+
+      const response = await request(server)
+        .get('/api/access/home-page/count')
+        .expect(200);
+
+      expect(response.body.data.key).toBe('home-page');
+      expect(response.body.data.namespace).toBe('pages');
+      expect(response.body.data.count).toBe(1);
+    });
+
+    it('should keep the legacy routes on the default counter', async () => {
+      await request(server).post('/api/access/home-page/increment');
+      await request(server).post('/api/access/increment');
+
+      const response = await request(server)
+        .get('/api/access/default/count')
+        .expect(200);
+
+      expect(response.body.data.count).toBe(1);
+    });
+
+    it('should list counters by namespace', async () => {
+      await request(server).post('/api/access/home-page/increment').send({ namespace: 'pages' });
+      await request(server).post('/api/access/product-42/increment').send({ namespace: 'products' });
+
+      const response = await request(server)
+        .get('/api/access?namespace=pages')
+        .expect(200);
+
+      expect(response.body.data.counters).toHaveLength(1);
+      expect(response.body.data.counters[0].key).toBe('home-page');
+      expect(response.body.data.pagination.total).toBe(1);
+    });
+
+    it('should return 400 for invalid keys', async () => {
+      await request(server)
+        .post('/api/access/Invalid%20Key/increment')
+        .expect(400);
+    });
+
+    it('should return 403 when resetting a named counter as non-admin', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.USER);
+
+      await request(server)
+        .post('/api/access/home-page/reset')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+    });
+  });
+
+  describe('GET /api/access/history', () => {
+    it('should return a zero-filled series for the default counter', async () => {
+      await request(server).post('/api/access/increment');
+
+      const response = await request(server)
+        .get('/api/access/history?granularity=hour')
+        .expect(200);
+
+      expect(response.body.data.key).toBe('default');
+      expect(response.body.data.granularity).toBe('hour');
+      expect(response.body.data.series.length).toBeGreaterThanOrEqual(24);
+      expect(response.body.data.total).toBe(1);
+    });
+
+    it('should return history for a named counter', async () => {
+      await request(server).post('/api/access/home-page/increment');
+
+      const response = await request(server)
+        .get('/api/access/home-page/history?granularity=day')
+        .expect(200);
+
+      expect(response.body.data.key).toBe('home-page');
+      expect(response.body.data.total).toBe(1);
+    });
+
+    it('should report unique visitors', async () => {
+      await request(server).post('/api/access/increment').set('User-Agent', 'browser-a');
+      await request(server).post('/api/access/increment').set('User-Agent', 'browser-a');
+      await request(server).post('/api/access/increment').set('User-Agent', 'browser-b');
+
+      const history = await request(server)
+        .get('/api/access/history?granularity=day')
+        .expect(200);
+
+      const statistics = await request(server)
+        .get('/api/access/statistics')
+        .expect(200);
+
+      expect(history.body.data.uniqueVisitors).toBe(2);
+      expect(statistics.body.data.uniqueVisitors).toBe(2);
+    });
+
+    it('should return 400 for invalid granularity', async () => {
+      await request(server)
+        .get('/api/access/history?granularity=week')
+        .expect(400);
+    });
+
+    it('should return 400 for invalid dates', async () => {
+      await request(server)
+        .get('/api/access/history?from=yesterday')
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/access/trends', () => {
+    it('should forecast the current period from accesses so far', async () => {
+      await request(server).post('/api/access/increment');
+
+      const response = await request(server)
+        .get('/api/access/trends?period=week&compare=yoy')
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ key: 'default', period: 'week', compare: 'yoy' });
+      expect(response.body.data.series).toEqual([]);
+      expect(response.body.data.forecast.count).toBe(1);
+      expect(response.body.data.forecast.projected).toBeGreaterThanOrEqual(1);
+    });
+
+    it('should return 400 for invalid period', async () => {
+      await request(server)
+        .get('/api/access/trends?period=hour')
+        .expect(400);
+    });
+
+    it('should return 400 for a window larger than the series', async () => {
+      await request(server)
+        .get('/api/access/home-page/trends?periods=4&window=5')
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/access/breakdown', () => {
+    it('should segment traffic by referrer and path', async () => {
+      await request(server)
+        .post('/api/access/home-page/increment')
+        .set('Referer', 'https://www.google.com/search?q=anota')
+        .send({ path: '/cardapio?utm_source=newsletter' });
+      await request(server)
+        .post('/api/access/home-page/increment')
+        .set('Referer', 'https://www.google.com/')
+        .send({ path: '/cardapio' });
+      await request(server).post('/api/access/home-page/increment');
+
+      const referrers = await request(server)
+        .get('/api/access/home-page/breakdown?dimension=referrer')
+        .expect(200);
+
+      const campaigns = await request(server)
+        .get('/api/access/home-page/breakdown?dimension=utm_source')
+        .expect(200);
+
+      expect(referrers.body.data.total).toBe(3);
+      expect(referrers.body.data.items).toEqual([
+        { value: 'google.com', count: 2, share: 0.6667 },
+        { value: '(direct)', count: 1, share: 0.3333 },
+      ]);
+      expect(campaigns.body.data.items).toEqual([{ value: 'newsletter', count: 1, share: 1 }]);
+    });
+
+    it('should return 400 for a missing or unknown dimension', async () => {
+      await request(server)
+        .get('/api/access/breakdown')
+        .expect(400);
+
+      await request(server)
+        .get('/api/access/breakdown?dimension=country')
+        .expect(400);
+    });
+
+    it('should return 400 for an invalid limit', async () => {
+      await request(server)
+        .get('/api/access/breakdown?dimension=referrer&limit=500')
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/access/export', () => {
+    it('should stream a CSV attachment with totals and dimensions', async () => {
+      await request(server)
+        .post('/api/access/home-page/increment')
+        .set('Referer', 'https://www.google.com/');
+      await request(server).post('/api/access/home-page/increment');
+
+      const response = await request(server)
+        .get('/api/access/home-page/export?granularity=hour')
+        .expect(200);
+
+      expect(response.headers['content-type']).toMatch(/^text\/csv/);
+      expect(response.headers['content-disposition']).toMatch(/^attachment; filename="access-home-page-hour-.*\.csv"$/);
+
+      const lines = response.text.trim().split('\r\n');
+      expect(lines[0]).toBe('key,granularity,bucketStart,dimension,value,count,uniqueVisitors');
+      expect(lines[1]).toMatch(/^home-page,hour,.*,,,2,\d+$/);
+      expect(lines).toEqual(expect.arrayContaining([expect.stringMatching(/,referrer,google\.com,1,$/)]));
+    });
+
+    it('should compress the export when the client accepts gzip', async () => {
+      await request(server).post('/api/access/increment');
+
+      const response = await request(server)
+        .get('/api/access/export?format=json')
+        .set('Accept-Encoding', 'gzip')
+        .expect(200);
+
+      expect(response.headers['content-encoding']).toBe('gzip');
+      expect(response.body).toEqual([expect.objectContaining({ key: 'default', count: 1 })]);
+    });
+
+    it('should return 400 for unknown formats and ranges that are too large', async () => {
+      await request(server)
+        .get('/api/access/export?format=parquet')
+        .expect(400);
+
+      await request(server)
+        .get('/api/access/export?granularity=minute&from=2000-01-01T00:00:00Z')
+        .expect(400);
+    });
+  });
+
+  describe('Background exports', () => {
+    it('should schedule an export for the requesting user', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.USER);
+      const other = await createAuthenticatedUser(server, UserRole.USER);
+
+      const response = await request(server)
+        .post('/api/access/exports')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ key: 'home-page', granularity: 'day', from: '2024-01-01T00:00:00Z', format: 'ndjson' })
+        .expect(202);
+
+      expect(response.body.data.status).toBe('pending');
+
+      await request(server)
+        .get(`/api/access/exports/${response.body.data.id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      await request(server)
+        .get(`/api/access/exports/${response.body.data.id}`)
+        .set('Authorization', `Bearer ${other.token}`)
+        .expect(404);
+
+      await request(server)
+        .get(`/api/access/exports/${response.body.data.id}/download`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(409);
+    });
+
+    it('should require authentication and a start date', async () => {
+      await request(server)
+        .post('/api/access/exports')
+        .send({ from: '2024-01-01T00:00:00Z' })
+        .expect(401);
+
+      const { token } = await createAuthenticatedUser(server, UserRole.USER);
+
+      await request(server)
+        .post('/api/access/exports')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ granularity: 'day' })
+        .expect(400);
+    });
+  });
+
+  describe('PATCH /api/access/:key/settings', () => {
+    it('should change the shard count for admins', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      const response = await request(server)
+        .patch('/api/access/home-page/settings')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ shards: 8 })
+        .expect(200);
+
+      expect(response.body.data.shards).toBe(8);
+
+      await request(server).post('/api/access/home-page/increment');
+      await request(server).post('/api/access/home-page/increment');
+
+      const count = await request(server)
+        .get('/api/access/home-page/count')
+        .expect(200);
+
+      expect(count.body.data.count).toBe(2);
+    });
+
+    it('should return 400 for invalid shard counts', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      await request(server)
+        .patch('/api/access/home-page/settings')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ shards: 0 })
+        .expect(400);
+    });
+
+    it('should return 400 for invalid keys before checking permissions', async () => {
+      await request(server)
+        .patch('/api/access/Invalid%20Key/settings')
+        .send({ shards: 4 })
+        .expect(400);
+    });
+
+    it('should return 403 for non-admin users', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.OPERATOR);
+
+      await request(server)
+        .patch('/api/access/home-page/settings')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ shards: 4 })
+        .expect(403);
+    });
+
+    it('should change the bot policy for admins', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      const response = await request(server)
+        .patch('/api/access/home-page/settings')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ botPolicy: 'ignore' })
+        .expect(200);
+
+      expect(response.body.data.botPolicy).toBe('ignore');
+    });
+
+    it('should return 400 for unknown bot policies', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      await request(server)
+        .patch('/api/access/home-page/settings')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ botPolicy: 'block' })
+        .expect(400);
+    });
+
+    it('should schedule periodic resets for admins', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      const response = await request(server)
+        .patch('/api/access/home-page/settings')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ resetSchedule: { period: 'monthly', timezone: 'America/Sao_Paulo' } })
+        .expect(200);
+
+      expect(response.body.data.resetSchedule).toMatchObject({
+        period: 'monthly',
+        timezone: 'America/Sao_Paulo',
+      });
+      expect(new Date(response.body.data.resetSchedule.nextResetAt).getTime()).toBeGreaterThan(Date.now());
+
+      const removed = await request(server)
+        .patch('/api/access/home-page/settings')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ resetSchedule: null })
+        .expect(200);
+
+      expect(removed.body.data.resetSchedule).toBeNull();
+    });
+
+    it('should return 400 for invalid reset schedules', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      await request(server)
+        .patch('/api/access/home-page/settings')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ resetSchedule: { period: 'hourly' } })
+        .expect(400);
+
+      await request(server)
+        .patch('/api/access/home-page/settings')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ resetSchedule: { period: 'daily', timezone: 'Mars/Olympus_Mons' } })
+        .expect(400);
+    });
+  });
+
+  describe('Event-sourced counters', () => {
+    it('should enable the event-sourced mode for admins', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      const response = await request(server)
+        .patch('/api/access/home-page/settings')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ eventSourced: true })
+        .expect(200);
+
+      expect(response.body.data.eventSourcing.enabledAt).toBeDefined();
+      expect(response.body.data.eventSourcing.baselineAt).toBeNull();
+    });
+
+    it('should return 400 for point-in-time queries on regular counters', async () => {
+      await request(server).post('/api/access/home-page/increment');
+
+      await request(server)
+        .get(`/api/access/home-page/count?at=${new Date().toISOString()}`)
+        .expect(400);
+
+      await request(server)
+        .get('/api/access/home-page/count?at=ontem')
+        .expect(400);
+    });
+
+    it('should restrict rebuilds to admins', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.OPERATOR);
+
+      await request(server)
+        .post('/api/access/home-page/rebuild')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+    });
+  });
+
+  describe('Reset audit', () => {
+    it('should record resets in the counter events', async () => {
+      const admin = await createAuthenticatedUser(server, UserRole.ADMIN);
+      const operator = await createAuthenticatedUser(server, UserRole.OPERATOR);
+
+      await request(server).post('/api/access/home-page/increment');
+
+      const reset = await request(server)
+        .post('/api/access/home-page/reset')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .send({ reason: 'Contagem de teste' })
+        .expect(200);
+
+      expect(reset.body.data.previousCount).toBe(1);
+
+      const response = await request(server)
+        .get('/api/access/home-page/events')
+        .set('Authorization', `Bearer ${operator.token}`)
+        .expect(200);
+
+      expect(response.body.data.events).toHaveLength(1);
+      expect(response.body.data.events[0]).toMatchObject({
+        type: 'reset',
+        previousCount: 1,
+        reason: 'Contagem de teste',
+      });
+    });
+
+    it('should return 400 for reasons that are too long', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      await request(server)
+        .post('/api/access/home-page/reset')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ reason: 'x'.repeat(501) })
+        .expect(400);
+    });
+
+    it('should return 403 when listing events as a regular user', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.USER);
+
+      await request(server)
+        .get('/api/access/home-page/events')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+    });
+  });
+
+  describe('POST /api/access/:key/adjust', () => {
+    it('should adjust the counter as an admin', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      await request(server).post('/api/access/home-page/increment');
+
+      const response = await request(server)
+        .post('/api/access/home-page/adjust')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ by: 250, reason: 'Coletor de borda' })
+        .expect(200);
+
+      expect(response.body.data.count).toBe(251);
+      expect(response.body.data.previousCount).toBe(1);
+
+      const events = await request(server)
+        .get('/api/access/home-page/events')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(events.body.data.events[0]).toMatchObject({ type: 'bulk_increment', delta: 250 });
+    });
+
+    it('should return 400 without a reason or with more than one field', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      await request(server)
+        .post('/api/access/home-page/adjust')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ delta: 5 })
+        .expect(400);
+
+      await request(server)
+        .post('/api/access/home-page/adjust')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ delta: 5, value: 10, reason: 'Correção' })
+        .expect(400);
+    });
+
+    it('should return 400 when the counter would become negative', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      await request(server)
+        .post('/api/access/home-page/adjust')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ delta: -1, reason: 'Correção' })
+        .expect(400);
+    });
+
+    it('should return 403 for operators', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.OPERATOR);
+
+      await request(server)
+        .post('/api/access/home-page/adjust')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ delta: 5, reason: 'Correção' })
+        .expect(403);
+    });
+
+    it('should return 403 for counter owners who are not admins', async () => {
+      const admin = await createAuthenticatedUser(server, UserRole.ADMIN);
+      const owner = await createAuthenticatedUser(server, UserRole.USER);
+
+      await request(server)
+        .patch('/api/access/home-page/settings')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .send({ owner: owner.id })
+        .expect(200);
+
+      await request(server)
+        .post('/api/access/home-page/adjust')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ delta: 5, reason: 'Correção' })
+        .expect(403);
+    });
+  });
+
+  describe('GET /api/access/snapshots', () => {
+    it('should list snapshots with pagination', async () => {
+      const response = await request(server)
+        .get('/api/access/snapshots?key=home-page')
+        .expect(200);
+
+      expect(response.body.data.snapshots).toEqual([]);
+      expect(response.body.data.pagination.total).toBe(0);
+    });
+
+    it('should return 400 for invalid dates', async () => {
+      await request(server)
+        .get('/api/access/snapshots?from=ontem')
+        .expect(400);
+    });
+  });
+
+  describe('Traffic anomalies', () => {
+    it('should require authentication and the viewAnomalies permission', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.USER);
+
+      await request(server).get('/api/access/anomalies').expect(401);
+      await request(server)
+        .get('/api/access/anomalies')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+    });
+
+    it('should list anomalies for operators', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.OPERATOR);
+
+      const response = await request(server)
+        .get('/api/access/anomalies?key=home-page&severity=high')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      expect(response.body.data.anomalies).toEqual([]);
+      expect(response.body.data.pagination.total).toBe(0);
+    });
+
+    it('should return 400 for an invalid granularity', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      await request(server)
+        .get('/api/access/anomalies?granularity=day')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(400);
+    });
+
+    it('should return 404 when quarantining an unknown anomaly', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      await request(server)
+        .post('/api/access/anomalies/64b7f0c2a1b2c3d4e5f60718/quarantine')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(404);
+    });
+  });
+
+  describe('Counter access control', () => {
+    const configure = async (key: string, settings: Record<string, unknown>) => {
+      const admin = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      await request(server)
+        .patch(`/api/access/${key}/settings`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .send(settings)
+        .expect(200);
+    };
+
+    it('should restrict private counters to the owner', async () => {
+      const owner = await createAuthenticatedUser(server);
+      const other = await createAuthenticatedUser(server);
+      await configure('team-dashboard', { owner: owner.id, visibility: 'private' });
+
+      await request(server).get('/api/access/team-dashboard/count').expect(401);
+      await request(server).post('/api/access/team-dashboard/increment').expect(401);
+      await request(server)
+        .get('/api/access/team-dashboard/count')
+        .set('Authorization', `Bearer ${other.token}`)
+        .expect(403);
+
+      await request(server)
+        .post('/api/access/team-dashboard/increment')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(200);
+
+      const response = await request(server)
+        .get('/api/access/team-dashboard/count')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .expect(200);
+
+      expect(response.body.data.count).toBe(1);
+
+      const listed = await request(server).get('/api/access').expect(200);
+      expect(listed.body.data.counters.map((counter: any) => counter.key)).not.toContain('team-dashboard');
+    });
+
+    it('should let the owner administer the counter', async () => {
+      const owner = await createAuthenticatedUser(server);
+      await configure('owned', { owner: owner.id });
+
+      await request(server)
+        .patch('/api/access/owned/settings')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ visibility: 'private' })
+        .expect(200);
+
+      await request(server)
+        .patch('/api/access/owned/settings')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ owner: null })
+        .expect(403);
+    });
+
+    it('should limit API keys to their scopes', async () => {
+      const owner = await createAuthenticatedUser(server);
+      await configure('internal', { owner: owner.id, visibility: 'private' });
+
+      const created = await request(server)
+        .post('/api/api-keys')
+        .set('Authorization', `Bearer ${owner.token}`)
+        .send({ name: 'Coletor', scopes: ['counter:increment'] })
+        .expect(201);
+
+      const { key } = created.body.data;
+
+      await request(server).post('/api/access/internal/increment').set('X-API-Key', key).expect(200);
+      await request(server).get('/api/access/internal/count').set('X-API-Key', key).expect(403);
+      await request(server).post('/api/access/internal/reset').set('X-API-Key', key).expect(403);
+      await request(server).get('/api/access/internal/count').set('X-API-Key', 'ak_invalida').expect(401);
+    });
+
+    it('should only accept increments from allowed origins', async () => {
+      await configure('landing', { allowedOrigins: ['https://www.anotaai.com'] });
+
+      await request(server)
+        .post('/api/access/landing/increment')
+        .set('Origin', 'https://app.anotaai.com')
+        .expect(403);
+
+      await request(server)
+        .post('/api/access/landing/increment')
+        .set('Origin', 'https://www.anotaai.com')
+        .expect(200);
+
+      // O pixel recusado ainda retorna o GIF, mas não conta o acesso
+      await request(server)
+        .get('/api/access/landing/pixel.gif')
+        .set('Referer', 'https://evil.example.com/page')
+        .expect(200)
+        .expect('Content-Type', 'image/gif');
+
+      const response = await request(server).get('/api/access/landing/count').expect(200);
+      expect(response.body.data.count).toBe(1);
+    });
+  });
+
+  describe('GET /api/access/:key/pixel.gif', () => {
+    const BROWSER = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+
+    it('should increment and return an uncached transparent gif', async () => {
+      const response = await request(server)
+        .get('/api/access/newsletter/pixel.gif')
+        .set('User-Agent', BROWSER)
+        .set('Accept-Language', 'pt-BR')
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('image/gif');
+      expect(response.headers['cache-control']).toContain('no-store');
+      expect(response.headers['cross-origin-resource-policy']).toBe('cross-origin');
+      expect(response.body).toHaveLength(43);
+
+      const count = await request(server).get('/api/access/newsletter/count').expect(200);
+      expect(count.body.data.count).toBe(1);
+    });
+
+    it('should count crawlers apart from humans', async () => {
+      await request(server)
+        .get('/api/access/newsletter/pixel.gif')
+        .set('User-Agent', 'facebookexternalhit/1.1')
+        .expect(200);
+
+      const statistics = await request(server).get('/api/access/newsletter/statistics').expect(200);
+
+      expect(statistics.body.data.count).toBe(0);
+      expect(statistics.body.data.botCount).toBe(1);
+    });
+
+    it('should report counting failures other than access denials', async () => {
+      const spy = jest.spyOn(AccessCounterService, 'incrementAccess').mockRejectedValueOnce(new Error('falha'));
+
+      try {
+        await request(server)
+          .get('/api/access/newsletter/pixel.gif')
+          .set('User-Agent', BROWSER)
+          .expect(500);
+      } finally {
+        spy.mockRestore();
+      }
+    });
+  });
+
+  describe('GET /api/access/:key/badge.svg', () => {
+    const BROWSER = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+
+    it('should render the count with label, colour and format', async () => {
+      const response = await request(server)
+        .get('/api/access/repo/badge.svg?label=visitas&color=brightgreen&format=raw')
+        .set('User-Agent', BROWSER)
+        .set('Accept-Language', 'pt-BR')
+        .expect(200);
+
+      const svg = response.body.toString();
+
+      expect(response.headers['content-type']).toContain('image/svg+xml');
+      expect(response.headers['cache-control']).toContain('no-store');
+      expect(svg).toContain('<title>visitas: 1</title>');
+      expect(svg).toContain('fill="#4c1"');
+    });
+
+    it('should only display the count when increment=false', async () => {
+      const response = await request(server)
+        .get('/api/access/repo/badge.svg?increment=false')
+        .set('User-Agent', BROWSER)
+        .expect(200);
+
+      expect(response.body.toString()).toContain('<title>acessos: 0</title>');
+    });
+
+    it('should return 400 for invalid colours and formats', async () => {
+      await request(server).get('/api/access/repo/badge.svg?color=url(x)').set('User-Agent', BROWSER).expect(400);
+      await request(server).get('/api/access/repo/badge.svg?format=roman').set('User-Agent', BROWSER).expect(400);
+    });
+  });
+
+  describe('bot traffic', () => {
+    const GOOGLEBOT = 'Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)';
+    const BROWSER = 'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+
+    it('should count crawlers separately from humans', async () => {
+      await request(server)
+        .post('/api/access/home/increment')
+        .set('User-Agent', BROWSER)
+        .set('Accept-Language', 'pt-BR')
+        .expect(200);
+
+      const bot = await request(server)
+        .post('/api/access/home/increment')
+        .set('User-Agent', GOOGLEBOT)
+        .expect(200);
+
+      const statistics = await request(server)
+        .get('/api/access/home/statistics')
+        .expect(200);
+
+      expect(bot.body.data.bot).toBe(true);
+      expect(bot.body.data.count).toBe(1);
+      expect(statistics.body.data.count).toBe(1);
+      expect(statistics.body.data.botCount).toBe(1);
+      expect(statistics.body.data.botPolicy).toBe('separate');
+    });
+
+    it('should still block vulnerability scanners', async () => {
+      await request(server)
+        .post('/api/access/home/increment')
+        .set('User-Agent', 'sqlmap/1.7')
+        .expect(403);
+    });
+  });
+
+  describe('Idempotency-Key', () => {
+    it('should count a retried increment only once', async () => {
+      const first = await request(server)
+        .post('/api/access/home/increment')
+        .set('Idempotency-Key', 'increment-1')
+        .expect(200);
+
+      const retry = await request(server)
+        .post('/api/access/home/increment')
+        .set('Idempotency-Key', 'increment-1')
+        .expect(200);
+
+      const current = await request(server).get('/api/access/home/count');
+
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(retry.body.data.count).toBe(first.body.data.count);
+      expect(current.body.data.count).toBe(1);
+    });
+
+    it('should scope keys by route', async () => {
+      await request(server)
+        .post('/api/access/home/increment')
+        .set('Idempotency-Key', 'increment-2')
+        .expect(200);
+
+      const response = await request(server)
+        .post('/api/access/about/increment')
+        .set('Idempotency-Key', 'increment-2')
+        .expect(200);
+
+      expect(response.headers['idempotent-replayed']).toBeUndefined();
+      expect(response.body.data.key).toBe('about');
+    });
+
+    it('should return 400 for malformed keys', async () => {
+      await request(server)
+        .post('/api/access/increment')
+        .set('Idempotency-Key', 'chave inválida')
+        .expect(400);
+    });
+  });
+
+  describe('GET /api/access/stream', () => {
+    /**
+     * Abre o stream SSE e coleta os eventos "counter" até a condição ser atendida
+     */
+    const collectEvents = (path: string, until: (events: any[]) => boolean, onOpen?: () => Promise<void>) =>
+      new Promise<{ contentType?: string; events: any[] }>((resolve, reject) => {
+        const httpServer = http.createServer(server).listen(0, () => {
+          const { port } = httpServer.address() as AddressInfo;
+          const events: any[] = [];
+          let buffer = '';
+
+          const req = http.get({ port, path }, res => {
+            const finish = () => {
+              req.destroy();
+              httpServer.close();
+              resolve({ contentType: res.headers['content-type'], events });
+            };
+
+            res.setEncoding('utf8');
+            res.on('data', chunk => {
+              buffer += chunk;
+              const frames = buffer.split('\n\n');
+              buffer = frames.pop() ?? '';
+
+              for (const frame of frames) {
+                const data = frame.split('\n').find(line => line.startsWith('data: '));
+                if (frame.includes('event: counter') && data) {
+                  events.push(JSON.parse(data.slice('data: '.length)));
+                }
+              }
+
+              if (events.length === 1 && onOpen) {
+                const callback = onOpen;
+                onOpen = undefined;
+                callback().catch(reject);
+              }
+
+              if (until(events)) {
+                finish();
+              }
+            });
+          });
+
+          req.on('error', reject);
+        });
+      });
+
+    it('should send the current value of each subscribed counter', async () => {
+      await request(server).post('/api/access/home/increment');
+
+      const { contentType, events } = await collectEvents('/api/access/stream?keys=home', events => events.length >= 1);
+
+      expect(contentType).toContain('text/event-stream');
+      expect(events[0]).toMatchObject({ key: 'home', count: 1 });
+    });
+
+    it('should push coalesced updates after increments', async () => {
+      const reachedFive = (events: any[]) => events.some(event => event.count === 5);
+
+      const { events } = await collectEvents('/api/access/stream?keys=home', reachedFive, async () => {
+        for (let i = 0; i < 5; i++) {
+          await request(server).post('/api/access/home/increment');
+        }
+        await RealtimeService.flush();
+      });
+
+      // Valor inicial seguido de no máximo uma mensagem por janela de agregação
+      expect(events[0].count).toBe(0);
+      expect(events.length).toBeLessThanOrEqual(6);
+      expect(events[events.length - 1].count).toBe(5);
+    });
+
+    it('should return 400 for invalid counter keys', async () => {
+      await request(server)
+        .get('/api/access/stream?keys=Home,../etc')
+        .expect(400);
+    });
   });
 });
@@ -0,0 +1,119 @@
+import request from 'supertest';
+import { App } from '../../../src/app';
+import { UserRole } from '../../../src/types';
+import { createAuthenticatedUser } from '../../helpers/auth';
+
+describe('Alert Routes Integration', () => {
+  let app: App;
+  let server: any;
+
+  const validRule = {
+    name: 'Marco de 1 milhão',
+    counterKey: 'home',
+    condition: { type: 'threshold', operator: 'above', value: 1000000 },
+    webhooks: ['https://hooks.example.com/alerts'],
+  };
+
+  beforeAll(async () => {
+    app = new App();
+    await app.initialize();
+    server = app.app;
+  });
+
+  describe('as admin', () => {
+    it('should manage alert rules', async () => {
+      const admin = await createAuthenticatedUser(server, UserRole.ADMIN);
+      const auth = `Bearer ${admin.token}`;
+
+      const created = await request(server)
+        .post('/api/alerts')
+        .set('Authorization', auth)
+        .send(validRule)
+        .expect(201);
+
+      const id = created.body.data._id;
+      expect(created.body.data.secret).toBeDefined();
+      expect(created.body.data.state).toBe('ok');
+
+      const fetched = await request(server)
+        .get(`/api/alerts/${id}`)
+        .set('Authorization', auth)
+        .expect(200);
+
+      expect(fetched.body.data.secret).toBeUndefined();
+
+      const updated = await request(server)
+        .patch(`/api/alerts/${id}`)
+        .set('Authorization', auth)
+        .send({ enabled: false, rotateSecret: true })
+        .expect(200);
+
+      expect(updated.body.data.enabled).toBe(false);
+      expect(updated.body.data.secret).toBeDefined();
+      expect(updated.body.data.secret).not.toBe(created.body.data.secret);
+
+      const deliveries = await request(server)
+        .get(`/api/alerts/${id}/deliveries`)
+        .set('Authorization', auth)
+        .expect(200);
+
+      expect(deliveries.body.data.deliveries).toEqual([]);
+
+      await request(server)
+        .delete(`/api/alerts/${id}`)
+        .set('Authorization', auth)
+        .expect(200);
+
+      await request(server)
+        .get(`/api/alerts/${id}`)
+        .set('Authorization', auth)
+        .expect(404);
+    });
+
+    it('should reject invalid rules', async () => {
+      const admin = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      await request(server)
+        .post('/api/alerts')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .send({ ...validRule, webhooks: ['not-a-url'] })
+        .expect(400);
+
+      await request(server)
+        .post('/api/alerts')
+        .set('Authorization', `Bearer ${admin.token}`)
+        .send({ ...validRule, condition: { type: 'rate_of_change', operator: 'above', value: 50 } })
+        .expect(400);
+    });
+  });
+
+  describe('permissions', () => {
+    it('should let operators read but not create rules', async () => {
+      const operator = await createAuthenticatedUser(server, UserRole.OPERATOR);
+
+      await request(server)
+        .get('/api/alerts')
+        .set('Authorization', `Bearer ${operator.token}`)
+        .expect(200);
+
+      await request(server)
+        .post('/api/alerts')
+        .set('Authorization', `Bearer ${operator.token}`)
+        .send(validRule)
+        .expect(403);
+    });
+
+    it('should deny regular users and anonymous requests', async () => {
+      const user = await createAuthenticatedUser(server, UserRole.USER);
+
+      await request(server)
+        .get('/api/alerts')
+        .set('Authorization', `Bearer ${user.token}`)
+        .expect(403);
+
+      await request(server)
+        .get('/api/alerts')
+        .expect(401);
+    });
+  });
+});
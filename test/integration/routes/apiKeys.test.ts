@@ -0,0 +1,115 @@
+import request from 'supertest';
+import { App } from '../../../src/app';
+import { UserRole } from '../../../src/types';
+import { createAuthenticatedUser } from '../../helpers/auth';
+
+describe('API Key Routes Integration', () => {
+  let app: App;
+  let server: any;
+
+  beforeAll(async () => {
+    app = new App();
+    await app.initialize();
+    server = app.app;
+  });
+
+  it('should create, list and revoke API keys', async () => {
+    const user = await createAuthenticatedUser(server);
+    const auth = `Bearer ${user.token}`;
+
+    const created = await request(server)
+      .post('/api/api-keys')
+      .set('Authorization', auth)
+      .send({ name: 'Site', scopes: ['counter:read', 'counter:increment'], counters: ['home'] })
+      .expect(201);
+
+    const { _id: id, key, prefix } = created.body.data;
+    expect(key).toMatch(/^ak_/);
+    expect(key.startsWith(prefix)).toBe(true);
+    expect(created.body.data.keyHash).toBeUndefined();
+
+    const listed = await request(server)
+      .get('/api/api-keys')
+      .set('Authorization', auth)
+      .expect(200);
+
+    expect(listed.body.data.apiKeys).toHaveLength(1);
+    expect(listed.body.data.apiKeys[0].key).toBeUndefined();
+
+    await request(server)
+      .get('/api/access/home/count')
+      .set('X-API-Key', key)
+      .expect(200);
+
+    await request(server)
+      .delete(`/api/api-keys/${id}`)
+      .set('Authorization', auth)
+      .expect(200);
+
+    await request(server)
+      .get('/api/access/home/count')
+      .set('X-API-Key', key)
+      .expect(401);
+  });
+
+  it('should validate scopes and expiration', async () => {
+    const { token } = await createAuthenticatedUser(server);
+
+    await request(server)
+      .post('/api/api-keys')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Site', scopes: ['counter:write'] })
+      .expect(400);
+
+    await request(server)
+      .post('/api/api-keys')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ name: 'Site', scopes: ['counter:read'], expiresAt: '2020-01-01T00:00:00Z' })
+      .expect(400);
+  });
+
+  it('should keep API keys private to their owner', async () => {
+    const owner = await createAuthenticatedUser(server);
+    const other = await createAuthenticatedUser(server);
+    const admin = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+    const created = await request(server)
+      .post('/api/api-keys')
+      .set('Authorization', `Bearer ${owner.token}`)
+      .send({ name: 'Coletor', scopes: ['counter:increment'] })
+      .expect(201);
+
+    await request(server)
+      .get(`/api/api-keys?owner=${owner.id}`)
+      .set('Authorization', `Bearer ${other.token}`)
+      .expect(403);
+
+    await request(server)
+      .delete(`/api/api-keys/${created.body.data._id}`)
+      .set('Authorization', `Bearer ${other.token}`)
+      .expect(404);
+
+    const listed = await request(server)
+      .get(`/api/api-keys?owner=${owner.id}`)
+      .set('Authorization', `Bearer ${admin.token}`)
+      .expect(200);
+
+    expect(listed.body.data.apiKeys).toHaveLength(1);
+  });
+
+  it('should return 401 without token', async () => {
+    await request(server).get('/api/api-keys').expect(401);
+  });
+
+  it('should require a verified email to create API keys', async () => {
+    const user = await createAuthenticatedUser(server, UserRole.USER, { emailVerified: false });
+
+    const response = await request(server)
+      .post('/api/api-keys')
+      .set('Authorization', `Bearer ${user.token}`)
+      .send({ name: 'CI', scopes: ['counter:read'] })
+      .expect(403);
+
+    expect(response.body.message).toBe('Verifique seu email para acessar este recurso');
+  });
+});
@@ -0,0 +1,488 @@
+import request from 'supertest';
+import { App } from '../../../src/app';
+import { MailService } from '../../../src/services';
+import { EmailVerificationToken, User } from '../../../src/models';
+import { config } from '../../../src/config/environment';
+import { UserRole } from '../../../src/types';
+import { generateTotp } from '../../../src/utils';
+import { createAuthenticatedUser } from '../../helpers/auth';
+
+const waitFor = async (predicate: () => boolean, timeoutMs = 3000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+
+  while (!predicate()) {
+    if (Date.now() > deadline) {
+      throw new Error('Condição não atendida no tempo limite');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Auth Routes Integration', () => {
+  let app: App;
+  let server: any;
+
+  beforeAll(async () => {
+    app = new App();
+    await app.initialize();
+    server = app.app;
+  });
+
+  const validUser = {
+    name: 'João Silva',
+    email: 'joao.silva@test.com',
+    password: 'MinhaSenh@123'
+  };
+
+  // O cadastro envia o email de verificação sem aguardar; o spy é criado antes dele
+  let sendMail: jest.SpyInstance;
+
+  beforeEach(async () => {
+    sendMail = jest.spyOn(MailService, 'send').mockResolvedValue();
+
+    await request(server)
+      .post('/api/users')
+      .send(validUser);
+  });
+
+  afterEach(() => {
+    sendMail.mockRestore();
+  });
+
+  const mailsWithSubject = (subject: string) =>
+    sendMail.mock.calls.map(([message]) => message).filter(message => message.subject === subject);
+
+  const tokenFromMail = (subject: string): string => {
+    const [{ text }] = mailsWithSubject(subject).slice(-1);
+    return new URL(text.match(/https?:\/\/\S+/)[0]).searchParams.get('token')!;
+  };
+
+  const login = () =>
+    request(server)
+      .post('/api/auth/login')
+      .send({ email: validUser.email, password: validUser.password });
+
+  describe('POST /api/auth/login', () => {
+    it('should return access and refresh tokens', async () => {
+      const response = await login().expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.data.accessToken).toBeDefined();
+      expect(response.body.data.refreshToken).toBeDefined();
+      expect(response.body.data.tokenType).toBe('Bearer');
+      expect(response.body.data.user.email).toBe(validUser.email);
+      expect(response.body.data.user.password).toBeUndefined();
+    });
+
+    it('should reject wrong password', async () => {
+      const response = await request(server)
+        .post('/api/auth/login')
+        .send({ email: validUser.email, password: 'SenhaErrada123' })
+        .expect(401);
+
+      expect(response.body.success).toBe(false);
+    });
+
+    it('should reject unknown email with the same message', async () => {
+      const response = await request(server)
+        .post('/api/auth/login')
+        .send({ email: 'ninguem@test.com', password: validUser.password })
+        .expect(401);
+
+      expect(response.body.message).toBe('Credenciais inválidas');
+    });
+  });
+
+  describe('Brute-force protection', () => {
+    const original = { ...config.loginProtection };
+
+    beforeEach(() => {
+      Object.assign(config.loginProtection, { maxAccountFailures: 3, delayBaseMs: 100, delayMaxMs: 400 });
+    });
+
+    afterEach(() => {
+      Object.assign(config.loginProtection, original);
+    });
+
+    const wrongLogin = () =>
+      request(server)
+        .post('/api/auth/login')
+        .send({ email: validUser.email, password: 'SenhaErrada123' });
+
+    it('should ask for a progressive wait after failures instead of holding the request', async () => {
+      await wrongLogin().expect(401);
+      await sleep(150);
+      await wrongLogin().expect(401);
+
+      // Duas falhas: 100ms * 2
+      const throttled = await login().expect(429);
+      expect(throttled.headers['retry-after']).toBe('1');
+
+      await sleep(250);
+      await login().expect(200);
+
+      // O sucesso zera as falhas da conta
+      await login().expect(200);
+    });
+
+    it('should lock the account after repeated failures until an admin unlocks it', async () => {
+      config.loginProtection.delayBaseMs = 0;
+
+      await wrongLogin().expect(401);
+      await wrongLogin().expect(401);
+      await wrongLogin().expect(401);
+
+      const locked = await login().expect(429);
+      expect(locked.body.message).toMatch(/Tente novamente em \d+ minutos?/);
+
+      const admin = await createAuthenticatedUser(server, UserRole.ADMIN);
+      const userId = (await User.findOne({ email: validUser.email }))!.id;
+
+      const view = await request(server)
+        .get(`/api/users/${userId}`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+      expect(view.body.data.lockout).toMatchObject({ locked: true, failedAttempts: 3 });
+
+      const unlocked = await request(server)
+        .post(`/api/users/${userId}/unlock`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .expect(200);
+      expect(unlocked.body.data.lockout).toMatchObject({ locked: false, failedAttempts: 0 });
+
+      await login().expect(200);
+    });
+
+    it('should only allow admins to unlock users', async () => {
+      const operator = await createAuthenticatedUser(server, UserRole.OPERATOR);
+
+      await request(server)
+        .post(`/api/users/${operator.id}/unlock`)
+        .set('Authorization', `Bearer ${operator.token}`)
+        .expect(403);
+    });
+  });
+
+  describe('POST /api/auth/refresh', () => {
+    it('should rotate the refresh token', async () => {
+      const loginResponse = await login();
+      const { refreshToken } = loginResponse.body.data;
+
+      const response = await request(server)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(200);
+
+      expect(response.body.data.accessToken).toBeDefined();
+      expect(response.body.data.refreshToken).not.toBe(refreshToken);
+    });
+
+    it('should revoke the session when a rotated token is reused', async () => {
+      const loginResponse = await login();
+      const { refreshToken } = loginResponse.body.data;
+
+      const rotated = await request(server)
+        .post('/api/auth/refresh')
+        .send({ refreshToken });
+
+      // Reutiliza o token antigo
+      await request(server)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+
+      // O token novo da mesma família também foi revogado
+      await request(server)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: rotated.body.data.refreshToken })
+        .expect(401);
+    });
+  });
+
+  describe('POST /api/auth/logout', () => {
+    it('should revoke the refresh token', async () => {
+      const loginResponse = await login();
+      const { refreshToken } = loginResponse.body.data;
+
+      await request(server)
+        .post('/api/auth/logout')
+        .send({ refreshToken })
+        .expect(200);
+
+      await request(server)
+        .post('/api/auth/refresh')
+        .send({ refreshToken })
+        .expect(401);
+    });
+  });
+
+  describe('Password reset', () => {
+    it('should reset the password with a single-use token and revoke sessions', async () => {
+      const { refreshToken } = (await login().expect(200)).body.data;
+
+      await request(server)
+        .post('/api/auth/forgot-password')
+        .send({ email: validUser.email })
+        .expect(200);
+
+      expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({ to: validUser.email }));
+      const token = tokenFromMail('Redefinição de senha');
+
+      await request(server)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'NovaSenh@456' })
+        .expect(200);
+
+      // Uso único
+      await request(server)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'OutraSenh@789' })
+        .expect(400);
+
+      await request(server).post('/api/auth/refresh').send({ refreshToken }).expect(401);
+      await login().expect(401);
+      await sleep(config.loginProtection.delayBaseMs);
+      await request(server)
+        .post('/api/auth/login')
+        .send({ email: validUser.email, password: 'NovaSenh@456' })
+        .expect(200);
+    });
+
+    it('should keep the token usable when the new password is rejected', async () => {
+      await request(server)
+        .post('/api/auth/forgot-password')
+        .send({ email: validUser.email })
+        .expect(200);
+
+      const token = tokenFromMail('Redefinição de senha');
+
+      await request(server)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'fraca' })
+        .expect(400);
+
+      await request(server)
+        .post('/api/auth/reset-password')
+        .send({ token, password: 'NovaSenh@456' })
+        .expect(200);
+    });
+
+    it('should answer unknown emails the same way without sending mail', async () => {
+      const response = await request(server)
+        .post('/api/auth/forgot-password')
+        .send({ email: 'desconhecido@test.com' })
+        .expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(mailsWithSubject('Redefinição de senha')).toHaveLength(0);
+    });
+  });
+
+  describe('Email verification', () => {
+    const accessToken = async (): Promise<string> => (await login().expect(200)).body.data.accessToken;
+
+    it('should send a verification email on signup and verify with a single-use token', async () => {
+      await waitFor(() => mailsWithSubject('Confirme seu email').length === 1);
+      const token = tokenFromMail('Confirme seu email');
+      const authorization = `Bearer ${await accessToken()}`;
+
+      let me = await request(server).get('/api/auth/me').set('Authorization', authorization).expect(200);
+      expect(me.body.data.emailVerified).toBe(false);
+
+      await request(server).post('/api/auth/verify-email').send({ token }).expect(200);
+      await request(server).post('/api/auth/verify-email').send({ token }).expect(400);
+
+      me = await request(server).get('/api/auth/me').set('Authorization', authorization).expect(200);
+      expect(me.body.data.emailVerified).toBe(true);
+
+      await request(server)
+        .post('/api/auth/resend-verification')
+        .set('Authorization', authorization)
+        .expect(409);
+    });
+
+    it('should throttle resends and invalidate previous links', async () => {
+      await waitFor(() => mailsWithSubject('Confirme seu email').length === 1);
+      const firstToken = tokenFromMail('Confirme seu email');
+      const authorization = `Bearer ${await accessToken()}`;
+
+      const throttled = await request(server)
+        .post('/api/auth/resend-verification')
+        .set('Authorization', authorization)
+        .expect(429);
+      expect(throttled.body.message).toMatch(/Aguarde \d+ segundos/);
+
+      // Simula um envio antigo para liberar o reenvio (createdAt é imutável pelo Mongoose)
+      await EmailVerificationToken.collection.updateMany(
+        {},
+        { $set: { createdAt: new Date(Date.now() - 10 * 60 * 1000) } }
+      );
+
+      await request(server)
+        .post('/api/auth/resend-verification')
+        .set('Authorization', authorization)
+        .expect(200);
+
+      expect(mailsWithSubject('Confirme seu email')).toHaveLength(2);
+      await request(server).post('/api/auth/verify-email').send({ token: firstToken }).expect(400);
+      await request(server)
+        .post('/api/auth/verify-email')
+        .send({ token: tokenFromMail('Confirme seu email') })
+        .expect(200);
+    });
+
+    it('should reject an empty token', async () => {
+      await request(server).post('/api/auth/verify-email').send({ token: '' }).expect(400);
+    });
+  });
+
+  describe('Two-factor authentication', () => {
+    // Próximo passo TOTP: o código do passo atual já foi consumido na ativação
+    const nextCode = (secret: string) => generateTotp(secret, Date.now() + 30 * 1000);
+
+    const enableTwoFactor = async (token: string) => {
+      const setup = await request(server)
+        .post('/api/users/me/2fa/setup')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+
+      const { secret } = setup.body.data;
+      const verified = await request(server)
+        .post('/api/users/me/2fa/verify')
+        .set('Authorization', `Bearer ${token}`)
+        .send({ code: generateTotp(secret) })
+        .expect(200);
+
+      return { secret, otpauthUri: setup.body.data.otpauthUri, recoveryCodes: verified.body.data.recoveryCodes };
+    };
+
+    it('should enable 2FA and require the TOTP code on login', async () => {
+      const { accessToken } = (await login()).body.data;
+      const { secret, otpauthUri, recoveryCodes } = await enableTwoFactor(accessToken);
+
+      expect(otpauthUri).toMatch(/^otpauth:\/\/totp\//);
+      expect(recoveryCodes).toHaveLength(config.twoFactor.recoveryCodeCount);
+
+      const stored = await User.findOne({ email: validUser.email }).select('+twoFactorSecret');
+      expect(stored!.twoFactorEnabled).toBe(true);
+      expect(stored!.twoFactorSecret).not.toContain(secret);
+
+      const challenge = await login().expect(200);
+      expect(challenge.body.data.twoFactorRequired).toBe(true);
+      expect(challenge.body.data.accessToken).toBeUndefined();
+
+      const { challengeToken } = challenge.body.data;
+
+      await request(server).post('/api/auth/2fa').send({ challengeToken, code: '000000' }).expect(401);
+      await sleep(config.loginProtection.delayBaseMs);
+
+      const code = nextCode(secret);
+      const response = await request(server).post('/api/auth/2fa').send({ challengeToken, code }).expect(200);
+      expect(response.body.data.accessToken).toBeDefined();
+      expect(response.body.data.user.twoFactorEnabled).toBe(true);
+
+      // O mesmo código não vale duas vezes
+      await request(server).post('/api/auth/2fa').send({ challengeToken, code }).expect(401);
+    });
+
+    it('should accept each recovery code only once and disable 2FA', async () => {
+      const { accessToken } = (await login()).body.data;
+      const { recoveryCodes } = await enableTwoFactor(accessToken);
+
+      const { challengeToken } = (await login()).body.data;
+      await request(server).post('/api/auth/2fa').send({ challengeToken, code: recoveryCodes[0] }).expect(200);
+      await request(server).post('/api/auth/2fa').send({ challengeToken, code: recoveryCodes[0] }).expect(401);
+
+      await request(server)
+        .post('/api/users/me/2fa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'SenhaErrada123', code: recoveryCodes[1] })
+        .expect(400);
+
+      await request(server)
+        .post('/api/users/me/2fa/disable')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: validUser.password, code: recoveryCodes[1] })
+        .expect(200);
+
+      const response = await login().expect(200);
+      expect(response.body.data.accessToken).toBeDefined();
+    });
+
+    it('should reject setup when 2FA is already enabled', async () => {
+      const { accessToken } = (await login()).body.data;
+      await enableTwoFactor(accessToken);
+
+      await request(server)
+        .post('/api/users/me/2fa/setup')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+    });
+
+    describe('required roles policy', () => {
+      beforeEach(() => {
+        config.twoFactor.requiredRoles = [UserRole.ADMIN];
+      });
+
+      afterEach(() => {
+        config.twoFactor.requiredRoles = [];
+      });
+
+      it('should block admins without 2FA until they enroll', async () => {
+        const admin = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+        const blocked = await request(server)
+          .get('/api/users')
+          .set('Authorization', `Bearer ${admin.token}`)
+          .expect(403);
+        expect(blocked.body.message).toBe('Ative a autenticação em dois fatores para acessar este recurso');
+
+        await request(server).get('/api/auth/me').set('Authorization', `Bearer ${admin.token}`).expect(200);
+
+        const { recoveryCodes } = await enableTwoFactor(admin.token);
+
+        await request(server).get('/api/users').set('Authorization', `Bearer ${admin.token}`).expect(200);
+
+        await request(server)
+          .post('/api/users/me/2fa/disable')
+          .set('Authorization', `Bearer ${admin.token}`)
+          .send({ password: admin.password, code: recoveryCodes[0] })
+          .expect(403);
+      });
+
+      it('should not affect other roles', async () => {
+        const user = await createAuthenticatedUser(server, UserRole.USER);
+
+        await request(server).get(`/api/users/${user.id}`).set('Authorization', `Bearer ${user.token}`).expect(200);
+      });
+    });
+  });
+
+  describe('GET /api/auth/me', () => {
+    it('should return the authenticated user', async () => {
+      const loginResponse = await login();
+
+      const response = await request(server)
+        .get('/api/auth/me')
+        .set('Authorization', `Bearer ${loginResponse.body.data.accessToken}`)
+        .expect(200);
+
+      expect(response.body.data.email).toBe(validUser.email);
+    });
+
+    it('should return 401 without token', async () => {
+      await request(server)
+        .get('/api/auth/me')
+        .expect(401);
+    });
+
+    it('should return 401 with invalid token', async () => {
+      await request(server)
+        .get('/api/auth/me')
+        .set('Authorization', 'Bearer token-invalido')
+        .expect(401);
+    });
+  });
+});
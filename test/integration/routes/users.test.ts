@@ -1,5 +1,8 @@
 import request from 'supertest';
 import { App } from '../../../src/app';
+import { UserRole } from '../../../src/types';
+import { User } from '../../../src/models';
+import { createAuthenticatedUser } from '../../helpers/auth';
 
 describe('Users Routes Integration', () => {
   let app: App;
@@ -59,6 +62,39 @@ describe('Users Routes Integration', () => {
       expect(response.body.success).toBe(false);
     });
 
+    it('should replay the original response for a retried Idempotency-Key', async () => {
+      const first = await request(server)
+        .post('/api/users')
+        .set('Idempotency-Key', 'create-user-1')
+        .send(validUser)
+        .expect(201);
+
+      const retry = await request(server)
+        .post('/api/users')
+        .set('Idempotency-Key', 'create-user-1')
+        .send(validUser)
+        .expect(201);
+
+      expect(retry.headers['idempotent-replayed']).toBe('true');
+      expect(retry.body.data._id).toBe(first.body.data._id);
+    });
+
+    it('should reject an Idempotency-Key reused with a different body', async () => {
+      await request(server)
+        .post('/api/users')
+        .set('Idempotency-Key', 'create-user-2')
+        .send(validUser)
+        .expect(201);
+
+      const response = await request(server)
+        .post('/api/users')
+        .set('Idempotency-Key', 'create-user-2')
+        .send({ ...validUser, email: 'outro@email.com' })
+        .expect(422);
+
+      expect(response.body.success).toBe(false);
+    });
+
     it('should not create user with duplicate email', async () => {
       // Cria primeiro usuário
       await request(server)
@@ -79,7 +115,11 @@ describe('Users Routes Integration', () => {
   });
 
   describe('GET /api/users', () => {
+    let adminToken: string;
+
     beforeEach(async () => {
+      ({ token: adminToken } = await createAuthenticatedUser(server, UserRole.ADMIN));
+
       // Cria alguns usuários para teste
       for (let i = 0; i < 3; i++) {
         await request(server)
@@ -95,49 +135,87 @@ describe('Users Routes Integration', () => {
     it('should list users with pagination', async () => {
       const response = await request(server)
         .get('/api/users?page=1&limit=2')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.success).toBe(true);
       expect(response.body.data.users).toHaveLength(2);
       expect(response.body.data.pagination.page).toBe(1);
       expect(response.body.data.pagination.limit).toBe(2);
-      expect(response.body.data.pagination.total).toBe(3);
+      // 3 usuários criados + administrador
+      expect(response.body.data.pagination.total).toBe(4);
     });
 
     it('should return default pagination', async () => {
       const response = await request(server)
         .get('/api/users')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.data.pagination.page).toBe(1);
       expect(response.body.data.pagination.limit).toBe(10);
     });
+
+    it('should return 401 without token', async () => {
+      await request(server)
+        .get('/api/users')
+        .expect(401);
+    });
+
+    it('should return 403 for regular users', async () => {
+      const { token } = await createAuthenticatedUser(server);
+
+      await request(server)
+        .get('/api/users')
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+    });
   });
 
   describe('GET /api/users/:id', () => {
     let userId: string;
+    let userToken: string;
 
     beforeEach(async () => {
-      const createResponse = await request(server)
-        .post('/api/users')
-        .send(validUser);
-      userId = createResponse.body.data._id;
+      ({ id: userId, token: userToken } = await createAuthenticatedUser(server));
     });
 
-    it('should get user by id', async () => {
+    it('should get own user by id', async () => {
       const response = await request(server)
         .get(`/api/users/${userId}`)
+        .set('Authorization', `Bearer ${userToken}`)
         .expect(200);
 
       expect(response.body.success).toBe(true);
       expect(response.body.data._id).toBe(userId);
+      expect(response.body.data.role).toBe('user');
       expect(response.body.data.password).toBeUndefined();
     });
 
+    it('should not allow regular users to read other users', async () => {
+      const other = await createAuthenticatedUser(server);
+
+      await request(server)
+        .get(`/api/users/${other.id}`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .expect(403);
+    });
+
+    it('should allow operators to read any user', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.OPERATOR);
+
+      await request(server)
+        .get(`/api/users/${userId}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(200);
+    });
+
     it('should return 404 for non-existing user', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.ADMIN);
       const fakeId = '507f1f77bcf86cd799439011';
       const response = await request(server)
         .get(`/api/users/${fakeId}`)
+        .set('Authorization', `Bearer ${token}`)
         .expect(404);
 
       expect(response.body.success).toBe(false);
@@ -146,6 +224,7 @@ describe('Users Routes Integration', () => {
     it('should return 400 for invalid id format', async () => {
       const response = await request(server)
         .get('/api/users/invalid-id')
+        .set('Authorization', `Bearer ${userToken}`)
         .expect(400);
 
       expect(response.body.success).toBe(false);
@@ -154,18 +233,17 @@ describe('Users Routes Integration', () => {
 
   describe('PUT /api/users/:id', () => {
     let userId: string;
+    let userToken: string;
 
     beforeEach(async () => {
-      const createResponse = await request(server)
-        .post('/api/users')
-        .send(validUser);
-      userId = createResponse.body.data._id;
+      ({ id: userId, token: userToken } = await createAuthenticatedUser(server));
     });
 
     it('should update user name', async () => {
       const newName = 'João Santos';
       const response = await request(server)
         .put(`/api/users/${userId}`)
+        .set('Authorization', `Bearer ${userToken}`)
         .send({ name: newName })
         .expect(200);
 
@@ -177,11 +255,25 @@ describe('Users Routes Integration', () => {
       const newEmail = 'joao.santos@test.com';
       const response = await request(server)
         .put(`/api/users/${userId}`)
+        .set('Authorization', `Bearer ${userToken}`)
         .send({ email: newEmail })
         .expect(200);
 
       expect(response.body.success).toBe(true);
       expect(response.body.data.email).toBe(newEmail);
+      expect(response.body.data.emailVerified).toBe(false);
+    });
+
+    it('should keep the email verified when the address does not change', async () => {
+      const { id, email, token } = await createAuthenticatedUser(server);
+
+      const response = await request(server)
+        .put(`/api/users/${id}`)
+        .set('Authorization', `Bearer ${token}`)
+        .send({ name: 'João Santos', email })
+        .expect(200);
+
+      expect(response.body.data.emailVerified).toBe(true);
     });
 
     it('should not update to existing email', async () => {
@@ -197,26 +289,37 @@ describe('Users Routes Integration', () => {
       // Tenta atualizar para email existente
       const response = await request(server)
         .put(`/api/users/${userId}`)
+        .set('Authorization', `Bearer ${userToken}`)
         .send({ email: 'maria@test.com' })
         .expect(409);
 
       expect(response.body.success).toBe(false);
     });
+
+    it('should not allow regular users to update other users', async () => {
+      const other = await createAuthenticatedUser(server);
+
+      await request(server)
+        .put(`/api/users/${other.id}`)
+        .set('Authorization', `Bearer ${userToken}`)
+        .send({ name: 'Outro Nome' })
+        .expect(403);
+    });
   });
 
   describe('DELETE /api/users/:id', () => {
     let userId: string;
+    let adminToken: string;
 
     beforeEach(async () => {
-      const createResponse = await request(server)
-        .post('/api/users')
-        .send(validUser);
-      userId = createResponse.body.data._id;
+      ({ id: userId } = await createAuthenticatedUser(server));
+      ({ token: adminToken } = await createAuthenticatedUser(server, UserRole.ADMIN));
     });
 
     it('should delete user', async () => {
       const response = await request(server)
         .delete(`/api/users/${userId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.success).toBe(true);
@@ -224,6 +327,7 @@ describe('Users Routes Integration', () => {
       // Verifica se usuário foi realmente deletado
       await request(server)
         .get(`/api/users/${userId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(404);
     });
 
@@ -231,14 +335,182 @@ describe('Users Routes Integration', () => {
       const fakeId = '507f1f77bcf86cd799439011';
       const response = await request(server)
         .delete(`/api/users/${fakeId}`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(404);
 
       expect(response.body.success).toBe(false);
     });
+
+    it('should not allow operators to delete other users', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.OPERATOR);
+
+      await request(server)
+        .delete(`/api/users/${userId}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+    });
+
+    it('should soft delete the user, blocking login and freeing the email', async () => {
+      const user = await createAuthenticatedUser(server);
+
+      await request(server)
+        .delete(`/api/users/${user.id}`)
+        .set('Authorization', `Bearer ${user.token}`)
+        .expect(200);
+
+      await request(server)
+        .post('/api/auth/login')
+        .send({ email: user.email, password: user.password })
+        .expect(401);
+      await request(server).post('/api/auth/refresh').send({ refreshToken: user.refreshToken }).expect(401);
+      await request(server)
+        .delete(`/api/users/${user.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(404);
+
+      const listed = await request(server)
+        .get('/api/users')
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+      expect(listed.body.data.users.map((u: any) => u._id)).not.toContain(user.id);
+
+      const stored = await User.findOne({ _id: user.id, deletedAt: { $ne: null } }).lean();
+      expect(stored?.deletedEmail).toBe(user.email);
+      expect(stored?.deletedBy?.toString()).toBe(user.id);
+
+      // O email volta a ficar disponível para um novo cadastro
+      await createAuthenticatedUser(server, UserRole.USER, { email: user.email });
+    });
+  });
+
+  describe('POST /api/users/:id/restore', () => {
+    let user: Awaited<ReturnType<typeof createAuthenticatedUser>>;
+    let adminToken: string;
+
+    beforeEach(async () => {
+      user = await createAuthenticatedUser(server);
+      ({ token: adminToken } = await createAuthenticatedUser(server, UserRole.ADMIN));
+
+      await request(server)
+        .delete(`/api/users/${user.id}`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+    });
+
+    it('should restore a deleted user with the original email', async () => {
+      const response = await request(server)
+        .post(`/api/users/${user.id}/restore`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(200);
+
+      expect(response.body.data.email).toBe(user.email);
+
+      await request(server)
+        .post('/api/auth/login')
+        .send({ email: user.email, password: user.password })
+        .expect(200);
+
+      await request(server)
+        .post(`/api/users/${user.id}/restore`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+    });
+
+    it('should refuse to restore when the email was reclaimed', async () => {
+      await createAuthenticatedUser(server, UserRole.USER, { email: user.email });
+
+      const response = await request(server)
+        .post(`/api/users/${user.id}/restore`)
+        .set('Authorization', `Bearer ${adminToken}`)
+        .expect(409);
+
+      expect(response.body.message).toBe('Email já está em uso por outro usuário');
+    });
+
+    it('should only allow admins to restore users', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.OPERATOR);
+
+      await request(server)
+        .post(`/api/users/${user.id}/restore`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+    });
+  });
+
+  describe('PATCH /api/users/:id/role', () => {
+    it('should allow admins to change roles', async () => {
+      const admin = await createAuthenticatedUser(server, UserRole.ADMIN);
+      const user = await createAuthenticatedUser(server);
+
+      const response = await request(server)
+        .patch(`/api/users/${user.id}/role`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .send({ role: 'operator' })
+        .expect(200);
+
+      expect(response.body.data.role).toBe('operator');
+    });
+
+    it('should not allow admins to change their own role', async () => {
+      const admin = await createAuthenticatedUser(server, UserRole.ADMIN);
+
+      await request(server)
+        .patch(`/api/users/${admin.id}/role`)
+        .set('Authorization', `Bearer ${admin.token}`)
+        .send({ role: 'user' })
+        .expect(400);
+    });
+  });
+
+  describe('POST /api/users/me/password', () => {
+    it('should change the password and revoke other sessions', async () => {
+      const user = await createAuthenticatedUser(server);
+
+      const response = await request(server)
+        .post('/api/users/me/password')
+        .set('Authorization', `Bearer ${user.token}`)
+        .send({ currentPassword: user.password, newPassword: 'NovaSenh@456' })
+        .expect(200);
+
+      expect(response.body.data.accessToken).toBeDefined();
+      expect(response.body.data.refreshToken).toBeDefined();
+
+      await request(server)
+        .post('/api/auth/refresh')
+        .send({ refreshToken: user.refreshToken })
+        .expect(401);
+
+      await request(server)
+        .post('/api/auth/login')
+        .send({ email: user.email, password: 'NovaSenh@456' })
+        .expect(200);
+    });
+
+    it('should require the current password', async () => {
+      const user = await createAuthenticatedUser(server);
+
+      await request(server)
+        .post('/api/users/me/password')
+        .set('Authorization', `Bearer ${user.token}`)
+        .send({ currentPassword: 'SenhaErrada1', newPassword: 'NovaSenh@456' })
+        .expect(400);
+    });
+
+    it('should reject weak passwords', async () => {
+      const user = await createAuthenticatedUser(server);
+
+      await request(server)
+        .post('/api/users/me/password')
+        .set('Authorization', `Bearer ${user.token}`)
+        .send({ currentPassword: user.password, newPassword: 'fraca' })
+        .expect(400);
+    });
   });
 
   describe('GET /api/users/statistics', () => {
     it('should return user statistics', async () => {
+      const { token } = await createAuthenticatedUser(server, UserRole.OPERATOR);
+
       // Cria alguns usuários
       await request(server)
         .post('/api/users')
@@ -246,6 +518,7 @@ describe('Users Routes Integration', () => {
 
       const response = await request(server)
         .get('/api/users/statistics')
+        .set('Authorization', `Bearer ${token}`)
         .expect(200);
 
       expect(response.body.success).toBe(true);
@@ -257,15 +530,19 @@ describe('Users Routes Integration', () => {
   });
 
   describe('GET /api/users/search/email', () => {
+    let adminToken: string;
+
     beforeEach(async () => {
       await request(server)
         .post('/api/users')
         .send(validUser);
+      ({ token: adminToken } = await createAuthenticatedUser(server, UserRole.ADMIN));
     });
 
     it('should find user by email', async () => {
       const response = await request(server)
         .get(`/api/users/search/email?email=${validUser.email}`)
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(200);
 
       expect(response.body.success).toBe(true);
@@ -275,6 +552,7 @@ describe('Users Routes Integration', () => {
     it('should return 404 for non-existing email', async () => {
       const response = await request(server)
         .get('/api/users/search/email?email=notfound@test.com')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(404);
 
       expect(response.body.success).toBe(false);
@@ -283,9 +561,19 @@ describe('Users Routes Integration', () => {
     it('should return 400 when email not provided', async () => {
       const response = await request(server)
         .get('/api/users/search/email')
+        .set('Authorization', `Bearer ${adminToken}`)
         .expect(400);
 
       expect(response.body.success).toBe(false);
     });
+
+    it('should return 403 for regular users', async () => {
+      const { token } = await createAuthenticatedUser(server);
+
+      await request(server)
+        .get(`/api/users/search/email?email=${validUser.email}`)
+        .set('Authorization', `Bearer ${token}`)
+        .expect(403);
+    });
   });
 });
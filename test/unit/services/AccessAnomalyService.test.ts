@@ -0,0 +1,81 @@
+import { AccessAnomalyService } from '../../../src/services/AccessAnomalyService';
+import { AccessHistoryService } from '../../../src/services/AccessHistoryService';
+import { AccessSourceService } from '../../../src/services/AccessSourceService';
+import { AccessCounterService } from '../../../src/services/AccessCounterService';
+import { AnomalySeverity, AnomalyStatus, HistoryGranularity } from '../../../src/types';
+
+const MINUTE_MS = 60 * 1000;
+const spikeAt = new Date('2026-10-15T12:02:10Z');
+const now = new Date('2026-10-15T12:03:30Z');
+const script = { ip: '203.0.113.7', userAgent: 'python-requests/2.31' };
+
+/**
+ * Tráfego estável de 10 acessos por minuto desde 10:55 e um pico às 12:02
+ */
+const recordTraffic = async (): Promise<void> => {
+  for (let time = new Date('2026-10-15T10:55:00Z').getTime(); time < spikeAt.getTime() - MINUTE_MS; time += MINUTE_MS) {
+    await AccessHistoryService.recordIncrement('home', new Date(time), 10);
+  }
+
+  await AccessHistoryService.recordIncrement('home', spikeAt, 200);
+  await AccessSourceService.recordIncrement('home', script, spikeAt, 180);
+};
+
+describe('AccessAnomalyService', () => {
+  describe('detect', () => {
+    it('should flag the spike with its sources and a link to the window', async () => {
+      await recordTraffic();
+
+      expect(await AccessAnomalyService.detect(now)).toBe(1);
+
+      const { anomalies } = await AccessAnomalyService.listAnomalies({ key: 'home' });
+
+      expect(anomalies).toHaveLength(1);
+      expect(anomalies[0]).toMatchObject({
+        granularity: HistoryGranularity.MINUTE,
+        windowStart: new Date('2026-10-15T12:02:00Z'),
+        count: 200,
+        expected: 10,
+        severity: AnomalySeverity.HIGH,
+        status: AnomalyStatus.OPEN,
+        sources: [{ ...script, count: 180 }],
+        sourcesTotal: 180,
+      });
+      expect(anomalies[0].historyUrl).toMatch(/^\/api\/access\/home\/history\?granularity=minute&from=/);
+    });
+
+    it('should record each window only once', async () => {
+      await recordTraffic();
+
+      await AccessAnomalyService.detect(now);
+
+      expect(await AccessAnomalyService.detect(now)).toBe(0);
+    });
+
+    it('should wait for enough history before evaluating new counters', async () => {
+      await AccessHistoryService.recordIncrement('new', spikeAt, 500);
+
+      expect(await AccessAnomalyService.detect(now)).toBe(0);
+    });
+  });
+
+  describe('quarantine', () => {
+    it('should remove the excess from the total and give it back on release', async () => {
+      await recordTraffic();
+      await AccessCounterService.adjustCounter('home', { value: 1000 }, { reason: 'Carga inicial' });
+      await AccessAnomalyService.detect(now);
+
+      const [anomaly] = (await AccessAnomalyService.listAnomalies({ key: 'home' })).anomalies;
+
+      const quarantined = await AccessAnomalyService.quarantine(anomaly.id);
+      expect(quarantined).toMatchObject({ status: AnomalyStatus.QUARANTINED, quarantined: 190 });
+      expect((await AccessCounterService.getCurrentCount('home')).count).toBe(810);
+
+      await expect(AccessAnomalyService.quarantine(anomaly.id)).rejects.toMatchObject({ statusCode: 409 });
+
+      const released = await AccessAnomalyService.release(anomaly.id);
+      expect(released).toMatchObject({ status: AnomalyStatus.RELEASED, quarantined: 0 });
+      expect((await AccessCounterService.getCurrentCount('home')).count).toBe(1000);
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { AccessBreakdownService } from '../../../src/services/AccessBreakdownService';
+import { AccessCounterService } from '../../../src/services/AccessCounterService';
+import { AccessBreakdown } from '../../../src/models/AccessBreakdown';
+import { config } from '../../../src/config/environment';
+import { BreakdownDimension, HistoryGranularity } from '../../../src/types';
+
+describe('AccessBreakdownService', () => {
+  const originalConfig = { ...config.breakdown };
+  const at = new Date('2024-03-10T14:25:30Z');
+
+  afterEach(() => {
+    Object.assign(config.breakdown, originalConfig);
+  });
+
+  const record = (referrer: string, times: number = 1, when: Date = at) =>
+    AccessBreakdownService.recordIncrement('home', { referrer }, when, times);
+
+  describe('recordIncrement', () => {
+    it('should write hourly and daily tables per dimension', async () => {
+      await AccessBreakdownService.recordIncrement('home', { referrer: 'google.com', device: 'mobile' }, at);
+      await AccessBreakdownService.recordIncrement('home', { referrer: 'google.com', device: 'desktop' }, at);
+
+      const hourly = await AccessBreakdown.findOne({
+        key: 'home',
+        dimension: BreakdownDimension.DEVICE,
+        granularity: HistoryGranularity.HOUR,
+      }).lean();
+
+      expect(await AccessBreakdown.countDocuments({ key: 'home' })).toBe(4);
+      expect(hourly?.bucketStart).toEqual(new Date('2024-03-10T14:00:00Z'));
+      expect(hourly?.total).toBe(2);
+      expect(hourly?.entries).toEqual(
+        expect.arrayContaining([
+          { value: 'mobile', count: 1 },
+          { value: 'desktop', count: 1 },
+        ])
+      );
+    });
+
+    it('should be recorded by incrementAccess', async () => {
+      await AccessCounterService.incrementAccess('home', 'default', undefined, { path: '/cardapio' });
+
+      const daily = await AccessBreakdown.findOne({
+        key: 'home',
+        dimension: BreakdownDimension.PATH,
+        granularity: HistoryGranularity.DAY,
+      }).lean();
+
+      expect(daily?.entries).toEqual([{ value: '/cardapio', count: 1 }]);
+    });
+
+    it('should move new values to other once the cardinality cap is reached', async () => {
+      config.breakdown.maxValuesPerBucket = 2;
+
+      await record('a.com', 3);
+      await record('b.com');
+      await record('c.com');
+      await record('d.com');
+      await record('a.com');
+
+      const hourly = await AccessBreakdown.findOne({
+        key: 'home',
+        dimension: BreakdownDimension.REFERRER,
+        granularity: HistoryGranularity.HOUR,
+      }).lean();
+
+      expect(hourly?.entries).toEqual([
+        { value: 'a.com', count: 4 },
+        { value: 'b.com', count: 1 },
+      ]);
+      expect(hourly?.other).toBe(2);
+      expect(hourly?.total).toBe(7);
+    });
+
+    it('should not record when disabled', async () => {
+      config.breakdown.enabled = false;
+
+      await record('google.com');
+
+      expect(await AccessBreakdown.countDocuments()).toBe(0);
+    });
+  });
+
+  describe('getBreakdown', () => {
+    it('should return the top values across hourly buckets', async () => {
+      // Intervalo recente, dentro da retenção por hora
+      const hour = 60 * 60 * 1000;
+      const start = new Date(Math.floor(Date.now() / hour) * hour - 3 * hour);
+      const minutes = (value: number) => new Date(start.getTime() + value * 60 * 1000);
+
+      await record('google.com', 5, minutes(10));
+      await record('google.com', 3, minutes(70));
+      await record('t.co', 4, minutes(80));
+      await record('bing.com', 1, minutes(120));
+
+      const result = await AccessBreakdownService.getBreakdown(
+        'home',
+        BreakdownDimension.REFERRER,
+        start,
+        minutes(179),
+        2
+      );
+
+      expect(result.granularity).toBe(HistoryGranularity.HOUR);
+      expect(result.total).toBe(13);
+      expect(result.items).toEqual([
+        { value: 'google.com', count: 8, share: 0.6154 },
+        { value: 't.co', count: 4, share: 0.3077 },
+      ]);
+      expect(result.other).toBe(1);
+      expect(result.capped).toBe(false);
+    });
+
+    it('should use daily tables for long ranges', async () => {
+      await record('google.com', 2, new Date('2024-01-05T10:00:00Z'));
+      await record('google.com', 1, new Date('2024-02-20T10:00:00Z'));
+
+      const result = await AccessBreakdownService.getBreakdown(
+        'home',
+        BreakdownDimension.REFERRER,
+        new Date('2024-01-01T00:00:00Z'),
+        new Date('2024-03-01T00:00:00Z')
+      );
+
+      expect(result.granularity).toBe(HistoryGranularity.DAY);
+      expect(result.items).toEqual([{ value: 'google.com', count: 3, share: 1 }]);
+    });
+
+    it('should flag capped tables', async () => {
+      config.breakdown.maxValuesPerBucket = 1;
+
+      await record('a.com');
+      await record('b.com');
+
+      const result = await AccessBreakdownService.getBreakdown(
+        'home',
+        BreakdownDimension.REFERRER,
+        new Date('2024-03-10T14:00:00Z'),
+        new Date('2024-03-10T14:59:59Z')
+      );
+
+      expect(result.capped).toBe(true);
+      expect(result.other).toBe(1);
+    });
+
+    it('should reject inverted ranges', async () => {
+      await expect(
+        AccessBreakdownService.getBreakdown(
+          'home',
+          BreakdownDimension.REFERRER,
+          new Date('2024-03-10T15:00:00Z'),
+          new Date('2024-03-10T14:00:00Z')
+        )
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('applyRetention', () => {
+    it('should prune tables older than the history retention', async () => {
+      const now = new Date('2024-03-10T00:00:00Z');
+
+      await record('google.com', 1, new Date('2023-10-01T10:00:00Z'));
+      await record('google.com', 1, new Date('2024-03-09T10:00:00Z'));
+
+      const removed = await AccessBreakdownService.applyRetention(now);
+
+      expect(removed).toBe(1);
+      expect(
+        await AccessBreakdown.countDocuments({ granularity: HistoryGranularity.DAY })
+      ).toBe(2);
+    });
+  });
+});
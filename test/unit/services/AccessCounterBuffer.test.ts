@@ -0,0 +1,181 @@
+import { AccessCounterBuffer } from '../../../src/services/AccessCounterBuffer';
+import { AccessCounterService } from '../../../src/services/AccessCounterService';
+import { AccessCounter } from '../../../src/models/AccessCounter';
+import { AccessBucket } from '../../../src/models/AccessBucket';
+import { AccessBreakdown } from '../../../src/models/AccessBreakdown';
+import { CounterEvent } from '../../../src/models/CounterEvent';
+import { config } from '../../../src/config/environment';
+import { BotSignal, BreakdownDimension, HistoryGranularity } from '../../../src/types';
+
+describe('AccessCounterBuffer', () => {
+  const originalConfig = { ...config.counterBuffer };
+
+  beforeEach(async () => {
+    config.counterBuffer.enabled = true;
+    config.counterBuffer.maxPending = 1000;
+    await AccessCounter.deleteMany({});
+    await AccessBucket.deleteMany({});
+
+    // Limpa os totais conhecidos em cache entre os testes
+    AccessCounterBuffer.discard('home');
+    AccessCounterBuffer.discard('about');
+  });
+
+  afterEach(async () => {
+    await AccessCounterBuffer.flush();
+    Object.assign(config.counterBuffer, originalConfig);
+  });
+
+  it('should aggregate increments in memory until flushed', async () => {
+    await AccessCounterService.incrementAccess('home');
+    await AccessCounterService.incrementAccess('home');
+    const result = await AccessCounterService.incrementAccess('home');
+
+    expect(result.buffered).toBe(true);
+    expect(result.count).toBe(3);
+    expect(await AccessCounter.countDocuments({ key: 'home' })).toBe(0);
+
+    const flushed = await AccessCounterBuffer.flush();
+    const counter = await AccessCounter.findOne({ key: 'home' });
+
+    expect(flushed).toBe(3);
+    expect(counter?.count).toBe(3);
+  });
+
+  it('should include pending increments in reads', async () => {
+    await AccessCounterService.incrementAccess('home');
+    await AccessCounterService.incrementAccess('home');
+
+    const current = await AccessCounterService.getCurrentCount('home');
+
+    expect(current.count).toBe(2);
+  });
+
+  it('should flush history buckets and unique visitors', async () => {
+    await AccessCounterService.incrementAccess('home', 'default', 'ip:1.1.1.1');
+    await AccessCounterService.incrementAccess('home', 'default', 'ip:1.1.1.1');
+    await AccessCounterService.incrementAccess('home', 'default', 'ip:2.2.2.2');
+    await AccessCounterBuffer.flush();
+
+    const day = await AccessBucket.findOne({ key: 'home', granularity: HistoryGranularity.DAY });
+    const statistics = await AccessCounterService.getStatistics('home');
+
+    expect(day?.count).toBe(3);
+    expect(statistics.uniqueVisitors).toBe(2);
+  });
+
+  it('should flush aggregated breakdown tables', async () => {
+    await AccessCounterService.incrementAccess('home', 'default', undefined, { referrer: 'google.com' });
+    await AccessCounterService.incrementAccess('home', 'default', undefined, { referrer: 'google.com' });
+    await AccessCounterService.incrementAccess('home', 'default', undefined, { referrer: 't.co' });
+
+    expect(await AccessBreakdown.countDocuments({ key: 'home' })).toBe(0);
+
+    await AccessCounterBuffer.flush();
+
+    const day = await AccessBreakdown.findOne({
+      key: 'home',
+      dimension: BreakdownDimension.REFERRER,
+      granularity: HistoryGranularity.DAY,
+    }).lean();
+
+    expect(day?.total).toBe(3);
+    expect(day?.entries).toEqual(
+      expect.arrayContaining([
+        { value: 'google.com', count: 2 },
+        { value: 't.co', count: 1 },
+      ])
+    );
+  });
+
+  it('should buffer bot accesses separately', async () => {
+    const bot = { isBot: true, signal: BotSignal.MISSING_HEADERS };
+
+    await AccessCounterService.incrementAccess('home');
+    const result = await AccessCounterService.incrementAccess('home', 'default', undefined, undefined, bot);
+
+    expect(result.count).toBe(1);
+    expect((await AccessCounterService.getStatistics('home')).botCount).toBe(1);
+
+    await AccessCounterBuffer.flush();
+    const counter = await AccessCounter.findOne({ key: 'home' });
+
+    expect(counter?.count).toBe(1);
+    expect(counter?.botCount).toBe(1);
+  });
+
+  it('should flush when the pending threshold is reached', async () => {
+    config.counterBuffer.maxPending = 5;
+
+    for (let i = 0; i < 5; i++) {
+      await AccessCounterService.incrementAccess('home');
+    }
+
+    // O flush por limite é disparado em segundo plano
+    await AccessCounterBuffer.flush();
+
+    const counter = await AccessCounter.findOne({ key: 'home' });
+    expect(counter?.count).toBe(5);
+    expect(AccessCounterBuffer.pendingFor('home')).toBe(0);
+  });
+
+  it('should discard pending increments on reset', async () => {
+    await AccessCounterService.incrementAccess('home');
+    await AccessCounterService.resetCounter('home');
+    await AccessCounterBuffer.flush();
+
+    const current = await AccessCounterService.getCurrentCount('home');
+    expect(current.count).toBe(0);
+  });
+
+  it('should report buffered vs. flushed metrics', async () => {
+    const before = AccessCounterBuffer.getMetrics();
+
+    await AccessCounterService.incrementAccess('home');
+    await AccessCounterService.incrementAccess('about');
+
+    const buffered = AccessCounterBuffer.getMetrics();
+    expect(buffered.bufferedTotal - before.bufferedTotal).toBe(2);
+    expect(buffered.pendingIncrements).toBe(2);
+    expect(buffered.pendingKeys).toBe(2);
+
+    await AccessCounterBuffer.flush();
+
+    const flushed = AccessCounterBuffer.getMetrics();
+    expect(flushed.flushedTotal - before.flushedTotal).toBe(2);
+    expect(flushed.pendingIncrements).toBe(0);
+  });
+
+  it('should flush pending increments before a manual adjustment', async () => {
+    await AccessCounterService.incrementAccess('home');
+    await AccessCounterService.incrementAccess('home');
+    await AccessCounterService.incrementAccess('home');
+
+    const result = await AccessCounterService.adjustCounter('home', { delta: -2 }, { reason: 'Duplicados' });
+    const event = await CounterEvent.findOne({ key: 'home' });
+
+    expect(result.count).toBe(1);
+    expect(AccessCounterBuffer.pendingFor('home')).toBe(0);
+    expect((await AccessCounter.findOne({ key: 'home' }))?.count).toBe(1);
+    expect(event).toMatchObject({ previousCount: 3, delta: -2 });
+  });
+
+  it('should retry only the writes that failed', async () => {
+    await AccessCounterService.incrementAccess('home');
+    await AccessCounterService.incrementAccess('home');
+
+    const bucketWrite = jest.spyOn(AccessBucket, 'applyIncrements').mockRejectedValueOnce(new Error('falha'));
+
+    expect(await AccessCounterBuffer.flush()).toBe(2);
+    expect((await AccessCounter.findOne({ key: 'home' }))?.count).toBe(2);
+    expect(await AccessBucket.countDocuments({ key: 'home' })).toBe(0);
+    expect(AccessCounterBuffer.pendingFor('home')).toBe(0);
+
+    bucketWrite.mockRestore();
+    await AccessCounterBuffer.flush();
+
+    const day = await AccessBucket.findOne({ key: 'home', granularity: HistoryGranularity.DAY });
+    expect((await AccessCounter.findOne({ key: 'home' }))?.count).toBe(2);
+    expect(day?.count).toBe(2);
+  });
+});
@@ -1,5 +1,15 @@
 import { AccessCounterService } from '../../../src/services/AccessCounterService';
 import { AccessCounter } from '../../../src/models/AccessCounter';
+import { AccessBucket } from '../../../src/models/AccessBucket';
+import { CounterEvent } from '../../../src/models/CounterEvent';
+import {
+  BotCategory,
+  BotPolicy,
+  BotSignal,
+  CounterEventType,
+  IBotClassification,
+  UserRole,
+} from '../../../src/types';
 
 describe('AccessCounterService', () => {
   beforeEach(async () => {
@@ -88,6 +98,26 @@ describe('AccessCounterService', () => {
       expect(typeof result.averageAccessesPerDay).toBe('number');
     });
 
+    it('should estimate unique visitors', async () => {
+      await AccessCounterService.incrementAccess('home', 'default', 'ip:1.1.1.1');
+      await AccessCounterService.incrementAccess('home', 'default', 'ip:1.1.1.1');
+      await AccessCounterService.incrementAccess('home', 'default', 'ip:2.2.2.2');
+
+      const result = await AccessCounterService.getStatistics('home');
+
+      expect(result.count).toBe(3);
+      expect(result.uniqueVisitors).toBe(2);
+    });
+
+    it('should clear unique visitors on reset', async () => {
+      await AccessCounterService.incrementAccess('home', 'default', 'ip:1.1.1.1');
+      await AccessCounterService.resetCounter('home');
+
+      const result = await AccessCounterService.getStatistics('home');
+
+      expect(result.uniqueVisitors).toBe(0);
+    });
+
     it('should return default statistics when no counter exists', async () => {
       const result = await AccessCounterService.getStatistics();
       
@@ -111,14 +141,342 @@ describe('AccessCounterService', () => {
       expect(result).toBe(true);
     });
 
-    it('should return false when multiple counters exist', async () => {
-      // Cria dois contadores manualmente para simular estado inválido
-      await AccessCounter.create({ count: 1, lastUpdated: new Date() });
-      await AccessCounter.create({ count: 2, lastUpdated: new Date() });
-      
+    it('should return true when multiple named counters exist', async () => {
+      await AccessCounterService.incrementAccess('home-page', 'pages');
+      await AccessCounterService.incrementAccess('product-42', 'products');
+
       const result = await AccessCounterService.validateIntegrity();
-      
+
+      expect(result).toBe(true);
+    });
+
+    it('should return false when a counter has no key', async () => {
+      // Simula contador singleton legado ainda não migrado
+      await AccessCounter.collection.insertOne({ count: 1, lastUpdated: new Date() });
+
+      const result = await AccessCounterService.validateIntegrity();
+
+      expect(result).toBe(false);
+    });
+
+    it('should return false when a counter is negative', async () => {
+      // Insere diretamente para contornar as validações do schema
+      await AccessCounter.collection.insertOne({
+        key: 'broken',
+        namespace: 'default',
+        shard: 0,
+        shards: 1,
+        count: -1,
+        lastUpdated: new Date(),
+      });
+
+      const result = await AccessCounterService.validateIntegrity();
+
       expect(result).toBe(false);
     });
   });
+
+  describe('named counters', () => {
+    it('should keep independent counts per key', async () => {
+      await AccessCounterService.incrementAccess('home-page');
+      await AccessCounterService.incrementAccess('home-page');
+      await AccessCounterService.incrementAccess('about');
+
+      const home = await AccessCounterService.getCurrentCount('home-page');
+      const about = await AccessCounterService.getCurrentCount('about');
+      const fallback = await AccessCounterService.getCurrentCount();
+
+      expect(home.count).toBe(2);
+      expect(about.count).toBe(1);
+      expect(fallback.count).toBe(0);
+    });
+
+    it('should apply namespace only on creation', async () => {
+      await AccessCounterService.incrementAccess('product-42', 'products');
+      const result = await AccessCounterService.incrementAccess('product-42', 'other');
+
+      expect(result.namespace).toBe('products');
+      expect(result.count).toBe(2);
+    });
+
+    it('should reset only the given key', async () => {
+      await AccessCounterService.incrementAccess('home-page');
+      await AccessCounterService.incrementAccess('about');
+
+      await AccessCounterService.resetCounter('home-page');
+
+      expect((await AccessCounterService.getCurrentCount('home-page')).count).toBe(0);
+      expect((await AccessCounterService.getCurrentCount('about')).count).toBe(1);
+    });
+
+    it('should list counters filtered by namespace', async () => {
+      await AccessCounterService.incrementAccess('home-page', 'pages');
+      await AccessCounterService.incrementAccess('about', 'pages');
+      await AccessCounterService.incrementAccess('product-42', 'products');
+
+      const result = await AccessCounterService.listCounters('pages');
+
+      expect(result.pagination.total).toBe(2);
+      expect(result.counters.map(counter => counter.key)).toEqual(['about', 'home-page']);
+    });
+  });
+
+  describe('sharded counters', () => {
+    it('should spread increments across shards and sum them on read', async () => {
+      await AccessCounterService.updateSettings('hot-page', { shards: 4 });
+
+      await Promise.all(
+        Array.from({ length: 40 }, () => AccessCounterService.incrementAccess('hot-page'))
+      );
+
+      const documents = await AccessCounter.countDocuments({ key: 'hot-page' });
+      const result = await AccessCounterService.getCurrentCount('hot-page');
+
+      expect(documents).toBeGreaterThan(1);
+      expect(documents).toBeLessThanOrEqual(4);
+      expect(result.count).toBe(40);
+      expect(await AccessCounterService.validateIntegrity()).toBe(true);
+    });
+
+    it('should merge unique visitors from all shards', async () => {
+      await AccessCounterService.updateSettings('hot-page', { shards: 4 });
+
+      for (let i = 0; i < 10; i++) {
+        await AccessCounterService.incrementAccess('hot-page', 'default', `ip:10.0.0.${i}`);
+      }
+
+      const statistics = await AccessCounterService.getStatistics('hot-page');
+
+      expect(statistics.count).toBe(10);
+      expect(statistics.uniqueVisitors).toBe(10);
+      expect(statistics.shards).toBe(4);
+    });
+
+    it('should fold extra shards into the primary when reducing', async () => {
+      await AccessCounterService.updateSettings('hot-page', { shards: 4 });
+
+      for (let i = 0; i < 20; i++) {
+        await AccessCounterService.incrementAccess('hot-page');
+      }
+
+      const result = await AccessCounterService.updateSettings('hot-page', { shards: 1 });
+
+      expect(result.shards).toBe(1);
+      expect(result.count).toBe(20);
+      expect(await AccessCounter.countDocuments({ key: 'hot-page' })).toBe(1);
+    });
+
+    it('should reset every shard', async () => {
+      await AccessCounterService.updateSettings('hot-page', { shards: 4 });
+
+      for (let i = 0; i < 10; i++) {
+        await AccessCounterService.incrementAccess('hot-page');
+      }
+
+      await AccessCounterService.resetCounter('hot-page');
+
+      expect((await AccessCounterService.getCurrentCount('hot-page')).count).toBe(0);
+    });
+
+    it('should list counters with the sum of their shards', async () => {
+      await AccessCounterService.updateSettings('hot-page', { shards: 4 });
+
+      for (let i = 0; i < 12; i++) {
+        await AccessCounterService.incrementAccess('hot-page');
+      }
+
+      const result = await AccessCounterService.listCounters();
+
+      expect(result.pagination.total).toBe(1);
+      expect(result.counters[0].count).toBe(12);
+    });
+
+    it('should reject invalid shard counts', async () => {
+      await expect(
+        AccessCounterService.updateSettings('hot-page', { shards: 0 })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should report shards without a primary as invalid', async () => {
+      await AccessCounter.collection.insertOne({
+        key: 'orphan',
+        namespace: 'default',
+        shard: 3,
+        count: 1,
+        lastUpdated: new Date(),
+      });
+
+      expect(await AccessCounterService.validateIntegrity()).toBe(false);
+    });
+  });
+
+  describe('bot policies', () => {
+    const googlebot: IBotClassification = {
+      isBot: true,
+      signal: BotSignal.USER_AGENT,
+      name: 'Googlebot',
+      category: BotCategory.CRAWLER,
+    };
+
+    it('should count bots separately by default', async () => {
+      await AccessCounterService.incrementAccess('bots-separate');
+      const result = await AccessCounterService.incrementAccess(
+        'bots-separate',
+        'default',
+        'ip:10.0.0.1',
+        undefined,
+        googlebot
+      );
+
+      const statistics = await AccessCounterService.getStatistics('bots-separate');
+
+      expect(result.bot).toBe(true);
+      expect(result.count).toBe(1);
+      expect(statistics.count).toBe(1);
+      expect(statistics.botCount).toBe(1);
+      expect(statistics.botPolicy).toBe(BotPolicy.SEPARATE);
+      expect(statistics.uniqueVisitors).toBe(0);
+
+      // O histórico registra apenas o acesso humano
+      const buckets = await AccessBucket.find({ key: 'bots-separate' }).lean();
+      expect(buckets.length).toBeGreaterThan(0);
+      expect(buckets.every(bucket => bucket.count === 1)).toBe(true);
+    });
+
+    it('should not record bots when the policy is ignore', async () => {
+      await AccessCounterService.updateSettings('bots-ignore', { botPolicy: BotPolicy.IGNORE });
+
+      const result = await AccessCounterService.incrementAccess('bots-ignore', 'default', undefined, undefined, googlebot);
+      const statistics = await AccessCounterService.getStatistics('bots-ignore');
+
+      expect(result.bot).toBe(true);
+      expect(statistics.count).toBe(0);
+      expect(statistics.botCount).toBe(0);
+    });
+
+    it('should count bots as humans when the policy is count', async () => {
+      await AccessCounterService.updateSettings('bots-count', { botPolicy: BotPolicy.COUNT });
+
+      const result = await AccessCounterService.incrementAccess('bots-count', 'default', undefined, undefined, googlebot);
+      const statistics = await AccessCounterService.getStatistics('bots-count');
+
+      expect(result.bot).toBeUndefined();
+      expect(statistics.count).toBe(1);
+      expect(statistics.botCount).toBe(0);
+    });
+
+    it('should keep bot counts when folding shards and clear them on reset', async () => {
+      await AccessCounterService.updateSettings('bots-shards', { shards: 4 });
+
+      for (let i = 0; i < 8; i++) {
+        await AccessCounterService.incrementAccess('bots-shards', 'default', undefined, undefined, googlebot);
+      }
+
+      await AccessCounterService.updateSettings('bots-shards', { shards: 1 });
+      expect((await AccessCounterService.getStatistics('bots-shards')).botCount).toBe(8);
+
+      await AccessCounterService.resetCounter('bots-shards');
+      expect((await AccessCounterService.getStatistics('bots-shards')).botCount).toBe(0);
+    });
+
+    it('should reject unknown bot policies', async () => {
+      await expect(
+        AccessCounterService.updateSettings('bots-invalid', { botPolicy: 'block' as BotPolicy })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('adjustCounter', () => {
+    const actor = { id: '64b7f0c2a1b2c3d4e5f60718', email: 'admin@anotaai.com', role: UserRole.ADMIN };
+
+    it('should apply a delta and record it in the audit trail', async () => {
+      for (let i = 0; i < 5; i++) {
+        await AccessCounterService.incrementAccess('home');
+      }
+
+      const result = await AccessCounterService.adjustCounter('home', { delta: -2 }, { actor, reason: 'Duplicados' });
+
+      expect(result.count).toBe(3);
+      expect(result.previousCount).toBe(5);
+
+      const event = await CounterEvent.findOne({ key: 'home' }).lean();
+      expect(event).toMatchObject({
+        type: CounterEventType.ADJUSTMENT,
+        previousCount: 5,
+        delta: -2,
+        actorId: actor.id,
+        reason: 'Duplicados',
+      });
+    });
+
+    it('should set the total to an absolute value', async () => {
+      await AccessCounterService.incrementAccess('home');
+
+      const result = await AccessCounterService.adjustCounter('home', { value: 1000 }, { actor, reason: 'Importação' });
+
+      expect(result.count).toBe(1000);
+      expect((await CounterEvent.findOne({ key: 'home' }).lean())?.delta).toBe(999);
+    });
+
+    it('should record bulk increments in the history', async () => {
+      const result = await AccessCounterService.adjustCounter('edge', { by: 250 }, { reason: 'Coletor de borda' });
+
+      expect(result.count).toBe(250);
+
+      const buckets = await AccessBucket.find({ key: 'edge' }).lean();
+      expect(buckets.length).toBeGreaterThan(0);
+      expect(buckets.every(bucket => bucket.count === 250)).toBe(true);
+      expect((await CounterEvent.findOne({ key: 'edge' }).lean())?.type).toBe(CounterEventType.BULK_INCREMENT);
+    });
+
+    it('should subtract across shards', async () => {
+      await AccessCounterService.updateSettings('hot-page', { shards: 4 });
+
+      for (let i = 0; i < 20; i++) {
+        await AccessCounterService.incrementAccess('hot-page');
+      }
+
+      const result = await AccessCounterService.adjustCounter('hot-page', { delta: -18 }, { reason: 'Correção' });
+
+      expect(result.count).toBe(2);
+      expect(await AccessCounter.countDocuments({ key: 'hot-page', count: { $lt: 0 } })).toBe(0);
+    });
+
+    it('should refuse adjustments that would make the counter negative', async () => {
+      await AccessCounterService.updateSettings('hot-page', { shards: 4 });
+
+      for (let i = 0; i < 6; i++) {
+        await AccessCounterService.incrementAccess('hot-page');
+      }
+
+      await expect(
+        AccessCounterService.adjustCounter('hot-page', { delta: -7 }, { reason: 'Correção' })
+      ).rejects.toMatchObject({ statusCode: 400 });
+
+      expect((await AccessCounterService.getCurrentCount('hot-page')).count).toBe(6);
+      expect(await CounterEvent.countDocuments({ key: 'hot-page' })).toBe(0);
+    });
+
+    it('should require a reason and exactly one field', async () => {
+      await expect(
+        AccessCounterService.adjustCounter('home', { delta: 1 }, { reason: ' ' })
+      ).rejects.toMatchObject({ statusCode: 400 });
+      await expect(
+        AccessCounterService.adjustCounter('home', { delta: 1, by: 1 }, { reason: 'Correção' })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('migrateLegacyCounter', () => {
+    it('should assign the default key to the legacy singleton', async () => {
+      await AccessCounter.collection.insertOne({ count: 7, lastUpdated: new Date() });
+
+      await AccessCounterService.migrateLegacyCounter();
+
+      const result = await AccessCounterService.getCurrentCount();
+      expect(result.key).toBe('default');
+      expect(result.count).toBe(7);
+      expect(await AccessCounterService.validateIntegrity()).toBe(true);
+    });
+  });
 });
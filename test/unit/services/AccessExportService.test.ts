@@ -0,0 +1,134 @@
+import mongoose from 'mongoose';
+import { AccessExportService } from '../../../src/services/AccessExportService';
+import { AccessHistoryService } from '../../../src/services/AccessHistoryService';
+import { AccessBreakdownService } from '../../../src/services/AccessBreakdownService';
+import { AccessExport } from '../../../src/models/AccessExport';
+import {
+  AccessExportFormat,
+  AccessExportStatus,
+  HistoryGranularity,
+  IAccessExportQuery,
+  IAccessExportRow,
+  UserRole,
+} from '../../../src/types';
+
+const owner = { id: '64b7f0c2a1b2c3d4e5f60718', email: 'analista@anotaai.com', role: UserRole.USER };
+const at = new Date('2024-03-10T14:25:30Z');
+
+const query = (overrides: Partial<IAccessExportQuery> = {}): IAccessExportQuery => ({
+  key: 'home',
+  granularity: HistoryGranularity.HOUR,
+  from: new Date('2024-03-10T00:00:00Z'),
+  to: new Date('2024-03-11T00:00:00Z'),
+  format: AccessExportFormat.CSV,
+  ...overrides,
+});
+
+const collect = async (source: AsyncIterable<IAccessExportRow>): Promise<IAccessExportRow[]> => {
+  const rows: IAccessExportRow[] = [];
+
+  for await (const row of source) {
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+describe('AccessExportService', () => {
+  describe('rows', () => {
+    it('should export each bucket total followed by its dimensions', async () => {
+      const later = new Date(at.getTime() + 60 * 60 * 1000);
+
+      await AccessHistoryService.recordIncrement('home', at, 3);
+      await AccessHistoryService.recordIncrement('home', later, 1);
+      await AccessBreakdownService.recordIncrement('home', { referrer: 'google.com' }, at, 2);
+      await AccessBreakdownService.recordIncrement('home', { referrer: 'bing.com' }, at, 1);
+
+      const rows = await collect(AccessExportService.rows(query()));
+
+      expect(rows.map(({ dimension, value, count }) => [dimension, value, count])).toEqual([
+        [null, null, 3],
+        ['referrer', 'google.com', 2],
+        ['referrer', 'bing.com', 1],
+        [null, null, 1],
+      ]);
+      expect(rows[0].bucketStart).toEqual(new Date('2024-03-10T14:00:00Z'));
+    });
+
+    it('should not export dimensions for minute buckets', async () => {
+      await AccessHistoryService.recordIncrement('home', at, 2);
+      await AccessBreakdownService.recordIncrement('home', { referrer: 'google.com' }, at, 2);
+
+      const rows = await collect(AccessExportService.rows(query({ granularity: HistoryGranularity.MINUTE })));
+
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({ granularity: 'minute', dimension: null, count: 2 });
+    });
+  });
+
+  describe('prepareDirect', () => {
+    it('should reject ranges above the direct export limit', () => {
+      expect(() =>
+        AccessExportService.prepareDirect(
+          'home',
+          HistoryGranularity.MINUTE,
+          AccessExportFormat.CSV,
+          new Date('2020-01-01T00:00:00Z'),
+          new Date('2024-01-01T00:00:00Z')
+        )
+      ).toThrow('exportação direta');
+    });
+  });
+
+  describe('background exports', () => {
+    it('should generate the file and make it available for download', async () => {
+      await AccessHistoryService.recordIncrement('home', at, 5);
+
+      const requested = await AccessExportService.requestExport(query({ format: AccessExportFormat.NDJSON }), owner);
+      expect(requested.status).toBe(AccessExportStatus.PENDING);
+      expect(requested.downloadUrl).toBeNull();
+
+      expect(await AccessExportService.processPending()).toBe(1);
+
+      const completed = await AccessExportService.getExport(requested.id, owner);
+      expect(completed).toMatchObject({ status: AccessExportStatus.COMPLETED, rows: 1 });
+      expect(completed.downloadUrl).toBe(`/api/access/exports/${requested.id}/download`);
+
+      const { stream, fileName } = await AccessExportService.openDownload(requested.id, owner);
+      let content = '';
+      for await (const chunk of stream) {
+        content += chunk.toString();
+      }
+
+      expect(fileName).toMatch(/\.ndjson$/);
+      expect(JSON.parse(content.trim())).toMatchObject({ key: 'home', count: 5 });
+    });
+
+    it('should hide exports from other users', async () => {
+      const requested = await AccessExportService.requestExport(query(), owner);
+      const other = { ...owner, id: '64b7f0c2a1b2c3d4e5f60719' };
+
+      await expect(AccessExportService.getExport(requested.id, other)).rejects.toMatchObject({ statusCode: 404 });
+      await expect(
+        AccessExportService.getExport(requested.id, { ...other, role: UserRole.ADMIN })
+      ).resolves.toMatchObject({ id: requested.id });
+    });
+
+    it('should refuse downloads before the export completes', async () => {
+      const requested = await AccessExportService.requestExport(query(), owner);
+
+      await expect(AccessExportService.openDownload(requested.id, owner)).rejects.toMatchObject({ statusCode: 409 });
+    });
+
+    it('should remove expired exports and their files', async () => {
+      const requested = await AccessExportService.requestExport(query(), owner);
+      await AccessExportService.processPending();
+
+      const { file } = (await AccessExport.findById(requested.id).lean())!;
+
+      expect(await AccessExportService.purgeExpired(new Date(Date.now() + 48 * 60 * 60 * 1000))).toBe(1);
+      expect(await AccessExport.countDocuments()).toBe(0);
+      expect(await mongoose.connection.db!.collection('exports.files').countDocuments({ _id: file! })).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { AccessHistoryService } from '../../../src/services/AccessHistoryService';
+import { AccessCounterService } from '../../../src/services/AccessCounterService';
+import { AccessBucket } from '../../../src/models/AccessBucket';
+import { HistoryGranularity } from '../../../src/types';
+import { hllRegisterFor } from '../../../src/utils/hyperloglog';
+
+describe('AccessHistoryService', () => {
+  beforeEach(async () => {
+    await AccessBucket.deleteMany({});
+  });
+
+  describe('recordIncrement', () => {
+    it('should write one bucket per granularity', async () => {
+      await AccessHistoryService.recordIncrement('home', new Date('2024-03-10T14:25:30Z'));
+
+      const buckets = await AccessBucket.find({ key: 'home' }).lean();
+
+      expect(buckets).toHaveLength(4);
+      expect(buckets.find(b => b.granularity === HistoryGranularity.MINUTE)?.bucketStart)
+        .toEqual(new Date('2024-03-10T14:25:00Z'));
+      expect(buckets.find(b => b.granularity === HistoryGranularity.HOUR)?.bucketStart)
+        .toEqual(new Date('2024-03-10T14:00:00Z'));
+      expect(buckets.find(b => b.granularity === HistoryGranularity.DAY)?.bucketStart)
+        .toEqual(new Date('2024-03-10T00:00:00Z'));
+      expect(buckets.find(b => b.granularity === HistoryGranularity.MONTH)?.bucketStart)
+        .toEqual(new Date('2024-03-01T00:00:00Z'));
+    });
+
+    it('should be recorded by incrementAccess', async () => {
+      await AccessCounterService.incrementAccess('home');
+      await AccessCounterService.incrementAccess('home');
+
+      const day = await AccessBucket.findOne({ key: 'home', granularity: HistoryGranularity.DAY });
+
+      expect(day?.count).toBe(2);
+    });
+  });
+
+  describe('getHistory', () => {
+    it('should return a zero-filled hourly series', async () => {
+      await AccessHistoryService.recordIncrement('home', new Date('2024-03-10T14:10:00Z'));
+      await AccessHistoryService.recordIncrement('home', new Date('2024-03-10T14:50:00Z'));
+      await AccessHistoryService.recordIncrement('home', new Date('2024-03-10T16:05:00Z'));
+
+      const result = await AccessHistoryService.getHistory(
+        'home',
+        HistoryGranularity.HOUR,
+        new Date('2024-03-10T13:00:00Z'),
+        new Date('2024-03-10T16:59:59Z')
+      );
+
+      expect(result.series.map(point => point.count)).toEqual([0, 2, 0, 1]);
+      expect(result.total).toBe(3);
+    });
+
+    it('should estimate unique visitors per bucket and for the whole range', async () => {
+      await AccessHistoryService.recordIncrement('home', new Date('2024-03-10T14:10:00Z'), 1, hllRegisterFor('alice'));
+      await AccessHistoryService.recordIncrement('home', new Date('2024-03-10T14:20:00Z'), 1, hllRegisterFor('alice'));
+      await AccessHistoryService.recordIncrement('home', new Date('2024-03-10T15:05:00Z'), 1, hllRegisterFor('alice'));
+      await AccessHistoryService.recordIncrement('home', new Date('2024-03-10T15:06:00Z'), 1, hllRegisterFor('bob'));
+
+      const result = await AccessHistoryService.getHistory(
+        'home',
+        HistoryGranularity.HOUR,
+        new Date('2024-03-10T14:00:00Z'),
+        new Date('2024-03-10T15:59:59Z')
+      );
+
+      expect(result.series.map(point => point.uniqueVisitors)).toEqual([1, 2]);
+      expect(result.uniqueVisitors).toBe(2);
+      expect(result.total).toBe(4);
+    });
+
+    it('should not mix counters with different keys', async () => {
+      await AccessHistoryService.recordIncrement('home', new Date('2024-03-10T14:10:00Z'));
+      await AccessHistoryService.recordIncrement('about', new Date('2024-03-10T14:10:00Z'));
+
+      const result = await AccessHistoryService.getHistory(
+        'home',
+        HistoryGranularity.DAY,
+        new Date('2024-03-10T00:00:00Z'),
+        new Date('2024-03-10T23:59:59Z')
+      );
+
+      expect(result.total).toBe(1);
+    });
+
+    it('should reject ranges with too many points', async () => {
+      await expect(
+        AccessHistoryService.getHistory(
+          'home',
+          HistoryGranularity.MINUTE,
+          new Date('2024-01-01T00:00:00Z'),
+          new Date('2024-02-01T00:00:00Z')
+        )
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    it('should reject from after to', async () => {
+      await expect(
+        AccessHistoryService.getHistory(
+          'home',
+          HistoryGranularity.DAY,
+          new Date('2024-02-01T00:00:00Z'),
+          new Date('2024-01-01T00:00:00Z')
+        )
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('applyRetention', () => {
+    it('should roll expired minute buckets up and remove them', async () => {
+      const now = new Date('2024-03-10T12:00:00Z');
+      const old = new Date('2024-03-01T10:15:00Z');
+
+      await AccessHistoryService.recordIncrement('home', old);
+      await AccessHistoryService.recordIncrement('home', now);
+
+      // Simula um bucket por hora ausente para garantir que o rollup o recria
+      await AccessBucket.deleteOne({ key: 'home', granularity: HistoryGranularity.HOUR, bucketStart: new Date('2024-03-01T10:00:00Z') });
+
+      await AccessHistoryService.applyRetention(now);
+
+      const minutes = await AccessBucket.countDocuments({ key: 'home', granularity: HistoryGranularity.MINUTE });
+      const hour = await AccessBucket.findOne({
+        key: 'home',
+        granularity: HistoryGranularity.HOUR,
+        bucketStart: new Date('2024-03-01T10:00:00Z'),
+      });
+
+      expect(minutes).toBe(1);
+      expect(hour?.count).toBe(1);
+    });
+
+    it('should be idempotent', async () => {
+      const now = new Date('2024-03-10T12:00:00Z');
+
+      await AccessHistoryService.recordIncrement('home', new Date('2024-03-01T10:15:00Z'));
+      await AccessHistoryService.applyRetention(now);
+      await AccessHistoryService.applyRetention(now);
+
+      const day = await AccessBucket.findOne({ key: 'home', granularity: HistoryGranularity.DAY });
+
+      expect(day?.count).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { AccessTrendService } from '../../../src/services/AccessTrendService';
+import { AccessHistoryService } from '../../../src/services/AccessHistoryService';
+import { TrendComparison, TrendForecastMethod, TrendPeriod } from '../../../src/types';
+
+// Quinta-feira ao meio-dia: metade da semana iniciada em 12/10 já passou
+const now = new Date('2026-10-15T12:00:00Z');
+
+describe('AccessTrendService', () => {
+  beforeEach(async () => {
+    await AccessHistoryService.recordIncrement('home', new Date('2026-09-29T10:00:00Z'), 8);
+    await AccessHistoryService.recordIncrement('home', new Date('2026-10-06T10:00:00Z'), 6);
+    await AccessHistoryService.recordIncrement('home', new Date('2026-10-09T10:00:00Z'), 4);
+    await AccessHistoryService.recordIncrement('home', new Date('2026-10-13T10:00:00Z'), 4);
+  });
+
+  describe('getTrends', () => {
+    it('should compare the last complete week with the previous one', async () => {
+      const trends = await AccessTrendService.getTrends('home', { period: TrendPeriod.WEEK, window: 2 }, now);
+
+      expect(trends.current).toEqual({
+        start: new Date('2026-10-05T00:00:00Z'),
+        end: new Date('2026-10-12T00:00:00Z'),
+        count: 10,
+      });
+      expect(trends.comparison.count).toBe(8);
+      expect(trends.change).toEqual({ absolute: 2, percentage: 25 });
+      expect(trends.series.map(({ count, movingAverage }) => [count, movingAverage])).toEqual([
+        [8, 8],
+        [10, 9],
+      ]);
+      expect(trends.best?.count).toBe(10);
+      expect(trends.worst?.count).toBe(8);
+    });
+
+    it('should project the rest of the current period', async () => {
+      const linear = await AccessTrendService.getTrends('home', { period: TrendPeriod.WEEK }, now);
+      const ewma = await AccessTrendService.getTrends(
+        'home',
+        { period: TrendPeriod.WEEK, forecast: TrendForecastMethod.EWMA },
+        now
+      );
+
+      expect(linear.forecast).toMatchObject({ count: 4, elapsed: 0.5, remaining: 6, projected: 10 });
+      expect(ewma.forecast).toMatchObject({ method: 'ewma', remaining: 4, projected: 8 });
+    });
+
+    it('should return a null percentage when the previous year had no accesses', async () => {
+      const trends = await AccessTrendService.getTrends(
+        'home',
+        { period: TrendPeriod.DAY, compare: TrendComparison.YOY },
+        now
+      );
+
+      expect(trends.current.count).toBe(0);
+      expect(trends.comparison.start).toEqual(new Date('2025-10-15T00:00:00Z'));
+      expect(trends.change).toEqual({ absolute: 0, percentage: null });
+    });
+
+    it('should reject a moving average window larger than the series', async () => {
+      await expect(
+        AccessTrendService.getTrends('home', { period: TrendPeriod.WEEK, periods: 4, window: 5 }, now)
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+});
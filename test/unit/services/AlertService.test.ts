@@ -0,0 +1,223 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Types } from 'mongoose';
+import { AlertService } from '../../../src/services/AlertService';
+import { AccessCounterService } from '../../../src/services/AccessCounterService';
+import { AccessHistoryService } from '../../../src/services/AccessHistoryService';
+import { WebhookService } from '../../../src/services/WebhookService';
+import { AlertRule } from '../../../src/models/AlertRule';
+import { WebhookDelivery } from '../../../src/models/WebhookDelivery';
+import { config } from '../../../src/config/environment';
+import {
+  AlertConditionType,
+  AlertEvent,
+  AlertOperator,
+  AlertState,
+  WebhookDeliveryStatus,
+} from '../../../src/types';
+
+/**
+ * Destinatário de webhooks local que registra as requisições recebidas
+ */
+interface ReceivedWebhook {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+const waitFor = async (predicate: () => Promise<boolean> | boolean, timeoutMs = 3000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+
+  while (!(await predicate())) {
+    if (Date.now() > deadline) {
+      throw new Error('Tempo esgotado aguardando condição');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+describe('AlertService', () => {
+  const originalAlerts = { ...config.alerts };
+  let stub: http.Server;
+  let stubUrl: string;
+  let received: ReceivedWebhook[];
+  let responseStatus: number;
+
+  beforeAll(async () => {
+    stub = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.statusCode = responseStatus;
+        res.end();
+      });
+    });
+
+    await new Promise<void>(resolve => stub.listen(0, resolve));
+    stubUrl = `http://127.0.0.1:${(stub.address() as AddressInfo).port}/hooks`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => stub.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+    responseStatus = 200;
+  });
+
+  afterEach(() => {
+    Object.assign(config.alerts, originalAlerts);
+  });
+
+  const createThresholdRule = (value: number) =>
+    AlertService.createRule({
+      name: 'Marco',
+      counterKey: 'home',
+      condition: { type: AlertConditionType.THRESHOLD, operator: AlertOperator.ABOVE, value },
+      webhooks: [stubUrl],
+    });
+
+  describe('createRule', () => {
+    it('should return the signing secret only on creation', async () => {
+      const created = await createThresholdRule(10);
+      const fetched = await AlertService.getRule(created._id);
+
+      expect(created.secret).toBeDefined();
+      expect(fetched.secret).toBeUndefined();
+      expect(fetched.state).toBe(AlertState.OK);
+    });
+
+    it('should reject conditions without the required fields', async () => {
+      await expect(
+        AlertService.createRule({
+          name: 'Sem janela',
+          counterKey: 'home',
+          condition: { type: AlertConditionType.NO_TRAFFIC },
+          webhooks: [stubUrl],
+        })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('evaluateAll', () => {
+    it('should deliver a signed webhook when a threshold is crossed', async () => {
+      const rule = await createThresholdRule(3);
+
+      for (let i = 0; i < 3; i++) {
+        await AccessCounterService.incrementAccess('home');
+      }
+
+      const result = await AlertService.evaluateAll();
+      await waitFor(() => received.length === 1);
+
+      const [webhook] = received;
+      const payload = JSON.parse(webhook.body);
+      const signature = WebhookService.sign(
+        rule.secret!,
+        Number(webhook.headers['x-webhook-timestamp']),
+        webhook.body
+      );
+
+      expect(result.triggered).toBe(1);
+      expect(payload.event).toBe(AlertEvent.TRIGGERED);
+      expect(payload.value).toBe(3);
+      expect(payload.rule.counterKey).toBe('home');
+      expect(webhook.headers['x-webhook-signature']).toBe(signature);
+      expect((await AlertService.getRule(rule._id)).state).toBe(AlertState.TRIGGERED);
+    });
+
+    it('should fire only on state transitions', async () => {
+      await createThresholdRule(1);
+      await AccessCounterService.incrementAccess('home');
+
+      await AlertService.evaluateAll();
+      const second = await AlertService.evaluateAll();
+      await waitFor(() => received.length === 1);
+
+      expect(second.triggered).toBe(0);
+
+      await AccessCounterService.resetCounter('home');
+      const third = await AlertService.evaluateAll();
+      await waitFor(() => received.length === 2);
+
+      expect(third.resolved).toBe(1);
+      expect(JSON.parse(received[1].body).event).toBe(AlertEvent.RESOLVED);
+    });
+
+    it('should trigger no_traffic rules after a quiet window', async () => {
+      const rule = await AlertService.createRule({
+        name: 'Sem tráfego',
+        counterKey: 'home',
+        condition: { type: AlertConditionType.NO_TRAFFIC, windowMinutes: 30 },
+        webhooks: [stubUrl],
+      });
+
+      // Regra recém-criada ainda não cobre uma janela inteira
+      expect((await AlertService.evaluateAll()).triggered).toBe(0);
+
+      await AlertRule.collection.updateOne(
+        { _id: new Types.ObjectId(rule._id) },
+        { $set: { createdAt: new Date(Date.now() - 60 * 60 * 1000) } }
+      );
+
+      expect((await AlertService.evaluateAll()).triggered).toBe(1);
+    });
+
+    it('should compare windowed traffic for hourly floors', async () => {
+      const rule = await AlertService.createRule({
+        name: 'Piso por hora',
+        counterKey: 'home',
+        condition: {
+          type: AlertConditionType.THRESHOLD,
+          operator: AlertOperator.BELOW,
+          value: 5,
+          windowMinutes: 60,
+        },
+        webhooks: [stubUrl],
+      });
+
+      await AlertRule.collection.updateOne(
+        { _id: new Types.ObjectId(rule._id) },
+        { $set: { createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000) } }
+      );
+
+      const now = new Date();
+      for (let i = 0; i < 10; i++) {
+        await AccessHistoryService.recordIncrement('home', new Date(now.getTime() - 10 * 60 * 1000));
+      }
+
+      expect((await AlertService.evaluateAll(now)).triggered).toBe(0);
+      expect((await AlertService.getRule(rule._id)).lastValue).toBe(10);
+    });
+  });
+
+  describe('webhook retries', () => {
+    it('should retry failed deliveries with backoff and give up after the limit', async () => {
+      config.alerts.webhookMaxAttempts = 2;
+      config.alerts.webhookRetryBaseMs = 60000;
+      responseStatus = 500;
+
+      await createThresholdRule(1);
+      await AccessCounterService.incrementAccess('home');
+      await AlertService.evaluateAll();
+
+      await waitFor(async () => (await WebhookDelivery.findOne())?.attempts === 1);
+      const pending = await WebhookDelivery.findOne();
+
+      expect(pending?.status).toBe(WebhookDeliveryStatus.PENDING);
+      expect(pending?.lastStatusCode).toBe(500);
+      expect(pending!.nextAttemptAt!.getTime()).toBeGreaterThan(Date.now() + 50000);
+
+      // Antes do horário de reenvio nada é processado
+      expect(await WebhookService.processDue()).toBe(0);
+
+      await WebhookService.processDue(new Date(Date.now() + 61000));
+      const failed = await WebhookDelivery.findOne();
+
+      expect(received).toHaveLength(2);
+      expect(failed?.status).toBe(WebhookDeliveryStatus.FAILED);
+      expect(failed?.attempts).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { Request } from 'express';
+import { BotDetectionService } from '../../../src/services/BotDetectionService';
+import { config } from '../../../src/config/environment';
+import { BotCategory, BotSignal } from '../../../src/types';
+
+const CHROME_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+
+/**
+ * Monta uma requisição mínima com headers e IP
+ */
+const buildRequest = (headers: Record<string, string> = {}, ip: string = '10.0.0.1'): Request =>
+  ({
+    ip,
+    get: (name: string) => headers[name.toLowerCase()],
+  }) as unknown as Request;
+
+const browser = (ip?: string) =>
+  buildRequest({ 'user-agent': CHROME_WINDOWS, 'accept-language': 'pt-BR,pt;q=0.9' }, ip);
+
+describe('BotDetectionService', () => {
+  const originalConfig = { ...config.bots };
+
+  beforeEach(() => {
+    config.bots.heuristicsEnabled = true;
+  });
+
+  afterEach(() => {
+    Object.assign(config.bots, originalConfig);
+    BotDetectionService.reset();
+  });
+
+  it('should classify regular browsers as human', () => {
+    expect(BotDetectionService.classify(browser())).toEqual({ isBot: false });
+  });
+
+  it('should identify bots by user agent', () => {
+    const classify = (userAgent: string) =>
+      BotDetectionService.classify(buildRequest({ 'user-agent': userAgent, 'accept-language': 'en' }));
+
+    expect(
+      classify('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')
+    ).toEqual({ isBot: true, signal: BotSignal.USER_AGENT, name: 'Googlebot', category: BotCategory.CRAWLER });
+    expect(classify('Mozilla/5.0 (compatible; UptimeRobot/2.0; http://www.uptimerobot.com/)').category).toBe(
+      BotCategory.MONITOR
+    );
+    expect(classify(CHROME_WINDOWS.replace('Chrome/', 'HeadlessChrome/')).category).toBe(BotCategory.HEADLESS);
+    expect(classify('facebookexternalhit/1.1').category).toBe(BotCategory.PREVIEW);
+    expect(classify('curl/8.5.0').category).toBe(BotCategory.TOOL);
+    expect(classify('SomeNewCrawler/0.1 (+https://example.com/crawler)').name).toBe('Generic bot');
+  });
+
+  it('should flag requests without browser headers', () => {
+    const result = BotDetectionService.classify(buildRequest({ 'user-agent': CHROME_WINDOWS }));
+
+    expect(result.isBot).toBe(true);
+    expect(result.signal).toBe(BotSignal.MISSING_HEADERS);
+  });
+
+  it('should flag clients above the request cadence', () => {
+    config.bots.maxRequestsPerMinute = 3;
+    const now = Date.now();
+
+    const results = Array.from({ length: 4 }, () => BotDetectionService.classify(browser(), now));
+
+    expect(results.map(result => result.isBot)).toEqual([false, false, false, true]);
+    expect(results[3].signal).toBe(BotSignal.CADENCE);
+
+    // Outro cliente e a próxima janela não são afetados
+    expect(BotDetectionService.classify(browser('10.0.0.2'), now).isBot).toBe(false);
+    expect(BotDetectionService.classify(browser(), now + 60 * 1000).isBot).toBe(false);
+  });
+
+  it('should only use the rule list when heuristics are disabled', () => {
+    config.bots.heuristicsEnabled = false;
+
+    expect(BotDetectionService.classify(buildRequest()).isBot).toBe(false);
+    expect(BotDetectionService.classify(buildRequest({ 'user-agent': 'Wget/1.21' })).isBot).toBe(true);
+  });
+});
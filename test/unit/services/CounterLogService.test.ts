@@ -0,0 +1,134 @@
+import { CounterLogService } from '../../../src/services/CounterLogService';
+import { AccessCounterService } from '../../../src/services/AccessCounterService';
+import { CounterResetService } from '../../../src/services/CounterResetService';
+import { AccessCounter } from '../../../src/models/AccessCounter';
+import { CounterCheckpoint } from '../../../src/models/CounterCheckpoint';
+import { CounterLogEntry } from '../../../src/models/CounterLogEntry';
+import { config } from '../../../src/config/environment';
+import { CounterEventType } from '../../../src/types';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Habilita o modo event-sourced e registra o checkpoint inicial sem aguardar o TTL do cache
+ */
+const enableEventSourcing = async (key: string): Promise<Date> => {
+  await AccessCounterService.updateSettings(key, { eventSourced: true });
+  await CounterLogService.checkpointAll(new Date(Date.now() + config.counterShards.cacheTtlMs));
+
+  const state = await AccessCounter.getEventSourcing(key);
+  await sleep(5);
+
+  return state!.baselineAt!;
+};
+
+const increment = async (key: string, times: number) => {
+  for (let i = 0; i < times; i++) {
+    await AccessCounterService.incrementAccess(key);
+  }
+};
+
+describe('CounterLogService', () => {
+  const originalSettleMs = config.eventSourcing.settleMs;
+
+  afterEach(() => {
+    config.eventSourcing.settleMs = originalSettleMs;
+  });
+
+  it('should log increments only for event-sourced counters', async () => {
+    await increment('home', 2);
+    expect(await CounterLogEntry.countDocuments()).toBe(0);
+
+    await enableEventSourcing('home');
+    await increment('home', 3);
+
+    expect(await CounterLogEntry.countDocuments({ key: 'home' })).toBe(3);
+    expect((await AccessCounterService.getCurrentCount('home')).count).toBe(5);
+  });
+
+  it('should not log increments whose counter write failed', async () => {
+    await enableEventSourcing('home');
+    const spy = jest.spyOn(AccessCounter, 'incrementCounter').mockRejectedValueOnce(new Error('falha'));
+
+    try {
+      await expect(AccessCounterService.incrementAccess('home')).rejects.toThrow();
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(await CounterLogEntry.countDocuments({ key: 'home' })).toBe(0);
+  });
+
+  it('should answer point-in-time queries from the log', async () => {
+    await increment('home', 2);
+    const baselineAt = await enableEventSourcing('home');
+
+    await increment('home', 3);
+    await sleep(5);
+    const beforeReset = new Date();
+    await sleep(5);
+
+    await AccessCounterService.resetCounter('home');
+    await increment('home', 1);
+
+    expect((await CounterLogService.valueAt('home', baselineAt)).count).toBe(2);
+    expect((await CounterLogService.valueAt('home', beforeReset)).count).toBe(5);
+    expect((await CounterLogService.valueAt('home', new Date())).count).toBe(1);
+  });
+
+  it('should reject point-in-time queries outside the available history', async () => {
+    await increment('home', 1);
+
+    await expect(CounterLogService.valueAt('home', new Date())).rejects.toThrow('modo event-sourced');
+
+    const baselineAt = await enableEventSourcing('home');
+
+    await expect(CounterLogService.valueAt('home', new Date(baselineAt.getTime() - 1000))).rejects.toThrow(
+      'disponível a partir de'
+    );
+    await expect(CounterLogService.valueAt('home', new Date(Date.now() + 60000))).rejects.toThrow('futuro');
+  });
+
+  it('should consolidate settled operations into checkpoints', async () => {
+    config.eventSourcing.settleMs = 0;
+    await enableEventSourcing('home');
+    await increment('home', 4);
+    await sleep(5);
+
+    expect(await CounterLogService.checkpointAll()).toBe(1);
+    // Sem operações novas, nenhum checkpoint é criado
+    expect(await CounterLogService.checkpointAll()).toBe(0);
+
+    const latest = await CounterCheckpoint.findOne({ key: 'home' }).sort({ at: -1 });
+    expect(latest!.count).toBe(4);
+
+    await increment('home', 1);
+    expect((await CounterLogService.valueAt('home', new Date())).count).toBe(5);
+  });
+
+  it('should rebuild the projection from the log', async () => {
+    await increment('home', 1);
+    await enableEventSourcing('home');
+    await increment('home', 2);
+
+    // Projeção divergente do log (ex.: bug ou escrita manual)
+    await AccessCounter.updateOne({ key: 'home', shard: 0 }, { $set: { count: 999 } });
+
+    const result = await AccessCounterService.rebuildCounter('home');
+
+    expect(result.count).toBe(3);
+    expect(result.previousCount).toBe(999);
+    expect((await AccessCounterService.getCurrentCount('home')).count).toBe(3);
+
+    const { events } = await CounterResetService.listEvents('home');
+    expect(events[0]).toMatchObject({ type: CounterEventType.REBUILD, previousCount: 999 });
+  });
+
+  it('should reject changes to log entries', async () => {
+    await enableEventSourcing('home');
+    await increment('home', 1);
+
+    await expect(CounterLogEntry.updateOne({ key: 'home' }, { $set: { delta: 5 } })).rejects.toThrow('imutáveis');
+    await expect(CounterLogEntry.deleteMany({ key: 'home' })).rejects.toThrow('imutáveis');
+  });
+});
@@ -0,0 +1,152 @@
+import { CounterResetService } from '../../../src/services/CounterResetService';
+import { AccessCounterService } from '../../../src/services/AccessCounterService';
+import { AccessCounter } from '../../../src/models/AccessCounter';
+import { CounterEvent } from '../../../src/models/CounterEvent';
+import { CounterSnapshot } from '../../../src/models/CounterSnapshot';
+import { CounterEventType, ResetPeriod, UserRole } from '../../../src/types';
+
+const actor = { id: '64b7f0c2a1b2c3d4e5f60718', email: 'admin@anotaai.com', role: UserRole.ADMIN };
+
+/**
+ * Antecipa o próximo reset agendado de um contador
+ */
+const makeDue = (key: string, nextResetAt: Date) =>
+  AccessCounter.updateOne({ key, shard: 0 }, { $set: { 'resetSchedule.nextResetAt': nextResetAt } });
+
+describe('CounterResetService', () => {
+  describe('manual resets', () => {
+    it('should record the previous value, actor and reason', async () => {
+      await AccessCounterService.incrementAccess('home');
+      await AccessCounterService.incrementAccess('home');
+
+      const result = await AccessCounterService.resetCounter('home', { actor, reason: 'Teste de carga' });
+
+      expect(result.count).toBe(0);
+      expect(result.previousCount).toBe(2);
+
+      const { events } = await CounterResetService.listEvents('home');
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        key: 'home',
+        type: CounterEventType.RESET,
+        previousCount: 2,
+        actorId: actor.id,
+        actorEmail: actor.email,
+        reason: 'Teste de carga',
+        snapshotId: null,
+      });
+      expect(events[0].createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should reject changes to recorded events', async () => {
+      await AccessCounterService.resetCounter('home', { actor });
+
+      await expect(CounterEvent.updateOne({ key: 'home' }, { $set: { previousCount: 99 } })).rejects.toThrow(
+        'imutáveis'
+      );
+      await expect(CounterEvent.deleteMany({ key: 'home' })).rejects.toThrow('imutáveis');
+
+      const event = await CounterEvent.findOne({ key: 'home' });
+      event!.previousCount = 99;
+      await expect(event!.save()).rejects.toThrow('imutáveis');
+    });
+  });
+
+  describe('scheduled resets', () => {
+    it('should archive the closing value and schedule the next period', async () => {
+      await AccessCounterService.updateSettings('home', { resetSchedule: { period: ResetPeriod.DAILY } });
+      await AccessCounterService.incrementAccess('home', undefined, 'visitor-1');
+      await AccessCounterService.incrementAccess('home', undefined, 'visitor-2');
+      await AccessCounterService.incrementAccess('home', undefined, 'visitor-2');
+      await makeDue('home', new Date('2026-03-11T00:00:00Z'));
+
+      const now = new Date('2026-03-11T00:00:30Z');
+
+      expect(await CounterResetService.runDueResets(now)).toBe(1);
+      // Já executado: nada mais a fazer
+      expect(await CounterResetService.runDueResets(now)).toBe(0);
+
+      expect((await AccessCounterService.getCurrentCount('home')).count).toBe(0);
+
+      const counter = await AccessCounter.getSummary('home');
+      expect(counter!.resetSchedule!.nextResetAt.toISOString()).toBe('2026-03-12T00:00:00.000Z');
+
+      const { snapshots } = await CounterResetService.listSnapshots({ key: 'home' });
+
+      expect(snapshots).toHaveLength(1);
+      expect(snapshots[0]).toMatchObject({
+        key: 'home',
+        period: ResetPeriod.DAILY,
+        timezone: 'UTC',
+        count: 3,
+        uniqueVisitors: 2,
+      });
+      expect(snapshots[0].periodStart.toISOString()).toBe('2026-03-10T00:00:00.000Z');
+      expect(snapshots[0].periodEnd.toISOString()).toBe('2026-03-11T00:00:00.000Z');
+
+      const { events } = await CounterResetService.listEvents('home');
+
+      expect(events[0].type).toBe(CounterEventType.SCHEDULED_RESET);
+      expect(events[0].previousCount).toBe(3);
+      expect(events[0].snapshotId).toBe(snapshots[0].id);
+    });
+
+    it('should skip counters without a due schedule', async () => {
+      await AccessCounterService.updateSettings('home', { resetSchedule: { period: ResetPeriod.MONTHLY } });
+      await AccessCounterService.incrementAccess('about');
+
+      expect(await CounterResetService.runDueResets()).toBe(0);
+      expect(await CounterSnapshot.countDocuments()).toBe(0);
+    });
+
+    it('should remove the schedule with null', async () => {
+      await AccessCounterService.updateSettings('home', { resetSchedule: { period: ResetPeriod.WEEKLY } });
+      const result = await AccessCounterService.updateSettings('home', { resetSchedule: null });
+
+      expect(result.resetSchedule).toBeNull();
+    });
+
+    it('should reject unknown time zones', async () => {
+      await expect(
+        AccessCounterService.updateSettings('home', {
+          resetSchedule: { period: ResetPeriod.DAILY, timezone: 'Mars/Olympus_Mons' },
+        })
+      ).rejects.toThrow('Fuso horário do reset inválido');
+    });
+  });
+
+  describe('listSnapshots', () => {
+    it('should filter by period end and sort from the most recent', async () => {
+      const snapshot = (key: string, periodEnd: string) => ({
+        key,
+        namespace: 'default',
+        period: ResetPeriod.DAILY,
+        timezone: 'UTC',
+        periodStart: new Date(new Date(periodEnd).getTime() - 24 * 60 * 60 * 1000),
+        periodEnd: new Date(periodEnd),
+        count: 1,
+        botCount: 0,
+        uniqueVisitors: 1,
+      });
+
+      await CounterSnapshot.create([
+        snapshot('home', '2026-03-09T00:00:00Z'),
+        snapshot('home', '2026-03-10T00:00:00Z'),
+        snapshot('home', '2026-03-11T00:00:00Z'),
+        snapshot('about', '2026-03-11T00:00:00Z'),
+      ]);
+
+      const result = await CounterResetService.listSnapshots({
+        key: 'home',
+        from: new Date('2026-03-10T00:00:00Z'),
+      });
+
+      expect(result.snapshots.map(item => item.periodEnd.toISOString())).toEqual([
+        '2026-03-11T00:00:00.000Z',
+        '2026-03-10T00:00:00.000Z',
+      ]);
+      expect(result.pagination.total).toBe(2);
+    });
+  });
+});
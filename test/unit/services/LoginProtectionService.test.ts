@@ -0,0 +1,85 @@
+import { LoginProtectionService } from '../../../src/services/LoginProtectionService';
+import { LoginThrottle } from '../../../src/models/LoginThrottle';
+import { config } from '../../../src/config/environment';
+import { LoginThrottleScope } from '../../../src/types';
+
+describe('LoginProtectionService', () => {
+  const original = { ...config.loginProtection };
+
+  beforeEach(() => {
+    Object.assign(config.loginProtection, { maxAccountFailures: 3, maxIpFailures: 5, delayBaseMs: 0 });
+  });
+
+  afterEach(() => {
+    Object.assign(config.loginProtection, original);
+  });
+
+  it('should count failures per account and per IP', async () => {
+    await LoginProtectionService.recordFailure('Joao@Test.com', '10.0.0.1');
+    await LoginProtectionService.recordFailure('maria@test.com', '10.0.0.1');
+
+    const account = await LoginThrottle.findOne({ scope: LoginThrottleScope.ACCOUNT, key: 'joao@test.com' });
+    const address = await LoginThrottle.findOne({ scope: LoginThrottleScope.IP, key: '10.0.0.1' });
+
+    expect(account?.failures).toBe(1);
+    expect(address?.failures).toBe(2);
+    expect(address?.lockedUntil).toBeNull();
+  });
+
+  it('should lock the IP after its own limit, across accounts', async () => {
+    for (let i = 0; i < 5; i++) {
+      await LoginProtectionService.recordFailure(`conta${i}@test.com`, '10.0.0.2');
+    }
+
+    await expect(LoginProtectionService.beforeAttempt('outra@test.com', '10.0.0.2')).rejects.toMatchObject({
+      statusCode: 429,
+    });
+    await expect(LoginProtectionService.beforeAttempt('outra@test.com', '10.0.0.3')).resolves.toBeUndefined();
+  });
+
+  it('should answer 429 with the remaining wait during the progressive delay', async () => {
+    config.loginProtection.delayBaseMs = 3000;
+
+    await LoginProtectionService.recordFailure('joao@test.com');
+
+    await expect(LoginProtectionService.beforeAttempt('joao@test.com')).rejects.toMatchObject({
+      statusCode: 429,
+      retryAfterSeconds: 3,
+    });
+  });
+
+  it('should restart the count once the failure window expires', async () => {
+    await LoginProtectionService.recordFailure('joao@test.com');
+    await LoginProtectionService.recordFailure('joao@test.com');
+
+    await LoginThrottle.updateOne(
+      { scope: LoginThrottleScope.ACCOUNT, key: 'joao@test.com' },
+      { $set: { windowExpiresAt: new Date(Date.now() - 1000) } }
+    );
+
+    await LoginProtectionService.recordFailure('joao@test.com');
+
+    const state = await LoginProtectionService.getAccountState('joao@test.com');
+    expect(state).toMatchObject({ locked: false, failedAttempts: 1 });
+  });
+
+  it('should unlock automatically after the lockout period', async () => {
+    for (let i = 0; i < 3; i++) {
+      await LoginProtectionService.recordFailure('joao@test.com');
+    }
+
+    expect((await LoginProtectionService.getAccountState('joao@test.com')).locked).toBe(true);
+
+    await LoginThrottle.updateOne(
+      { scope: LoginThrottleScope.ACCOUNT, key: 'joao@test.com' },
+      { $set: { lockedUntil: new Date(Date.now() - 1000), windowExpiresAt: new Date(Date.now() - 1000) } }
+    );
+
+    await expect(LoginProtectionService.beforeAttempt('joao@test.com')).resolves.toBeUndefined();
+    expect(await LoginProtectionService.getAccountState('joao@test.com')).toMatchObject({
+      locked: false,
+      failedAttempts: 0,
+      lockedUntil: null,
+    });
+  });
+});
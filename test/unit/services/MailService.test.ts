@@ -0,0 +1,45 @@
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { MailService, MailTransport } from '../../../src/services/MailService';
+import { config } from '../../../src/config/environment';
+
+describe('MailService', () => {
+  const original = { ...config.mail };
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'mail-'));
+  });
+
+  afterEach(async () => {
+    Object.assign(config.mail, original);
+    MailService.setTransport(null);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should write messages as .eml files with the file transport', async () => {
+    Object.assign(config.mail, { transport: 'file', fileDir: dir, from: 'Anota AI <no-reply@test.com>' });
+
+    await MailService.send({ to: 'joao@test.com', subject: 'Redefinição de senha', text: 'Acesse o link' });
+
+    const files = await readdir(dir);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/\.eml$/);
+
+    const content = await readFile(path.join(dir, files[0]), 'utf8');
+    expect(content).toContain('To: joao@test.com');
+    expect(content).toContain('From: Anota AI <no-reply@test.com>');
+    expect(content).toContain('Acesse o link');
+  });
+
+  it('should deliver through a custom transport with the default sender', async () => {
+    const sent: unknown[] = [];
+    const transport: MailTransport = { name: 'memory', send: async message => void sent.push(message) };
+    MailService.setTransport(transport);
+
+    await MailService.send({ to: 'joao@test.com', subject: 'Olá', text: 'Mensagem' });
+
+    expect(sent).toEqual([{ from: config.mail.from, to: 'joao@test.com', subject: 'Olá', text: 'Mensagem' }]);
+  });
+});
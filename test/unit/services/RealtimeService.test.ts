@@ -0,0 +1,137 @@
+import { RealtimeService, RealtimeSubscriber } from '../../../src/services/RealtimeService';
+import { ICounterUpdate } from '../../../src/types';
+import { config } from '../../../src/config/environment';
+
+/**
+ * Cliente em memória que registra as mensagens recebidas
+ */
+class FakeSubscriber implements RealtimeSubscriber {
+  public updates: ICounterUpdate[] = [];
+  public heartbeats = 0;
+  public writable = true;
+  public closed = false;
+
+  isWritable(): boolean {
+    return this.writable;
+  }
+
+  send(update: ICounterUpdate): void {
+    this.updates.push(update);
+  }
+
+  heartbeat(): void {
+    this.heartbeats++;
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+const update = (key: string, count: number): ICounterUpdate => ({
+  key,
+  namespace: 'default',
+  count,
+  lastUpdated: new Date(),
+});
+
+describe('RealtimeService', () => {
+  let subscriber: FakeSubscriber;
+
+  beforeEach(() => {
+    subscriber = new FakeSubscriber();
+  });
+
+  afterEach(async () => {
+    await RealtimeService.stop();
+  });
+
+  it('should deliver updates only for subscribed counters', async () => {
+    RealtimeService.subscribe(subscriber, ['home']);
+
+    RealtimeService.publish(update('home', 1));
+    RealtimeService.publish(update('about', 1));
+    await RealtimeService.flush();
+
+    expect(subscriber.updates).toHaveLength(1);
+    expect(subscriber.updates[0].key).toBe('home');
+  });
+
+  it('should coalesce a burst of updates into a single message per counter', async () => {
+    RealtimeService.subscribe(subscriber, ['home', 'about']);
+
+    for (let count = 1; count <= 10000; count++) {
+      RealtimeService.publish(update('home', count));
+    }
+    RealtimeService.publish(update('about', 7));
+    await RealtimeService.flush();
+
+    expect(subscriber.updates).toHaveLength(2);
+    expect(subscriber.updates.find(u => u.key === 'home')?.count).toBe(10000);
+    expect(subscriber.updates.find(u => u.key === 'about')?.count).toBe(7);
+  });
+
+  it('should keep only the latest update while a subscriber is congested', async () => {
+    RealtimeService.subscribe(subscriber, ['home']);
+    subscriber.writable = false;
+
+    RealtimeService.publish(update('home', 1));
+    await RealtimeService.flush();
+    RealtimeService.publish(update('home', 2));
+    await RealtimeService.flush();
+
+    expect(subscriber.updates).toHaveLength(0);
+
+    subscriber.writable = true;
+    await RealtimeService.flush();
+
+    expect(subscriber.updates).toHaveLength(1);
+    expect(subscriber.updates[0].count).toBe(2);
+  });
+
+  it('should stop delivering after unsubscribe or removal', async () => {
+    const other = new FakeSubscriber();
+    RealtimeService.subscribe(subscriber, ['home']);
+    RealtimeService.subscribe(other, ['home']);
+
+    RealtimeService.unsubscribe(subscriber, ['home']);
+    RealtimeService.remove(other);
+    RealtimeService.publish(update('home', 1));
+    await RealtimeService.flush();
+
+    expect(subscriber.updates).toHaveLength(0);
+    expect(other.updates).toHaveLength(0);
+    expect(RealtimeService.getMetrics().subscriptions).toBe(0);
+  });
+
+  it('should reject subscriptions above the per-connection limit', () => {
+    const keys = Array.from({ length: 51 }, (_, index) => `page-${index}`);
+
+    expect(() => RealtimeService.subscribe(subscriber, keys)).toThrow();
+  });
+
+  it('should count and heartbeat registered subscribers before they subscribe', () => {
+    jest.useFakeTimers();
+
+    try {
+      RealtimeService.register(subscriber);
+      RealtimeService.start();
+      jest.advanceTimersByTime(config.realtime.heartbeatIntervalMs);
+
+      expect(RealtimeService.isSubscribed(subscriber)).toBe(false);
+      expect(RealtimeService.getMetrics().connections).toBe(1);
+      expect(subscriber.heartbeats).toBe(1);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should close all subscribers on stop', async () => {
+    RealtimeService.subscribe(subscriber, ['home']);
+
+    await RealtimeService.stop();
+
+    expect(subscriber.closed).toBe(true);
+    expect(RealtimeService.getMetrics().connections).toBe(0);
+  });
+});
@@ -0,0 +1,58 @@
+import { UserService } from '../../../src/services/UserService';
+import { User } from '../../../src/models/User';
+import { ApiKey } from '../../../src/models/ApiKey';
+import { config } from '../../../src/config/environment';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const createUser = (email: string) =>
+  User.create({ name: 'Usuario Teste', email, password: 'Password123' });
+
+describe('UserService', () => {
+  describe('purgeDeletedUsers', () => {
+    it('should hard delete users only after the grace period, with their API keys', async () => {
+      const expired = await createUser('expirado@test.com');
+      const recent = await createUser('recente@test.com');
+      const active = await createUser('ativo@test.com');
+
+      await ApiKey.create({
+        name: 'CI',
+        owner: expired._id,
+        keyHash: 'hash',
+        prefix: 'ak_test',
+        scopes: ['counter:read'],
+      });
+
+      await UserService.deleteUser(expired.id);
+      await UserService.deleteUser(recent.id);
+
+      // Simula uma remoção anterior ao prazo de retenção
+      await User.collection.updateOne(
+        { _id: expired._id as any },
+        { $set: { deletedAt: new Date(Date.now() - (config.userDeletion.graceDays + 1) * DAY) } }
+      );
+
+      const purged = await UserService.purgeDeletedUsers();
+
+      expect(purged).toBe(1);
+      expect(await User.collection.countDocuments({ _id: expired._id as any })).toBe(0);
+      expect(await ApiKey.countDocuments({ owner: expired._id })).toBe(0);
+      expect(await User.collection.countDocuments({ _id: recent._id as any })).toBe(1);
+      expect(await User.findById(active.id)).not.toBeNull();
+    });
+  });
+
+  describe('deleteUser', () => {
+    it('should hide soft-deleted users from the default queries', async () => {
+      const user = await createUser('removido@test.com');
+
+      await UserService.deleteUser(user.id);
+
+      expect(await User.findById(user.id)).toBeNull();
+      expect(await User.emailExists('removido@test.com')).toBe(false);
+      expect(await UserService.userExists(user.id)).toBe(false);
+      expect((await UserService.getUserStatistics()).totalUsers).toBe(0);
+      expect(await User.findOne({ _id: user._id, deletedAt: { $ne: null } })).not.toBeNull();
+    });
+  });
+});
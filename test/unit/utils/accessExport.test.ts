@@ -0,0 +1,99 @@
+import { exportFileName, serializeExportRows, toCsvLine } from '../../../src/utils/accessExport';
+import {
+  AccessExportFormat,
+  BreakdownDimension,
+  HistoryGranularity,
+  IAccessExportRow,
+} from '../../../src/types';
+
+const bucketStart = new Date('2026-01-01T10:00:00.000Z');
+
+const rows: IAccessExportRow[] = [
+  {
+    key: 'home',
+    granularity: HistoryGranularity.HOUR,
+    bucketStart,
+    dimension: null,
+    value: null,
+    count: 42,
+    uniqueVisitors: 37,
+  },
+  {
+    key: 'home',
+    granularity: HistoryGranularity.HOUR,
+    bucketStart,
+    dimension: BreakdownDimension.REFERRER,
+    value: 'google.com',
+    count: 30,
+    uniqueVisitors: null,
+  },
+];
+
+async function* source(items: IAccessExportRow[]): AsyncGenerator<IAccessExportRow> {
+  yield* items;
+}
+
+const serialize = async (items: IAccessExportRow[], format: AccessExportFormat): Promise<string> => {
+  let output = '';
+
+  for await (const chunk of serializeExportRows(source(items), format)) {
+    output += chunk;
+  }
+
+  return output;
+};
+
+describe('accessExport', () => {
+  describe('toCsvLine', () => {
+    it('should leave empty fields for null values', () => {
+      expect(toCsvLine(rows[0])).toBe('home,hour,2026-01-01T10:00:00.000Z,,,42,37\r\n');
+    });
+
+    it('should quote separators and neutralize formulas', () => {
+      const line = toCsvLine({ ...rows[1], dimension: BreakdownDimension.UTM_CAMPAIGN, value: '=HYPERLINK("x"),a' });
+
+      expect(line).toBe('home,hour,2026-01-01T10:00:00.000Z,utm_campaign,"\'=HYPERLINK(""x""),a",30,\r\n');
+    });
+  });
+
+  describe('serializeExportRows', () => {
+    it('should write a CSV header followed by the rows', async () => {
+      const csv = await serialize(rows, AccessExportFormat.CSV);
+
+      expect(csv.split('\r\n')).toEqual([
+        'key,granularity,bucketStart,dimension,value,count,uniqueVisitors',
+        'home,hour,2026-01-01T10:00:00.000Z,,,42,37',
+        'home,hour,2026-01-01T10:00:00.000Z,referrer,google.com,30,',
+        '',
+      ]);
+    });
+
+    it('should write one object per line in NDJSON', async () => {
+      const lines = (await serialize(rows, AccessExportFormat.NDJSON)).trim().split('\n');
+
+      expect(lines.map(line => JSON.parse(line))).toEqual([
+        { ...rows[0], bucketStart: bucketStart.toISOString() },
+        { ...rows[1], bucketStart: bucketStart.toISOString() },
+      ]);
+    });
+
+    it('should write a valid JSON array, even when empty', async () => {
+      expect(JSON.parse(await serialize(rows, AccessExportFormat.JSON))).toHaveLength(2);
+      expect(JSON.parse(await serialize([], AccessExportFormat.JSON))).toEqual([]);
+    });
+  });
+
+  describe('exportFileName', () => {
+    it('should include the key, granularity and range', () => {
+      const fileName = exportFileName({
+        key: 'home',
+        granularity: HistoryGranularity.DAY,
+        from: new Date('2026-01-01T00:00:00.000Z'),
+        to: new Date('2026-02-01T00:00:00.000Z'),
+        format: AccessExportFormat.NDJSON,
+      });
+
+      expect(fileName).toBe('access-home-day-20260101T000000Z-20260201T000000Z.ndjson');
+    });
+  });
+});
@@ -0,0 +1,43 @@
+import {
+  anomalyScore,
+  anomalySeverity,
+  compareSeverity,
+  median,
+  robustBaseline,
+} from '../../../src/utils/anomaly';
+import { AnomalySeverity } from '../../../src/types';
+
+describe('anomaly', () => {
+  describe('robustBaseline', () => {
+    it('should compute the median and the median absolute deviation', () => {
+      expect(median([])).toBe(0);
+      expect(median([4, 1, 3, 2])).toBe(2.5);
+      expect(robustBaseline([10, 12, 9, 11, 300])).toEqual({ median: 11, mad: 1, points: 5 });
+    });
+  });
+
+  describe('anomalyScore', () => {
+    it('should not be pulled by previous spikes in the baseline', () => {
+      const values = [10, 12, 9, 11, 300];
+
+      expect(anomalyScore(11, robustBaseline(values), values)).toBe(0);
+      expect(anomalyScore(80, robustBaseline(values), values)).toBeGreaterThan(10);
+    });
+
+    it('should stay finite for constant traffic', () => {
+      const values = [0, 0, 0, 0];
+
+      expect(anomalyScore(40, robustBaseline(values), values)).toBe(40);
+    });
+  });
+
+  describe('anomalySeverity', () => {
+    it('should grade scores by multiples of the threshold', () => {
+      expect(anomalySeverity(3, 3.5)).toBeNull();
+      expect(anomalySeverity(3.5, 3.5)).toBe(AnomalySeverity.LOW);
+      expect(anomalySeverity(7, 3.5)).toBe(AnomalySeverity.MEDIUM);
+      expect(anomalySeverity(20, 3.5)).toBe(AnomalySeverity.HIGH);
+      expect(compareSeverity(AnomalySeverity.MEDIUM, AnomalySeverity.HIGH)).toBeLessThan(0);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { formatBadgeCount, renderBadge, resolveBadgeColor } from '../../../src/utils/badge';
+import { BadgeNumberFormat } from '../../../src/types';
+
+describe('badge', () => {
+  describe('formatBadgeCount', () => {
+    it('should abbreviate large numbers by default', () => {
+      expect(formatBadgeCount(0)).toBe('0');
+      expect(formatBadgeCount(999)).toBe('999');
+      expect(formatBadgeCount(1000)).toBe('1k');
+      expect(formatBadgeCount(1234)).toBe('1.2k');
+      expect(formatBadgeCount(15678)).toBe('16k');
+      expect(formatBadgeCount(999600)).toBe('1M');
+      expect(formatBadgeCount(2_450_000_000)).toBe('2.5B');
+    });
+
+    it('should support full and raw formats', () => {
+      expect(formatBadgeCount(1234567, BadgeNumberFormat.FULL)).toBe('1,234,567');
+      expect(formatBadgeCount(1234567, BadgeNumberFormat.RAW)).toBe('1234567');
+    });
+  });
+
+  describe('resolveBadgeColor', () => {
+    it('should accept named and hexadecimal colors', () => {
+      expect(resolveBadgeColor('brightgreen')).toBe('#4c1');
+      expect(resolveBadgeColor('FF69B4')).toBe('#ff69b4');
+      expect(resolveBadgeColor('#abc')).toBe('#abc');
+    });
+
+    it('should reject unknown colors', () => {
+      expect(resolveBadgeColor('url(#x)')).toBeUndefined();
+      expect(resolveBadgeColor('12345')).toBeUndefined();
+    });
+  });
+
+  describe('renderBadge', () => {
+    it('should render label and message', () => {
+      const svg = renderBadge({ label: 'acessos', message: '1.2k', color: '#4c1', labelColor: '#555' });
+
+      expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg"')).toBe(true);
+      expect(svg).toContain('<title>acessos: 1.2k</title>');
+      expect(svg).toContain('fill="#4c1"');
+      expect(svg).toContain('fill="#555"');
+    });
+
+    it('should escape the label', () => {
+      const svg = renderBadge({ label: '<script>&', message: '1', color: '#4c1', labelColor: '#555' });
+
+      expect(svg).not.toContain('<script>');
+      expect(svg).toContain('&lt;script&gt;&amp;');
+    });
+
+    it('should render only the message without a label', () => {
+      const svg = renderBadge({ label: '', message: '42', color: '#4c1', labelColor: '#555' });
+
+      expect(svg).toContain('<title>42</title>');
+      expect(svg).not.toContain('fill="#555"');
+    });
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  isOriginAllowed,
+  normalizeOrigin,
+  resolveCounterScopes,
+} from '../../../src/utils/counterAccess';
+import { CounterScope, CounterVisibility, ICounterAccessPolicy, UserRole } from '../../../src/types';
+
+const policy = (overrides: Partial<ICounterAccessPolicy> = {}): ICounterAccessPolicy => ({
+  key: 'home',
+  owner: null,
+  visibility: CounterVisibility.PUBLIC,
+  allowedOrigins: [],
+  ...overrides,
+});
+
+const user = (id: string, role: UserRole = UserRole.USER) => ({ id, email: `${id}@example.com`, role });
+
+describe('counterAccess', () => {
+  describe('normalizeOrigin', () => {
+    it('should keep only scheme, host and port', () => {
+      expect(normalizeOrigin('https://Site.com/')).toBe('https://site.com');
+      expect(normalizeOrigin('http://localhost:8080')).toBe('http://localhost:8080');
+      expect(normalizeOrigin('https://*.Site.com')).toBe('https://*.site.com');
+    });
+
+    it('should reject paths and other schemes', () => {
+      expect(normalizeOrigin('https://site.com/blog')).toBeNull();
+      expect(normalizeOrigin('ftp://site.com')).toBeNull();
+      expect(normalizeOrigin('site.com')).toBeNull();
+    });
+  });
+
+  describe('isOriginAllowed', () => {
+    it('should match exact origins and subdomain wildcards', () => {
+      const allowed = ['https://site.com', 'https://*.cdn.site.com'];
+
+      expect(isOriginAllowed('https://site.com', allowed)).toBe(true);
+      expect(isOriginAllowed('https://img.cdn.site.com', allowed)).toBe(true);
+      expect(isOriginAllowed('http://site.com', allowed)).toBe(false);
+      expect(isOriginAllowed('https://evilsite.com', allowed)).toBe(false);
+      expect(isOriginAllowed('https://cdn.site.com', allowed)).toBe(false);
+    });
+  });
+
+  describe('resolveCounterScopes', () => {
+    const anonymous = { user: null, apiKey: null };
+
+    it('should let anyone read and increment public counters only', () => {
+      expect(resolveCounterScopes(anonymous, policy())).toEqual([CounterScope.READ, CounterScope.INCREMENT]);
+      expect(resolveCounterScopes(anonymous, policy({ visibility: CounterVisibility.PRIVATE }))).toEqual([]);
+    });
+
+    it('should grant every scope to admins and the owner and reads to operators', () => {
+      const privateCounter = policy({ owner: 'owner', visibility: CounterVisibility.PRIVATE });
+
+      const scopesOf = (id: string, role?: UserRole) =>
+        resolveCounterScopes({ user: user(id, role), apiKey: null }, privateCounter);
+
+      expect(scopesOf('owner')).toHaveLength(3);
+      expect(scopesOf('root', UserRole.ADMIN)).toHaveLength(3);
+      expect(scopesOf('ops', UserRole.OPERATOR)).toEqual([CounterScope.READ]);
+      expect(scopesOf('other')).toEqual([]);
+    });
+
+    it('should limit API keys to their scopes and counters', () => {
+      const privateCounter = policy({ owner: 'owner', visibility: CounterVisibility.PRIVATE });
+      const apiKey = { id: 'k1', scopes: [CounterScope.INCREMENT], counters: [] };
+
+      expect(resolveCounterScopes({ user: user('owner'), apiKey }, privateCounter)).toEqual([CounterScope.INCREMENT]);
+      const otherCounterKey = { ...apiKey, counters: ['about'] };
+
+      expect(resolveCounterScopes({ user: user('owner'), apiKey: otherCounterKey }, privateCounter)).toEqual([]);
+      expect(resolveCounterScopes({ user: user('other'), apiKey }, privateCounter)).toEqual([]);
+    });
+  });
+});
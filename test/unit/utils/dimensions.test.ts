@@ -0,0 +1,107 @@
+import { Request } from 'express';
+import {
+  DIRECT_REFERRER,
+  extractAccessDimensions,
+  normalizeReferrer,
+  parseUserAgent,
+} from '../../../src/utils/dimensions';
+import { config } from '../../../src/config/environment';
+
+const CHROME_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+const EDGE_WINDOWS = `${CHROME_WINDOWS} Edg/126.0.0.0`;
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+const FIREFOX_ANDROID_TABLET = 'Mozilla/5.0 (Android 14; Tablet; rv:127.0) Gecko/127.0 Firefox/127.0';
+
+/**
+ * Monta uma requisição mínima com headers, body e query
+ */
+const buildRequest = (
+  headers: Record<string, string> = {},
+  body: Record<string, unknown> = {},
+  query: Record<string, unknown> = {}
+): Request =>
+  ({
+    body,
+    query,
+    get: (name: string) => headers[name.toLowerCase()],
+  }) as unknown as Request;
+
+describe('dimensions', () => {
+  describe('parseUserAgent', () => {
+    it('should identify browser, os and device', () => {
+      expect(parseUserAgent(CHROME_WINDOWS)).toEqual({ browser: 'Chrome', os: 'Windows', device: 'desktop' });
+      expect(parseUserAgent(SAFARI_IPHONE)).toEqual({ browser: 'Safari', os: 'iOS', device: 'mobile' });
+      expect(parseUserAgent(FIREFOX_ANDROID_TABLET)).toEqual({
+        browser: 'Firefox',
+        os: 'Android',
+        device: 'tablet',
+      });
+    });
+
+    it('should prefer specific browsers over the engines they embed', () => {
+      expect(parseUserAgent(EDGE_WINDOWS).browser).toBe('Edge');
+    });
+
+    it('should handle missing and unknown user agents', () => {
+      expect(parseUserAgent(undefined)).toEqual({ browser: 'Unknown', os: 'Unknown', device: 'unknown' });
+      expect(parseUserAgent('curl/8.5.0').browser).toBe('Other');
+    });
+  });
+
+  describe('normalizeReferrer', () => {
+    it('should keep only the host without www', () => {
+      expect(normalizeReferrer('https://www.Google.com/search?q=anota')).toBe('google.com');
+      expect(normalizeReferrer('http://news.example.com/a/b')).toBe('news.example.com');
+    });
+
+    it('should ignore invalid referrers', () => {
+      expect(normalizeReferrer('not a url')).toBeUndefined();
+      expect(normalizeReferrer('android-app://com.example')).toBeUndefined();
+      expect(normalizeReferrer(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('extractAccessDimensions', () => {
+    it('should extract dimensions from headers and client fields', () => {
+      const dimensions = extractAccessDimensions(
+        buildRequest(
+          { 'user-agent': CHROME_WINDOWS, referer: 'https://site.example.com/landing' },
+          { path: '/cardapio?utm_source=Newsletter&utm_campaign=promo', source: 'App' },
+          { utm_medium: 'email' }
+        )
+      );
+
+      expect(dimensions).toEqual({
+        referrer: 'site.example.com',
+        path: '/cardapio',
+        source: 'app',
+        browser: 'Chrome',
+        os: 'Windows',
+        device: 'desktop',
+        utm_source: 'newsletter',
+        utm_medium: 'email',
+        utm_campaign: 'promo',
+      });
+    });
+
+    it('should prefer the client referrer and fall back to direct', () => {
+      const client = extractAccessDimensions(
+        buildRequest({ referer: 'https://site.example.com/' }, { referrer: 'https://t.co/abc' })
+      );
+      const direct = extractAccessDimensions(buildRequest());
+
+      expect(client.referrer).toBe('t.co');
+      expect(direct.referrer).toBe(DIRECT_REFERRER);
+      expect(direct.path).toBeUndefined();
+      expect(direct.utm_source).toBeUndefined();
+    });
+
+    it('should truncate long values', () => {
+      const dimensions = extractAccessDimensions(buildRequest({}, { source: 'x'.repeat(1000) }));
+
+      expect(dimensions.source).toHaveLength(config.breakdown.maxValueLength);
+    });
+  });
+});
@@ -0,0 +1,62 @@
+import {
+  estimateCardinality,
+  hllRegisterFor,
+  mergeHllRegisters,
+  HllRegisters,
+  HLL_REGISTER_COUNT,
+} from '../../../src/utils/hyperloglog';
+
+/**
+ * Constrói um sketch a partir de uma lista de valores
+ */
+const buildSketch = (values: string[]): HllRegisters => {
+  const registers: HllRegisters = {};
+
+  for (const value of values) {
+    const { index, rank } = hllRegisterFor(value);
+    registers[index] = Math.max(registers[index] ?? 0, rank);
+  }
+
+  return registers;
+};
+
+const range = (start: number, end: number): string[] =>
+  Array.from({ length: end - start }, (_, i) => `visitor-${start + i}`);
+
+describe('HyperLogLog', () => {
+  it('should be deterministic for the same value', () => {
+    expect(hllRegisterFor('visitor-1')).toEqual(hllRegisterFor('visitor-1'));
+  });
+
+  it('should map values into the register range', () => {
+    const { index, rank } = hllRegisterFor('visitor-1');
+
+    expect(index).toBeGreaterThanOrEqual(0);
+    expect(index).toBeLessThan(HLL_REGISTER_COUNT);
+    expect(rank).toBeGreaterThanOrEqual(1);
+  });
+
+  it('should return 0 for empty sketches', () => {
+    expect(estimateCardinality(undefined)).toBe(0);
+    expect(estimateCardinality({})).toBe(0);
+  });
+
+  it('should ignore repeated visitors', () => {
+    const sketch = buildSketch(['a', 'a', 'a', 'b', 'b']);
+
+    expect(estimateCardinality(sketch)).toBe(2);
+  });
+
+  it('should estimate large cardinalities within 5%', () => {
+    const estimate = estimateCardinality(buildSketch(range(0, 50000)));
+
+    expect(Math.abs(estimate - 50000) / 50000).toBeLessThan(0.05);
+  });
+
+  it('should merge sketches as a set union', () => {
+    const merged = mergeHllRegisters(buildSketch(range(0, 600)), buildSketch(range(300, 900)));
+    const estimate = estimateCardinality(merged);
+
+    expect(Math.abs(estimate - 900) / 900).toBeLessThan(0.05);
+  });
+});
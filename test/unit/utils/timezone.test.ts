@@ -0,0 +1,48 @@
+import { isValidTimeZone, nextPeriodStart, startOfPeriod } from '../../../src/utils/timezone';
+import { ResetPeriod } from '../../../src/types';
+
+describe('timezone', () => {
+  it('should validate IANA time zones', () => {
+    expect(isValidTimeZone('UTC')).toBe(true);
+    expect(isValidTimeZone('America/Sao_Paulo')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+
+  it('should align periods to local midnight', () => {
+    // 02:30 UTC ainda é o dia anterior em São Paulo (UTC-3)
+    const date = new Date('2026-03-11T02:30:00Z');
+
+    expect(startOfPeriod(date, ResetPeriod.DAILY, 'UTC').toISOString()).toBe('2026-03-11T00:00:00.000Z');
+    expect(startOfPeriod(date, ResetPeriod.DAILY, 'America/Sao_Paulo').toISOString()).toBe(
+      '2026-03-10T03:00:00.000Z'
+    );
+    expect(nextPeriodStart(date, ResetPeriod.DAILY, 'America/Sao_Paulo').toISOString()).toBe(
+      '2026-03-11T03:00:00.000Z'
+    );
+  });
+
+  it('should start weeks on monday and handle month boundaries', () => {
+    // Domingo
+    const sunday = new Date('2026-03-15T12:00:00Z');
+
+    expect(startOfPeriod(sunday, ResetPeriod.WEEKLY, 'UTC').toISOString()).toBe('2026-03-09T00:00:00.000Z');
+    expect(nextPeriodStart(sunday, ResetPeriod.WEEKLY, 'UTC').toISOString()).toBe('2026-03-16T00:00:00.000Z');
+
+    const december = new Date('2026-12-31T23:00:00Z');
+
+    expect(startOfPeriod(december, ResetPeriod.MONTHLY, 'UTC').toISOString()).toBe('2026-12-01T00:00:00.000Z');
+    expect(nextPeriodStart(december, ResetPeriod.MONTHLY, 'UTC').toISOString()).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  it('should account for daylight saving time changes', () => {
+    // Nova York adianta o relógio em 08/03/2026: o dia tem 23 horas
+    const date = new Date('2026-03-08T12:00:00Z');
+
+    expect(startOfPeriod(date, ResetPeriod.DAILY, 'America/New_York').toISOString()).toBe(
+      '2026-03-08T05:00:00.000Z'
+    );
+    expect(nextPeriodStart(date, ResetPeriod.DAILY, 'America/New_York').toISOString()).toBe(
+      '2026-03-09T04:00:00.000Z'
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateHotp,
+  generateTotp,
+  generateTotpSecret,
+  totpStep,
+  verifyTotp,
+} from '../../../src/utils/totp';
+import { decryptSecret, encryptSecret } from '../../../src/utils/crypto';
+
+// Segredo dos vetores de teste das RFCs 4226 e 6238 ("12345678901234567890")
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+      expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    });
+
+    it('should ignore case, spaces and padding when decoding', () => {
+      expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+      expect(() => base32Decode('MZXW1')).toThrow('Caractere base32 inválido');
+    });
+  });
+
+  it('should match the RFC 4226 HOTP test vectors', () => {
+    const key = Buffer.from('12345678901234567890');
+    const expected = ['755224', '287082', '359152', '969429', '338314'];
+
+    expected.forEach((code, counter) => expect(generateHotp(key, counter)).toBe(code));
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors (last 6 digits)', () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000)).toBe('287082');
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+    expect(generateTotp(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+    expect(generateTotp(RFC_SECRET, 2000000000 * 1000)).toBe('279037');
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1234567890 * 1000;
+
+    it('should accept codes from adjacent steps and return the matched step', () => {
+      const previous = generateTotp(RFC_SECRET, now - 30 * 1000);
+
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now), now)).toBe(totpStep(now));
+      expect(verifyTotp(RFC_SECRET, previous, now)).toBe(totpStep(now) - 1);
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, now - 90 * 1000), now)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '12345', now)).toBeNull();
+      expect(verifyTotp(RFC_SECRET, 'abcdef', now)).toBeNull();
+    });
+  });
+
+  it('should generate 160-bit secrets and otpauth URIs', () => {
+    const secret = generateTotpSecret();
+    const uri = new URL(buildOtpauthUri(secret, 'joao@test.com', 'Anota AI'));
+
+    expect(base32Decode(secret)).toHaveLength(20);
+    expect(uri.protocol).toBe('otpauth:');
+    expect(uri.host).toBe('totp');
+    expect(decodeURIComponent(uri.pathname)).toBe('/Anota AI:joao@test.com');
+    expect(uri.searchParams.get('secret')).toBe(secret);
+    expect(uri.searchParams.get('issuer')).toBe('Anota AI');
+  });
+
+  it('should encrypt secrets for storage', () => {
+    const encrypted = encryptSecret(RFC_SECRET, 'chave');
+
+    expect(encrypted).not.toContain(RFC_SECRET);
+    expect(decryptSecret(encrypted, 'chave')).toBe(RFC_SECRET);
+    expect(() => decryptSecret(encrypted, 'outra-chave')).toThrow();
+  });
+});
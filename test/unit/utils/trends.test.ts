@@ -0,0 +1,75 @@
+import {
+  addPeriods,
+  fillPeriods,
+  linearForecast,
+  percentageChange,
+  startOfTrendPeriod,
+  yearAgo,
+} from '../../../src/utils/trends';
+import { TrendPeriod } from '../../../src/types';
+
+describe('trends', () => {
+  describe('startOfTrendPeriod', () => {
+    it('should align weeks to Monday in UTC', () => {
+      const start = startOfTrendPeriod(new Date('2026-10-18T23:30:00Z'), TrendPeriod.WEEK);
+
+      expect(start).toEqual(new Date('2026-10-12T00:00:00Z'));
+    });
+  });
+
+  describe('addPeriods', () => {
+    it('should move across month and year boundaries', () => {
+      const start = new Date('2026-01-01T00:00:00Z');
+
+      expect(addPeriods(start, TrendPeriod.MONTH, -1)).toEqual(new Date('2025-12-01T00:00:00Z'));
+      expect(addPeriods(start, TrendPeriod.MONTH, 13)).toEqual(new Date('2027-02-01T00:00:00Z'));
+      expect(addPeriods(start, TrendPeriod.WEEK, 2)).toEqual(new Date('2026-01-15T00:00:00Z'));
+    });
+  });
+
+  describe('fillPeriods', () => {
+    it('should fill the periods without accesses with zero', () => {
+      const from = new Date('2026-01-01T00:00:00Z');
+      const to = new Date('2026-01-04T00:00:00Z');
+      const filled = fillPeriods([{ start: new Date('2026-01-02T00:00:00Z'), count: 5 }], TrendPeriod.DAY, from, to);
+
+      expect(filled).toEqual([
+        { start: new Date('2026-01-01T00:00:00Z'), count: 0 },
+        { start: new Date('2026-01-02T00:00:00Z'), count: 5 },
+        { start: new Date('2026-01-03T00:00:00Z'), count: 0 },
+      ]);
+    });
+  });
+
+  describe('yearAgo', () => {
+    it('should keep the weekday for days and weeks', () => {
+      const monday = new Date('2026-10-12T00:00:00Z');
+
+      expect(yearAgo(monday, TrendPeriod.DAY).getUTCDay()).toBe(1);
+      expect(yearAgo(monday, TrendPeriod.WEEK)).toEqual(new Date('2025-10-13T00:00:00Z'));
+      expect(yearAgo(new Date('2026-10-01T00:00:00Z'), TrendPeriod.MONTH)).toEqual(new Date('2025-10-01T00:00:00Z'));
+    });
+  });
+
+  describe('percentageChange', () => {
+    it('should round to two decimals and return null without a base', () => {
+      expect(percentageChange(150, 120)).toBe(25);
+      expect(percentageChange(1, 3)).toBe(-66.67);
+      expect(percentageChange(10, 0)).toBeNull();
+    });
+  });
+
+  describe('linearForecast', () => {
+    it('should extrapolate the least squares line', () => {
+      // y = 2x + 1 para x = 1..3
+      const sums = { n: 3, sx: 6, sy: 15, sxy: 34, sxx: 14 };
+
+      expect(linearForecast(sums, 4)).toBeCloseTo(9);
+    });
+
+    it('should fall back to the mean with a single point', () => {
+      expect(linearForecast({ n: 1, sx: 1, sy: 7, sxy: 7, sxx: 1 }, 2)).toBe(7);
+      expect(linearForecast({ n: 0, sx: 0, sy: 0, sxy: 0, sxx: 0 }, 1)).toBe(0);
+    });
+  });
+});